@@ -0,0 +1,84 @@
+import {
+  getAccessoryDefinition,
+  loadAccessoryDefinitions,
+  parseAccessoryDefinition,
+  retainCharacterAccessories,
+} from '../src/components/character3d/accessoryDefinitions';
+
+const wizardHat = {
+  id: 'wizard_hat',
+  attach: 'head',
+  offset: [0, 0.3, 0],
+  parts: [
+    { shape: 'cylinder', size: [0.38, 0.38, 0.03] },
+    { shape: 'sphere', size: [0.04], position: [0, 0.52, 0], color: '#ffd700', glow: true },
+  ],
+};
+
+describe('parseAccessoryDefinition', () => {
+  it('normalizes a definition for rendering', () => {
+    const definition = parseAccessoryDefinition(wizardHat);
+
+    expect(definition).toMatchObject({
+      id: 'wizard_hat',
+      name: 'wizard_hat',
+      attach: 'head',
+      offset: [0, 0.3, 0],
+      rotation: [0, 0, 0],
+      scale: 1,
+    });
+    expect(definition.parts[0]).toEqual({
+      shape: 'cylinder',
+      args: [0.38, 0.38, 0.03, 16],
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      color: 'accessory',
+      roughness: 0.7,
+      metalness: 0,
+      opacity: 1,
+      glow: false,
+    });
+    expect(definition.parts[1]).toMatchObject({ args: [0.04, 16, 12], color: '#ffd700', glow: true });
+  });
+
+  it('maps "hand" to the right hand and clamps sizes, offsets and scale', () => {
+    const definition = parseAccessoryDefinition({
+      id: 'staff',
+      attach: 'hand',
+      scale: 10,
+      parts: [{ shape: 'box', size: [-5, 0, 0.1], position: [0, 9, 0], opacity: 0 }],
+    });
+
+    expect(definition.attach).toBe('right_hand');
+    expect(definition.scale).toBe(3);
+    expect(definition.parts[0].args).toEqual([1.5, 0.002, 0.1]);
+    expect(definition.parts[0].position).toEqual([0, 1.5, 0]);
+    expect(definition.parts[0].opacity).toBe(0.05);
+  });
+
+  it.each([
+    [{ ...wizardHat, id: ' ' }, 'missing id'],
+    [{ ...wizardHat, attach: 'tail' }, 'unknown attachment point "tail"'],
+    [{ ...wizardHat, parts: [] }, 'missing parts'],
+    [{ ...wizardHat, offset: [0, 1] }, 'offset must be [x, y, z]'],
+    [{ ...wizardHat, parts: [{ shape: 'pyramid', size: [1] }] }, 'part 0 has unknown shape "pyramid"'],
+    [{ ...wizardHat, parts: [{ shape: 'cone', size: [0.2] }] }, 'part 0 (cone) needs 2 size values'],
+    [{ ...wizardHat, parts: [{ shape: 'box', size: [1, 1, 1], color: 'teal' }] }, 'part 0 has unknown color "teal"'],
+  ])('rejects invalid definitions (%#)', (raw, reason) => {
+    expect(() => parseAccessoryDefinition(raw)).toThrow(reason);
+  });
+});
+
+describe('retainCharacterAccessories', () => {
+  it('keeps accessories registered until the last user releases them', () => {
+    loadAccessoryDefinitions([wizardHat], 'merlin');
+    const releaseFirst = retainCharacterAccessories('merlin');
+    const releaseSecond = retainCharacterAccessories('merlin');
+
+    releaseFirst();
+    expect(getAccessoryDefinition('wizard_hat', 'merlin')).not.toBeNull();
+
+    releaseSecond();
+    expect(getAccessoryDefinition('wizard_hat', 'merlin')).toBeNull();
+  });
+});
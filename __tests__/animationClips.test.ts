@@ -0,0 +1,131 @@
+import {
+  applyEasing,
+  blendPoses,
+  parseAnimationClip,
+  retainCharacterClips,
+  registerAnimationClip,
+  getAnimationClip,
+  sampleClip,
+} from '../src/components/character3d/animationClips';
+
+const wave = {
+  id: 'test_wave',
+  state: 'wave',
+  duration: 2,
+  loop: false,
+  tracks: {
+    'rightArm.rotation.x': -2.5,
+    'rightForearm.rotation.x': { keys: [[1, -1], [0, 0], [2, 1, 'step']] },
+    'body.position.y': { period: 0.5, keys: [[0, 0], [0.5, 1]] },
+    'mouth.scale.y': { activeOnly: true, keys: [[0, 2]] },
+  },
+};
+
+describe('parseAnimationClip', () => {
+  it('normalizes defaults and sorts keys', () => {
+    const clip = parseAnimationClip({ ...wave, loop: undefined });
+
+    expect(clip.loop).toBe(true);
+    expect(clip.blendIn).toBe(0.25);
+    const forearm = clip.tracks.find(track => track.channel === 'rightForearm.rotation.x')!;
+    expect(forearm.keys.map(key => key.time)).toEqual([0, 1, 2]);
+  });
+
+  it('rejects bad channels, keys and easings with the clip id', () => {
+    expect(() => parseAnimationClip({ ...wave, tracks: { 'tail.rotation.x': 1 } }))
+      .toThrow('Invalid animation clip "test_wave": unknown channel "tail.rotation.x"');
+    expect(() => parseAnimationClip({ ...wave, tracks: { 'head.rotation.x': { keys: [] } } }))
+      .toThrow('has no keys');
+    expect(() => parseAnimationClip({ ...wave, tracks: { 'head.rotation.x': { keys: [[0, 1, 'wobble']] } } }))
+      .toThrow('unknown easing "wobble"');
+    expect(() => parseAnimationClip({ ...wave, duration: 0 })).toThrow('duration must be a positive number');
+  });
+});
+
+describe('sampleClip', () => {
+  const clip = parseAnimationClip(wave);
+
+  it('holds the first and last key outside the keyed range', () => {
+    expect(sampleClip(clip, 0)['rightForearm.rotation.x']).toBe(0);
+    expect(sampleClip(clip, 5)['rightForearm.rotation.x']).toBe(1);
+  });
+
+  it('interpolates between keys with the easing of the earlier key', () => {
+    expect(sampleClip(clip, 0.5)['rightForearm.rotation.x']).toBeCloseTo(-0.5);
+    // A 'step' key holds its value until the next key
+    const stepped = parseAnimationClip({ ...wave, tracks: { 'head.rotation.x': { keys: [[0, 0, 'step'], [1, 1]] } } });
+    expect(sampleClip(stepped, 0.9)['head.rotation.x']).toBe(0);
+  });
+
+  it('clamps a one-shot clip and loops a looping one', () => {
+    const looping = parseAnimationClip({ ...wave, loop: true });
+
+    expect(sampleClip(clip, 2.5)['rightForearm.rotation.x']).toBe(1);
+    expect(sampleClip(looping, 2.5)['rightForearm.rotation.x']).toBeCloseTo(-0.5);
+  });
+
+  it('loops tracks with their own period', () => {
+    expect(sampleClip(clip, 0.25)['body.position.y']).toBeCloseTo(0.5);
+    expect(sampleClip(clip, 1.75)['body.position.y']).toBeCloseTo(0.5);
+  });
+
+  it('rests active-only tracks while the character is listening', () => {
+    expect(sampleClip(clip, 0, true)['mouth.scale.y']).toBe(2);
+    expect(sampleClip(clip, 0, false)['mouth.scale.y']).toBe(1);
+  });
+
+  it('keeps constant tracks constant', () => {
+    expect(sampleClip(clip, 1.3)['rightArm.rotation.x']).toBe(-2.5);
+  });
+});
+
+describe('applyEasing', () => {
+  it('starts at 0 and ends at 1', () => {
+    (['linear', 'easeInQuad', 'easeOutQuad', 'easeInOutQuad', 'easeInSine', 'easeOutSine', 'easeInOutSine', 'easeOutBack'] as const)
+      .forEach(easing => {
+        expect(applyEasing(easing, 0)).toBeCloseTo(0);
+        expect(applyEasing(easing, 1)).toBeCloseTo(1);
+      });
+  });
+
+  it('shapes the middle of the curve', () => {
+    expect(applyEasing('easeInQuad', 0.5)).toBeCloseTo(0.25);
+    expect(applyEasing('easeOutQuad', 0.5)).toBeCloseTo(0.75);
+    expect(applyEasing('easeInOutSine', 0.5)).toBeCloseTo(0.5);
+    expect(applyEasing('step', 0.99)).toBe(0);
+    expect(applyEasing('easeOutBack', 0.8)).toBeGreaterThan(1);
+  });
+});
+
+describe('blendPoses', () => {
+  it('mixes by weight and blends missing channels against rest', () => {
+    const pose = blendPoses(
+      { 'head.rotation.x': 1, 'mouth.scale.y': 2 },
+      { 'head.rotation.x': 3 },
+      0.25
+    );
+
+    expect(pose['head.rotation.x']).toBeCloseTo(1.5);
+    expect(pose['mouth.scale.y']).toBeCloseTo(1.75);
+  });
+
+  it('returns the target pose at full weight', () => {
+    const to = { 'head.rotation.x': 3 };
+    expect(blendPoses({ 'head.rotation.x': 1 }, to, 1)).toBe(to);
+    expect(blendPoses({ 'head.rotation.x': 1 }, to, 0)['head.rotation.x']).toBe(1);
+  });
+});
+
+describe('retainCharacterClips', () => {
+  it('keeps signature clips until the last user releases them', () => {
+    registerAnimationClip(parseAnimationClip({ ...wave, id: 'robot_wave' }), 'robot');
+    const releaseA = retainCharacterClips('robot');
+    const releaseB = retainCharacterClips('robot');
+
+    releaseA();
+    expect(getAnimationClip('wave', 'robot')?.id).toBe('robot_wave');
+
+    releaseB();
+    expect(getAnimationClip('wave', 'robot')?.id).not.toBe('robot_wave');
+  });
+});
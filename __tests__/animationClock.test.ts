@@ -0,0 +1,54 @@
+import { ManualClock } from '../src/services/animationClock';
+
+describe('ManualClock', () => {
+  it('only moves when advanced', () => {
+    const clock = new ManualClock(1000);
+    expect(clock.now()).toBe(1000);
+
+    clock.advance(1000 / 30);
+    clock.advance(1000 / 30);
+
+    expect(clock.now()).toBeCloseTo(1000 + 2000 / 30);
+  });
+
+  it('runs pending frames once, at the new time', () => {
+    const clock = new ManualClock();
+    const frame = jest.fn();
+    clock.requestFrame(frame);
+
+    clock.advance(16);
+    clock.advance(16);
+
+    expect(frame).toHaveBeenCalledTimes(1);
+    expect(frame).toHaveBeenCalledWith(16);
+    expect(clock.getPendingCount()).toBe(0);
+  });
+
+  it('runs frames requested during a pass on the next advance', () => {
+    const clock = new ManualClock();
+    const times: number[] = [];
+    const loop = (time: number) => {
+      times.push(time);
+      clock.requestFrame(loop);
+    };
+    clock.requestFrame(loop);
+
+    clock.advance(10);
+    expect(times).toEqual([10]);
+    expect(clock.getPendingCount()).toBe(1);
+
+    clock.advance(10);
+    expect(times).toEqual([10, 20]);
+  });
+
+  it('cancels a pending frame', () => {
+    const clock = new ManualClock();
+    const frame = jest.fn();
+    const id = clock.requestFrame(frame);
+
+    clock.cancelFrame(id);
+    clock.advance(16);
+
+    expect(frame).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  parseConversationImport,
+  toMarkdown,
+  ConversationImportError,
+  CONVERSATION_EXPORT_FORMAT,
+} from '../src/services/conversationExportService';
+
+jest.mock('../src/lib/supabase', () => ({ supabase: {} }));
+
+jest.mock('../src/config/characters', () => ({
+  getCharacter: (id: string) => ({ id, name: id.toUpperCase(), color: '#8b5cf6' }),
+}));
+
+const exportFile = (version: number, messages: any[]) => JSON.stringify({
+  format: CONVERSATION_EXPORT_FORMAT,
+  version,
+  exportedAt: '2025-01-01T12:00:00.000Z',
+  conversations: [{
+    id: 'conv-1',
+    title: 'Trip planning',
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T11:00:00.000Z',
+    selectedCharacters: ['freud'],
+    messages,
+  }],
+});
+
+const message = (id: string, parentId: string | null, role: 'user' | 'assistant', content: string, minute: number) => ({
+  id,
+  parentId,
+  role,
+  content,
+  characterId: role === 'assistant' ? 'freud' : null,
+  createdAt: `2025-01-01T10:${String(minute).padStart(2, '0')}:00.000Z`,
+  metadata: null,
+});
+
+describe('parseConversationImport', () => {
+  it('rejects files that are not Wakatto exports', () => {
+    expect(() => parseConversationImport('not json')).toThrow(ConversationImportError);
+    expect(() => parseConversationImport('{"format":"other"}')).toThrow(ConversationImportError);
+    expect(() => parseConversationImport(exportFile(99, []))).toThrow(/Unsupported export version/);
+  });
+
+  it('keeps the message tree and orders parents before replies', () => {
+    // Reply listed before its parent, and a fork at "hi"
+    const [conv] = parseConversationImport(exportFile(2, [
+      message('r2', 'u2', 'assistant', 'Rome it is', 4),
+      message('u1', null, 'user', 'hi', 0),
+      message('r1', 'u1', 'assistant', 'hello', 1),
+      message('u2', 'r1', 'user', 'Rome?', 2),
+      message('u2b', 'r1', 'user', 'Paris?', 3),
+    ]));
+
+    const ids = conv.messages.map(m => m.id);
+    expect(ids).toHaveLength(5);
+    conv.messages.forEach(m => {
+      if (m.parentId) {
+        expect(ids.indexOf(m.parentId)).toBeLessThan(ids.indexOf(m.id));
+      }
+    });
+    expect(conv.messages.find(m => m.id === 'u2b')?.parentId).toBe('r1');
+  });
+
+  it('chains version 1 messages into a single thread', () => {
+    const [conv] = parseConversationImport(exportFile(1, [
+      { role: 'user', content: 'one', createdAt: '2025-01-01T10:00:00.000Z' },
+      { role: 'system', content: 'dropped', createdAt: '2025-01-01T10:00:30.000Z' },
+      { role: 'assistant', content: 'two', characterId: 'freud', createdAt: '2025-01-01T10:01:00.000Z' },
+    ]));
+
+    expect(conv.messages.map(m => [m.content, m.parentId])).toEqual([
+      ['one', null],
+      ['two', '0'],
+    ]);
+  });
+});
+
+describe('toMarkdown', () => {
+  it('shows only the most recent branch', () => {
+    const [conv] = parseConversationImport(exportFile(2, [
+      message('u1', null, 'user', 'hi', 0),
+      message('r1', 'u1', 'assistant', 'hello', 1),
+      message('u2', 'r1', 'user', 'Rome?', 2),
+      message('u2b', 'r1', 'user', 'Paris?', 3),
+    ]));
+
+    const markdown = toMarkdown([conv]);
+    expect(markdown).toContain('> Paris?');
+    expect(markdown).not.toContain('> Rome?');
+  });
+});
@@ -0,0 +1,102 @@
+import { prepareConversationContext } from '../src/services/conversationSummaryService';
+import { generateAIResponse } from '../src/services/aiService';
+import { supabase } from '../src/lib/supabase';
+import type { ConversationMessage } from '../src/services/multiCharacterConversation';
+
+jest.mock('../src/lib/supabase', () => ({ supabase: { from: jest.fn() } }));
+
+jest.mock('../src/services/aiService', () => ({
+  getAIProvider: jest.fn(() => 'anthropic'),  // recentMessages: 20
+  generateAIResponse: jest.fn(),
+}));
+
+jest.mock('../src/config/characters', () => ({
+  getCharacter: jest.fn((id: string) => ({ name: id })),
+}));
+
+jest.mock('../src/services/multiCharacterConversation', () => ({}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockGenerateAIResponse = generateAIResponse as jest.Mock;
+
+function shortMessages(count: number): ConversationMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: i % 2 === 0 ? 'ok' : 'sure',
+    characterId: i % 2 === 0 ? undefined : 'freud',
+    timestamp: i,
+  }));
+}
+
+// Stored conversation row plus a spy on the summary update
+function mockConversation(stored: { summary: string | null; summary_through_message_id: string | null }) {
+  const update = jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) }));
+  mockFrom.mockReturnValue({
+    select: () => ({ eq: () => ({ maybeSingle: () => Promise.resolve({ data: stored, error: null }) }) }),
+    update,
+  });
+  return update;
+}
+
+describe('prepareConversationContext', () => {
+  beforeEach(() => {
+    mockFrom.mockReset();
+    mockGenerateAIResponse.mockReset();
+  });
+
+  it('sends a short conversation as-is', async () => {
+    const history = shortMessages(6);
+
+    const context = await prepareConversationContext('conv-1', history);
+
+    expect(context).toEqual({ summary: null, recentHistory: history });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('summarizes a long conversation of short messages instead of dropping turns', async () => {
+    const history = shortMessages(42);
+    const update = mockConversation({ summary: null, summary_through_message_id: null });
+    mockGenerateAIResponse.mockResolvedValue(' They chatted. ');
+
+    const context = await prepareConversationContext('conv-1', history);
+
+    // Newest half of the 20-message window stays verbatim, everything older is summarized
+    expect(context.summary).toBe('They chatted.');
+    expect(context.recentHistory).toEqual(history.slice(-10));
+    expect(mockGenerateAIResponse.mock.calls[0][0][0].content).toContain('User: ok');
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      summary: 'They chatted.',
+      summary_through_message_id: 'm31',
+    }));
+  });
+
+  it('reuses the stored summary while the unsummarized tail fits the window', async () => {
+    const history = shortMessages(45);
+    mockConversation({ summary: 'Earlier.', summary_through_message_id: 'm31' });
+
+    const context = await prepareConversationContext('conv-1', history);
+
+    expect(context).toEqual({ summary: 'Earlier.', recentHistory: history.slice(32) });
+    expect(mockGenerateAIResponse).not.toHaveBeenCalled();
+  });
+
+  it('rolls the summary forward once the tail outgrows the window', async () => {
+    const history = shortMessages(55);
+    mockConversation({ summary: 'Earlier.', summary_through_message_id: 'm31' });
+    mockGenerateAIResponse.mockResolvedValue('Earlier, and more.');
+
+    const context = await prepareConversationContext('conv-1', history);
+
+    expect(mockGenerateAIResponse.mock.calls[0][0][0].content).toContain('Previous summary:\nEarlier.');
+    expect(context).toEqual({ summary: 'Earlier, and more.', recentHistory: history.slice(-10) });
+  });
+
+  it('falls back to the most recent window without a conversation', async () => {
+    const history = shortMessages(42);
+
+    const context = await prepareConversationContext(undefined, history);
+
+    expect(context).toEqual({ summary: null, recentHistory: history.slice(-20) });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  clampRelationshipStrength,
+  extractEntities,
+  extractEntitiesWithAI,
+  MAX_RELATIONSHIP_STRENGTH,
+} from '../src/services/entityExtraction';
+import { generateAIResponse, getAIConfig } from '../src/services/aiService';
+import { extractEntities as extractEntitiesWithAx } from '../src/services/ax';
+
+jest.mock('../src/lib/supabase', () => ({ supabase: {} }));
+
+jest.mock('../src/services/aiService', () => ({
+  getAIConfig: jest.fn(),
+  generateAIResponse: jest.fn(),
+}));
+
+jest.mock('../src/services/ax', () => ({
+  getAxAI: jest.fn(() => ({})),
+  extractEntities: jest.fn(),
+  ENTITY_TYPES: ['person', 'place', 'organization', 'event', 'topic', 'emotion'],
+}));
+
+const mockGetAIConfig = getAIConfig as jest.Mock;
+const mockExtractWithAx = extractEntitiesWithAx as jest.Mock;
+const mockGenerateAIResponse = generateAIResponse as jest.Mock;
+
+describe('extractEntities (regex fallback)', () => {
+  it('finds people and places from common phrasing', () => {
+    const entities = extractEntities('Had lunch with Sarah and then we went to Lisbon');
+    expect(entities).toEqual(expect.arrayContaining([
+      { name: 'Sarah', type: 'person' },
+      { name: 'Lisbon', type: 'place' },
+    ]));
+  });
+
+  it('skips weekdays, months and duplicates', () => {
+    const entities = extractEntities('On Monday I met Alex. Alex said hi in May.');
+    const names = entities.map(e => e.name);
+    expect(names).not.toContain('Monday');
+    expect(names).not.toContain('May');
+    expect(names.filter(name => name === 'Alex')).toHaveLength(1);
+  });
+});
+
+describe('extractEntitiesWithAI', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.warn as jest.Mock).mockRestore();
+  });
+
+  it('uses the ai-chat gateway without an API key', async () => {
+    mockGetAIConfig.mockResolvedValue({ provider: 'anthropic', apiKey: '' });
+    mockGenerateAIResponse.mockResolvedValue(
+      'Here you go: {"entities":[{"name":"Emma","type":"person"}],"relationships":[]}'
+    );
+
+    const result = await extractEntitiesWithAI('Coffee with Emma');
+
+    expect(result).toEqual({ entities: [{ name: 'Emma', type: 'person' }], relationships: [], source: 'llm' });
+    expect(mockGenerateAIResponse).toHaveBeenCalledWith(
+      [{ role: 'user', content: 'Coffee with Emma' }],
+      expect.any(String),
+      'entity-extractor'
+    );
+    expect(mockExtractWithAx).not.toHaveBeenCalled();
+  });
+
+  it('falls back to regex when the gateway answers without JSON', async () => {
+    mockGetAIConfig.mockResolvedValue({ provider: 'mock', apiKey: '' });
+    mockGenerateAIResponse.mockResolvedValue('Sorry, I cannot help with that.');
+
+    const result = await extractEntitiesWithAI('Coffee with Emma');
+
+    expect(result.source).toBe('regex');
+    expect(result.relationships).toEqual([]);
+    expect(result.entities).toContainEqual({ name: 'Emma', type: 'person' });
+  });
+
+  it('falls back to regex when the LLM call fails', async () => {
+    mockGetAIConfig.mockResolvedValue({ provider: 'openai', apiKey: 'sk-test' });
+    mockExtractWithAx.mockRejectedValue(new Error('rate limited'));
+
+    const result = await extractEntitiesWithAI('Coffee with Emma');
+
+    expect(result.source).toBe('regex');
+    expect(result.entities).toContainEqual({ name: 'Emma', type: 'person' });
+  });
+
+  it('normalizes LLM entities and relationships', async () => {
+    mockGetAIConfig.mockResolvedValue({ provider: 'anthropic', apiKey: 'sk-test' });
+    mockExtractWithAx.mockResolvedValue({
+      entities: [
+        { name: ' Emma ', type: 'Person' },
+        { name: 'emma', type: 'person' },       // duplicate (case-insensitive)
+        { name: 'Lisbon', type: 'place' },
+        { name: 'Blue', type: 'color' },        // unknown type
+        { name: '   ', type: 'topic' },         // blank name
+      ],
+      relationships: [
+        { from: 'emma', to: 'LISBON', type: 'Lives In', strength: 3 },
+        { from: 'Emma', to: 'Paris', type: 'visited' },  // Paris wasn't extracted
+        { from: 'Emma', to: 'Emma', type: 'self' },      // self loop
+        { from: 'Lisbon', to: 'Emma', type: '' },
+      ],
+    });
+
+    const result = await extractEntitiesWithAI('Emma moved to Lisbon');
+
+    expect(result.source).toBe('llm');
+    expect(result.entities).toEqual([
+      { name: 'Emma', type: 'person' },
+      { name: 'Lisbon', type: 'place' },
+    ]);
+    expect(result.relationships).toEqual([
+      { from: 'Emma', to: 'Lisbon', type: 'lives_in', strength: 1 },
+      { from: 'Lisbon', to: 'Emma', type: 'related_to', strength: 1 },
+    ]);
+  });
+});
+
+describe('clampRelationshipStrength', () => {
+  it('keeps accumulated strength within range', () => {
+    expect(clampRelationshipStrength(12.5)).toBe(12.5);
+    expect(clampRelationshipStrength(MAX_RELATIONSHIP_STRENGTH + 0.7)).toBe(MAX_RELATIONSHIP_STRENGTH);
+    expect(clampRelationshipStrength(-2)).toBe(0);
+    expect(clampRelationshipStrength(NaN)).toBe(0);
+  });
+});
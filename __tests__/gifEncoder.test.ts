@@ -0,0 +1,124 @@
+import { GifEncoder } from '../src/utils/gifEncoder';
+
+// Header (13) + global color table (768) + NETSCAPE loop extension (19)
+const FIRST_FRAME_OFFSET = 13 + 768 + 19;
+
+function rgba(width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+// Minimal GIF LZW decoder: returns the palette indices and the offset after the data
+function decodeLzw(file: Uint8Array, offset: number): { indices: number[]; end: number } {
+  const minCodeSize = file[offset++];
+  const bytes: number[] = [];
+  while (file[offset] !== 0) {
+    const size = file[offset++];
+    bytes.push(...Array.from(file.slice(offset, offset + size)));
+    offset += size;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: eoiCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const indices: number[] = [];
+  let previous: number[] | null = null;
+  let bitPos = 0;
+  while (bitPos + codeSize <= bytes.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitPos++) {
+      code |= ((bytes[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === eoiCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    indices.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return { indices, end: offset + 1 };
+}
+
+describe('GifEncoder', () => {
+  it('writes a looping GIF89a with the 6x7x6 color cube', () => {
+    const file = new GifEncoder(2, 2, 100).finish();
+
+    expect(String.fromCharCode(...Array.from(file.slice(0, 6)))).toBe('GIF89a');
+    expect(Array.from(file.slice(6, 10))).toEqual([2, 0, 2, 0]);
+    // Palette entry 210 is r=5, g=0, b=0 - pure red
+    expect(Array.from(file.slice(13 + 210 * 3, 13 + 211 * 3))).toEqual([255, 0, 0]);
+    expect(String.fromCharCode(...Array.from(file.slice(13 + 768 + 3, 13 + 768 + 14)))).toBe('NETSCAPE2.0');
+    expect(file[file.length - 1]).toBe(0x3b);
+  });
+
+  it('stores the frame delay in hundredths of a second', () => {
+    const encoder = new GifEncoder(1, 1, 83);
+    encoder.addFrame(rgba(1, 1, () => [0, 0, 0]));
+    const file = encoder.finish();
+
+    expect(Array.from(file.slice(FIRST_FRAME_OFFSET, FIRST_FRAME_OFFSET + 4))).toEqual([0x21, 0xf9, 4, 0]);
+    expect(file[FIRST_FRAME_OFFSET + 4]).toBe(8);
+  });
+
+  it('LZW-encodes pixels to their palette indices', () => {
+    // Pure colors map to exact cube corners whatever the dither offset
+    const colors: [number, number, number][] = [[255, 0, 0], [0, 0, 255], [255, 255, 255], [0, 0, 0]];
+    const encoder = new GifEncoder(4, 3, 100);
+    encoder.addFrame(rgba(4, 3, (x, y) => colors[(x + y) % 4]));
+    const file = encoder.finish();
+
+    // Graphic control extension (8) + image descriptor (10)
+    const { indices, end } = decodeLzw(file, FIRST_FRAME_OFFSET + 18);
+    const red = 210;
+    const blue = 5;
+    const white = 251;
+    const black = 0;
+    const expected = [red, blue, white, black];
+    expect(indices).toEqual(Array.from({ length: 12 }, (_, i) => expected[(i % 4 + Math.floor(i / 4)) % 4]));
+    expect(file[end]).toBe(0x3b);
+  });
+
+  it('round-trips a frame long enough to grow the code size', () => {
+    // Pure channels only, so each pixel's index is known: (r * 7 + g) * 6 + b
+    const pixel = (x: number, y: number): [number, number, number] =>
+      [(x * 37) % 256 > 127 ? 255 : 0, (y * 53) % 256 > 127 ? 255 : 0, ((x ^ y) & 1) * 255];
+    const encoder = new GifEncoder(64, 64, 100);
+    encoder.addFrame(rgba(64, 64, pixel));
+    const file = encoder.finish();
+
+    const expected: number[] = [];
+    for (let y = 0; y < 64; y++) {
+      for (let x = 0; x < 64; x++) {
+        const [r, g, b] = pixel(x, y);
+        expected.push(((r ? 5 : 0) * 7 + (g ? 6 : 0)) * 6 + (b ? 5 : 0));
+      }
+    }
+    expect(decodeLzw(file, FIRST_FRAME_OFFSET + 18).indices).toEqual(expected);
+  });
+
+  it('rejects frames of the wrong size and frames after finishing', () => {
+    const encoder = new GifEncoder(2, 2, 100);
+    expect(() => encoder.addFrame(new Uint8ClampedArray(4))).toThrow('Frame is 4 bytes, expected 16');
+    encoder.finish();
+    expect(() => encoder.addFrame(rgba(2, 2, () => [0, 0, 0]))).toThrow('GIF already finished');
+  });
+});
@@ -0,0 +1,59 @@
+import { getItem, setItem } from '../src/services/platformStorage';
+import { supabase } from '../src/lib/supabase';
+import { languagePreference } from '../src/services/languagePreference';
+
+jest.mock('../src/services/platformStorage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../src/lib/supabase', () => ({
+  supabase: {
+    auth: { getUser: jest.fn(), onAuthStateChange: jest.fn() },
+    from: jest.fn(),
+  },
+}));
+
+const mockGetItem = getItem as jest.Mock;
+const mockSetItem = setItem as jest.Mock;
+const mockGetUser = supabase.auth.getUser as jest.Mock;
+const mockOnAuthStateChange = supabase.auth.onAuthStateChange as jest.Mock;
+const mockFrom = supabase.from as jest.Mock;
+
+// user_profiles for one signed-in user, recording updates
+function signInAs(userId: string, profileLanguage: string | null): jest.Mock {
+  const update = jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) }));
+  mockGetUser.mockResolvedValue({ data: { user: { id: userId } } });
+  mockFrom.mockReturnValue({
+    select: () => ({ eq: () => ({ single: jest.fn().mockResolvedValue({ data: { language: profileLanguage }, error: null }) }) }),
+    update,
+  });
+  return update;
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('languagePreference', () => {
+  it('keeps a device-chosen language for its account but not for the next one', async () => {
+    mockGetItem.mockResolvedValue('es');
+    const firstUpdate = signInAs('user-a', null);
+
+    await languagePreference.load();
+
+    expect(languagePreference.get()).toBe('es');
+    expect(firstUpdate).toHaveBeenCalledWith({ language: 'es' });
+
+    const onAuthChange = mockOnAuthStateChange.mock.calls[0][0];
+    onAuthChange('SIGNED_OUT');
+
+    expect(languagePreference.get()).toBe('en');
+    expect(mockSetItem).toHaveBeenLastCalledWith('language_preference', 'en');
+
+    const secondUpdate = signInAs('user-b', null);
+    onAuthChange('SIGNED_IN');
+    await flush();
+
+    expect(languagePreference.get()).toBe('en');
+    expect(secondUpdate).not.toHaveBeenCalled();
+  });
+});
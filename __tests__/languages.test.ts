@@ -0,0 +1,28 @@
+import { getLanguage, parseLanguageCode } from '../src/config/languages';
+
+describe('parseLanguageCode', () => {
+  it('accepts supported codes', () => {
+    expect(parseLanguageCode('es')).toBe('es');
+    expect(parseLanguageCode('ja')).toBe('ja');
+  });
+
+  it('accepts locales and odd casing', () => {
+    expect(parseLanguageCode('es-MX')).toBe('es');
+    expect(parseLanguageCode('pt_BR')).toBe('pt');
+    expect(parseLanguageCode(' FR ')).toBe('fr');
+  });
+
+  it('rejects unsupported or missing values', () => {
+    expect(parseLanguageCode('zh')).toBeUndefined();
+    expect(parseLanguageCode('')).toBeUndefined();
+    expect(parseLanguageCode(null)).toBeUndefined();
+    expect(parseLanguageCode(42)).toBeUndefined();
+  });
+});
+
+describe('getLanguage', () => {
+  it('falls back to English', () => {
+    expect(getLanguage('klingon').code).toBe('en');
+    expect(getLanguage('de-AT').locale).toBe('de-DE');
+  });
+});
@@ -0,0 +1,65 @@
+import { buildVisemeTrack, sampleVisemeTrack, textToLipSyncWords } from '../src/services/lipSync';
+
+describe('textToLipSyncWords', () => {
+  it('splits words into syllables and skips silent final e', () => {
+    const [make, happy] = textToLipSyncWords('make happy');
+    expect(make.syllables).toHaveLength(1);
+    expect(happy.syllables).toHaveLength(2);
+    expect(happy.charIndex).toBe(5);
+  });
+
+  it('adds pauses after punctuation', () => {
+    const words = textToLipSyncWords('Well, okay. Fine');
+    expect(words.map(word => word.pauseAfter)).toEqual([250, 400, 0]);
+  });
+});
+
+describe('buildVisemeTrack', () => {
+  it('returns an empty track for empty text', () => {
+    expect(buildVisemeTrack('   ')).toEqual({ cues: [], words: [], duration: 0 });
+  });
+
+  it('maps letters to mouth shapes in order without gaps inside a word', () => {
+    const track = buildVisemeTrack('mop');
+
+    expect(track.cues.map(cue => cue.viseme)).toEqual(['MBP', 'O', 'MBP']);
+    track.cues.slice(1).forEach((cue, i) => {
+      expect(cue.start).toBeCloseTo(track.cues[i].end);
+    });
+    expect(track.cues[track.cues.length - 1].end).toBeCloseTo(track.duration);
+  });
+
+  it('merges repeated shapes so the mouth does not stutter', () => {
+    const track = buildVisemeTrack('mmm');
+    expect(track.cues).toHaveLength(1);
+  });
+
+  it('leaves a pause after sentence punctuation', () => {
+    const track = buildVisemeTrack('Hi. Bob');
+    const [, bob] = track.words;
+    const lastHiCue = track.cues.filter(cue => cue.start < bob.start).pop()!;
+
+    expect(bob.start - lastHiCue.end).toBeCloseTo(400);
+    expect(sampleVisemeTrack(track, lastHiCue.end + 200)).toBe('rest');
+  });
+
+  it('uses cloud TTS timepoints when every word has one', () => {
+    const track = buildVisemeTrack('hello there', {
+      timepoints: [{ charIndex: 0, time: 100 }, { charIndex: 6, time: 900 }],
+    });
+
+    expect(track.words).toEqual([{ charIndex: 0, start: 100 }, { charIndex: 6, start: 900 }]);
+    expect(track.cues[0].start).toBe(100);
+    expect(sampleVisemeTrack(track, 50)).toBe('rest');
+  });
+
+  it('falls back to the estimate when a timepoint is missing', () => {
+    const track = buildVisemeTrack('hello there', { timepoints: [{ charIndex: 0, time: 100 }] });
+    expect(track.words[0].start).toBe(0);
+  });
+
+  it('speaks faster at a higher rate', () => {
+    const text = 'This sentence is long enough to time.';
+    expect(buildVisemeTrack(text, { rate: 2 }).duration).toBeLessThan(buildVisemeTrack(text).duration);
+  });
+});
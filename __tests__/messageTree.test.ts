@@ -0,0 +1,64 @@
+import { buildMessagePath } from '../src/utils/messageTree';
+
+const message = (id: string, parent: string | null, minute: number, superseded?: string) => ({
+  id,
+  parent_message_id: parent,
+  superseded_by: superseded ?? null,
+  created_at: `2025-01-01T10:${String(minute).padStart(2, '0')}:00.000Z`,
+});
+
+describe('buildMessagePath', () => {
+  it('returns an empty path for no messages', () => {
+    expect(buildMessagePath([])).toEqual({ path: [], siblings: {} });
+  });
+
+  it('follows a linear thread', () => {
+    const { path, siblings } = buildMessagePath([
+      message('a', null, 0),
+      message('b', 'a', 1),
+      message('c', 'b', 2),
+    ]);
+    expect(path.map(m => m.id)).toEqual(['a', 'b', 'c']);
+    expect(siblings).toEqual({});
+  });
+
+  // a ─ b ─ c
+  //   └ b2 ─ c2   (b2 is an edit of b, made later)
+  const forked = [
+    message('a', null, 0),
+    message('b', 'a', 1),
+    message('c', 'b', 2),
+    message('b2', 'a', 3),
+    message('c2', 'b2', 4),
+  ];
+
+  it('ends at the most recent message by default', () => {
+    const { path, siblings } = buildMessagePath(forked);
+    expect(path.map(m => m.id)).toEqual(['a', 'b2', 'c2']);
+    expect(siblings).toEqual({ b2: ['b', 'b2'] });
+  });
+
+  it('runs through a target message and down its newest replies', () => {
+    const { path, siblings } = buildMessagePath(forked, 'b');
+    expect(path.map(m => m.id)).toEqual(['a', 'b', 'c']);
+    expect(siblings).toEqual({ b: ['b', 'b2'] });
+  });
+
+  it('walks through superseded messages without showing them', () => {
+    const { path } = buildMessagePath([
+      message('a', null, 0),
+      message('b', 'a', 1),
+      message('c', 'b', 2, 'b'),
+      message('d', 'c', 3),
+    ]);
+    expect(path.map(m => m.id)).toEqual(['a', 'b', 'd']);
+  });
+
+  it('treats replies to missing parents as roots', () => {
+    const { path } = buildMessagePath([
+      message('a', 'deleted', 0),
+      message('b', 'a', 1),
+    ]);
+    expect(path.map(m => m.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  MockLimitExceededError,
+  clearMockFixtures,
+  generateMockCompletion,
+  parseInjectedFixture,
+  registerMockFixture,
+  setMockLatency,
+  streamMockCompletion,
+} from '../src/services/mockLLMProvider';
+
+jest.mock('../src/lib/supabase', () => ({ supabase: {} }));
+
+const userTurn = (content: string) => ({ messages: [{ role: 'user' as const, content }] });
+
+describe('parseInjectedFixture', () => {
+  it('turns "/pattern/flags" strings into regular expressions', () => {
+    const fixture = parseInjectedFixture({ name: 'greeting', match: '/^hel+o$/i', response: 'hi' });
+    expect(fixture.match).toEqual(/^hel+o$/i);
+    expect(fixture.response).toBe('hi');
+  });
+
+  it('keeps other strings as substring matches', () => {
+    const fixture = parseInjectedFixture({ name: 'path', match: 'a/b', error: 'network', once: true });
+    expect(fixture).toEqual({ name: 'path', match: 'a/b', error: 'network', once: true });
+  });
+});
+
+describe('generateMockCompletion', () => {
+  beforeEach(() => {
+    clearMockFixtures();
+    setMockLatency(0);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.log as jest.Mock).mockRestore();
+  });
+
+  it('answers with the first matching fixture and drops once-fixtures after use', async () => {
+    registerMockFixture(parseInjectedFixture({ name: 'once', match: '/weather/i', response: 'Sunny', once: true }));
+
+    await expect(generateMockCompletion(userTurn('How is the Weather?'))).resolves.toMatchObject({ text: 'Sunny' });
+    const second = await generateMockCompletion(userTurn('How is the Weather?'));
+    expect(second.text).not.toBe('Sunny');
+  });
+
+  it('builds scene JSON for the characters in an orchestration prompt', async () => {
+    const completion = await generateMockCompletion({
+      characterId: 'orchestrator',
+      messages: [
+        { role: 'system', content: 'Reply as {"s":{"ch":[...]}}\n### Freud (freud, Position: L)\n### Jung (jung, Position: R)' },
+        { role: 'user', content: 'What do you think?' },
+      ],
+    });
+
+    const scene = JSON.parse(completion.text);
+    expect(scene.s.ch.map((line: any) => line.c)).toEqual(['freud', 'jung', 'freud']);
+  });
+
+  it('throws a limit error for [mock:limit]', async () => {
+    await expect(generateMockCompletion(userTurn('hello [mock:limit]'))).rejects.toBeInstanceOf(MockLimitExceededError);
+  });
+
+  it('returns truncated JSON for [mock:malformed]', async () => {
+    const completion = await generateMockCompletion(userTurn('hello [mock:malformed]'));
+    expect(() => JSON.parse(completion.text)).toThrow();
+  });
+});
+
+describe('streamMockCompletion', () => {
+  beforeEach(() => {
+    clearMockFixtures();
+    setMockLatency(0);
+  });
+
+  it('streams deltas that add up to the full response', async () => {
+    const response = 'A fixture response long enough to be split into several deltas.';
+    registerMockFixture({ name: 'stream', match: 'stream', response });
+    const deltas: string[] = [];
+
+    const completion = await streamMockCompletion(userTurn('stream please'), {
+      onDelta: text => deltas.push(text),
+    });
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(response);
+    expect(completion.text).toBe(response);
+  });
+});
@@ -0,0 +1,89 @@
+import { normalizeOrchestrationScene } from '../src/services/animationOrchestration';
+import { SCENE_FILE_VERSION, parseSceneFile, serializeScene } from '../src/services/sceneFileService';
+
+jest.mock('../src/lib/supabase', () => ({ supabase: {} }));
+
+const storedScene = {
+  timelines: [
+    {
+      characterId: 'freud',
+      content: 'Tell me about your mother.',
+      startDelay: 250.4,
+      segments: [
+        {
+          animation: 'talking',
+          duration: 1200.6,
+          isTalking: true,
+          textReveal: { startIndex: 0, endIndex: 999 },
+          complementary: { lookDirection: 'center', eyeState: 'not-an-eye-state' },
+        },
+        { animation: 'nod', duration: -5 },
+      ],
+    },
+    { characterId: 42, segments: [] },
+  ],
+  nonSpeakerBehavior: {
+    jung: [{ animation: 'thinking', duration: 2000 }],
+    adler: 'not segments',
+  },
+  environment: 'Therapist Office',
+};
+
+describe('normalizeOrchestrationScene', () => {
+  it('returns null for data that is not a scene', () => {
+    expect(normalizeOrchestrationScene(null)).toBeNull();
+    expect(normalizeOrchestrationScene('scene')).toBeNull();
+    expect(normalizeOrchestrationScene({ timelines: 'nope' })).toBeNull();
+  });
+
+  it('validates stored timelines and recalculates durations', () => {
+    const scene = normalizeOrchestrationScene(storedScene)!;
+
+    expect(scene.timelines).toHaveLength(1);
+    const [timeline] = scene.timelines;
+    expect(timeline).toMatchObject({ characterId: 'freud', startDelay: 250, isInterruption: false });
+    expect(timeline.segments[0]).toEqual({
+      animation: 'talking',
+      duration: 1201,
+      isTalking: true,
+      textReveal: { startIndex: 0, endIndex: 'Tell me about your mother.'.length },
+      complementary: { lookDirection: 'center' },
+    });
+    // Non-positive durations fall back to the minimum segment length
+    expect(timeline.segments[1]).toMatchObject({ animation: 'nod', duration: 300, isTalking: false });
+    expect(timeline.totalDuration).toBe(1501);
+
+    expect(Object.keys(scene.nonSpeakerBehavior)).toEqual(['jung']);
+    expect(scene.sceneDuration).toBe(2000);
+    expect(scene.environment).toBe('therapist_office');
+  });
+
+  it('drops unknown environments', () => {
+    const scene = normalizeOrchestrationScene({ ...storedScene, environment: 'moon_base' })!;
+    expect(scene.environment).toBeUndefined();
+  });
+});
+
+describe('parseSceneFile', () => {
+  it('round-trips a saved scene file', () => {
+    const scene = normalizeOrchestrationScene(storedScene)!;
+
+    const parsed = parseSceneFile(serializeScene(scene, '  Opening scene '));
+
+    expect(parsed.name).toBe('Opening scene');
+    expect(parsed.scene).toEqual(scene);
+  });
+
+  it('accepts a bare scene and names it', () => {
+    const parsed = parseSceneFile(JSON.stringify(storedScene));
+    expect(parsed.name).toBe('Untitled scene');
+    expect(parsed.scene.timelines[0].characterId).toBe('freud');
+  });
+
+  it('rejects invalid JSON, newer versions and non-scenes', () => {
+    expect(() => parseSceneFile('{"timelines": [')).toThrow('Scene file is not valid JSON');
+    expect(() => parseSceneFile(JSON.stringify({ version: SCENE_FILE_VERSION + 1, scene: storedScene })))
+      .toThrow(`Scene file version ${SCENE_FILE_VERSION + 1} is newer than supported`);
+    expect(() => parseSceneFile(JSON.stringify({ name: 'Empty' }))).toThrow('File does not contain an animation scene');
+  });
+});
@@ -0,0 +1,57 @@
+import { normalizeWhisperResponse } from '../src/services/speechToTextLocal';
+
+describe('normalizeWhisperResponse', () => {
+  it('reads top-level words (OpenAI-compatible servers)', () => {
+    const result = normalizeWhisperResponse({
+      text: ' Hello there ',
+      words: [
+        { word: ' Hello', start: 0, end: 0.4, probability: 0.9 },
+        { word: ' there', start: 0.4, end: 0.8, probability: 0.7 },
+      ],
+    });
+
+    expect(result.text).toBe('Hello there');
+    expect(result.words).toEqual([
+      { text: 'Hello', start: 0, end: 0.4, confidence: 0.9 },
+      { text: 'there', start: 0.4, end: 0.8, confidence: 0.7 },
+    ]);
+    expect(result.confidence).toBeCloseTo(0.8);
+  });
+
+  it('collects words from segments (whisper.cpp)', () => {
+    const result = normalizeWhisperResponse({
+      text: 'One two',
+      segments: [
+        { words: [{ text: 'One', start: 0, end: 0.3 }] },
+        { words: [{ text: 'two', start: '0.3', end: '0.6' }] },
+      ],
+    });
+
+    expect(result.words.map(word => word.text)).toEqual(['One', 'two']);
+    expect(result.words[1]).toMatchObject({ start: 0.3, end: 0.6 });
+  });
+
+  it('derives confidence from avg_logprob when words have no probability', () => {
+    const result = normalizeWhisperResponse({
+      text: 'Hi',
+      segments: [{ avg_logprob: Math.log(0.5) }, { avg_logprob: Math.log(0.7) }],
+    });
+
+    expect(result.confidence).toBeCloseTo(0.6);
+  });
+
+  it('joins the words when the server sends no text and drops empty words', () => {
+    const result = normalizeWhisperResponse({
+      words: [{ word: 'Just' }, { word: '  ' }, { word: 'words' }],
+    });
+
+    expect(result.text).toBe('Just words');
+    expect(result.words).toHaveLength(2);
+    expect(result.confidence).toBeUndefined();
+  });
+
+  it('handles an empty or malformed response', () => {
+    expect(normalizeWhisperResponse(null)).toEqual({ text: '', confidence: undefined, words: [] });
+    expect(normalizeWhisperResponse({ words: 'nope' }).words).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { buildSsml, getTimelineVoiceSpans, isSsmlWithinLimit, voiceToProsody } from '../src/services/ssmlBuilder';
+import type { CharacterTimeline } from '../src/services/animationOrchestration';
+
+const NEUTRAL_PROSODY = '<prosody rate="100%" pitch="+0st" volume="medium">';
+
+describe('voiceToProsody', () => {
+  it('maps a whisper to a soft, slightly slower and lower voice', () => {
+    expect(voiceToProsody({ volume: 'whispered' })).toEqual({
+      rate: '92%',
+      pitch: '-1st',
+      volume: 'x-soft',
+      emphasis: undefined,
+    });
+  });
+
+  it('keeps stacked adjustments in a natural range', () => {
+    expect(voiceToProsody({ pace: 'slow', mood: 'sad', volume: 'whispered' }).rate).toBe('70%');
+  });
+
+  it('emphasizes forceful delivery and reduces dismissive delivery', () => {
+    expect(voiceToProsody({ intent: 'commanding' }).emphasis).toBe('strong');
+    expect(voiceToProsody({ intent: 'sincere' }).emphasis).toBe('moderate');
+    expect(voiceToProsody({ intent: 'dismissive' }).emphasis).toBe('reduced');
+  });
+});
+
+describe('buildSsml', () => {
+  it('wraps plain text in the default prosody and escapes it', () => {
+    expect(buildSsml('Tom & <Jerry>')).toBe(`<speak>${NEUTRAL_PROSODY}Tom &amp; &lt;Jerry&gt;</prosody></speak>`);
+  });
+
+  it('marks every word with its character offset', () => {
+    expect(buildSsml('Hi there', { marks: true }))
+      .toBe(`<speak>${NEUTRAL_PROSODY}<mark name="0"/>Hi <mark name="3"/>there</prosody></speak>`);
+  });
+
+  it('turns ellipses and *actions* into pauses', () => {
+    const ssml = buildSsml('Well... *sighs* fine');
+    expect(ssml).toContain('Well<break time="500ms"/>');
+    expect(ssml).toContain('<break time="300ms"/>');
+    expect(ssml).not.toContain('sighs');
+  });
+
+  it('voices each span and pauses between them', () => {
+    const ssml = buildSsml('Quiet now. LOUD!', {
+      spans: [
+        { start: 11, end: 16, voice: { volume: 'booming' } },
+        { start: 0, end: 10, voice: { volume: 'whispered' } },
+      ],
+    });
+
+    expect(ssml).toBe(
+      '<speak><prosody rate="92%" pitch="-1st" volume="x-soft">Quiet now.</prosody> ' +
+      '<break time="150ms"/><prosody rate="95%" pitch="-1.5st" volume="x-loud">LOUD!</prosody></speak>'
+    );
+  });
+
+  it('keeps marks in sync when a span ends inside a word', () => {
+    const ssml = buildSsml('Hello there', {
+      marks: true,
+      spans: [
+        { start: 0, end: 8, voice: { volume: 'whispered' } },
+        { start: 8, end: 11, voice: { volume: 'booming' } },
+      ],
+    });
+
+    expect(ssml.match(/<mark name="\d+"\/>/g)).toEqual(['<mark name="0"/>', '<mark name="6"/>', '<mark name="8"/>']);
+    expect(ssml).toContain('<mark name="6"/>th</prosody>');
+    expect(ssml).toContain('<mark name="8"/>ere</prosody>');
+  });
+});
+
+describe('getTimelineVoiceSpans', () => {
+  it('returns the text range and voice of each talking segment', () => {
+    const timeline = {
+      characterId: 'freud',
+      content: 'Hello. Goodbye.',
+      totalDuration: 3000,
+      startDelay: 0,
+      segments: [
+        { animation: 'talking', duration: 1000, isTalking: true, textReveal: { startIndex: 0, endIndex: 6 }, voice: { mood: 'joyful' } },
+        { animation: 'nod', duration: 1000, isTalking: false },
+        { animation: 'talking', duration: 1000, isTalking: true, textReveal: { startIndex: 7, endIndex: 15 } },
+      ],
+    } as CharacterTimeline;
+
+    expect(getTimelineVoiceSpans(timeline)).toEqual([
+      { start: 0, end: 6, voice: { mood: 'joyful' } },
+      { start: 7, end: 15, voice: undefined },
+    ]);
+  });
+});
+
+describe('isSsmlWithinLimit', () => {
+  it('counts bytes, not characters', () => {
+    expect(isSsmlWithinLimit('a'.repeat(5000))).toBe(true);
+    expect(isSsmlWithinLimit('é'.repeat(2501))).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import type { AnimationSegment, OrchestrationScene, StageMovement } from '../src/services/animationOrchestration';
+import {
+  buildStagePlan,
+  getStagePose,
+  getStagePlanEnd,
+  isStageMoving,
+  StagePoint,
+} from '../src/components/ChatInterface/utils/stageChoreography';
+
+// A speaking timeline that asks for `movement` after `delay` ms
+function speaker(characterId: string, movement: StageMovement, delay = 0): OrchestrationScene['timelines'][0] {
+  const segments: AnimationSegment[] = [
+    { animation: 'idle', duration: delay },
+    { animation: 'talking', duration: 2000, movement },
+  ];
+  return { characterId, content: '', totalDuration: delay + 2000, segments, startDelay: 0 };
+}
+
+function scene(timelines: OrchestrationScene['timelines'], sceneDuration = 10000): OrchestrationScene {
+  return { timelines, sceneDuration, nonSpeakerBehavior: {} };
+}
+
+function slots(entries: Array<[string, number]>): Map<string, StagePoint> {
+  return new Map(entries.map(([id, x]) => [id, { x, depth: 0 }]));
+}
+
+describe('buildStagePlan', () => {
+  it('plans nothing for a scene without movements', () => {
+    const plan = buildStagePlan(scene([]), slots([['a', -20], ['b', 20]]));
+
+    expect(getStagePlanEnd(plan)).toBe(0);
+    expect(getStagePose(plan, 'a', 500)).toEqual({ offset: { x: 0, depth: 0 }, walking: false });
+  });
+
+  it('skips characters and targets that are not on stage', () => {
+    const plan = buildStagePlan(scene([
+      speaker('offstage', { type: 'forward' }),
+      speaker('a', { type: 'approach', target: 'offstage' }),
+    ]), slots([['a', -20]]));
+
+    expect(plan.moves.size).toBe(0);
+  });
+
+  it('walks forward, then back home by the end of the scene', () => {
+    const plan = buildStagePlan(scene([speaker('a', { type: 'forward' }, 1000)]), slots([['a', -20]]));
+    const [forward, home] = plan.moves.get('a')!;
+
+    expect(forward.startMs).toBe(1000);
+    expect(forward.path[forward.path.length - 1]).toEqual({ x: -20, depth: 1 });
+    expect(home.startMs + home.durationMs).toBe(10000);
+    expect(home.path[home.path.length - 1]).toEqual({ x: -20, depth: 0 });
+    expect(getStagePlanEnd(plan)).toBe(10000);
+  });
+
+  it('stops an approaching character beside the target', () => {
+    const plan = buildStagePlan(scene([speaker('a', { type: 'approach', target: 'b' })]), slots([['a', -30], ['b', 30]]));
+    const [approach] = plan.moves.get('a')!;
+
+    expect(approach.path[approach.path.length - 1]).toEqual({ x: 15, depth: 0 });
+  });
+
+  it('swaps two characters without walking through each other', () => {
+    const plan = buildStagePlan(scene([speaker('a', { type: 'swap', target: 'b' })], 20000), slots([['a', -20], ['b', 20]]));
+    const [aSwap] = plan.moves.get('a')!;
+    const [bSwap] = plan.moves.get('b')!;
+
+    expect(aSwap.path[aSwap.path.length - 1]).toEqual({ x: 20, depth: 0 });
+    expect(bSwap.path[bSwap.path.length - 1]).toEqual({ x: -20, depth: 0 });
+    // The second walker steps out of the row to get around the first
+    expect(bSwap.path.some(point => point.depth !== 0)).toBe(true);
+
+    const end = Math.max(aSwap.startMs + aSwap.durationMs, bSwap.startMs + bSwap.durationMs);
+    for (let t = 0; t <= end; t += 50) {
+      const a = getStagePose(plan, 'a', t).offset;
+      const b = getStagePose(plan, 'b', t).offset;
+      const distance = Math.hypot((a.x - 20) - (b.x + 20), (a.depth - b.depth) * 12);
+      expect(distance).toBeGreaterThan(5);
+    }
+  });
+});
+
+describe('getStagePose', () => {
+  const plan = buildStagePlan(scene([speaker('a', { type: 'approach', target: 'b' }, 1000)]), slots([['a', -30], ['b', 30]]));
+  const [approach] = plan.moves.get('a')!;
+  const arrival = approach.startMs + approach.durationMs;
+
+  it('is at rest without a plan or before the first walk', () => {
+    expect(getStagePose(null, 'a', 1000)).toEqual({ offset: { x: 0, depth: 0 }, walking: false });
+    expect(getStagePose(plan, 'a', 500)).toEqual({ offset: { x: 0, depth: 0 }, walking: false });
+    expect(getStagePose(plan, 'b', 2000).walking).toBe(false);
+  });
+
+  it('moves along the path, facing where it is heading', () => {
+    const halfway = getStagePose(plan, 'a', approach.startMs + approach.durationMs / 2);
+
+    expect(halfway.walking).toBe(true);
+    expect(halfway.facing).toBe('right');
+    expect(halfway.offset.x).toBeCloseTo(22.5, 0);
+    expect(isStageMoving(plan, approach.startMs + 10)).toBe(true);
+  });
+
+  it('stays at the destination between walks', () => {
+    const pose = getStagePose(plan, 'a', arrival + 100);
+
+    expect(pose).toEqual({ offset: { x: 45, depth: 0 }, walking: false });
+    expect(isStageMoving(plan, arrival + 100)).toBe(false);
+  });
+
+  it('walks back home, facing left, and ends at the slot', () => {
+    const pose = getStagePose(plan, 'a', 9900);
+
+    expect(pose.walking).toBe(true);
+    expect(pose.facing).toBe('left');
+    expect(getStagePose(plan, 'a', 10000)).toEqual({ offset: { x: 0, depth: 0 }, walking: false });
+  });
+});
@@ -0,0 +1,72 @@
+import { getItem, setItem } from '../src/services/platformStorage';
+import { StoredPreference } from '../src/services/storedPreference';
+
+jest.mock('../src/services/platformStorage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+const mockGetItem = getItem as jest.Mock;
+const mockSetItem = setItem as jest.Mock;
+
+type Size = 'small' | 'large';
+
+function parseSize(stored: string | null): Size | undefined {
+  return stored === 'small' || stored === 'large' ? stored : undefined;
+}
+
+describe('StoredPreference', () => {
+  beforeEach(() => {
+    mockGetItem.mockReset();
+    mockSetItem.mockReset();
+  });
+
+  it('loads the stored value once and notifies subscribers', async () => {
+    mockGetItem.mockResolvedValue('large');
+    const preference = new StoredPreference<Size>('size', 'small', parseSize);
+    const callback = jest.fn();
+    preference.subscribe(callback);
+
+    await Promise.all([preference.load(), preference.load()]);
+
+    expect(preference.get()).toBe('large');
+    expect(mockGetItem).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('large');
+  });
+
+  it('keeps the default when the stored value is invalid', async () => {
+    mockGetItem.mockResolvedValue('huge');
+    const preference = new StoredPreference<Size>('size', 'small', parseSize);
+
+    await preference.load();
+
+    expect(preference.get()).toBe('small');
+  });
+
+  it('saves changes and skips unchanged values', () => {
+    const preference = new StoredPreference<Size>('size', 'small', parseSize);
+    const callback = jest.fn();
+    const unsubscribe = preference.subscribe(callback);
+
+    expect(preference.set('small')).toBe(false);
+    expect(preference.set('large')).toBe(true);
+    unsubscribe();
+    preference.set('small');
+
+    expect(mockSetItem.mock.calls).toEqual([['size', 'large'], ['size', 'small']]);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not let a slow load overwrite a newer value', async () => {
+    let resolveStored: (value: string) => void = () => {};
+    mockGetItem.mockReturnValue(new Promise(resolve => { resolveStored = resolve; }));
+    const preference = new StoredPreference<Size>('size', 'small', parseSize);
+
+    const loading = preference.load();
+    preference.set('large');
+    resolveStored('small');
+    await loading;
+
+    expect(preference.get()).toBe('large');
+  });
+});
@@ -0,0 +1,78 @@
+import { VoiceActivityDetector } from '../src/services/voiceActivityDetector';
+
+// Feed a level every 50ms from `start` until `end` (exclusive)
+function feed(vad: VoiceActivityDetector, level: number, start: number, end: number): void {
+  for (let now = start; now < end; now += 50) {
+    vad.pushLevel(level, now);
+  }
+}
+
+describe('VoiceActivityDetector', () => {
+  it('starts speech after minSpeechMs above the threshold and ends after endSilenceMs', () => {
+    const onSpeechStart = jest.fn();
+    const onSpeechEnd = jest.fn();
+    const vad = new VoiceActivityDetector({ onSpeechStart, onSpeechEnd });
+
+    feed(vad, 0.2, 0, 200);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+
+    feed(vad, 0.2, 200, 1000);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(vad.isSpeaking()).toBe(true);
+
+    feed(vad, 0, 1000, 2150);
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+
+    vad.pushLevel(0, 2200);
+    expect(onSpeechEnd).toHaveBeenCalledWith(2200);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it('ignores short clicks', () => {
+    const onSpeechStart = jest.fn();
+    const vad = new VoiceActivityDetector({ onSpeechStart });
+
+    feed(vad, 0.5, 0, 100);
+    feed(vad, 0, 100, 500);
+    feed(vad, 0.5, 500, 600);
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+  });
+
+  it('raises the threshold with the noise floor', () => {
+    const vad = new VoiceActivityDetector();
+    const quietThreshold = vad.getThreshold();
+
+    feed(vad, 0.01, 0, 5000);
+
+    expect(vad.getThreshold()).toBeGreaterThan(quietThreshold);
+    expect(vad.getThreshold()).toBeCloseTo(0.03, 2);
+  });
+
+  it('needs a louder voice to barge in', () => {
+    const onSpeechStart = jest.fn();
+    const vad = new VoiceActivityDetector({ onSpeechStart });
+    const normalThreshold = vad.getThreshold();
+
+    vad.setSensitivity('barge-in');
+    expect(vad.getThreshold()).toBeCloseTo(normalThreshold * 2.5);
+
+    // Loud enough for normal speech, not for barge-in (characters' echo)
+    feed(vad, normalThreshold * 1.5, 0, 1000);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+  });
+
+  it('forgets the current speech on reset', () => {
+    const onSpeechEnd = jest.fn();
+    const vad = new VoiceActivityDetector({ onSpeechEnd });
+
+    feed(vad, 0.2, 0, 500);
+    expect(vad.isSpeaking()).toBe(true);
+
+    vad.reset();
+    feed(vad, 0, 500, 3000);
+
+    expect(vad.isSpeaking()).toBe(false);
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+  });
+});
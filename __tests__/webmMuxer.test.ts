@@ -0,0 +1,57 @@
+import { WebMMuxer } from '../src/utils/webmMuxer';
+
+function indexOfBytes(haystack: Uint8Array, needle: number[], from = 0): number {
+  for (let i = from; i <= haystack.length - needle.length; i++) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) return i;
+  }
+  return -1;
+}
+
+function countBytes(haystack: Uint8Array, needle: number[]): number {
+  let count = 0;
+  let index = indexOfBytes(haystack, needle);
+  while (index !== -1) {
+    count++;
+    index = indexOfBytes(haystack, needle, index + 1);
+  }
+  return count;
+}
+
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+// 8-byte size marker used for every element
+const SIZE_MARKER = 0x01;
+
+describe('WebMMuxer', () => {
+  it('writes an EBML header with the webm doc type and the video track', () => {
+    const file = new WebMMuxer(640, 360).finish(0);
+
+    expect(Array.from(file.slice(0, 4))).toEqual([0x1a, 0x45, 0xdf, 0xa3]);
+    expect(indexOfBytes(file, Array.from('webm').map(c => c.charCodeAt(0)))).toBeGreaterThan(0);
+    expect(indexOfBytes(file, Array.from('V_VP8').map(c => c.charCodeAt(0)))).toBeGreaterThan(0);
+    // PixelWidth 640 (0x0280), PixelHeight 360 (0x0168)
+    expect(indexOfBytes(file, [0xb0, SIZE_MARKER, 0, 0, 0, 0, 0, 0, 2, 0x02, 0x80])).toBeGreaterThan(0);
+    expect(indexOfBytes(file, [0xba, SIZE_MARKER, 0, 0, 0, 0, 0, 0, 2, 0x01, 0x68])).toBeGreaterThan(0);
+  });
+
+  it('starts a cluster on each keyframe and stores block offsets from it', () => {
+    const muxer = new WebMMuxer(640, 360);
+    muxer.addFrame(new Uint8Array([0xaa]), 0, true);
+    muxer.addFrame(new Uint8Array([0xbb]), 83.3, false);
+    muxer.addFrame(new Uint8Array([0xcc]), 2000, true);
+    muxer.addFrame(new Uint8Array([0xdd]), 2083.3, false);
+    const file = muxer.finish(2166.6);
+
+    expect(countBytes(file, CLUSTER_ID)).toBe(2);
+    // SimpleBlock body: track 1, 16-bit offset, flags, frame data
+    expect(indexOfBytes(file, [0x81, 0x00, 0x00, 0x80, 0xaa])).toBeGreaterThan(0);
+    expect(indexOfBytes(file, [0x81, 0x00, 0x53, 0x00, 0xbb])).toBeGreaterThan(0);
+    expect(indexOfBytes(file, [0x81, 0x00, 0x00, 0x80, 0xcc])).toBeGreaterThan(0);
+    expect(indexOfBytes(file, [0x81, 0x00, 0x53, 0x00, 0xdd])).toBeGreaterThan(0);
+  });
+
+  it('refuses frames after finishing', () => {
+    const muxer = new WebMMuxer(640, 360);
+    muxer.finish(0);
+    expect(() => muxer.addFrame(new Uint8Array([1]), 0, true)).toThrow('WebM already finished');
+  });
+});
@@ -3,10 +3,10 @@
  * 3-step LLM-assisted character creation flow
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { CharacterDisplay3D } from './CharacterDisplay3D';
+import { CharacterDisplay3D, ModelStyle } from './CharacterDisplay3D';
 import { CharacterBehavior } from '../config/characters';
 import {
   analyzeCharacterName,
@@ -17,7 +17,10 @@ import {
   CharacterDescription,
 } from '../services/characterGenerationService';
 import { createCustomWakattor } from '../services/customWakattorsService';
+import { getCloudTextToSpeech } from '../services/textToSpeechCloud';
+import { deriveCloudVoice, getCloudVoiceCandidates } from '../config/cloudVoices';
 import { useResponsive } from '../constants/Layout';
+import { MODEL_STYLE_OPTIONS } from '../constants/animationOptions';
 
 type WizardStep = 'name' | 'analyzing' | 'known-review' | 'fictional-input' | 'generating' | 'final-review' | 'saving';
 
@@ -125,6 +128,22 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
     infoValue: {
       fontSize: fonts.sm,
     },
+    styleRow: {
+      gap: spacing.sm,
+      marginBottom: spacing.lg,
+    },
+    styleOption: {
+      paddingVertical: spacing.sm,
+      paddingHorizontal: spacing.md,
+      borderRadius: borderRadius.sm,
+    },
+    styleOptionText: {
+      fontSize: fonts.sm,
+    },
+    voiceLabel: {
+      fontSize: fonts.sm,
+      marginBottom: spacing.sm,
+    },
     iconSize: isMobile ? components.iconSizes.xl : scalePx(64),
     iconSizeMd: components.iconSizes.lg,
     iconSizeSm: components.iconSizes.md,
@@ -135,6 +154,18 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
   const [userDescription, setUserDescription] = useState('');
   const [generatedCharacter, setGeneratedCharacter] = useState<CharacterBehavior | null>(null);
   const [error, setError] = useState<string>('');
+  const [isPreviewingVoice, setIsPreviewingVoice] = useState(false);
+
+  // Stop a voice preview when the wizard closes
+  useEffect(() => () => {
+    getCloudTextToSpeech().stop();
+  }, []);
+
+  // Generated characters are all 'temp' until saved - seed the voice with the name instead
+  const withCloudVoice = (character: CharacterBehavior): CharacterBehavior => ({
+    ...character,
+    cloudVoice: deriveCloudVoice(character.voiceProfile, character.customization.gender, character.name),
+  });
 
   // Step 1: Name Input
   const handleNameSubmit = async () => {
@@ -152,7 +183,7 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
 
       if (result.isKnown && result.characterConfig) {
         // Known character - go to review
-        const character = buildCharacterBehavior(result.characterConfig, 'temp');
+        const character = withCloudVoice(buildCharacterBehavior(result.characterConfig, 'temp'));
         setGeneratedCharacter(character);
         setStep('known-review');
       } else {
@@ -184,7 +215,7 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
       };
 
       const config = await generateCharacterFromDescription(characterName, description);
-      const character = buildCharacterBehavior(config, 'temp');
+      const character = withCloudVoice(buildCharacterBehavior(config, 'temp'));
       setGeneratedCharacter(character);
       setStep('final-review');
     } catch (err: any) {
@@ -193,6 +224,96 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
     }
   };
 
+  const handleModelStyleChange = (modelStyle: ModelStyle) => {
+    if (!generatedCharacter) return;
+    setGeneratedCharacter({
+      ...generatedCharacter,
+      customization: { ...generatedCharacter.customization, modelStyle },
+    });
+  };
+
+  // Model style picker shown under the preview on both review steps
+  const renderModelStylePicker = (character: CharacterBehavior) => (
+    <View style={[styles.styleRow, dynamicStyles.styleRow]}>
+      {MODEL_STYLE_OPTIONS.map((option) => {
+        const selected = (character.customization.modelStyle ?? 'blocky') === option.value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.styleOption, dynamicStyles.styleOption, selected && styles.styleOptionActive]}
+            onPress={() => handleModelStyleChange(option.value)}
+          >
+            <Text style={[styles.styleOptionText, dynamicStyles.styleOptionText, selected && styles.styleOptionTextActive]}>
+              {option.icon} {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const handleVoiceChange = (name: string, gender: 'MALE' | 'FEMALE') => {
+    if (!generatedCharacter) return;
+    setGeneratedCharacter({ ...generatedCharacter, cloudVoice: { name, gender } });
+  };
+
+  const handleVoicePreview = async (character: CharacterBehavior) => {
+    const cloudTTS = getCloudTextToSpeech();
+    await cloudTTS.stop();
+    if (isPreviewingVoice || !character.cloudVoice) {
+      setIsPreviewingVoice(false);
+      return;
+    }
+
+    setIsPreviewingVoice(true);
+    try {
+      await cloudTTS.speak(`Hello, I'm ${character.name}. ${character.description}`, {
+        voice: character.cloudVoice.name,
+        ssmlGender: character.cloudVoice.gender,
+        pitch: character.cloudVoice.pitch,
+        onEnd: () => setIsPreviewingVoice(false),
+      });
+    } catch (err: any) {
+      setError('Voice preview is unavailable right now');
+    } finally {
+      // On native speak() resolves once the audio starts; onEnd resets it then
+      if (!cloudTTS.isSpeaking()) {
+        setIsPreviewingVoice(false);
+      }
+    }
+  };
+
+  // Voice picker shown under the model style picker - voices matching the character's gender
+  const renderVoicePicker = (character: CharacterBehavior) => (
+    <View style={styles.voiceSection}>
+      <Text style={[styles.inputLabel, dynamicStyles.voiceLabel]}>Voice</Text>
+      <View style={[styles.styleRow, styles.voiceRow, dynamicStyles.styleRow]}>
+        {getCloudVoiceCandidates(character.voiceProfile, character.customization.gender).map((voice) => {
+          const selected = character.cloudVoice?.name === voice.name;
+          return (
+            <TouchableOpacity
+              key={voice.name}
+              style={[styles.styleOption, dynamicStyles.styleOption, selected && styles.styleOptionActive]}
+              onPress={() => handleVoiceChange(voice.name, voice.gender)}
+            >
+              <Text style={[styles.styleOptionText, dynamicStyles.styleOptionText, selected && styles.styleOptionTextActive]}>
+                {voice.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.styleOption, dynamicStyles.styleOption, isPreviewingVoice && styles.styleOptionActive]}
+          onPress={() => handleVoicePreview(character)}
+        >
+          <Text style={[styles.styleOptionText, dynamicStyles.styleOptionText, styles.styleOptionTextActive]}>
+            {isPreviewingVoice ? '⏹ Stop' : '🔊 Preview'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   // Final: Save to database
   const handleSaveCharacter = async () => {
     if (!generatedCharacter) return;
@@ -206,6 +327,8 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
 
     setError('');
     setStep('saving');
+    getCloudTextToSpeech().stop();
+    setIsPreviewingVoice(false);
 
     try {
       const savedCharacter = await createCustomWakattor(generatedCharacter);
@@ -285,6 +408,8 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
                 <View style={[styles.previewContainer, dynamicStyles.previewContainer]}>
                   <CharacterDisplay3D character={generatedCharacter} isActive={true} />
                 </View>
+                {renderModelStylePicker(generatedCharacter)}
+                {renderVoicePicker(generatedCharacter)}
                 <ScrollView style={[styles.infoContainer, dynamicStyles.infoContainer]}>
                   <View style={[styles.infoRow, dynamicStyles.infoRow]}>
                     <Text style={[styles.infoLabel, dynamicStyles.infoLabel]}>Name:</Text>
@@ -386,6 +511,8 @@ export function CharacterCreationWizard({ onComplete, onCancel }: Props) {
                 <View style={[styles.previewContainer, dynamicStyles.previewContainer]}>
                   <CharacterDisplay3D character={generatedCharacter} isActive={true} />
                 </View>
+                {renderModelStylePicker(generatedCharacter)}
+                {renderVoicePicker(generatedCharacter)}
                 <ScrollView style={[styles.infoContainer, dynamicStyles.infoContainer]}>
                   <View style={[styles.infoRow, dynamicStyles.infoRow]}>
                     <Text style={[styles.infoLabel, dynamicStyles.infoLabel]}>Name:</Text>
@@ -532,6 +659,32 @@ const styles = StyleSheet.create({
   infoContainer: {
     width: '100%',
   },
+  styleRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  styleOption: {
+    backgroundColor: '#27272a',
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+  },
+  styleOptionActive: {
+    borderColor: '#8b5cf6',
+    backgroundColor: 'rgba(139, 92, 246, 0.15)',
+  },
+  styleOptionText: {
+    color: '#a1a1aa',
+  },
+  styleOptionTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  voiceSection: {
+    width: '100%',
+  },
+  voiceRow: {
+    flexWrap: 'wrap',
+  },
   infoRow: {
     flexDirection: 'row',
   },
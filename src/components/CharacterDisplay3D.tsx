@@ -1,18 +1,21 @@
-import React, { useRef, useMemo, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useMemo, useState, useEffect, useCallback, useContext } from 'react';
 import { View, StyleSheet, Dimensions, Platform } from 'react-native';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, Html } from '@react-three/drei';
+import { OrbitControls, Html, PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
 import { getCharacter, CharacterBehavior } from '../config/characters';
 import { performanceLogger, memDebug } from '../services/performanceLogger';
 import { fpsMonitor } from '../services/fpsMonitor';
+import { useQualitySettings } from '../services/qualityManager';
+import { AnimationClock, realClock } from '../services/animationClock';
+import { getLipSyncShape } from '../services/lipSync';
 
 // Global counter to ensure only one performance monitor logs at a time
 let activeMonitorCount = 0;
 
 // Component to invalidate canvas for continuous animation rendering with frameloop="demand"
 // This is much more efficient than frameloop="always" as it only renders when needed
-function AnimationInvalidator({ isAnimating }: { isAnimating: boolean }) {
+function AnimationInvalidator({ isAnimating, clock = realClock }: { isAnimating: boolean; clock?: AnimationClock }) {
   const { invalidate } = useThree();
 
   useEffect(() => {
@@ -28,15 +31,15 @@ function AnimationInvalidator({ isAnimating }: { isAnimating: boolean }) {
         lastTime = time;
         invalidate();
       }
-      animationId = requestAnimationFrame(tick);
+      animationId = clock.requestFrame(tick);
     };
 
-    animationId = requestAnimationFrame(tick);
+    animationId = clock.requestFrame(tick);
 
     return () => {
-      cancelAnimationFrame(animationId);
+      clock.cancelFrame(animationId);
     };
-  }, [isAnimating, invalidate]);
+  }, [isAnimating, invalidate, clock]);
 
   return null;
 }
@@ -162,6 +165,9 @@ import {
   CharacterDisplay3DProps,
 } from './character3d/types';
 import { useBodyConfig } from './character3d/bodyConfig';
+import { StyledModel, resolveHeadStyle } from './character3d/modelStyles';
+import { AnimationClipPlayer, getAnimationClip, loadAnimationClips, retainCharacterClips } from './character3d/animationClips';
+import { AccessoryDefinition, loadAccessoryDefinitions, resolveCustomAccessories, retainCharacterAccessories } from './character3d/accessoryDefinitions';
 import {
   ONE_SHOT_ANIMATIONS,
   LERP_SPEED,
@@ -193,6 +199,8 @@ import { HeadAccessories } from './character3d/parts/HeadAccessories';
 import { BodyAccessories2 } from './character3d/parts/BodyAccessories2';
 import { HandProps } from './character3d/parts/HandProps';
 import { Companions } from './character3d/parts/Companions';
+import { SchemaAccessories } from './character3d/parts/SchemaAccessories';
+import { SharedCharacterCanvasContext, CanvasView, ViewDepthReset } from './character3d/SharedCharacterCanvas';
 
 // Re-export types for backward compatibility
 export type { AnimationState, ComplementaryAnimation, CharacterDisplay3DProps } from './character3d/types';
@@ -420,14 +428,16 @@ interface CharacterProps {
   scale?: number;
   complementary?: ComplementaryAnimation;
   modelStyle?: ModelStyle;
+  faceDetails?: boolean; // Nose, cheek and forehead parts (off at low quality tiers)
   positionX?: number;
   positionY?: number;
   positionZ?: number;
   onAnimationComplete?: () => void;
+  clock?: AnimationClock;
 }
 
 // Character component with switchable 3D style - memoized to prevent unnecessary re-renders
-const Character = React.memo(function Character({ character, isActive, animation = 'idle', isTalking = false, scale = 1, complementary, modelStyle = 'blocky', positionX = 0, positionY = 0, positionZ = 0, onAnimationComplete }: CharacterProps) {
+const Character = React.memo(function Character({ character, isActive, animation = 'idle', isTalking = false, scale = 1, complementary, modelStyle = 'blocky', faceDetails = true, positionX = 0, positionY = 0, positionZ = 0, onAnimationComplete, clock = realClock }: CharacterProps) {
   const meshRef = useRef<THREE.Group>(null);
   const headRef = useRef<THREE.Group>(null);
   // Limbs as groups (for articulated joints)
@@ -459,6 +469,9 @@ const Character = React.memo(function Character({ character, isActive, animation
   const leftCheekRef = useRef<THREE.Mesh>(null);
   const rightCheekRef = useRef<THREE.Mesh>(null);
 
+  // Keyframe clip playback (crossfades between animation states)
+  const clipPlayerRef = useRef(new AnimationClipPlayer());
+
   // Animation completion tracking
   const animationStartTime = useRef<number>(0);
   const animationCompleted = useRef<boolean>(false);
@@ -472,6 +485,27 @@ const Character = React.memo(function Character({ character, isActive, animation
     return accessories.includes('wheelchair');
   }, [character.customization]);
 
+  // Signature moves shipped with the character replace the built-in clip for their state
+  const signatureClips = character.customization.animationClips;
+  useEffect(() => {
+    if (!signatureClips || signatureClips.length === 0) return;
+    loadAnimationClips(signatureClips, character.id);
+    return retainCharacterClips(character.id);
+  }, [character.id, signatureClips]);
+
+  // Declarative accessories (generated or loaded at runtime) - registered for this character
+  const customAccessoryEntries = character.customization.customAccessories;
+  const [customAccessories, setCustomAccessories] = useState<AccessoryDefinition[]>([]);
+  useEffect(() => {
+    if (!customAccessoryEntries || customAccessoryEntries.length === 0) {
+      setCustomAccessories(previous => (previous.length === 0 ? previous : []));
+      return;
+    }
+    loadAccessoryDefinitions(customAccessoryEntries, character.id);
+    setCustomAccessories(resolveCustomAccessories(customAccessoryEntries, character.id));
+    return retainCharacterAccessories(character.id);
+  }, [character.id, customAccessoryEntries]);
+
   // Store props in refs to avoid restarting animation loop on every prop change
   const complementaryRef = useRef(complementary);
   const isTalkingRef = useRef(isTalking);
@@ -481,6 +515,7 @@ const Character = React.memo(function Character({ character, isActive, animation
   const animationRef = useRef(animation);
   const isActiveRef = useRef(isActive);
   const hasWheelchairRef = useRef(hasWheelchairEarly);
+  const modelStyleRef = useRef(modelStyle);
 
   // Track if component is mounted to prevent RAF scheduling after unmount
   const isMountedRef = useRef(true);
@@ -495,16 +530,17 @@ const Character = React.memo(function Character({ character, isActive, animation
     animationRef.current = animation;
     isActiveRef.current = isActive;
     hasWheelchairRef.current = hasWheelchairEarly;
-  }, [complementary, isTalking, positionY, onAnimationComplete, animation, isActive, hasWheelchairEarly]);
+    modelStyleRef.current = modelStyle;
+  }, [complementary, isTalking, positionY, onAnimationComplete, animation, isActive, hasWheelchairEarly, modelStyle]);
 
   // Automatic blink timing
-  const nextBlinkTime = useRef<number>(Date.now() / 1000 + AUTO_BLINK.minInterval + Math.random() * (AUTO_BLINK.maxInterval - AUTO_BLINK.minInterval));
+  const nextBlinkTime = useRef<number>(clock.now() / 1000 + AUTO_BLINK.minInterval + Math.random() * (AUTO_BLINK.maxInterval - AUTO_BLINK.minInterval));
   const blinkStartTime = useRef<number | null>(null);
 
   // Reset tracking when animation changes
   useEffect(() => {
     if (animation !== lastAnimation.current) {
-      animationStartTime.current = Date.now() / 1000;
+      animationStartTime.current = clock.now() / 1000;
       animationCompleted.current = false;
       lastAnimation.current = animation;
     }
@@ -538,13 +574,13 @@ const Character = React.memo(function Character({ character, isActive, animation
       // Throttle animation to target FPS
       const deltaTime = frameTime - lastFrameTime;
       if (deltaTime < frameInterval) {
-        animationId = requestAnimationFrame(animate);
+        animationId = clock.requestFrame(animate);
         return;
       }
       lastFrameTime = frameTime - (deltaTime % frameInterval);
 
       const perfStart = performanceLogger.frameStart();
-      const time = Date.now() * 0.001 * animSpeedRef.current;
+      const time = clock.now() * 0.001 * animSpeedRef.current;
 
       // Target values - we'll lerp towards these
       let targetMeshY = 0;
@@ -577,6 +613,11 @@ const Character = React.memo(function Character({ character, isActive, animation
       // NEW: Foot rotation (ankle) targets
       let targetLeftFootRotX = 0;
       let targetRightFootRotX = 0;
+      // Hand rotation (wrist) targets
+      let targetLeftHandRotX = 0;
+      let targetLeftHandRotZ = 0;
+      let targetRightHandRotX = 0;
+      let targetRightHandRotZ = 0;
       let targetLeftEyeScaleY = 1;
       let targetRightEyeScaleY = 1;
       // NEW: Eye X-scale targets for wide/narrow states
@@ -599,7 +640,7 @@ const Character = React.memo(function Character({ character, isActive, animation
       let targetJawPosZ = 0;
 
       // Head style calculations for eyebrow positioning
-      const headStyleVal = complementaryRef.current?.headStyle || 'bigger';
+      const headStyleVal = resolveHeadStyle(modelStyleRef.current, complementaryRef.current?.headStyle);
       // Use imported constant instead of creating object per frame
       const headH = HEAD_HEIGHTS[headStyleVal] || 0.70;
       const faceYOffsetAnim = (0.5 - headH) / 2;
@@ -646,7 +687,7 @@ const Character = React.memo(function Character({ character, isActive, animation
       // =========================================
       // COMPLEMENTARY: Eye State
       // =========================================
-      const currentTime = Date.now() / 1000;
+      const currentTime = clock.now() / 1000;
 
       // Helper function to calculate blink openness
       const calculateBlinkOpenness = (blinkProgress: number): number => {
@@ -894,10 +935,13 @@ const Character = React.memo(function Character({ character, isActive, animation
           break;
       }
 
+      // Viseme for the current syllable while TTS is speaking (null = generic flapping)
+      const lipSyncShape = isTalkingRef.current ? getLipSyncShape(charId) : null;
+
       // =========================================
       // COMPLEMENTARY: Jaw State (NEW)
       // =========================================
-      switch (complementaryRef.current?.jawState) {
+      switch (lipSyncShape?.jawState ?? complementaryRef.current?.jawState) {
         case 'clenched':
           targetHeadScaleY = 1.97;
           break;
@@ -944,699 +988,68 @@ const Character = React.memo(function Character({ character, isActive, animation
         }
       }
 
-      // Independent mouth animation when talking (overrides mouthState)
-      if (mouthRef.current && isTalkingRef.current) {
+      // Mouth animation when talking (overrides mouthState) - visemes when lip sync is running
+      if (mouthRef.current && isTalkingRef.current && lipSyncShape) {
+        // Ease toward the viseme so syllables blend instead of snapping
+        mouthRef.current.scale.x += (lipSyncShape.mouthScaleX - mouthRef.current.scale.x) * 0.5;
+        mouthRef.current.scale.y += (lipSyncShape.mouthScaleY - mouthRef.current.scale.y) * 0.5;
+      } else if (mouthRef.current && isTalkingRef.current) {
         const mouthCycle = Math.sin(time * 6 * Math.PI);
         const mouthScale = 0.3 + (mouthCycle * 0.5 + 0.5) * 0.7;
         mouthRef.current.scale.y = mouthScale;
       }
 
-      // Calculate target values based on animation state (with complementary look direction applied)
+      // Calculate target values from the animation clip (with complementary look direction applied)
       // Use ref to avoid restarting animation loop on every idle animation change
       const currentAnimation = animationRef.current;
-      switch (currentAnimation) {
-        case 'idle':
-          targetMeshY = Math.sin(time * 0.5) * 0.05;
-          targetHeadRotY = (isActiveRef.current ? Math.sin(time * 1.5) * 0.15 : 0) + lookYOffset;
-          targetHeadRotX = lookXOffset;
-          break;
-
-        case 'thinking':
-          // Hand on chin, head tilted, slight sway
-          targetMeshY = Math.sin(time * 0.3) * 0.03;
-          targetHeadRotZ = Math.sin(time * 0.5) * 0.1 - 0.2;
-          targetHeadRotY = -0.3 + lookYOffset;
-          targetHeadRotX = lookXOffset;
-          targetRightArmRotX = -1.5;
-          targetRightArmRotZ = 0.3;
-          // Forearm bent to bring hand to chin
-          targetRightForearmRotX = -1.2;
-          break;
-
-        case 'talking':
-          // Animated head bobbing, hand gestures
-          targetMeshY = Math.sin(time * 2) * 0.02;
-          targetHeadRotX = Math.sin(time * 4) * 0.1 + lookXOffset;
-          targetHeadRotY = lookYOffset;
-          targetLeftArmRotX = Math.sin(time * 3) * 0.3 - 0.3;
-          targetRightArmRotX = Math.sin(time * 3 + Math.PI) * 0.3 - 0.3;
-          // Alternating forearm bends for gestures
-          targetLeftForearmRotX = Math.sin(time * 3) * 0.4 - 0.3;
-          targetRightForearmRotX = Math.sin(time * 3 + Math.PI) * 0.4 - 0.3;
-          break;
-
-        case 'confused':
-          // Head tilting side to side, scratching head
-          targetHeadRotZ = Math.sin(time * 2) * 0.3;
-          targetHeadRotY = Math.sin(time * 1.5) * 0.2 + lookYOffset;
-          targetHeadRotX = lookXOffset;
-          targetRightArmRotX = -1.8 + Math.sin(time * 3) * 0.2;
-          targetRightArmRotZ = 0.5;
-          // One eyebrow raised (skeptical/confused look)
-          targetLeftEyebrowPosY = 0;
-          targetLeftEyebrowRotZ = 0;
-          targetRightEyebrowPosY = 0.04;
-          targetRightEyebrowRotZ = -0.15;
-          break;
-
-        case 'happy':
-          // Bouncing, swaying arms, smiling
-          targetMeshY = Math.abs(Math.sin(time * 3)) * 0.15;
-          targetHeadRotZ = Math.sin(time * 2) * 0.15;
-          targetHeadRotY = lookYOffset;
-          targetHeadRotX = lookXOffset;
-          targetLeftArmRotZ = -0.3 + Math.sin(time * 2) * 0.2;
-          targetRightArmRotZ = 0.3 + Math.sin(time * 2 + Math.PI) * 0.2;
-          // Raised eyebrows - cheerful expression
-          targetLeftEyebrowPosY = 0.03;
-          targetRightEyebrowPosY = 0.03;
-          targetLeftEyebrowRotZ = 0.1;
-          targetRightEyebrowRotZ = -0.1;
-          break;
-
-        case 'excited':
-          // Fast bouncing, waving arms, wide grin
-          targetMeshY = Math.abs(Math.sin(time * 5)) * 0.2;
-          targetHeadRotY = Math.sin(time * 4) * 0.2 + lookYOffset;
-          targetHeadRotX = lookXOffset;
-          targetLeftArmRotX = Math.sin(time * 6) * 0.5 - 0.5;
-          targetLeftArmRotZ = -0.5;
-          targetRightArmRotX = Math.sin(time * 6 + Math.PI) * 0.5 - 0.5;
-          targetRightArmRotZ = 0.5;
-          // Bent elbows with waving forearms
-          targetLeftForearmRotX = Math.sin(time * 6) * 0.6 - 0.5;
-          targetRightForearmRotX = Math.sin(time * 6 + Math.PI) * 0.6 - 0.5;
-          // Raised eyebrows - excited expression
-          targetLeftEyebrowPosY = 0.04;
-          targetRightEyebrowPosY = 0.04;
-          targetLeftEyebrowRotZ = 0.12;
-          targetRightEyebrowRotZ = -0.12;
-          // Wide eyes
-          targetLeftEyeScaleY = 1.2;
-          targetRightEyeScaleY = 1.2;
-          break;
-
-        case 'winning':
-          // High jump, arms up, celebration
-          const jumpPhase = (time * 4) % (Math.PI * 2);
-          targetMeshY = Math.max(0, Math.sin(jumpPhase) * 0.5);
-          targetHeadRotZ = Math.sin(time * 3) * 0.2;
-          targetLeftArmRotX = -2.8; // Arms up
-          targetLeftArmRotZ = -0.8;
-          targetRightArmRotX = -2.8; // Arms up
-          targetRightArmRotZ = 0.8;
-          // Forearms bent for fist pump celebration
-          targetLeftForearmRotX = -0.5 + Math.sin(time * 6) * 0.3;
-          targetRightForearmRotX = -0.5 + Math.sin(time * 6 + Math.PI) * 0.3;
-          // Alternating leg kicks during jump
-          targetLeftLegRotX = Math.sin(time * 4) * 0.5;
-          targetRightLegRotX = Math.sin(time * 4 + Math.PI) * 0.5;
-          // Feet flex on jump
-          targetLeftFootRotX = Math.sin(time * 4) * 0.4;
-          targetRightFootRotX = Math.sin(time * 4 + Math.PI) * 0.4;
-          break;
-
-        case 'walking':
-          // Walking animation - swinging arms and legs
-          targetMeshY = Math.abs(Math.sin(time * 4)) * 0.05;
-          targetHeadRotY = Math.sin(time * 2) * 0.05;
-          targetLeftArmRotX = Math.sin(time * 4) * 0.6;
-          targetRightArmRotX = Math.sin(time * 4 + Math.PI) * 0.6;
-          targetLeftLegRotX = Math.sin(time * 4 + Math.PI) * 0.5;
-          targetRightLegRotX = Math.sin(time * 4) * 0.5;
-          // Slight forearm counter-swing
-          targetLeftForearmRotX = Math.sin(time * 4) * 0.2;
-          targetRightForearmRotX = Math.sin(time * 4 + Math.PI) * 0.2;
-          // Feet flex at ankle during walk cycle
-          targetLeftFootRotX = Math.sin(time * 4 + Math.PI) * 0.3;
-          targetRightFootRotX = Math.sin(time * 4) * 0.3;
-          break;
-
-        case 'jump':
-          // Simple jump animation
-          const jumpCycle = Math.sin(time * 2) * 0.5 + 0.5; // 0 to 1
-          targetMeshY = jumpCycle * 0.4;
-          targetLeftArmRotX = -0.5;
-          targetLeftArmRotZ = -0.3;
-          targetRightArmRotX = -0.5;
-          targetRightArmRotZ = 0.3;
-          break;
-
-        case 'surprise_jump':
-          // Surprised jump - sudden upward movement, 'oh!' expression
-          const surpriseJump = Math.abs(Math.sin(time * 6)) * 0.6;
-          targetMeshY = surpriseJump;
-          targetHeadRotX = -0.2 + lookXOffset; // Head tilted back
-          targetHeadRotY = lookYOffset;
-          targetLeftArmRotX = -1.5; // Arms out to sides
-          targetLeftArmRotZ = -1.2;
-          targetRightArmRotX = -1.5;
-          targetRightArmRotZ = 1.2;
-          targetLeftLegRotX = -0.3;
-          targetRightLegRotX = -0.3;
-          // Eyebrows raised high - shocked
-          targetLeftEyebrowPosY = 0.05;
-          targetRightEyebrowPosY = 0.05;
-          targetLeftEyebrowRotZ = 0.15;
-          targetRightEyebrowRotZ = -0.15;
-          // Wide eyes
-          targetLeftEyeScaleY = 1.3;
-          targetRightEyeScaleY = 1.3;
-          // 'Oh' mouth via mouthRef
-          if (mouthRef.current) {
-            mouthRef.current.scale.y = 0.9;
-            mouthRef.current.scale.x = 0.9;
-          }
-          break;
-
-        case 'lean_back':
-          // Leaning back - skeptical/contemplative pose
-          targetMeshRotX = -0.15; // Lean back (negative X = backward)
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          targetHeadRotX = -0.1; // Head tilted up slightly
-          targetHeadRotY = Math.sin(time * 0.8) * 0.1;
-          targetLeftArmRotX = 0.2;
-          targetLeftArmRotZ = -0.3;
-          targetRightArmRotX = 0.2;
-          targetRightArmRotZ = 0.3;
-          break;
-
-        case 'lean_forward':
-          // Leaning forward - interested/engaged pose
-          targetMeshRotX = 0.2; // Lean forward (positive X = forward)
-          targetMeshY = Math.sin(time * 0.8) * 0.02;
-          targetHeadRotX = 0.15; // Head tilted forward
-          targetHeadRotY = Math.sin(time * 1.2) * 0.08;
-          targetLeftArmRotX = -0.4;
-          targetRightArmRotX = -0.4;
-          break;
-
-        case 'cross_arms':
-          // Arms crossed - reserved/defensive pose
-          targetMeshY = Math.sin(time * 0.4) * 0.02;
-          targetHeadRotY = Math.sin(time * 0.6) * 0.1;
-          targetHeadRotZ = Math.sin(time * 0.4) * 0.05;
-          // Left arm crosses over to right side
-          targetLeftArmRotX = -1.8; //hand height
-          targetLeftArmRotY = 0.8;
-          targetLeftArmRotZ = 0.5;
-
-          targetLeftArmPosX = 0.3; // Move toward center
-          targetLeftArmPosZ = 0.4; // Move forward
-
-          targetLeftForearmRotX = -1.6; // Bend elbow
-          // Right arm crosses under to left side
-          targetRightArmRotX = -0.5;
-          targetRightArmRotY = -0.8; // to interior rotation
-          targetRightArmRotZ = -0.6;
-
-          targetRightArmPosX = -0.3; // Move toward center
-          targetRightArmPosZ = 0.4; // Move forward (slightly less, it's under)
-
-          targetRightForearmRotX = -1.6; // Bend elbow
-          break;
-
-        case 'nod':
-          // Nodding - agreement animation
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          // Continuous nodding motion
-          targetHeadRotX = Math.sin(time * 4) * 0.2;
-          targetLeftArmRotX = Math.sin(time * 2) * 0.1;
-          targetRightArmRotX = Math.sin(time * 2 + Math.PI) * 0.1;
-          break;
-
-        case 'shake_head':
-          // Shaking head - disagreement animation
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          // Side to side shaking
-          targetHeadRotY = Math.sin(time * 5) * 0.3;
-          targetLeftArmRotZ = -0.2;
-          targetRightArmRotZ = 0.2;
-          break;
-
-        case 'shrug':
-          // Shrugging - clear shoulder up/down with arms out
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          targetHeadRotZ = Math.sin(time * 1.5) * 0.15;
-          targetHeadRotX = lookXOffset;
-          targetHeadRotY = lookYOffset;
-          // Smooth shoulder up/down cycle
-          const shrugPhase = (Math.sin(time * 2.5) + 1) / 2; // 0 to 1
-          // Arms spread outward, palms up gesture
-          targetLeftArmRotX = -0.4;
-          targetLeftArmRotZ = -0.6 - shrugPhase * 0.3;
-          targetRightArmRotX = -0.4;
-          targetRightArmRotZ = 0.6 + shrugPhase * 0.3;
-          // KEY: Shoulders (arms) move UP and DOWN for clear shrug
-          targetLeftArmPosY = shrugPhase * 0.15;  // Lift shoulders up
-          targetRightArmPosY = shrugPhase * 0.15;
-          // Forearms bent outward (palms-up "I dunno" gesture)
-          targetLeftForearmRotX = -0.5 - shrugPhase * 0.2;
-          targetRightForearmRotX = -0.5 - shrugPhase * 0.2;
-          // Raised eyebrows for questioning look
-          targetLeftEyebrowPosY = 0.03;
-          targetRightEyebrowPosY = 0.03;
-          targetLeftEyebrowRotZ = 0.1;
-          targetRightEyebrowRotZ = -0.1;
-          break;
-
-        case 'wave':
-          // Waving - greeting/farewell animation
-          targetMeshY = Math.sin(time * 0.5) * 0.03;
-          targetHeadRotZ = Math.sin(time * 1.5) * 0.1;
-          targetLeftArmRotX = 0;
-          targetRightArmRotX = -2.5; // Arm raised
-          targetRightArmRotZ = 0.3;
-          // Forearm does the actual waving motion
-          targetRightForearmRotX = -0.8 + Math.sin(time * 8) * 0.5;
-          break;
-
-        case 'point':
-          // Pointing - emphasis/direction animation
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          targetHeadRotY = 0.2;
-          targetHeadRotX = Math.sin(time * 2) * 0.05;
-          targetLeftArmRotX = 0;
-          targetRightArmRotX = -1.5; // Arm extended forward
-          targetRightArmRotZ = 0.2;
-          // Forearm extended straight for pointing
-          targetRightForearmRotX = 0;
-          break;
-
-        case 'clap':
-          // Clapping - celebration/applause animation
-          targetMeshY = Math.abs(Math.sin(time * 3)) * 0.08;
-          targetHeadRotZ = Math.sin(time * 2) * 0.1;
-          // Clapping motion - arms come together
-          const clapPhase = Math.sin(time * 12);
-          const clapTogether = (clapPhase) / 2; // 0 to 1, peaks when hands meet
-          // Both arms raised in front
-          targetLeftArmRotX = -1.2;
-          targetLeftArmRotZ = 0.3 - clapTogether * 3; // Swing inward on clap
-          targetLeftArmPosX = 0.14; // Move toward center
-          targetLeftArmPosZ = 0.35; // Move forward
-          targetLeftArmPosY = -0.07; // Move arm down
-          targetLeftForearmRotX = -0.5;
-          targetRightArmPosY = -0.07; // Move arm down
-          targetRightArmRotX = -1.3; //shoulder pos in horizontal x
-          targetRightArmRotZ = -0.3 + clapTogether * 3; // Swing inward on clap
-          targetRightArmPosX = -0.14; // Move toward center
-          targetRightArmPosZ = 0.35; // Move forward
-          targetRightForearmRotX = -0.5;
-          break;
-
-        case 'bow':
-          // Bowing - respect/gratitude animation
-          const bowCycle = (Math.sin(time * 1.5) + 1) / 2; // 0 to 1
-          targetMeshRotX = bowCycle * 0.5; // Bow forward (positive X = forward)
-          targetHeadRotX = bowCycle * 0.3; // Head follows bow
-          targetLeftArmRotX = bowCycle * 0.3;
-          targetLeftArmRotZ = -0.2;
-          targetRightArmRotX = bowCycle * 0.3;
-          targetRightArmRotZ = 0.2;
-          break;
-
-        // =========================================
-        // NEW ANIMATIONS
-        // =========================================
-        case 'facepalm':
-          // Facepalm - hand to face in frustration
-          targetHeadRotX = 0.5 + lookXOffset;
-          targetHeadRotY = Math.sin(time * 9) * 0.15 + 0.5 * lookYOffset; // Subtle "no" shake
-          targetHeadRotZ = -0.1;
-          targetHeadPosZ = 0.3; // Head moved forward
-          targetRightArmRotX = -2.2; // ok hand level Upper arm raised
-          targetRightArmPosZ = 0.4; // ok Shoulder moved forward toward face
-          targetRightArmRotZ = -0.8; //ok
-          targetRightArmPosX = -0.2;
-          targetRightForearmRotX = -0.2; // Forearm bent to bring hand to face
-          targetMeshY = Math.sin(time * 0.5) * 0.02; // Subtle sigh movement
-          targetLeftEyeScaleY = 0.1; // Eyes closed
-          targetRightEyeScaleY = 0.1;
-          break;
-
-        case 'dance':
-          // Dance - celebratory bouncing and swaying
-          targetMeshY = Math.abs(Math.sin(time * 6)) * 0.2;
-          targetHeadRotZ = Math.sin(time * 4) * 0.2;
-          targetHeadRotY = Math.sin(time * 2) * 0.15 + lookYOffset;
-          targetHeadRotX = lookXOffset;
-          targetLeftArmRotX = Math.sin(time * 6) * 0.8;
-          targetLeftArmRotZ = -0.5 + Math.sin(time * 3) * 0.3;
-          targetRightArmRotX = Math.sin(time * 6 + Math.PI) * 0.8;
-          targetRightArmRotZ = 0.5 + Math.sin(time * 3 + Math.PI) * 0.3;
-          targetLeftLegRotX = Math.sin(time * 6) * 0.3;
-          targetRightLegRotX = Math.sin(time * 6 + Math.PI) * 0.3;
-          break;
-
-        case 'laugh':
-          // Laugh - rocking back/forward, hand on stomach, eyes & mouth open/close in rhythm
-          const laughRhythm = Math.sin(time * 7); // Main rhythm cycle
-          const laughBounce = Math.abs(laughRhythm) * 0.08;
-          // Rock body back and forward
-          targetMeshRotX = laughRhythm * 0.12; // Forward/backward rocking
-          targetMeshY = laughBounce;
-          // Head tilted back slightly, rocking with body
-          targetHeadRotX = -0.2 + laughRhythm * 0.1 + lookXOffset;
-          targetHeadRotY = lookYOffset;
-          targetHeadRotZ = Math.sin(time * 3.5) * 0.08;
-          // Body slightly curved forward (hunched from laughing)
-          // Arms crossed (same as cross_arms)
-          targetLeftArmRotX = -1.8;
-          targetLeftArmRotY = 0.8;
-          targetLeftArmRotZ = 0.5;
-          targetLeftArmPosX = 0.3;
-          targetLeftArmPosZ = 0.4;
-          targetLeftForearmRotX = -1.6;
-          targetRightArmRotX = -0.5;
-          targetRightArmRotY = -0.8;
-          targetRightArmRotZ = -0.6;
-          targetRightArmPosX = -0.3;
-          targetRightArmPosZ = 0.4;
-          targetRightForearmRotX = -1.6;
-          // Eyes open and close in rhythm with laughing
-          const laughEyeOpen = laughRhythm > 0.2 ? 1.0 : 0.15;
-          targetLeftEyeScaleY = laughEyeOpen;
-          targetRightEyeScaleY = laughEyeOpen;
-          // Mouth open and close in rhythm
-          if (mouthRef.current) {
-            const mouthOpenAmt = (laughRhythm + 1) / 2; // 0 to 1
-            mouthRef.current.scale.y = 0.2 + mouthOpenAmt * 0.8;
-            mouthRef.current.scale.x = 1.5 + mouthOpenAmt * 0.5;
-          }
-          break;
-
-        case 'cry':
-          // Cry - hunched over, hands to face, eyes closed with tears
-          targetMeshY = Math.sin(time * 2) * 0.03;
-          targetMeshRotX = 0.15; // Hunched forward (positive X = forward)
-          targetHeadRotX = 0.3 + Math.sin(time * 3) * 0.05;
-          targetHeadRotY = lookYOffset;
-          targetLeftArmRotX = -2.0;
-          targetLeftArmRotZ = -0.3;
-          targetRightArmRotX = -2.0;
-          targetRightArmRotZ = 0.3;
-          // Eyes closed - shut tight while crying
-          targetLeftEyeScaleY = 0.05;
-          targetRightEyeScaleY = 0.05;
-          // Sad eyebrows - drooping at outer edges
-          targetLeftEyebrowRotZ = 0.3;
-          targetRightEyebrowRotZ = -0.3;
-          targetLeftEyebrowPosY = -0.01;
-          targetRightEyebrowPosY = -0.01;
-          break;
-
-        case 'angry':
-          // Angry - tense posture, clenched fists, furrowed eyebrows
-          targetMeshY = Math.sin(time * 4) * 0.02;
-          targetHeadRotX = 0.15 + lookXOffset;
-          targetHeadRotY = lookYOffset;
-          targetHeadRotZ = Math.sin(time * 6) * 0.05;
-          targetLeftArmRotX = -0.5;
-          targetLeftArmRotZ = -0.4;
-          targetRightArmRotX = -0.5;
-          targetRightArmRotZ = 0.4;
-          // Angry eyebrows - deeply furrowed inward and down
-          targetLeftEyebrowRotZ = -0.4;  // Inner edge down (angry V shape)
-          targetRightEyebrowRotZ = 0.4;
-          targetLeftEyebrowPosY = -0.02;
-          targetRightEyebrowPosY = -0.02;
-          // Narrow eyes for angry look
-          targetLeftEyeScaleY = 0.5;
-          targetRightEyeScaleY = 0.5;
-          break;
-
-        case 'nervous':
-          // Nervous - hands clasped in front of belly, looking around
-          targetMeshY = Math.sin(time * 4) * 0.03;
-          targetHeadRotX = Math.sin(time * 3) * 0.1 + lookXOffset;
-          targetHeadRotY = Math.sin(time * 2) * 0.3 + lookYOffset;
-          targetHeadRotZ = Math.sin(time * 2.5) * 0.1;
-          // Arms crossed / hands touching in front of belly
-          targetLeftArmRotX = -1.0; // Arms forward
-          targetLeftArmRotZ = 0.5;  // Cross inward
-          targetLeftForearmRotX = -0.8; // Bend elbows
-          targetRightArmRotX = -1.0;
-          targetRightArmRotZ = -0.5;
-          targetRightForearmRotX = -0.8;
-          // Slight nervous fidget in the hands
-          targetLeftArmPosX = 0.1 + Math.sin(time * 3) * 0.02;
-          targetRightArmPosX = -0.1 + Math.sin(time * 3) * 0.02;
-          // Worried eyebrows - inner edges raised
-          targetLeftEyebrowRotZ = 0.25;
-          targetRightEyebrowRotZ = -0.25;
-          targetLeftEyebrowPosY = 0.02;
-          targetRightEyebrowPosY = 0.02;
-          // Slightly wide eyes (nervous look)
-          targetLeftEyeScaleY = 1.1;
-          targetRightEyeScaleY = 1.1;
-          break;
-
-        case 'celebrate':
-          // Celebrate - arms up, jumping, wide smile, high eyebrows
-          const celebrateBounce = Math.abs(Math.sin(time * 4));
-          targetMeshY = celebrateBounce * 0.25;
-          targetHeadRotX = -0.2 + lookXOffset;
-          targetHeadRotY = Math.sin(time * 3) * 0.1 + lookYOffset;
-          targetLeftArmRotX = -2.8; // Arms up
-          targetLeftArmRotZ = -0.3;
-          targetRightArmRotX = -2.8;
-          targetRightArmRotZ = 0.3;
-          // Forearms bent for fist pump
-          targetLeftForearmRotX = -0.6 + Math.sin(time * 5) * 0.4;
-          targetRightForearmRotX = -0.6 + Math.sin(time * 5 + Math.PI) * 0.4;
-          // Feet flex on bounces
-          targetLeftFootRotX = celebrateBounce * 0.3;
-          targetRightFootRotX = celebrateBounce * 0.3;
-          // High raised eyebrows - ecstatic
-          targetLeftEyebrowPosY = 0.05;
-          targetRightEyebrowPosY = 0.05;
-          targetLeftEyebrowRotZ = 0.12;
-          targetRightEyebrowRotZ = -0.12;
-          // Wide eyes
-          targetLeftEyeScaleY = 1.2;
-          targetRightEyeScaleY = 1.2;
-          break;
-
-        case 'peek':
-          // Peek - curious looking to the side
-          targetHeadRotY = 0.6 + Math.sin(time * 2) * 0.1 + lookYOffset;
-          targetHeadRotX = Math.sin(time * 1.5) * 0.1 + lookXOffset;
-          targetHeadRotZ = -0.15;
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          targetRightArmRotX = -0.3;
-          break;
-
-        case 'doze':
-          // Doze - sleepy, head drooping with ZzZ (rendered in JSX)
-          // Reduced head tilt to prevent chin clipping into body
-          const dozeHead = Math.sin(time * 0.3) * 0.5;
-          targetHeadRotX = 0.2 + dozeHead + lookXOffset; // Reduced from 0.4 to 0.2
-          targetHeadRotY = Math.sin(time * 0.5) * 0.1 + lookYOffset;
-          targetMeshY = Math.sin(time * 0.3) * 0.02;
-          targetMeshRotX = 0.1; // Slight body lean forward for natural sleepy posture (positive X = forward)
-          targetLeftArmRotZ = -0.1;
-          targetRightArmRotZ = 0.1;
-          targetLeftEyeScaleY = 0.1; // Eyes mostly closed
-          targetRightEyeScaleY = 0.1;
-          // Relaxed eyebrows - slightly drooped
-          targetLeftEyebrowRotZ = 0.15;
-          targetRightEyebrowRotZ = -0.15;
-          targetLeftEyebrowPosY = -0.01;
-          targetRightEyebrowPosY = -0.01;
-          break;
-
-        case 'stretch':
-          // Stretch - full body stretch: arms up high, back arches, tiptoes
-          const stretchPhase = (Math.sin(time * 0.6) + 1) / 2; // 0 to 1 slow cycle
-          // Body rises up on tiptoes and arches back
-          targetMeshY = stretchPhase * 0.08;
-          targetMeshRotX = -stretchPhase * 0.1; // Slight lean back
-          // Head tilts back during stretch peak
-          targetHeadRotX = -0.35 * stretchPhase + lookXOffset;
-          targetHeadRotY = lookYOffset;
-          // Arms reach HIGH above head, spread apart
-          targetLeftArmRotX = -2.8 * stretchPhase; // Arms up
-          targetLeftArmRotZ = -0.5 - stretchPhase * 0.3; // Spread outward
-          targetRightArmRotX = -2.8 * stretchPhase;
-          targetRightArmRotZ = 0.5 + stretchPhase * 0.3;
-          // Forearms extend upward (straighten arms)
-          targetLeftForearmRotX = -0.3 * stretchPhase;
-          targetRightForearmRotX = -0.3 * stretchPhase;
-          // Rise on tiptoes
-          targetLeftFootRotX = -stretchPhase * 0.4;
-          targetRightFootRotX = -stretchPhase * 0.4;
-          // Slight side twist at peak for realism
-          targetMeshRotY = Math.sin(time * 1.2) * stretchPhase * 0.08;
-          // Eyes close during intense stretch
-          if (stretchPhase > 0.6) {
-            targetLeftEyeScaleY = 0.15;
-            targetRightEyeScaleY = 0.15;
-          }
-          break;
-
-        // =========================================
-        // IDLE ANIMATIONS
-        // =========================================
-        case 'kick_ground':
-          // Kick ground - looking down, fast kick up with slow return
-          targetHeadRotX = 0.4 + Math.sin(time * 2) * 0.05 + lookXOffset; // Looking down
-          targetHeadRotY = Math.sin(time * 0.5) * 0.1 + lookYOffset;
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          // Right leg kicks: fast upswing, slow return
-          // Use a sawtooth-like curve: quick rise, slow fall
-          const kickRaw = (time * 1.5) % (Math.PI * 2); // cycle
-          const kickUp = Math.pow(Math.max(0, Math.sin(kickRaw)), 0.3); // fast rise (compressed power curve)
-          targetRightLegRotX = -kickUp * 1.0; // Higher kick (was 0.6)
-          targetRightLowerLegRotX = kickUp * 0.4; // Slight knee follow-through
-          targetLeftLegRotX = kickUp * 0.1; // Slight counterbalance
-          // Arms hang loosely with slight sway
-          targetLeftArmRotZ = -0.15;
-          targetRightArmRotZ = 0.15;
-          targetLeftArmRotX = Math.sin(time * 0.8) * 0.1;
-          targetRightArmRotX = Math.sin(time * 0.8 + Math.PI) * 0.1;
-          break;
-
-        case 'meh':
-          // Meh - bored shrug, disinterested posture with eyebrow flash
-          targetMeshY = Math.sin(time * 0.3) * 0.01;
-          targetHeadRotX = 0.1 + lookXOffset; // Slightly looking down
-          targetHeadRotY = Math.sin(time * 0.4) * 0.05 + lookYOffset;
-          targetHeadRotZ = 0.1; // Slight head tilt
-          // Droopy shoulders via arms
-          targetLeftArmRotZ = -0.1;
-          targetRightArmRotZ = 0.1;
-          targetLeftArmRotX = 0.1;
-          targetRightArmRotX = 0.1;
-          // Periodic small shrug
-          const mehShrug = Math.sin(time * 0.5) * 0.5 + 0.5;
-          if (mehShrug > 0.8) {
-            targetLeftArmRotZ = -0.3;
-            targetRightArmRotZ = 0.3;
-          }
-          // Periodic eyebrow raise (quick "really?" flash)
-          const mehBrowFlash = Math.sin(time * 0.7) * 0.5 + 0.5; // 0 to 1
-          if (mehBrowFlash > 0.85) {
-            targetLeftEyebrowPosY = 0.04;
-            targetRightEyebrowPosY = 0.04;
-            targetLeftEyebrowRotZ = 0.1;
-            targetRightEyebrowRotZ = -0.1;
-          }
-          break;
-
-        case 'foot_tap':
-          // Foot tap - impatient, visible tapping with crossed arms
-          targetMeshY = Math.sin(time * 0.5) * 0.01;
-          targetHeadRotX = lookXOffset;
-          targetHeadRotY = Math.sin(time * 0.8) * 0.1 + lookYOffset;
-          // Crossed arms
-          targetLeftArmRotX = -1.5;
-          targetLeftArmRotZ = 0.7;
-          targetRightArmRotX = -1.5;
-          targetRightArmRotZ = -0.7;
-          // Fast, high foot tapping - very visible
-          const tapPhase = Math.sin(time * 12); // Faster (was 8)
-          targetRightLegRotX = tapPhase > 0 ? -0.4 : 0; // Higher lift (was -0.15)
-          targetRightLowerLegRotX = tapPhase > 0 ? 0.3 : 0; // Knee bends on tap
-          targetRightFootRotX = tapPhase > 0 ? -0.2 : 0; // Foot flexes
-          break;
-
-        case 'look_around':
-          // Look around - quick, alert head movements, looking up
-          targetMeshY = Math.sin(time * 1.2) * 0.02;
-          // Faster sweeping look left to right
-          const lookPhase = Math.sin(time * 2.0);
-          targetHeadRotY = lookPhase * 0.5 + lookYOffset;
-          // Look upward with slight variation (negative X = tilt back = look up)
-          targetHeadRotX = -0.2 + Math.sin(time * 2.8) * 0.1 + lookXOffset;
-          // Body stays mostly straight
-          targetMeshRotX = lookPhase * 0.03;
-          // Arms with slight alertness
-          targetLeftArmRotZ = -0.1 + Math.sin(time * 1.2) * 0.05;
-          targetRightArmRotZ = 0.1 + Math.sin(time * 1.2 + Math.PI) * 0.05;
-          break;
-
-        case 'yawn':
-          // Yawn - mouth wide open, hand covering, eyebrows raised
-          const yawnCycle = (Math.sin(time * 0.6) + 1) / 2; // 0 to 1
-          targetMeshY = yawnCycle * 0.05; //just a little bit of movement to the bottom
-          targetHeadRotX = -0.25 * yawnCycle + lookXOffset; // Head tilts back during yawn
-          targetHeadRotY = lookYOffset;
-
-          // Right hand covers mouth during yawn - arm raised with tight elbow bend
-          targetRightArmRotX = -1.8 * yawnCycle; // Raise arm (not too high) (negative goes foward in front)
-          targetRightArmRotZ = -1.8 * yawnCycle; // Rotate arm strongly inward toward face
-          targetRightForearmRotX = -1.2 * yawnCycle; // Tight elbow bend to bring hand to mouth
-
-          // Left arm stretches slightly outward
-          targetLeftArmRotX = -0.6 * yawnCycle;
-          targetLeftArmRotZ = -0.35 * yawnCycle;
-          targetLeftForearmRotX = -0.3 * yawnCycle; // Slight elbow bend
-
-          // Mouth opens wide during yawn peak, then closes
-          if (mouthRef.current) {
-            // Mouth opens as yawn builds, max at peak
-            const mouthOpen = yawnCycle * 1.2; // 0 to 1.2
-            mouthRef.current.scale.y = 0.1 + mouthOpen * 0.9; // From closed (0.1) to wide open (1.0)
-            mouthRef.current.scale.x = 1.5 + mouthOpen * 0.5; // Slight widening
-          }
-
-          // Eyebrows raise like worried expression, coordinated with mouth
-          targetLeftEyebrowPosY = yawnCycle * 0.04; // Rise up
-          targetRightEyebrowPosY = yawnCycle * 0.04;
-          targetLeftEyebrowRotZ = yawnCycle * 0.2; // Inner edge up (worried look)
-          targetRightEyebrowRotZ = -yawnCycle * 0.2;
-
-          // Eyes close during peak yawn
-          if (yawnCycle > 0.5) {
-            const eyeClose = (yawnCycle - 0.5) * 2; // 0 to 1 during peak
-            targetLeftEyeScaleY = 1 - eyeClose * 0.85; // Close to 0.15
-            targetRightEyeScaleY = 1 - eyeClose * 0.85;
-          }
-          break;
-
-        case 'rub_eyes':
-          // Rub eyes - tiredly rubbing eyes with both hands
-          const rubCycle = (Math.sin(time * 3) + 1) / 2;
-          targetMeshY = Math.sin(time * 0.5) * 0.01;
-          targetHeadRotX = 0.2 + lookXOffset; // Head slightly down
-          targetHeadRotY = lookYOffset;
-          targetHeadPosZ = 0.15; // Head slightly forward
-          // Both hands to eyes - need position offsets to reach face
-          targetLeftArmRotX = -2.3;
-          targetLeftArmRotZ = -0.4 + Math.sin(time * 4) * 0.15; // Rubbing motion
-          targetLeftArmPosX = 0.25; // Move toward center/face
-          targetLeftArmPosZ = 0.4; // Move forward to face
-          targetLeftArmPosY = 0.1; // Lift slightly
-          targetLeftForearmRotX = -1.3; // Bend elbow to bring hand to eye
-          targetRightArmRotX = -2.3;
-          targetRightArmRotZ = 0.4 + Math.sin(time * 4 + Math.PI) * 0.15; // Rubbing motion
-          targetRightArmPosX = -0.25; // Move toward center/face
-          targetRightArmPosZ = 0.4; // Move forward to face
-          targetRightArmPosY = 0.1; // Lift slightly
-          targetRightForearmRotX = -1.3; // Bend elbow to bring hand to eye
-          // Eyes closed while rubbing
-          targetLeftEyeScaleY = 0.1;
-          targetRightEyeScaleY = 0.1;
-          break;
-
-        // =========================================
-        // PROCESSING/THINKING ANIMATIONS
-        // =========================================
-        case 'head_tilt':
-          // Head tilt - curious/contemplative head tilt to the side
-          const tiltPhase = (Math.sin(time * 0.8) + 1) / 2; // 0 to 1
-          targetMeshY = Math.sin(time * 0.5) * 0.02;
-          targetHeadRotZ = 0.25 + Math.sin(time * 0.6) * 0.05; // Tilted to side
-          targetHeadRotY = Math.sin(time * 0.4) * 0.1 + lookYOffset;
-          targetHeadRotX = lookXOffset;
-          // Slight eyebrow raise effect via subtle movements
-          targetLeftArmRotZ = -0.1;
-          targetRightArmRotZ = 0.1;
-          // Occasional small movement
-          targetLeftArmRotX = Math.sin(time * 0.5) * 0.05;
-          break;
-
+      const clipPlayer = clipPlayerRef.current;
+      const nowSeconds = clock.now() / 1000;
+      clipPlayer.play(getAnimationClip(currentAnimation, charId), nowSeconds);
+      const pose = clipPlayer.sample(nowSeconds, animSpeedRef.current, isActiveRef.current);
+      const followLook = clipPlayer.currentClip?.followLook ?? false;
+
+      targetMeshY = pose['body.position.y'] ?? 0;
+      targetMeshRotX = pose['body.rotation.x'] ?? 0;
+      targetMeshRotY = pose['body.rotation.y'] ?? targetMeshRotY;
+      targetHeadRotX = (pose['head.rotation.x'] ?? 0) + (followLook ? lookXOffset : 0);
+      targetHeadRotY = (pose['head.rotation.y'] ?? 0) + (followLook ? lookYOffset : 0);
+      targetHeadRotZ = pose['head.rotation.z'] ?? 0;
+      targetHeadPosZ = pose['head.position.z'] ?? 0;
+      targetLeftArmRotX = pose['leftArm.rotation.x'] ?? 0;
+      targetLeftArmRotY = pose['leftArm.rotation.y'] ?? 0;
+      targetLeftArmRotZ = pose['leftArm.rotation.z'] ?? 0;
+      targetLeftArmPosX = pose['leftArm.position.x'] ?? 0;
+      targetLeftArmPosY = pose['leftArm.position.y'] ?? 0;
+      targetLeftArmPosZ = pose['leftArm.position.z'] ?? 0;
+      targetRightArmRotX = pose['rightArm.rotation.x'] ?? 0;
+      targetRightArmRotY = pose['rightArm.rotation.y'] ?? 0;
+      targetRightArmRotZ = pose['rightArm.rotation.z'] ?? 0;
+      targetRightArmPosX = pose['rightArm.position.x'] ?? 0;
+      targetRightArmPosY = pose['rightArm.position.y'] ?? 0;
+      targetRightArmPosZ = pose['rightArm.position.z'] ?? 0;
+      targetLeftForearmRotX = pose['leftForearm.rotation.x'] ?? 0;
+      targetRightForearmRotX = pose['rightForearm.rotation.x'] ?? 0;
+      targetLeftHandRotX = pose['leftHand.rotation.x'] ?? 0;
+      targetLeftHandRotZ = pose['leftHand.rotation.z'] ?? 0;
+      targetRightHandRotX = pose['rightHand.rotation.x'] ?? 0;
+      targetRightHandRotZ = pose['rightHand.rotation.z'] ?? 0;
+      targetLeftLegRotX = pose['leftLeg.rotation.x'] ?? 0;
+      targetRightLegRotX = pose['rightLeg.rotation.x'] ?? 0;
+      targetLeftLowerLegRotX = pose['leftLowerLeg.rotation.x'] ?? 0;
+      targetRightLowerLegRotX = pose['rightLowerLeg.rotation.x'] ?? 0;
+      targetLeftFootRotX = pose['leftFoot.rotation.x'] ?? 0;
+      targetRightFootRotX = pose['rightFoot.rotation.x'] ?? 0;
+      // Face channels only override the complementary expression when the clip drives them
+      targetLeftEyeScaleY = pose['leftEye.scale.y'] ?? targetLeftEyeScaleY;
+      targetRightEyeScaleY = pose['rightEye.scale.y'] ?? targetRightEyeScaleY;
+      targetLeftEyebrowRotZ = pose['leftEyebrow.rotation.z'] ?? targetLeftEyebrowRotZ;
+      targetLeftEyebrowPosY = pose['leftEyebrow.position.y'] ?? targetLeftEyebrowPosY;
+      targetRightEyebrowRotZ = pose['rightEyebrow.rotation.z'] ?? targetRightEyebrowRotZ;
+      targetRightEyebrowPosY = pose['rightEyebrow.position.y'] ?? targetRightEyebrowPosY;
+      // Mouth shapes (laugh, yawn...) are set directly like the mouthState shapes above
+      if (mouthRef.current) {
+        if (pose['mouth.scale.x'] !== undefined) mouthRef.current.scale.x = pose['mouth.scale.x'];
+        if (pose['mouth.scale.y'] !== undefined) mouthRef.current.scale.y = pose['mouth.scale.y'];
       }
 
       // WHEELCHAIR OVERRIDE: Keep legs in seated position, no leg movement
@@ -1705,6 +1118,15 @@ const Character = React.memo(function Character({ character, isActive, animation
       if (rightLowerLegRef.current) {
         rightLowerLegRef.current.rotation.x = lerp(rightLowerLegRef.current.rotation.x, targetRightLowerLegRotX, transitionSpeed);
       }
+      // Hand animations (wrist)
+      if (leftHandRef.current) {
+        leftHandRef.current.rotation.x = lerp(leftHandRef.current.rotation.x, targetLeftHandRotX, transitionSpeed);
+        leftHandRef.current.rotation.z = lerp(leftHandRef.current.rotation.z, targetLeftHandRotZ, transitionSpeed);
+      }
+      if (rightHandRef.current) {
+        rightHandRef.current.rotation.x = lerp(rightHandRef.current.rotation.x, targetRightHandRotX, transitionSpeed);
+        rightHandRef.current.rotation.z = lerp(rightHandRef.current.rotation.z, targetRightHandRotZ, transitionSpeed);
+      }
       // Foot animations (ankle flex)
       if (leftFootRef.current) {
         leftFootRef.current.rotation.x = lerp(leftFootRef.current.rotation.x, targetLeftFootRotX, transitionSpeed);
@@ -1763,10 +1185,11 @@ const Character = React.memo(function Character({ character, isActive, animation
         headRef.current.position.z = lerp(headRef.current.position.z, targetJawPosZ, transitionSpeed);
       }
 
-      // Check for one-shot animation completion
-      const duration = ONE_SHOT_ANIMATIONS[currentAnimation];
+      // Check for one-shot animation completion (non-looping clips end after their duration)
+      const activeClip = clipPlayer.currentClip;
+      const duration = activeClip && !activeClip.loop ? activeClip.duration : ONE_SHOT_ANIMATIONS[currentAnimation];
       if (duration && !animationCompleted.current && onAnimationCompleteRef.current) {
-        const elapsed = (Date.now() / 1000) - animationStartTime.current;
+        const elapsed = (clock.now() / 1000) - animationStartTime.current;
         if (elapsed >= duration) {
           animationCompleted.current = true;
           onAnimationCompleteRef.current();
@@ -1775,7 +1198,7 @@ const Character = React.memo(function Character({ character, isActive, animation
 
       performanceLogger.frameEnd(perfStart, `Character:${charId}`);
 
-      animationId = requestAnimationFrame(animate);
+      animationId = clock.requestFrame(animate);
     };
     animate();
 
@@ -1786,14 +1209,14 @@ const Character = React.memo(function Character({ character, isActive, animation
       memDebug.trackUnmount(`Character:${charId}`);
       // console.log(`[CHAR-DEBUG] 🎭 Animation loop STOPPED for ${charId}`);
       if (animationId) {
-        cancelAnimationFrame(animationId);
+        clock.cancelFrame(animationId);
         memDebug.trackRAFCancel(`Character:${charId}`, animationId);
       }
     };
-    // Only restart animation loop when character changes
+    // Only restart animation loop when character (or clock) changes
     // All other props (animation, isActive, complementary, isTalking, etc.) are read from refs
     // This prevents loop restarts when idle animation system cycles through animations
-  }, [character?.id]);
+  }, [character?.id, clock]);
 
   // Get customization from character config
   const customization = character.customization;
@@ -1903,15 +1326,25 @@ const Character = React.memo(function Character({ character, isActive, animation
       return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
     })();
 
+  // Color slots for declarative accessories
+  const accessoryColors = {
+    accessory: character.model3D.accessoryColor,
+    body: character.model3D.bodyColor,
+    pants: pantsColor,
+    hair: hairColor,
+    skin: skinColor,
+    cape: capeColor,
+  };
+
   // For single character display, center at origin with optional offsets
   const position: [number, number, number] = [positionX, positionY, positionZ];
 
   // =========================================
-  // BLOCKY STYLE (Minecraft-like)
+  // BLOCKY STYLE (Minecraft-like) - also the base body of chibi and paper
   // =========================================
 
   // Body dimensions configuration - imported from character3d/bodyConfig
-  const body = useBodyConfig();
+  const body = useBodyConfig(modelStyle);
 
   const renderBlockyBody = () => (
     <>
@@ -2085,6 +1518,9 @@ const Character = React.memo(function Character({ character, isActive, animation
         hasChain={hasChain}
       />
 
+      {/* Declarative accessories worn on the torso */}
+      <SchemaAccessories definitions={customAccessories} attach="torso" body={body} colors={accessoryColors} />
+
       {/* Hand Props - sword, staff, wand, shield, book, gun, portal_gun, pipe, cigar */}
       <HandProps
         body={body}
@@ -2131,6 +1567,7 @@ const Character = React.memo(function Character({ character, isActive, animation
             <boxGeometry args={[body.forearm.width, body.forearm.height, body.forearm.depth]} />
             <meshStandardMaterial color={character.model3D.bodyColor} roughness={0.7} />
           </mesh>
+          <SchemaAccessories definitions={customAccessories} attach="left_hand" body={body} colors={accessoryColors} />
           {/* Hand - skin color */}
           <mesh ref={leftHandRef} position={[0, body.handY, 0]} castShadow>
             <boxGeometry args={[body.hand.width, body.hand.height, body.hand.depth]} />
@@ -2222,6 +1659,7 @@ const Character = React.memo(function Character({ character, isActive, animation
             <boxGeometry args={[body.forearm.width, body.forearm.height, body.forearm.depth]} />
             <meshStandardMaterial color={character.model3D.bodyColor} roughness={0.7} />
           </mesh>
+          <SchemaAccessories definitions={customAccessories} attach="right_hand" body={body} colors={accessoryColors} />
           {/* Hand OR Hook - conditionally rendered */}
           {hasHook ? (
             <group position={[0, body.handY, 0]}>
@@ -2360,12 +1798,13 @@ const Character = React.memo(function Character({ character, isActive, animation
       {/* Head Group */}
       {(() => {
         // Head style configuration
-        const headStyle = complementary?.headStyle || 'bigger';
+        const headStyle = resolveHeadStyle(modelStyle, complementary?.headStyle);
 
         // Head dimensions: [width, height, depth]
         const headDimensions: Record<HeadStyle, [number, number, number]> = {
           default: [0.5, 0.55, 0.5],
           bigger: [0.6, 0.70, 0.6],
+          chibi: [0.85, 0.85, 0.85],
         };
 
         const [headW, headH, headD] = headDimensions[headStyle];
@@ -2540,6 +1979,9 @@ const Character = React.memo(function Character({ character, isActive, animation
               accessoryColor={character.model3D.accessoryColor}
             />
 
+            {/* Declarative accessories worn on the head */}
+            <SchemaAccessories definitions={customAccessories} attach="head" body={body} headScale={headScale} colors={accessoryColors} />
+
             {/* Eyes - hidden when special eye face states are active */}
             {complementary?.faceState !== 'spiral_eyes' &&
               complementary?.faceState !== 'sparkle_eyes' &&
@@ -2987,10 +2429,12 @@ const Character = React.memo(function Character({ character, isActive, animation
             )}
 
             {/* Nose */}
-            <mesh ref={noseRef} position={[0, -0.05 + faceYOffset, 0.26 * headScale]}>
-              <boxGeometry args={[0.08 * headScale, 0.12 * headScale, 0.08 * headScale]} />
-              <meshStandardMaterial color={skinColor} roughness={0.6} />
-            </mesh>
+            {faceDetails && (
+              <mesh ref={noseRef} position={[0, -0.05 + faceYOffset, 0.26 * headScale]}>
+                <boxGeometry args={[0.08 * headScale, 0.12 * headScale, 0.08 * headScale]} />
+                <meshStandardMaterial color={skinColor} roughness={0.6} />
+              </mesh>
+            )}
 
             {/* Mouth - hidden when other mouth states are active (except smile/wide_smile which use the ref) */}
             {/* Default mouth - show when no special mouth state is set AND no animation-specific mouth, OR for animations that control mouth directly */}
@@ -3232,7 +2676,7 @@ const Character = React.memo(function Character({ character, isActive, animation
             )}
 
             {/* Anime Face Decorations */}
-            <FaceDecorations complementary={complementary} headScale={headScale} />
+            <FaceDecorations complementary={complementary} headScale={headScale} showDetails={faceDetails} />
 
             {/* Animation-specific decorations */}
             {/* ZzZzZ floating up during doze */}
@@ -3367,6 +2811,14 @@ const Character = React.memo(function Character({ character, isActive, animation
   // Select the appropriate render function based on style
   const renderBody = () => {
     switch (modelStyle) {
+      // Other styles restyle the same body, so every animation and accessory carries over
+      case 'chibi':
+      case 'paper':
+        return (
+          <StyledModel key={modelStyle} modelStyle={modelStyle}>
+            {renderBlockyBody()}
+          </StyledModel>
+        );
       case 'blocky':
       default:
         return renderBlockyBody();
@@ -3388,9 +2840,11 @@ const Character = React.memo(function Character({ character, isActive, animation
   // Only re-render when essential visual properties change
   return (
     prev.character?.id === next.character?.id &&
+    prev.clock === next.clock &&
     prev.isActive === next.isActive &&
     prev.animation === next.animation &&
     prev.isTalking === next.isTalking &&
+    prev.modelStyle === next.modelStyle &&
     prev.scale === next.scale &&
     prev.positionX === next.positionX &&
     prev.positionY === next.positionY &&
@@ -3422,13 +2876,16 @@ export function CharacterDisplay3D({
   nameKey,
   complementary,
   onAnimationComplete,
-  modelStyle = 'blocky',
+  modelStyle,
+  lighting,
   fov = 45,
   cameraX = 0,
   cameraY = 1,
   characterX = 0,
   characterY = 0,
-  characterZ = 0
+  characterZ = 0,
+  clock,
+  onCanvasReady,
 }: CharacterDisplay3DProps) {
   // Use passed character or fetch by ID
   const character = useMemo(() => {
@@ -3534,13 +2991,21 @@ export function CharacterDisplay3D({
 
   // Mobile-specific rendering optimizations
   const isMobile = Platform.OS === 'ios' || Platform.OS === 'android';
+  const capturesFrames = !!onCanvasReady;
+
+  // Adaptive quality tier - lighting, face details, resolution and the shared canvas
+  const quality = useQualitySettings();
+  const fullLighting = !isMobile && quality.shadows;
+  const sharedCanvasAvailable = useContext(SharedCharacterCanvasContext);
+  // Capture needs its own canvas (readable drawing buffer, driven clock)
+  const useSharedCanvas = sharedCanvasAvailable && quality.sharedCanvas && !capturesFrames && !clock;
   const glConfig = useMemo(() => ({
     alpha: true,
     antialias: !isMobile, // Disable antialias on mobile for better performance
-    preserveDrawingBuffer: false,
+    preserveDrawingBuffer: capturesFrames, // Needed to read frames back for capture
     powerPreference: isMobile ? 'low-power' : 'default' as const,
     precision: isMobile ? 'mediump' : 'highp' as const,
-  }), [isMobile]);
+  }), [isMobile, capturesFrames]);
 
   const sceneRef = useRef<THREE.Scene | null>(null);
 
@@ -3606,90 +3071,116 @@ export function CharacterDisplay3D({
   const handleCreated = ({ gl, scene }: { gl: THREE.WebGLRenderer; scene: THREE.Scene }) => {
     glRef.current = gl;
     sceneRef.current = scene;
+    onCanvasReady?.(gl.domElement);
   };
 
+  // Lights, character and effects - the same in a canvas of its own or a view of the shared canvas
+  const sceneContents = (
+    <>
+      {/* Simplified lighting for mobile, full lighting for web */}
+      <ambientLight intensity={(isMobile ? 0.5 : 0.3) * (lighting?.ambientIntensity ?? 1)} color={lighting?.ambientColor ?? '#ffffff'} />
+      {fullLighting && (
+        <spotLight position={[5, 10, 5]} angle={0.3} penumbra={1} intensity={0.5} castShadow />
+      )}
+      {fullLighting && (
+        <directionalLight position={[-5, 5, 5]} intensity={0.3} />
+      )}
+      {/* Top light for better character illumination */}
+      <directionalLight position={[0, 10, 0]} intensity={isMobile ? 0.6 : 0.4} color="#ffffff" />
+      {/* Frontal light for face illumination */}
+      <directionalLight position={[0, 2, 5]} intensity={(isMobile ? 0.8 : 0.6) * (lighting?.keyIntensity ?? 1)} color={lighting?.keyColor ?? '#ffffff'} />
+      {/* Environment rim light */}
+      {lighting?.rimColor && (
+        <directionalLight position={[-3, 2, -3]} intensity={lighting.rimIntensity ?? 0.3} color={lighting.rimColor} />
+      )}
+      {/* Frontal light for body illumination - only on desktop */}
+      {fullLighting && (
+        <directionalLight position={[0, -2, 5]} intensity={0.5} color="#ffffff" />
+      )}
+
+      <Character
+        character={character}
+        isActive={isActive}
+        animation={animation}
+        isTalking={isTalking}
+        scale={responsiveScale}
+        complementary={complementary}
+        modelStyle={modelStyle ?? character.customization?.modelStyle ?? 'blocky'}
+        faceDetails={quality.faceDetails}
+        positionX={characterX}
+        positionY={characterY}
+        positionZ={characterZ}
+        onAnimationComplete={onAnimationComplete}
+        clock={clock}
+      />
+
+      {/* Visual Effects */}
+      {complementary?.effect === 'confetti' && (
+        <ConfettiEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'spotlight' && (
+        <SpotlightEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'sparkles' && (
+        <SparklesEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'hearts' && (
+        <HeartsEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {/* New emoji-triggered effects */}
+      {complementary?.effect === 'fire' && (
+        <FireEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'stars' && (
+        <StarsEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'music_notes' && (
+        <MusicNotesEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'tears' && (
+        <TearsEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'anger' && (
+        <AngerEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'snow' && (
+        <SnowEffect color={effectColor} speed={complementary?.speed} />
+      )}
+      {complementary?.effect === 'rainbow' && (
+        <RainbowEffect color={effectColor} speed={complementary?.speed} />
+      )}
+
+      {/* Animation-specific effects (when no complementary effect overrides) */}
+      {animation === 'celebrate' && !complementary?.effect && (
+        <ConfettiEffect speed={1.2} />
+      )}
+    </>
+  );
+
+  if (useSharedCanvas) {
+    return (
+      <View style={styles.container}>
+        <CanvasView style={{ width: '100%', height: '100%' }}>
+          <PerspectiveCamera makeDefault position={[cameraX, cameraY, cameraDistance]} fov={fov} />
+          <ViewDepthReset />
+          {sceneContents}
+        </CanvasView>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <Canvas
         key={`canvas-${restartKey}`} // Key changes on low FPS to force remount
         camera={{ position: [cameraX, cameraY, cameraDistance], fov }}
         gl={glConfig}
-        dpr={isMobile ? [1, 1.5] : [1, 2]} // Lower pixel ratio on mobile
+        dpr={[Math.min(1, quality.maxPixelRatio), Math.min(isMobile ? 1.5 : 2, quality.maxPixelRatio)]} // Lower pixel ratio on mobile and low tiers
         style={{ background: 'transparent' }}
         onCreated={handleCreated}
         frameloop="demand" // Only render when invalidated - much better performance with multiple characters
       >
-        {/* Simplified lighting for mobile, full lighting for web */}
-        <ambientLight intensity={isMobile ? 0.5 : 0.3} />
-        {!isMobile && (
-          <spotLight position={[5, 10, 5]} angle={0.3} penumbra={1} intensity={0.5} castShadow />
-        )}
-        {!isMobile && (
-          <directionalLight position={[-5, 5, 5]} intensity={0.3} />
-        )}
-        {/* Top light for better character illumination */}
-        <directionalLight position={[0, 10, 0]} intensity={isMobile ? 0.6 : 0.4} color="#ffffff" />
-        {/* Frontal light for face illumination */}
-        <directionalLight position={[0, 2, 5]} intensity={isMobile ? 0.8 : 0.6} color="#ffffff" />
-        {/* Frontal light for body illumination - only on desktop */}
-        {!isMobile && (
-          <directionalLight position={[0, -2, 5]} intensity={0.5} color="#ffffff" />
-        )}
-
-        <Character
-          character={character}
-          isActive={isActive}
-          animation={animation}
-          isTalking={isTalking}
-          scale={responsiveScale}
-          complementary={complementary}
-          modelStyle={modelStyle}
-          positionX={characterX}
-          positionY={characterY}
-          positionZ={characterZ}
-          onAnimationComplete={onAnimationComplete}
-        />
-
-        {/* Visual Effects */}
-        {complementary?.effect === 'confetti' && (
-          <ConfettiEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'spotlight' && (
-          <SpotlightEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'sparkles' && (
-          <SparklesEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'hearts' && (
-          <HeartsEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {/* New emoji-triggered effects */}
-        {complementary?.effect === 'fire' && (
-          <FireEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'stars' && (
-          <StarsEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'music_notes' && (
-          <MusicNotesEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'tears' && (
-          <TearsEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'anger' && (
-          <AngerEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'snow' && (
-          <SnowEffect color={effectColor} speed={complementary?.speed} />
-        )}
-        {complementary?.effect === 'rainbow' && (
-          <RainbowEffect color={effectColor} speed={complementary?.speed} />
-        )}
-
-        {/* Animation-specific effects (when no complementary effect overrides) */}
-        {animation === 'celebrate' && !complementary?.effect && (
-          <ConfettiEffect speed={1.2} />
-        )}
+        {sceneContents}
 
         <OrbitControls
           enableZoom={true}
@@ -3703,7 +3194,8 @@ export function CharacterDisplay3D({
         />
 
         {/* Performance monitoring with auto-restart on low FPS - only for active characters */}
-        {isActive && (
+        {/* (not when a clock drives rendering - capture runs slower than real time on purpose) */}
+        {isActive && !clock && (
           <ThreeJSPerformanceMonitor
             onLowFPS={handleLowFPS}
             fpsThreshold={40}
@@ -3712,7 +3204,7 @@ export function CharacterDisplay3D({
         )}
 
         {/* Invalidate canvas for animations - enables efficient frameloop="demand" */}
-        <AnimationInvalidator isAnimating={isActive || animation !== 'idle' || isTalking} />
+        <AnimationInvalidator isAnimating={isActive || animation !== 'idle' || isTalking} clock={clock} />
       </Canvas>
     </View>
   );
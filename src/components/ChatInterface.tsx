@@ -26,8 +26,14 @@ import { getRandomGreeting } from '../services/characterGreetings';
 import { EntranceConfig, generateEntranceSequence, getTotalEntranceDuration } from '../services/entranceAnimations';
 import { generateConversationStarter } from '../services/conversationStarterPrompts';
 import { getRandomStory, Story } from '../services/storyLibrary';
+import { SceneEnvironment3D } from './SceneEnvironment3D';
+import { SharedCharacterCanvas } from './character3d/SharedCharacterCanvas';
+import { qualityManager } from '../services/qualityManager';
+import { SCENE_ENVIRONMENT_IDS, SceneEnvironmentId, getSceneEnvironment, parseSceneEnvironmentId } from '../config/sceneEnvironments';
+import { LANGUAGES, LANGUAGE_CODES, LanguageCode, parseLanguageCode } from '../config/languages';
+import { useLanguagePreference } from '../services/languagePreference';
 import { getTalkingSoundsService } from '../services/talkingSoundsService';
-import { setStoryContext, clearStoryContext } from '../store/actions/conversationActions';
+import { setStoryContext, clearStoryContext, setFocusedMessage, saveConversationEnvironment, saveConversationLanguage } from '../store/actions/conversationActions';
 import { useResponsive, BREAKPOINTS, CHARACTER_HEIGHT } from '../constants/Layout';
 import { Toast } from './ui/Toast';
 import { StorySpeechBubble } from './ui/StorySpeechBubble';
@@ -66,13 +72,22 @@ import {
   useVoiceRecording,
   useBobSales,
   useTextToSpeech,
+  useHandsFreeVoice,
+  useStageChoreography,
 } from './ChatInterface/hooks';
 import { calculateCharacterPosition } from './ChatInterface/utils/characterPositioning';
+import { StagePoint } from './ChatInterface/utils/stageChoreography';
+import { findTurnScene, TurnScene } from './ChatInterface/utils/turnScene';
+import { SceneClipExporter } from './SceneClipExporter';
+import { isClipExportSupported } from '../services/sceneClipExport';
+import { checkCloudTTSAvailable, getUnifiedTextToSpeech } from '../services/textToSpeechUnified';
+import { getTimelineVoiceSpans } from '../services/ssmlBuilder';
+import { assignSceneCloudVoices } from '../config/cloudVoices';
 import { SimpleSpeechBubble } from './SimpleSpeechBubble';
 import { ConversationInviteModal } from './ConversationInviteModal';
 import { JoinConversation } from './JoinConversation';
 import { ParticipantList } from './ParticipantList';
-import { loadParticipants, loadUserRole, updateParticipantRole, removeParticipant } from '../store/actions/conversationActions';
+import { loadParticipants, loadUserRole, updateParticipantRole, removeParticipant, switchBranch } from '../store/actions/conversationActions';
 import { supabase } from '../lib/supabase';
 
 interface Message {
@@ -81,6 +96,7 @@ interface Message {
   content: string;
   created_at?: string;
   characterId?: string; // Which character is speaking (for assistant messages)
+  metadata?: Record<string, any>; // e.g. previous_versions after a regenerate, edited_from after an edit, scene on a turn's first reply
 }
 
 // Early animation setup from streaming
@@ -97,6 +113,10 @@ interface ChatInterfaceProps {
   onToggleSidebar: () => void;
   isLoading?: boolean;
   onDeleteMessage?: (messageId: string) => void;
+  // Edit a user message and regenerate everything after it
+  onEditMessage?: (messageId: string, newContent: string) => void;
+  // Regenerate the assistant turn containing this message
+  onRegenerateMessage?: (messageId: string) => void;
   // Animation orchestration
   animationScene?: OrchestrationScene | null;
   // Early animation setup from streaming (before full scene is ready)
@@ -230,6 +250,7 @@ const MemoizedCharacterDisplay3D = memo(CharacterDisplay3D, (prevProps, nextProp
     prevProps.isTalking === nextProps.isTalking &&
     prevProps.showName === nextProps.showName &&
     prevProps.nameKey === nextProps.nameKey &&
+    prevProps.lighting === nextProps.lighting &&
     // Shallow compare complementary properties (much faster than JSON.stringify)
     shallowCompareComplementary(prevProps.complementary, nextProps.complementary)
   );
@@ -322,16 +343,23 @@ const ThinkingDots = memo(() => {
   );
 });
 
-export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSidebar, isLoading = false, onDeleteMessage, animationScene, earlyAnimationSetup, onGreeting, conversationId, savedCharacters, onSaveIdleMessage, initialJoinCode, onConsumeJoinCode, triggerPremiumPitch, onPremiumPitchConsumed, onPaymentSelect, onJoinedConversation, onClearHistory }: ChatInterfaceProps) {
+export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSidebar, isLoading = false, onDeleteMessage, onEditMessage, onRegenerateMessage, animationScene, earlyAnimationSetup, onGreeting, conversationId, savedCharacters, onSaveIdleMessage, initialJoinCode, onConsumeJoinCode, triggerPremiumPitch, onPremiumPitchConsumed, onPaymentSelect, onJoinedConversation, onClearHistory }: ChatInterfaceProps) {
   const dispatch = useDispatch();
   const { isFullscreen } = useSelector((state: RootState) => state.ui);
   const { currentUsage, lastWarningDismissed, lastFetchedAt } = useSelector((state: RootState) => state.usage);
-  const { currentConversation } = useSelector((state: RootState) => state.conversations);
+  const { currentConversation, focusedMessageId, messageBranches } = useSelector((state: RootState) => state.conversations);
   const { showAlert, AlertComponent } = useCustomAlert();
   
   // Check if this is a shared conversation (for displaying sender names)
   const isSharedConversation = currentConversation?.visibility === 'shared';
 
+  // Conversation language - its own, else the user's default from Settings
+  const userLanguage = useLanguagePreference();
+  const conversationLanguage = parseLanguageCode(currentConversation?.language) ?? userLanguage;
+  const languageLocale = LANGUAGES[conversationLanguage].locale;
+  const conversationLanguageRef = useRef(conversationLanguage);
+  conversationLanguageRef.current = conversationLanguage;
+
   // Generate consistent color from sender ID for multi-user conversations
   const getSenderColor = useCallback((senderId: string | undefined, isCurrentUser: boolean): string => {
     if (!senderId || isCurrentUser) return '#10b981'; // Green for current user
@@ -429,6 +457,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     restartRecording,
     togglePause,
   } = useVoiceRecording({
+    language: languageLocale,
     onTranscriptionComplete: (text) => {
       setInput((prev) => {
         const separator = prev.trim() ? ' ' : '';
@@ -437,15 +466,35 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     },
     showAlert,
   });
-  // Message actions (hook handles delete/long press logic)
+  // Turn being exported as a clip (from the message context menu)
+  const [clipExportTurn, setClipExportTurn] = useState<TurnScene | null>(null);
+  const handleExportClip = useCallback((messageId: string) => {
+    const turn = findTurnScene(messages, messageId);
+    if (!turn) {
+      showAlert('Cannot Export', 'This reply has no recorded animation.');
+      return;
+    }
+    setClipExportTurn(turn);
+  }, [messages, showAlert]);
+  // Message actions (hook handles edit/regenerate/export/delete and long press logic)
   const {
+    editingMessageId,
+    editText,
+    setEditText,
+    cancelEditing,
+    submitEdit,
     confirmDeleteMessage,
     handleLongPressMessage,
   } = useMessageEditing({
     isLoading,
     onDeleteMessage,
+    onEditMessage,
+    onRegenerateMessage,
+    onExportClip: isClipExportSupported('gif') ? handleExportClip : undefined,
     showAlert,
   });
+  // Which version of a regenerated message is shown (index into previous_versions; absent = latest)
+  const [viewedVersions, setViewedVersions] = useState<Record<string, number>>({});
   // Text-to-speech for character responses
   const {
     isSpeaking,
@@ -459,6 +508,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     resume: resumeTTS,
   } = useTextToSpeech({
     enabled: false, // TTS disabled
+    lang: languageLocale,
   });
   // Track actual available height from container layout (excludes header/tab bar)
   const [availableHeight, setAvailableHeight] = useState(0);
@@ -508,6 +558,54 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
   // Bob tutorial conversation should not allow collaboration (it's personal for each user)
   const isBobTutorialConversation = selectedCharacters.length === 1 && selectedCharacters[0] === 'bob-tutorial';
 
+  // Scene environment (backdrop + lighting), stored on the conversation
+  const [environmentId, setEnvironmentId] = useState<SceneEnvironmentId>('none');
+  const [showEnvironmentOptions, setShowEnvironmentOptions] = useState(false);
+  const environmentIdRef = useRef<SceneEnvironmentId>('none');
+  environmentIdRef.current = environmentId;
+
+  useEffect(() => {
+    setEnvironmentId(parseSceneEnvironmentId(currentConversation?.environment) ?? 'none');
+  }, [currentConversation?.id, currentConversation?.environment]);
+
+  // Adaptive quality watches FPS while characters are on screen
+  const hasCharactersOnStage = selectedCharacters.length > 0;
+  useEffect(() => {
+    if (!hasCharactersOnStage) return;
+    qualityManager.load();
+    return qualityManager.beginScene();
+  }, [hasCharactersOnStage]);
+
+  const changeEnvironment = useCallback((id: SceneEnvironmentId) => {
+    if (id === environmentIdRef.current) return;
+    console.log('[ChatInterface] Scene environment:', id);
+    setEnvironmentId(id);
+    if (conversationId) {
+      dispatch(saveConversationEnvironment(conversationId, id) as any);
+    }
+  }, [conversationId, dispatch]);
+
+  // Per-conversation language override (null = follow the Settings default)
+  const [showLanguageOptions, setShowLanguageOptions] = useState(false);
+  const changeLanguage = useCallback((language: LanguageCode | null) => {
+    console.log('[ChatInterface] Conversation language:', language ?? 'default');
+    if (conversationId) {
+      dispatch(saveConversationLanguage(conversationId, language) as any);
+    }
+  }, [conversationId, dispatch]);
+
+  // Stories only suggest a backdrop - a chosen one is kept
+  const applyStoryEnvironment = useCallback((story: Story) => {
+    if (story.environment && environmentIdRef.current === 'none') {
+      changeEnvironment(story.environment);
+    }
+  }, [changeEnvironment]);
+
+  const environmentLighting = useMemo(
+    () => environmentId === 'none' ? undefined : getSceneEnvironment(environmentId).lighting,
+    [environmentId]
+  );
+
   // Track latest message from other users for live display
   const [otherUserMessage, setOtherUserMessage] = useState<{
     content: string;
@@ -738,6 +836,63 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     stopPlayback,
   } = useAnimationPlayback();
 
+  // Hands-free voice mode (hook keeps the mic open, ends turns on silence and handles barge-in)
+  const [handsFreeEnabled, setHandsFreeEnabled] = useState(false);
+
+  // Spoken turns are sent as they end
+  const handleHandsFreeTurn = useCallback((text: string) => {
+    if (isBlocked) {
+      showAlert(
+        'Token Limit Reached',
+        'You have used all your tokens for this period. Please wait for the reset or upgrade your plan.'
+      );
+      setHandsFreeEnabled(false);
+      return;
+    }
+    setPendingUserMessage(text);
+    onSendMessage(text, selectedCharacters);
+  }, [isBlocked, showAlert, onSendMessage, selectedCharacters]);
+
+  // Chat speech run (bumped to cancel) and the cloud utterance in flight - cloud playback
+  // doesn't settle its promise when stopped
+  const chatSpeechRunRef = useRef(0);
+  const finishChatUtteranceRef = useRef<(() => void) | null>(null);
+  const stopChatSpeech = useCallback(() => {
+    chatSpeechRunRef.current++;
+    stopTTS();
+    getUnifiedTextToSpeech().stop();
+    finishChatUtteranceRef.current?.();
+    finishChatUtteranceRef.current = null;
+  }, [stopTTS]);
+
+  // User talked over the characters - let the current animation beat finish, then stop
+  const handleBargeIn = useCallback(() => {
+    stopChatSpeech();
+    playbackEngineRef.current.gracefulStop(() => {
+      console.log('[HandsFree] Barge-in, playback stopped');
+    });
+  }, [stopChatSpeech, playbackEngineRef]);
+
+  const {
+    isSupported: isHandsFreeSupported,
+    phase: handsFreePhase,
+    transcript: handsFreeTranscript,
+    isSpeakingScene: isHandsFreeSpeaking,
+    speakScene: speakHandsFreeScene,
+  } = useHandsFreeVoice({
+    enabled: handsFreeEnabled,
+    language: conversationLanguage,
+    isBusy: isLoading || playbackState.isPlaying,
+    onUserTurn: handleHandsFreeTurn,
+    onBargeIn: handleBargeIn,
+    onSpeakerChange: (characterId) => playbackEngineRef.current.setTTSCurrentSpeaker(characterId),
+    onSpeechPosition: (characterId, charIndex) => playbackEngineRef.current.setTTSCharPosition(characterId, charIndex),
+    onError: (error) => {
+      setHandsFreeEnabled(false);
+      showAlert('Voice Mode Unavailable', error.message);
+    },
+  });
+
   // Idle animations (hook handles per-character timers and state)
   const { idleAnimations, startIdleCycle, stopIdleCycle } = useIdleAnimation({
     selectedCharacters,
@@ -816,6 +971,8 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
   const prevPlayingRef = useRef(false);
   // Store text to speak after playback completes (used for poems and other direct playback)
   const pendingTTSTextRef = useRef<Map<string, string>>(new Map());
+  // Scene started by playOrchestrationScene - a new reply or a replayed turn - that TTS speaks
+  const playingSceneRef = useRef<OrchestrationScene | null>(null);
 
   // Trigger TTS when playback STARTS (synchronized with animation)
   // Uses voice-driven mode: TTS boundary events drive text reveal
@@ -823,20 +980,33 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
   useEffect(() => {
     const wasPlaying = prevPlayingRef.current;
     const isNowPlaying = playbackState.isPlaying;
+    const scene = playingSceneRef.current;
 
     // Detect transition from stopped to playing (START of playback)
-    if (!wasPlaying && isNowPlaying && ttsEnabled && isTTSSupported && animationScene) {
+    // Hands-free mode speaks every reply with the characters' own voices
+    if (!wasPlaying && isNowPlaying && handsFreeEnabled && scene) {
+      playbackEngineRef.current.setTTSDrivenMode(true);
+      speakHandsFreeScene(scene);
+    } else if (!wasPlaying && isNowPlaying && ttsEnabled && isTTSSupported && scene) {
       // Enable TTS-driven mode: text reveal follows TTS position
       playbackEngineRef.current.setTTSDrivenMode(true);
 
       // Speak in timeline order (sorted by startDelay) - matches animation sequence
       // This ensures characters speak in the order determined by the LLM (ord field)
       const speakSequentially = async () => {
+        const runId = ++chatSpeechRunRef.current;
         // Sort timelines by startDelay to get correct speaking order
-        const sortedTimelines = [...animationScene.timelines]
+        const sortedTimelines = [...scene.timelines]
           .sort((a, b) => a.startDelay - b.startDelay);
 
+        // Cloud TTS speaks with each character's own cloud voice and per-segment SSML voices
+        const sceneLanguage = conversationLanguageRef.current;
+        const cloudVoices = await checkCloudTTSAvailable()
+          ? assignSceneCloudVoices(sortedTimelines.map(timeline => getCharacter(timeline.characterId)), sceneLanguage)
+          : null;
+
         for (const timeline of sortedTimelines) {
+          if (runId !== chatSpeechRunRef.current) return;
           const characterId = timeline.characterId;
           const fullText = timeline.content;
 
@@ -848,16 +1018,31 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
             try {
               const character = getCharacter(characterId);
               const voiceProfile = character?.voiceProfile;
+              // Update playback engine with TTS position
+              const onBoundary = (charIndex: number) => {
+                playbackEngineRef.current.setTTSCharPosition(characterId, charIndex);
+              };
 
-              // Speak with onBoundary callback to drive text animation
               // await ensures we wait for this character to finish before next
-              await speak(fullText, {
-                voiceProfile,
-                onBoundary: (charIndex: number) => {
-                  // Update playback engine with TTS position
-                  playbackEngineRef.current.setTTSCharPosition(characterId, charIndex);
-                },
-              });
+              if (cloudVoices) {
+                await new Promise<void>((resolve) => {
+                  finishChatUtteranceRef.current = resolve;
+                  getUnifiedTextToSpeech().speak(fullText, {
+                    characterId,
+                    voiceProfile,
+                    cloudVoice: cloudVoices.get(characterId),
+                    language: LANGUAGES[sceneLanguage].locale,
+                    voiceSpans: getTimelineVoiceSpans(timeline),
+                    onBoundary,
+                    onEnd: () => resolve(),
+                    onError: () => resolve(),
+                  }).catch(() => resolve());
+                });
+                finishChatUtteranceRef.current = null;
+              } else {
+                // Speak with onBoundary callback to drive text animation (and lip sync)
+                await speak(fullText, { voiceProfile, characterId, onBoundary });
+              }
 
               // When TTS completes, show full text
               playbackEngineRef.current.setTTSCharPosition(characterId, fullText.length);
@@ -869,7 +1054,9 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
         }
 
         // All characters done speaking
-        playbackEngineRef.current.setTTSCurrentSpeaker(null);
+        if (runId === chatSpeechRunRef.current) {
+          playbackEngineRef.current.setTTSCurrentSpeaker(null);
+        }
       };
 
       speakSequentially();
@@ -882,7 +1069,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     }
 
     prevPlayingRef.current = isNowPlaying;
-  }, [playbackState.isPlaying, ttsEnabled, isTTSSupported, animationScene, speak]);
+  }, [playbackState.isPlaying, ttsEnabled, isTTSSupported, speak, handsFreeEnabled, speakHandsFreeScene]);
 
   // Animation playback subscription is handled by useAnimationPlayback hook
 
@@ -906,6 +1093,8 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
       const voiceProfiles = buildVoiceProfilesMap();
       playbackEngineRef.current.setCharacterVoiceProfiles(voiceProfiles);
       
+      // Nothing to say while thinking
+      playingSceneRef.current = null;
       playbackEngineRef.current.play(thinkingScene);
     }
   }, [earlyAnimationSetup, animationScene, selectedCharacters, availableCharacters]);
@@ -935,28 +1124,50 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     return profiles;
   }, [selectedCharacters, availableCharacters]);
 
+  // Play a scene with the characters' voice profiles (new responses and replays)
+  const playOrchestrationScene = useCallback((scene: OrchestrationScene) => {
+    // Set character voice profiles before playing
+    const voiceProfiles = buildVoiceProfilesMap();
+    playbackEngineRef.current.setCharacterVoiceProfiles(voiceProfiles);
+
+    // Store text content for TTS synchronization
+    pendingTTSTextRef.current.clear();
+    for (const timeline of scene.timelines) {
+      // Store text for TTS - this enables voice-driven text sync
+      if (timeline.content && timeline.content.trim()) {
+        pendingTTSTextRef.current.set(timeline.characterId, timeline.content);
+      }
+    }
+
+    playingSceneRef.current = scene;
+    playbackEngineRef.current.play(scene);
+  }, [buildVoiceProfilesMap]);
+
   // Start animation playback when a new scene is provided
   useEffect(() => {
     if (animationScene) {
       // Clear pending user message when wakattors start responding
       setPendingUserMessage(null);
-
-      // Set character voice profiles before playing
-      const voiceProfiles = buildVoiceProfilesMap();
-      playbackEngineRef.current.setCharacterVoiceProfiles(voiceProfiles);
-
-      // Store text content for TTS synchronization
-      pendingTTSTextRef.current.clear();
-      for (const timeline of animationScene.timelines) {
-        // Store text for TTS - this enables voice-driven text sync
-        if (timeline.content && timeline.content.trim()) {
-          pendingTTSTextRef.current.set(timeline.characterId, timeline.content);
-        }
+      // LLM-requested scene change - new scenes only, replays leave the conversation as is
+      if (animationScene.environment) {
+        changeEnvironment(animationScene.environment);
       }
+      playOrchestrationScene(animationScene);
+    }
+  }, [animationScene, changeEnvironment, playOrchestrationScene]);
 
-      playbackEngineRef.current.play(animationScene);
+  // Replay a past assistant turn from its stored scene - no LLM call
+  const handleReplayTurn = useCallback((messageId: string) => {
+    const turn = findTurnScene(messages, messageId);
+    if (!turn) {
+      showAlert('Cannot Replay', 'This reply has no recorded animation.');
+      return;
     }
-  }, [animationScene, buildVoiceProfilesMap]);
+
+    // Reveal this turn's messages rather than each character's latest
+    setAnimatingMessages(turn.messageIds);
+    playOrchestrationScene(turn.scene);
+  }, [messages, playOrchestrationScene, showAlert]);
 
   // Track which messages are being animated based on the current scene
   useEffect(() => {
@@ -1069,6 +1280,22 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     [selectedCharacters]
   );
 
+  // Stage choreography: home slots and the walks planned for the playing scene
+  const stageSlots = useMemo(() => {
+    const total = Math.min(selectedCharacters.length, 5);
+    const slots = new Map<string, StagePoint>();
+    limitedCharacters.forEach((characterId, index) => {
+      const { horizontalOffset } = calculateCharacterPosition(index, total, screenWidth, characterScaleFactor);
+      slots.set(characterId, { x: horizontalOffset, depth: 0 });
+    });
+    return slots;
+  }, [limitedCharacters, selectedCharacters.length, screenWidth, characterScaleFactor]);
+  const { getPose: getStagePose } = useStageChoreography({
+    isPlaying: playbackState.isPlaying,
+    playbackEngineRef,
+    stageSlots,
+  });
+
   useEffect(() => {
     // Detect conversation change: first message ID changed or message array replaced
     const conversationChanged =
@@ -1231,13 +1458,14 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
           // Pick a random story for the conversation starter
           const story = getRandomStory(selectedIds);
           setCurrentStory(story);
+          applyStoryEnvironment(story);
           storyInterruptedRef.current = false;
 
           // Show the story toast
           setStoryToastVisible(true);
 
           // Fire API request immediately (parallel with animation)
-          generateConversationStarter(selectedIds, undefined, story)
+          generateConversationStarter(selectedIds, undefined, story, conversationLanguageRef.current)
             .then(({ scene, responses, storyContext }) => {
               const elapsed = Date.now() - entranceStartTime;
               const remainingEntranceTime = Math.max(0, totalEntranceDuration - elapsed);
@@ -1260,6 +1488,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
                 // Play conversation starter scene (if not interrupted by user)
                 if (scene && responses.length > 0 && !storyInterruptedRef.current) {
                   // Set animation scene for playback
+                  playingSceneRef.current = scene;
                   playbackEngineRef.current.play(scene);
 
                   // Save all messages to database SEQUENTIALLY to preserve order
@@ -1291,7 +1520,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
               setTimeout(() => {
                 setShowEntranceAnimation(false);
                 setEntranceSequence(new Map());
-                const greeting = getRandomGreeting(selectedChar.id, selectedChar.name);
+                const greeting = getRandomGreeting(selectedChar.id, selectedChar.name, undefined, conversationLanguageRef.current);
                 onGreeting(selectedChar.id, greeting);
               }, remainingTime);
             });
@@ -1362,11 +1591,12 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
         // Pick random story and show toast
         const story = getRandomStory(selectedIds);
         setCurrentStory(story);
+        applyStoryEnvironment(story);
         storyInterruptedRef.current = false;
         setStoryToastVisible(true);
 
         // Generate AI greeting (same as existing logic for non-Bob conversations)
-        generateConversationStarter(selectedIds, undefined, story)
+        generateConversationStarter(selectedIds, undefined, story, conversationLanguageRef.current)
           .then(({ scene, responses, storyContext }) => {
             const elapsed = Date.now() - entranceStartTime;
             const remainingEntranceTime = Math.max(0, totalEntranceDuration - elapsed);
@@ -1389,6 +1619,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
               // Play conversation starter scene (if not interrupted by user)
               if (scene && responses.length > 0 && !storyInterruptedRef.current) {
                 // Set animation scene for playback
+                playingSceneRef.current = scene;
                 playbackEngineRef.current.play(scene);
 
                 // Save all messages to database SEQUENTIALLY to preserve order
@@ -1424,7 +1655,7 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
               const firstCharId = selectedIds[0];
               const firstChar = availableCharacters.find(c => c.id === firstCharId);
               if (firstChar) {
-                const greeting = getRandomGreeting(firstChar.id, firstChar.name);
+                const greeting = getRandomGreeting(firstChar.id, firstChar.name, undefined, conversationLanguageRef.current);
                 onGreeting(firstChar.id, greeting);
               }
             }, remainingTime);
@@ -1523,7 +1754,45 @@ export function ChatInterface({ messages, onSendMessage, showSidebar, onToggleSi
     return date.toLocaleDateString([], { month: 'short', day: 'numeric' }) + ' at ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Jump-to-message (from sidebar search): message Y offsets within the chat history,
+  // the message waiting to be scrolled to, and the message currently flashed
+  const messageOffsetsRef = useRef<Record<string, number>>({});
+  const pendingFocusIdRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  const scrollToMessage = useCallback((messageId: string): boolean => {
+    const y = messageOffsetsRef.current[messageId];
+    if (y === undefined || !scrollViewRef.current) {
+      return false;
+    }
+    scrollViewRef.current.scrollTo({ y: Math.max(0, y - 24), animated: true });
+    pendingFocusIdRef.current = null;
+    setHighlightedMessageId(messageId);
+    return true;
+  }, []);
+
   useEffect(() => {
+    if (!focusedMessageId || !messages.some(m => m.id === focusedMessageId)) {
+      return;
+    }
+    pendingFocusIdRef.current = focusedMessageId;
+    setShowChatHistory(true);
+    dispatch(setFocusedMessage(null));
+    // If the history is already laid out, scroll now; otherwise onLayout will
+    scrollToMessage(focusedMessageId);
+  }, [focusedMessageId, messages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    // Don't fight a pending jump-to-message scroll
+    if (pendingFocusIdRef.current || highlightedMessageId) {
+      return;
+    }
     if (scrollViewRef.current) {
       scrollViewRef.current.scrollToEnd({ animated: true });
     }
@@ -1707,6 +1976,7 @@ Each silence, a cathedral where you still reside.`;
     });
 
     // Start playback (TTS will start simultaneously via useEffect)
+    playingSceneRef.current = testScene;
     playbackEngineRef.current.play(testScene);
   };
 
@@ -1868,6 +2138,80 @@ Each silence, a cathedral where you still reside.`;
                     </Text>
                   </TouchableOpacity>
                 )}
+
+                {/* Scene Environment Button - expands to the environment list */}
+                <TouchableOpacity
+                  style={[
+                    styles.playbackButton,
+                    showEnvironmentOptions && styles.collabButtonActive,
+                    { paddingHorizontal: btnPadH, paddingVertical: btnPadV }
+                  ]}
+                  onPress={() => setShowEnvironmentOptions(!showEnvironmentOptions)}
+                >
+                  <Text style={{ fontSize: iconSize * 0.8 }}>{getSceneEnvironment(environmentId).icon}</Text>
+                </TouchableOpacity>
+                {showEnvironmentOptions && SCENE_ENVIRONMENT_IDS.map(id => {
+                  const environment = getSceneEnvironment(id);
+                  const isSelected = id === environmentId;
+                  return (
+                    <TouchableOpacity
+                      key={id}
+                      style={[
+                        styles.playbackButton,
+                        isSelected && styles.environmentOptionActive,
+                        { paddingHorizontal: btnPadH, paddingVertical: btnPadV, gap: btnGap }
+                      ]}
+                      onPress={() => {
+                        changeEnvironment(id);
+                        setShowEnvironmentOptions(false);
+                      }}
+                    >
+                      <Text style={{ fontSize: iconSize * 0.8 }}>{environment.icon}</Text>
+                      {!isMobile && (
+                        <Text style={[styles.playbackButtonText, { fontSize, color: isSelected ? '#c4b5fd' : '#a1a1aa' }]}>
+                          {environment.name}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+
+                {/* Language Button - expands to the language list (first entry follows Settings) */}
+                <TouchableOpacity
+                  style={[
+                    styles.playbackButton,
+                    showLanguageOptions && styles.collabButtonActive,
+                    { paddingHorizontal: btnPadH, paddingVertical: btnPadV }
+                  ]}
+                  onPress={() => setShowLanguageOptions(!showLanguageOptions)}
+                >
+                  <Text style={{ fontSize: iconSize * 0.8 }}>{LANGUAGES[conversationLanguage].flag}</Text>
+                </TouchableOpacity>
+                {showLanguageOptions && [null, ...LANGUAGE_CODES].map(code => {
+                  const language = LANGUAGES[code ?? userLanguage];
+                  const isSelected = code === (parseLanguageCode(currentConversation?.language) ?? null);
+                  return (
+                    <TouchableOpacity
+                      key={code ?? 'default'}
+                      style={[
+                        styles.playbackButton,
+                        isSelected && styles.environmentOptionActive,
+                        { paddingHorizontal: btnPadH, paddingVertical: btnPadV, gap: btnGap }
+                      ]}
+                      onPress={() => {
+                        changeLanguage(code);
+                        setShowLanguageOptions(false);
+                      }}
+                    >
+                      <Text style={{ fontSize: iconSize * 0.8 }}>{language.flag}</Text>
+                      {!isMobile && (
+                        <Text style={[styles.playbackButtonText, { fontSize, color: isSelected ? '#c4b5fd' : '#a1a1aa' }]}>
+                          {code ? language.nativeName : `Default (${language.nativeName})`}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
             );
           })()}
@@ -2040,6 +2384,9 @@ Each silence, a cathedral where you still reside.`;
 
         {/* Multiple Character Display - Semi-circle arrangement (table view) */}
         <View style={styles.charactersRow}>
+          <SceneEnvironment3D environmentId={environmentId} />
+          {/* One shared canvas for every character at low quality tiers (web) */}
+          <SharedCharacterCanvas enabled={selectedCharacters.length > 0}>
           {selectedCharacters.length === 0 ? (
             <View style={styles.emptyCharacterState}>
               <Ionicons name="person-add" size={48} color="#666" />
@@ -2126,6 +2473,12 @@ Each silence, a cathedral where you still reside.`;
                 ? playbackEngineRef.current.getRevealedText(characterId)
                 : (lastMessage?.text || '');
 
+              // Walking offset from this character's slot (depth: toward the audience)
+              const stagePose = getStagePose(characterId);
+              const stageX = stagePose.offset.x;
+              const stageDepth = stagePose.offset.depth;
+              const wrapperTopPercent = 20 + (20 - verticalPosition) + stageDepth * 8;
+
               // Debug: Log floating character bubble rendering
               bubbleDebugLog('Bubble', `Floating char ${index}/${total}`, {
                 characterId,
@@ -2157,12 +2510,13 @@ Each silence, a cathedral where you still reside.`;
                     {
                       position: 'absolute',
                       // Proportional positioning based on screen width
-                      left: `${50 + horizontalOffset - (100 / total / 2)}%`,
+                      left: `${50 + horizontalOffset + stageX - (100 / total / 2)}%`,
                       width: `${Math.max(100 / total, 22)}%`,
-                      top: `${20 + (20 - verticalPosition)}%`, // Center higher up, edges lower (aligned with bubbles)
+                      top: `${wrapperTopPercent}%`, // Center higher up, edges lower (aligned with bubbles)
                       // Scale based on character count only - CharacterDisplay3D handles screen-width scaling
-                      transform: [{ scale: scale }],
-                      zIndex: zIndex,
+                      // Stepping toward the audience makes a character bigger and puts it in front
+                      transform: [{ scale: scale * (1 + stageDepth * 0.12) }],
+                      zIndex: Math.max(0, zIndex + Math.round(stageDepth * 20)),
                     }
                   ]}
                 >
@@ -2175,15 +2529,20 @@ Each silence, a cathedral where you still reside.`;
                     // Get idle state for this character (fallback when not playing)
                     const idleState = idleAnimations.get(characterId);
 
-                    // Priority: entrance animation > playback animation > idle animation
+                    // Priority: entrance animation > stage walk > playback animation > idle animation
                     const finalAnimation = entranceBodyAnimation
+                      || (stagePose.walking ? 'walking' : undefined)
                       || (usePlayback ? charPlaybackState.animation : undefined)
                       || idleState?.animation;
                     
                     // Complementary: playback state > idle state complementary
-                    const finalComplementary = usePlayback 
+                    // While walking, the body turns toward where it's heading
+                    const baseComplementary = usePlayback 
                       ? charPlaybackState.complementary 
                       : idleState?.complementary;
+                    const finalComplementary = stagePose.facing
+                      ? { ...baseComplementary, lookDirection: stagePose.facing === 'left' ? 'at_left_character' as const : 'at_right_character' as const }
+                      : baseComplementary;
                     
                     const isHovered = hoveredCharacterId === characterId;
                     const finalIsActive = (usePlayback && charPlaybackState?.isActive) || showEntranceAnimation || !!idleState;
@@ -2211,7 +2570,7 @@ Each silence, a cathedral where you still reside.`;
                             characterCount={total}
                             onPaymentSelect={onPaymentSelect}
                             containerHeight={displayContainerHeight}
-                            wrapperTopPercent={20 + (20 - verticalPosition)}
+                            wrapperTopPercent={wrapperTopPercent}
                             perspectiveDepth={total === 1 ? 1.0 : (1 - distanceFromCenter)}
                           />
                         )}
@@ -2223,6 +2582,7 @@ Each silence, a cathedral where you still reside.`;
                           complementary={finalComplementary}
                           showName={isHovered}
                           nameKey={nameKey}
+                          lighting={environmentLighting}
                         />
                         {/* Floating action text like *chuckles* at character sides */}
                         <FloatingActionText
@@ -2238,6 +2598,7 @@ Each silence, a cathedral where you still reside.`;
             });
             })()
           )}
+          </SharedCharacterCanvas>
         </View>
       </View>
       )}
@@ -2442,7 +2803,11 @@ Each silence, a cathedral where you still reside.`;
               // In mobile landscape, chat takes full available height
               isMobileLandscape && { flex: 1 }
             ]}
-            onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
+            onContentSizeChange={() => {
+              if (!pendingFocusIdRef.current && !highlightedMessageId) {
+                scrollViewRef.current?.scrollToEnd({ animated: true });
+              }
+            }}
           >
           <View style={styles.messagesContent}>
             {messages.map((message, index) => {
@@ -2483,6 +2848,12 @@ Each silence, a cathedral where you still reside.`;
               return (
                 <View
                   key={message.id}
+                  onLayout={(event) => {
+                    messageOffsetsRef.current[message.id] = event.nativeEvent.layout.y;
+                    if (pendingFocusIdRef.current === message.id) {
+                      scrollToMessage(message.id);
+                    }
+                  }}
                   style={[
                     styles.messageBubbleContainer,
                     message.role === 'user' && styles.userMessageContainer,
@@ -2511,6 +2882,8 @@ Each silence, a cathedral where you still reside.`;
                             borderColor: senderColor,
                             borderWidth: 2,
                           },
+                          // Flash the message targeted by jump-to-message
+                          highlightedMessageId === message.id && styles.messageBubbleHighlighted,
                         ]}
                       >
                         {/* Sender Name for User Messages in Shared Conversations */}
@@ -2552,12 +2925,113 @@ Each silence, a cathedral where you still reside.`;
                             );
                           }
 
+                          if (editingMessageId === message.id) {
+                            return (
+                              <View>
+                                <TextInput
+                                  value={editText}
+                                  onChangeText={setEditText}
+                                  multiline
+                                  autoFocus
+                                  style={[styles.messageEditInput, { fontSize: fonts.md }]}
+                                />
+                                <View style={styles.messageEditActions}>
+                                  <TouchableOpacity onPress={cancelEditing} style={styles.messageEditButton}>
+                                    <Text style={[styles.messageEditButtonText, { fontSize: fonts.sm }]}>Cancel</Text>
+                                  </TouchableOpacity>
+                                  <TouchableOpacity onPress={submitEdit} style={[styles.messageEditButton, styles.messageEditButtonPrimary]}>
+                                    <Text style={[styles.messageEditButtonText, { fontSize: fonts.sm }]}>Save & regenerate</Text>
+                                  </TouchableOpacity>
+                                </View>
+                              </View>
+                            );
+                          }
+
+                          // Earlier versions of a regenerated reply can be viewed for comparison
+                          const previousVersions: { content: string }[] = message.metadata?.previous_versions || [];
+                          const viewedVersion = viewedVersions[message.id];
+                          const displayedContent = viewedVersion !== undefined && previousVersions[viewedVersion]
+                            ? previousVersions[viewedVersion].content
+                            : message.content;
+
                           // Show full text when not animating - long actions (3+ words) are bold
-                          return <Text style={[styles.messageText, { fontSize: fonts.md }]}>{renderTextWithBoldActions(message.content)}</Text>;
+                          return <Text style={[styles.messageText, { fontSize: fonts.md }]}>{renderTextWithBoldActions(displayedContent)}</Text>;
                         })()}
+                        {(() => {
+                          const previousVersions: any[] = message.metadata?.previous_versions || [];
+                          if (previousVersions.length === 0 || isAnimating) return null;
+                          const total = previousVersions.length + 1;
+                          const current = (viewedVersions[message.id] ?? previousVersions.length) + 1;
+                          const showVersion = (version: number) => setViewedVersions(prev => ({
+                            ...prev,
+                            [message.id]: version - 1,
+                          }));
+                          return (
+                            <View style={styles.messageVersionRow}>
+                              <TouchableOpacity onPress={() => current > 1 && showVersion(current - 1)} disabled={current <= 1}>
+                                <Ionicons name="chevron-back" size={14} color={current > 1 ? '#d4d4d8' : '#52525b'} />
+                              </TouchableOpacity>
+                              <Text style={[styles.messageVersionText, { fontSize: fonts.xs }]}>
+                                {current === total ? 'Latest' : 'Version'} {current}/{total}
+                              </Text>
+                              <TouchableOpacity onPress={() => current < total && showVersion(current + 1)} disabled={current >= total}>
+                                <Ionicons name="chevron-forward" size={14} color={current < total ? '#d4d4d8' : '#52525b'} />
+                              </TouchableOpacity>
+                            </View>
+                          );
+                        })()}
+                        {(() => {
+                          // Fork in the conversation tree: switch between sibling branches
+                          const branches: string[] | undefined = messageBranches[message.id];
+                          if (!branches || branches.length < 2) return null;
+                          const position = branches.indexOf(message.id);
+                          const goToBranch = (offset: number) => {
+                            const target = branches[position + offset];
+                            if (target && !isLoading) {
+                              dispatch(switchBranch(target) as any);
+                            }
+                          };
+                          return (
+                            <View style={styles.messageVersionRow}>
+                              <TouchableOpacity
+                                onPress={() => goToBranch(-1)}
+                                disabled={position <= 0 || isLoading}
+                                accessibilityLabel="Previous branch"
+                              >
+                                <Ionicons name="chevron-back" size={14} color={position > 0 ? '#d4d4d8' : '#52525b'} />
+                              </TouchableOpacity>
+                              <Ionicons name="git-branch-outline" size={12} color="rgba(255, 255, 255, 0.6)" />
+                              <Text style={[styles.messageVersionText, { fontSize: fonts.xs }]}>
+                                {position + 1}/{branches.length}
+                              </Text>
+                              <TouchableOpacity
+                                onPress={() => goToBranch(1)}
+                                disabled={position >= branches.length - 1 || isLoading}
+                                accessibilityLabel="Next branch"
+                              >
+                                <Ionicons name="chevron-forward" size={14} color={position < branches.length - 1 ? '#d4d4d8' : '#52525b'} />
+                              </TouchableOpacity>
+                            </View>
+                          );
+                        })()}
+                        {message.role === 'assistant' && message.metadata?.scene && !isAnimating && (
+                          <TouchableOpacity
+                            style={styles.messageReplayButton}
+                            onPress={() => handleReplayTurn(message.id)}
+                            disabled={isLoading || playbackState.isPlaying}
+                            accessibilityLabel="Replay animation"
+                          >
+                            <Ionicons
+                              name="play-circle-outline"
+                              size={14}
+                              color={isLoading || playbackState.isPlaying ? '#52525b' : '#d4d4d8'}
+                            />
+                            <Text style={[styles.messageVersionText, { fontSize: fonts.xs }]}>Replay</Text>
+                          </TouchableOpacity>
+                        )}
                         {message.created_at && (
                           <Text style={[styles.messageTimestamp, { fontSize: fonts.xs }]}>
-                            {formatTimestamp(message.created_at)}
+                            {message.metadata?.edited_from ? 'Edited · ' : ''}{formatTimestamp(message.created_at)}
                           </Text>
                         )}
                       </TouchableOpacity>
@@ -2613,6 +3087,29 @@ Each silence, a cathedral where you still reside.`;
             <Ionicons name="chevron-down" size={20} color="#a1a1aa" />
           </TouchableOpacity>
         )}
+        {/* Hands-free voice mode status */}
+        {handsFreeEnabled && (
+          <View style={[styles.recordingStatusContainer, { paddingHorizontal: screenWidth < 360 ? spacing.sm : spacing.md }]}>
+            <View style={styles.recordingStatus}>
+              <View style={[styles.recordingDot, handsFreePhase !== 'hearing' && styles.recordingDotPaused]} />
+              <Text style={[styles.recordingText, { fontSize: fonts.sm }]}>
+                {handsFreePhase === 'hearing' ? 'Hearing you...'
+                  : handsFreePhase === 'transcribing' ? 'Sending...'
+                    : isHandsFreeSpeaking ? 'Talk anytime to interrupt'
+                      : 'Listening...'}
+              </Text>
+              <TouchableOpacity onPress={() => setHandsFreeEnabled(false)} style={styles.recordingActionButton}>
+                <Ionicons name="close" size={18} color="#a1a1aa" />
+              </TouchableOpacity>
+            </View>
+            {handsFreeTranscript ? (
+              <View style={styles.liveTranscriptContainer}>
+                <Text style={[styles.liveTranscriptLabel, { fontSize: fonts.xs }]}>Live:</Text>
+                <Text style={[styles.liveTranscriptText, { fontSize: fonts.sm }]}>{handsFreeTranscript}</Text>
+              </View>
+            ) : null}
+          </View>
+        )}
         {/* Recording Status & Live Transcript */}
         {(isRecording || liveTranscript || isTranscribing) && (
           <View style={[styles.recordingStatusContainer, { paddingHorizontal: screenWidth < 360 ? spacing.sm : spacing.md }]}>
@@ -2697,14 +3194,33 @@ Each silence, a cathedral where you still reside.`;
               const iconSize = scaleValue(14, 24);
               return (
                 <>
+                  {/* Hands-free voice mode - talk to the characters like a call */}
+                  {isHandsFreeSupported && (
+                    <TouchableOpacity
+                      onPress={() => setHandsFreeEnabled(!handsFreeEnabled)}
+                      disabled={isRecording}
+                      style={[
+                        styles.iconButton,
+                        handsFreeEnabled ? styles.recordingButtonActive : styles.micButtonActive,
+                        isRecording && styles.sendButtonDisabled,
+                        { width: buttonSize, height: buttonSize, minWidth: buttonSize, minHeight: buttonSize }
+                      ]}
+                    >
+                      <Ionicons
+                        name={handsFreeEnabled ? "call" : "call-outline"}
+                        size={iconSize}
+                        color="white"
+                      />
+                    </TouchableOpacity>
+                  )}
                   {/* Microphone Button for Speech-to-Text */}
                   <TouchableOpacity
                     onPress={toggleRecording}
-                    disabled={isLoading}
+                    disabled={isLoading || handsFreeEnabled}
                     style={[
                       styles.iconButton,
                       isRecording ? styles.recordingButtonActive : styles.micButtonActive,
-                      isLoading && styles.sendButtonDisabled,
+                      (isLoading || handsFreeEnabled) && styles.sendButtonDisabled,
                       { width: buttonSize, height: buttonSize, minWidth: buttonSize, minHeight: buttonSize }
                     ]}
                   >
@@ -2767,6 +3283,13 @@ Each silence, a cathedral where you still reside.`;
       })()}
 
       {/* Collaboration Modals */}
+      <SceneClipExporter
+        visible={!!clipExportTurn}
+        scene={clipExportTurn?.scene ?? null}
+        title={clipExportTurn ? Array.from(clipExportTurn.messageIds.keys()).map(id => getCharacter(id).name).join(' ') : ''}
+        voiceProfiles={buildVoiceProfilesMap()}
+        onClose={() => setClipExportTurn(null)}
+      />
       <ConversationInviteModal
         visible={showInviteModal}
         conversationId={conversationId || ''}
@@ -3140,6 +3663,10 @@ const styles = StyleSheet.create({
     color: '#a855f7',
     fontFamily: 'Inter-Medium',
   },
+  messageBubbleHighlighted: {
+    borderColor: '#facc15',
+    borderWidth: 2,
+  },
   chatScrollView: {
     flex: 1,
     minHeight: 100,
@@ -3221,6 +3748,52 @@ const styles = StyleSheet.create({
     marginTop: 2,
     alignSelf: 'flex-end',
   },
+  messageEditInput: {
+    fontFamily: 'Inter-Regular',
+    color: 'white',
+    minHeight: 60,
+    minWidth: 220,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  messageEditActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  messageEditButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#27272a',
+  },
+  messageEditButtonPrimary: {
+    backgroundColor: '#8b5cf6',
+  },
+  messageEditButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  messageVersionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  messageVersionText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  messageReplayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+  },
   loadingBubble: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3527,6 +4100,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#a855f7',
   },
+  environmentOptionActive: {
+    borderColor: '#8b5cf6',
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+  },
   characterSelectorBackdrop: {
     position: 'absolute',
     top: 0,
@@ -12,3 +12,5 @@ export { useMessageEditing } from './useMessageEditing';
 export { useCharacterLoading } from './useCharacterLoading';
 export { useBobSales } from './useBobSales';
 export { useTextToSpeech } from './useTextToSpeech';
+export { useHandsFreeVoice } from './useHandsFreeVoice';
+export { useStageChoreography } from './useStageChoreography';
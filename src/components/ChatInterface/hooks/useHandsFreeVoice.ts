@@ -0,0 +1,326 @@
+/**
+ * useHandsFreeVoice - Continuous voice conversation ("call" mode)
+ *
+ * While enabled the microphone stays open:
+ * - voice activity detection ends the user's turn after a pause and sends it
+ * - replies are spoken character by character in timeline order (speakScene),
+ *   with each character's cloud voice and per-segment SSML prosody
+ * - talking over the characters (barge-in) cuts their speech and calls onBargeIn,
+ *   and the new turn is captured from there
+ *
+ * Transcripts come from live Web Speech recognition when that is the STT provider,
+ * otherwise the recorded turn is transcribed by the active provider (backend or
+ * self-hosted Whisper). Both listen for the conversation language, and replies
+ * are spoken in it.
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { UnifiedVoiceRecorder } from '../../../services/voiceRecordingUnified';
+import { transcribeAudio, isLiveSpeechEnabled } from '../../../services/speechToTextUnified';
+import { useSpeechToTextPreference } from '../../../services/speechToTextPreference';
+import { LiveSpeechRecognition } from '../../../services/speechToTextLive';
+import { VoiceActivityDetector } from '../../../services/voiceActivityDetector';
+import { getUnifiedTextToSpeech } from '../../../services/textToSpeechUnified';
+import { OrchestrationScene } from '../../../services/animationOrchestration';
+import { getTimelineVoiceSpans } from '../../../services/ssmlBuilder';
+import { assignSceneCloudVoices } from '../../../config/cloudVoices';
+import { getCharacter } from '../../../config/characters';
+import { LanguageCode, DEFAULT_LANGUAGE, LANGUAGES } from '../../../config/languages';
+
+export type HandsFreePhase = 'off' | 'listening' | 'hearing' | 'transcribing';
+
+interface UseHandsFreeVoiceOptions {
+  enabled: boolean;
+  language?: LanguageCode;
+  isBusy: boolean; // Characters are thinking or playing - speech now is a barge-in
+  onUserTurn: (text: string) => void;
+  onBargeIn: () => void;
+  onSpeakerChange?: (characterId: string | null) => void;
+  onSpeechPosition?: (characterId: string, charIndex: number) => void;
+  onError?: (error: Error) => void;
+}
+
+interface UseHandsFreeVoiceResult {
+  isSupported: boolean;
+  phase: HandsFreePhase;
+  transcript: string;
+  isSpeakingScene: boolean;
+  speakScene: (scene: OrchestrationScene) => Promise<void>;
+  cancelSpeech: () => void;
+}
+
+export function useHandsFreeVoice({
+  enabled,
+  language = DEFAULT_LANGUAGE,
+  isBusy,
+  onUserTurn,
+  onBargeIn,
+  onSpeakerChange,
+  onSpeechPosition,
+  onError,
+}: UseHandsFreeVoiceOptions): UseHandsFreeVoiceResult {
+  const [phase, setPhase] = useState<HandsFreePhase>('off');
+  const [transcript, setTranscript] = useState('');
+  const [isSpeakingScene, setIsSpeakingScene] = useState(false);
+
+  const recorderRef = useRef<UnifiedVoiceRecorder | null>(null);
+  const liveSpeechRef = useRef<LiveSpeechRecognition | null>(null);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const enabledRef = useRef(enabled);
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const busyRef = useRef(isBusy);
+  const endingTurnRef = useRef(false);
+  // Transcript from recognition sessions the browser ended mid-turn
+  const carriedTranscriptRef = useRef('');
+  // Bumped to cancel the scene being spoken
+  const speechRunRef = useRef(0);
+  const finishUtteranceRef = useRef<(() => void) | null>(null);
+
+  // Latest callbacks for the VAD and recognition handlers
+  const callbacksRef = useRef({ onUserTurn, onBargeIn, onSpeakerChange, onSpeechPosition, onError });
+  callbacksRef.current = { onUserTurn, onBargeIn, onSpeakerChange, onSpeechPosition, onError };
+
+  if (!recorderRef.current) {
+    recorderRef.current = new UnifiedVoiceRecorder();
+  }
+  const isSupported = recorderRef.current.isSupported();
+  const liveSpeechEnabled = isLiveSpeechEnabled(useSpeechToTextPreference().provider);
+
+  const getTranscript = () => {
+    const live = liveSpeechRef.current?.getFullTranscript() ?? '';
+    return `${carriedTranscriptRef.current} ${live}`.trim();
+  };
+
+  const startLiveSpeech = () => {
+    try {
+      liveSpeechRef.current?.start();
+    } catch (error) {
+      // Still stopping - the onEnd handler starts it again
+    }
+  };
+
+  // Drop everything recognized so far (the turn was sent, or it was the characters' echo)
+  const resetTranscript = () => {
+    carriedTranscriptRef.current = '';
+    setTranscript('');
+    liveSpeechRef.current?.abort(); // Restarted from onEnd
+  };
+
+  /**
+   * Speak a reply scene: one character at a time, in timeline order
+   * Resolves when all have spoken or the speech was cancelled.
+   */
+  const speakScene = useCallback(async (scene: OrchestrationScene) => {
+    const runId = ++speechRunRef.current;
+    const tts = getUnifiedTextToSpeech();
+    const sceneLanguage = languageRef.current;
+    const timelines = [...scene.timelines].sort((a, b) => a.startDelay - b.startDelay);
+    const voices = assignSceneCloudVoices(timelines.map(timeline => getCharacter(timeline.characterId)), sceneLanguage);
+
+    setIsSpeakingScene(true);
+    for (const timeline of timelines) {
+      if (runId !== speechRunRef.current) break;
+      if (!timeline.content.trim()) continue;
+
+      const { characterId, content } = timeline;
+      callbacksRef.current.onSpeakerChange?.(characterId);
+
+      // Resolve on end, error or cancel - cloud playback doesn't settle its promise when stopped
+      await new Promise<void>((resolve) => {
+        finishUtteranceRef.current = resolve;
+        tts.speak(content, {
+          characterId,
+          voiceProfile: getCharacter(characterId).voiceProfile,
+          cloudVoice: voices.get(characterId),
+          language: LANGUAGES[sceneLanguage].locale,
+          voiceSpans: getTimelineVoiceSpans(timeline),
+          onBoundary: (charIndex) => callbacksRef.current.onSpeechPosition?.(characterId, charIndex),
+          onEnd: () => resolve(),
+          onError: () => resolve(),
+        }).catch(() => resolve());
+      });
+      finishUtteranceRef.current = null;
+
+      if (runId === speechRunRef.current) {
+        callbacksRef.current.onSpeechPosition?.(characterId, content.length);
+      }
+    }
+
+    if (runId === speechRunRef.current) {
+      callbacksRef.current.onSpeakerChange?.(null);
+      setIsSpeakingScene(false);
+    }
+  }, []);
+
+  const cancelSpeech = useCallback(() => {
+    speechRunRef.current++;
+    getUnifiedTextToSpeech().stop();
+    finishUtteranceRef.current?.();
+    finishUtteranceRef.current = null;
+    callbacksRef.current.onSpeakerChange?.(null);
+    setIsSpeakingScene(false);
+  }, []);
+
+  // Fresh recording and transcript, e.g. after echo of the characters' speech
+  const restartCapture = useCallback(async () => {
+    const recorder = recorderRef.current!;
+    await recorder.cancelRecording();
+    resetTranscript();
+    if (enabledRef.current) {
+      await recorder.startRecording();
+    }
+  }, []);
+
+  const endTurn = useCallback(async () => {
+    if (endingTurnRef.current) return;
+    endingTurnRef.current = true;
+    setPhase('transcribing');
+
+    const recorder = recorderRef.current!;
+    let text = getTranscript();
+    try {
+      const audio = await recorder.stopRecording();
+      const audioInput = audio.blob ?? audio.uri;
+      if (!text && audioInput) {
+        text = (await transcribeAudio(audioInput, LANGUAGES[languageRef.current].locale)).text.trim();
+      }
+    } catch (error: any) {
+      console.error('[HandsFree] Transcription error:', error);
+    }
+    resetTranscript();
+
+    try {
+      if (enabledRef.current) {
+        // Keep listening while the characters reply, for barge-in
+        vadRef.current?.setSensitivity(busyRef.current || text ? 'barge-in' : 'normal');
+        await recorder.startRecording();
+        setPhase('listening');
+      }
+      if (text) {
+        console.log('[HandsFree] User turn:', text.length, 'chars');
+        callbacksRef.current.onUserTurn(text);
+      }
+    } catch (error: any) {
+      console.error('[HandsFree] Failed to restart recording:', error);
+      callbacksRef.current.onError?.(error);
+    } finally {
+      endingTurnRef.current = false;
+    }
+  }, []);
+
+  const handleSpeechStart = useCallback(() => {
+    if (endingTurnRef.current) return;
+    setPhase('hearing');
+
+    if (busyRef.current) {
+      // Barge-in: silence the characters and start the turn from here
+      console.log('[HandsFree] Barge-in');
+      cancelSpeech();
+      callbacksRef.current.onBargeIn();
+      vadRef.current?.setSensitivity('normal');
+      restartCapture().catch(error => console.error('[HandsFree] Barge-in restart failed:', error));
+    }
+  }, [cancelSpeech, restartCapture]);
+
+  // Start and stop the open microphone with the mode
+  useEffect(() => {
+    enabledRef.current = enabled;
+    if (!enabled || !isSupported) return;
+
+    const recorder = recorderRef.current!;
+    const vad = new VoiceActivityDetector({
+      onSpeechStart: handleSpeechStart,
+      onSpeechEnd: () => {
+        endTurn();
+      },
+    });
+    vad.setSensitivity(busyRef.current ? 'barge-in' : 'normal');
+    vadRef.current = vad;
+    recorder.setOnLevel(level => vad.pushLevel(level));
+
+    if (liveSpeechEnabled) {
+      const liveSpeech = new LiveSpeechRecognition(LANGUAGES[languageRef.current].locale);
+      liveSpeech.setOnResult((result) => {
+        setTranscript(`${carriedTranscriptRef.current} ${result.transcript}`.trim());
+      });
+      liveSpeech.setOnError((error) => {
+        console.warn('[HandsFree] Live speech error:', error.message);
+      });
+      // Browsers end continuous recognition on their own - keep it running
+      liveSpeech.setOnEnd(() => {
+        const finalTranscript = liveSpeech.getFinalTranscript();
+        if (finalTranscript) {
+          carriedTranscriptRef.current = `${carriedTranscriptRef.current} ${finalTranscript}`.trim();
+        }
+        if (enabledRef.current && liveSpeechRef.current === liveSpeech) {
+          startLiveSpeech();
+        }
+      });
+      liveSpeechRef.current = liveSpeech;
+    }
+
+    recorder.startRecording()
+      .then(() => {
+        startLiveSpeech();
+        setPhase('listening');
+        console.log('[HandsFree] Listening');
+      })
+      .catch((error: Error) => {
+        console.error('[HandsFree] Failed to start microphone:', error);
+        callbacksRef.current.onError?.(error);
+      });
+
+    return () => {
+      recorder.setOnLevel(undefined);
+      recorder.cancelRecording();
+      liveSpeechRef.current?.abort();
+      liveSpeechRef.current = null;
+      vadRef.current = null;
+      carriedTranscriptRef.current = '';
+      setTranscript('');
+      setPhase('off');
+    };
+  }, [enabled, isSupported, liveSpeechEnabled, handleSpeechStart, endTurn]);
+
+  // Conversation language changed mid-call - the recognition restarts in it from onEnd
+  useEffect(() => {
+    const liveSpeech = liveSpeechRef.current;
+    if (!liveSpeech) return;
+    liveSpeech.setLanguage(LANGUAGES[language].locale);
+    liveSpeech.abort();
+    carriedTranscriptRef.current = '';
+    setTranscript('');
+  }, [language]);
+
+  // Harder to trigger while characters speak; their echo is dropped once they finish
+  const busy = isBusy || isSpeakingScene;
+  useEffect(() => {
+    const wasBusy = busyRef.current;
+    busyRef.current = busy;
+    // Not mid-turn - a user who just barged in keeps normal sensitivity until they pause
+    if (!vadRef.current?.isSpeaking()) {
+      vadRef.current?.setSensitivity(busy ? 'barge-in' : 'normal');
+    }
+
+    if (wasBusy && !busy && enabledRef.current && !vadRef.current?.isSpeaking() && !endingTurnRef.current) {
+      restartCapture().catch(error => console.error('[HandsFree] Restart after reply failed:', error));
+    }
+  }, [busy, restartCapture]);
+
+  // Release the microphone on unmount
+  useEffect(() => () => {
+    recorderRef.current?.dispose();
+  }, []);
+
+  return {
+    isSupported,
+    phase,
+    transcript,
+    isSpeakingScene,
+    speakScene,
+    cancelSpeech,
+  };
+}
+
+export default useHandsFreeVoice;
@@ -1,18 +1,26 @@
 /**
- * useMessageEditing - Message deletion functionality
- * (Edit functionality removed - only delete remains)
+ * useMessageEditing - Message actions from the chat history
+ * Edit (user messages), regenerate and export (assistant turns) and delete
  */
 
-import { useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Message } from '../types/chatInterface.types';
 
 interface UseMessageEditingOptions {
   isLoading: boolean;
   onDeleteMessage?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, newContent: string) => void;
+  onRegenerateMessage?: (messageId: string) => void;
+  onExportClip?: (messageId: string) => void;
   showAlert: (title: string, message: string, buttons?: any[]) => void;
 }
 
 interface UseMessageEditingResult {
+  editingMessageId: string | null;
+  editText: string;
+  setEditText: (text: string) => void;
+  cancelEditing: () => void;
+  submitEdit: () => void;
   confirmDeleteMessage: (messageId: string) => void;
   handleLongPressMessage: (message: Message) => void;
 }
@@ -20,8 +28,57 @@ interface UseMessageEditingResult {
 export function useMessageEditing({
   isLoading,
   onDeleteMessage,
+  onEditMessage,
+  onRegenerateMessage,
+  onExportClip,
   showAlert,
 }: UseMessageEditingOptions): UseMessageEditingResult {
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [originalText, setOriginalText] = useState('');
+
+  const cancelEditing = useCallback(() => {
+    setEditingMessageId(null);
+    setEditText('');
+    setOriginalText('');
+  }, []);
+
+  // Cancel editing when the AI starts responding
+  useEffect(() => {
+    if (isLoading) {
+      cancelEditing();
+    }
+  }, [isLoading, cancelEditing]);
+
+  const startEditing = useCallback((message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+    setOriginalText(message.content);
+  }, []);
+
+  const submitEdit = useCallback(() => {
+    const trimmed = editText.trim();
+    if (!editingMessageId || !trimmed || trimmed === originalText.trim()) {
+      cancelEditing();
+      return;
+    }
+
+    const messageId = editingMessageId;
+    showAlert(
+      'Edit Message',
+      'Everything after this message will be regenerated. The original conversation stays available as a branch.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Regenerate',
+          onPress: () => {
+            cancelEditing();
+            onEditMessage?.(messageId, trimmed);
+          },
+        },
+      ]
+    );
+  }, [editingMessageId, editText, originalText, onEditMessage, showAlert, cancelEditing]);
 
   const confirmDeleteMessage = useCallback((messageId: string) => {
     showAlert(
@@ -43,22 +100,54 @@ export function useMessageEditing({
   }, [onDeleteMessage, showAlert]);
 
   const handleLongPressMessage = useCallback((message: Message) => {
-    // Prevent deleting when AI is responding to avoid race conditions
+    // Prevent changes when AI is responding to avoid race conditions
     if (isLoading) {
       showAlert(
         'Action Not Available',
-        'Please wait for the AI to finish responding before deleting messages.'
+        'Please wait for the AI to finish responding before changing messages.'
       );
       return;
     }
 
-    // Only allow deleting user messages
     if (message.role === 'user') {
-      confirmDeleteMessage(message.id);
+      if (!onEditMessage) {
+        confirmDeleteMessage(message.id);
+        return;
+      }
+      showAlert('Message', 'What would you like to do with this message?', [
+        { text: 'Edit', onPress: () => startEditing(message) },
+        { text: 'Delete', style: 'destructive', onPress: () => confirmDeleteMessage(message.id) },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+      return;
+    }
+
+    if (message.role === 'assistant' && (onRegenerateMessage || onExportClip)) {
+      const buttons: any[] = [];
+      if (onRegenerateMessage) {
+        buttons.push({ text: 'Regenerate', onPress: () => onRegenerateMessage(message.id) });
+      }
+      if (onExportClip) {
+        buttons.push({ text: 'Export clip', onPress: () => onExportClip(message.id) });
+      }
+      buttons.push({ text: 'Cancel', style: 'cancel' });
+
+      showAlert(
+        'Response',
+        onRegenerateMessage
+          ? 'Generate a new version of this reply? The current one is kept for comparison.'
+          : 'Save this exchange as a video clip?',
+        buttons
+      );
     }
-  }, [isLoading, showAlert, confirmDeleteMessage]);
+  }, [isLoading, showAlert, confirmDeleteMessage, startEditing, onEditMessage, onRegenerateMessage, onExportClip]);
 
   return {
+    editingMessageId,
+    editText,
+    setEditText,
+    cancelEditing,
+    submitEdit,
     confirmDeleteMessage,
     handleLongPressMessage,
   };
@@ -0,0 +1,101 @@
+/**
+ * useStageChoreography - Walking positions for the characters on stage
+ * Plans the walks for the playing scene and re-renders every frame while someone
+ * is walking. Playback state alone only updates while someone talks, so silent
+ * walkers would jump. The plan is kept after playback ends until everyone is
+ * back at their slot.
+ */
+
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { getPlaybackEngine } from '../../../services/animationPlaybackEngine';
+import { OrchestrationScene } from '../../../services/animationOrchestration';
+import {
+  buildStagePlan,
+  getStagePose,
+  getStagePlanEnd,
+  isStageMoving,
+  StagePoint,
+  StagePose,
+} from '../utils/stageChoreography';
+
+interface UseStageChoreographyOptions {
+  isPlaying: boolean;
+  playbackEngineRef: React.MutableRefObject<ReturnType<typeof getPlaybackEngine>>;
+  stageSlots: Map<string, StagePoint>;
+}
+
+interface UseStageChoreographyResult {
+  getPose: (characterId: string) => StagePose;
+}
+
+export function useStageChoreography({
+  isPlaying,
+  playbackEngineRef,
+  stageSlots,
+}: UseStageChoreographyOptions): UseStageChoreographyResult {
+  // The scene whose walks are on stage (outlives its playback)
+  const [stageScene, setStageScene] = useState<OrchestrationScene | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // performance.now() at scene time 0 - keeps the clock going once the engine stops
+  const sceneStartRef = useRef(0);
+
+  const stagePlan = useMemo(
+    () => stageScene ? buildStagePlan(stageScene, stageSlots) : null,
+    [stageScene, stageSlots]
+  );
+
+  useEffect(() => {
+    if (!isPlaying && !stageScene) return;
+
+    const engine = playbackEngineRef.current;
+    let frameId: number;
+    let wasMoving = true;
+
+    const tick = () => {
+      const status = engine.getStatus();
+      const live = status === 'playing' || status === 'paused';
+
+      // A new scene started - plan it (the effect restarts with the new plan)
+      const scene = engine.getScene();
+      if (live && scene !== stageScene) {
+        const elapsed = engine.getElapsedTime();
+        sceneStartRef.current = performance.now() - elapsed;
+        setElapsedMs(elapsed);
+        setStageScene(scene);
+        return;
+      }
+
+      let elapsed: number;
+      if (live) {
+        elapsed = engine.getElapsedTime();
+        sceneStartRef.current = performance.now() - elapsed;
+      } else {
+        elapsed = performance.now() - sceneStartRef.current;
+        if (!stagePlan || elapsed >= getStagePlanEnd(stagePlan)) {
+          setStageScene(null);
+          return;
+        }
+      }
+
+      // One more update after the last step so walkers settle on their final spot
+      const moving = !!stagePlan && isStageMoving(stagePlan, elapsed);
+      if (moving || wasMoving) {
+        setElapsedMs(elapsed);
+      }
+      wasMoving = moving;
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, stageScene, stagePlan, playbackEngineRef]);
+
+  const getPose = useCallback(
+    (characterId: string) => getStagePose(stagePlan, characterId, elapsedMs),
+    [stagePlan, elapsedMs]
+  );
+
+  return { getPose };
+}
+
+export default useStageChoreography;
@@ -2,12 +2,14 @@
  * useTextToSpeech - Text-to-speech management hook
  *
  * Provides TTS functionality for character responses with voice profile support.
+ * Pass a characterId to lip sync that character's mouth to the speech.
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { getTextToSpeech, TTSState, isTTSSupported } from '../../../services/textToSpeech';
 import { CharacterVoiceProfile } from '../../../config/voiceConfig';
-import { estimateTTSDuration } from '../../../services/ttsDurationEstimator';
+import { estimateTTSDuration, paceToTTSRate } from '../../../services/ttsDurationEstimator';
+import { startLipSync, syncLipSync, pauseLipSync, resumeLipSync, stopLipSync } from '../../../services/lipSync';
 
 // Declare window for React Native TypeScript compatibility
 declare const window: any;
@@ -23,6 +25,7 @@ interface UseTextToSpeechOptions {
   enabled?: boolean;
   voiceProfile?: CharacterVoiceProfile;
   voiceName?: string;
+  lang?: string; // BCP-47 language of the text, default en-US
   onSpeakStart?: () => void;
   onSpeakEnd?: () => void;
   onError?: (error: Error) => void;
@@ -31,6 +34,7 @@ interface UseTextToSpeechOptions {
 
 interface SpeakOptions {
   voiceProfile?: CharacterVoiceProfile;
+  characterId?: string; // Character whose mouth follows the speech
   onBoundary?: (charIndex: number, charLength: number) => void;
 }
 
@@ -62,6 +66,8 @@ export function useTextToSpeech(options: UseTextToSpeechOptions = {}): UseTextTo
   );
 
   const ttsRef = useRef(getTextToSpeech());
+  // Character currently being lip synced
+  const lipSyncIdRef = useRef<string | null>(null);
   const isSupported = isTTSSupported();
 
   // Setup TTS state listener
@@ -118,30 +124,51 @@ export function useTextToSpeech(options: UseTextToSpeechOptions = {}): UseTextTo
       // Handle both old format (just voiceProfile) and new format (options object)
       let voiceProfile: CharacterVoiceProfile | undefined;
       let onBoundary: ((charIndex: number, charLength: number) => void) | undefined;
+      let characterId: string | undefined;
 
       if (speakOptions) {
-        if ('voiceProfile' in speakOptions || 'onBoundary' in speakOptions) {
+        if ('voiceProfile' in speakOptions || 'onBoundary' in speakOptions || 'characterId' in speakOptions) {
           // New format: SpeakOptions object
           voiceProfile = (speakOptions as SpeakOptions).voiceProfile;
           onBoundary = (speakOptions as SpeakOptions).onBoundary;
+          characterId = (speakOptions as SpeakOptions).characterId;
         } else {
           // Old format: just CharacterVoiceProfile
           voiceProfile = speakOptions as CharacterVoiceProfile;
         }
       }
 
+      const profile = voiceProfile || options.voiceProfile;
+      const boundaryHandler = onBoundary || options.onBoundary;
+
       try {
         await tts.speak(text, {
-          voiceProfile: voiceProfile || options.voiceProfile,
+          voiceProfile: profile,
           voiceName: selectedVoiceName || undefined,
-          onStart: options.onSpeakStart,
+          lang: options.lang,
+          onStart: () => {
+            if (characterId) {
+              // Device voices give no timing up front - estimate, then follow boundaries
+              lipSyncIdRef.current = characterId;
+              startLipSync(characterId, text, { rate: paceToTTSRate(profile?.pace ?? 'normal') });
+            }
+            options.onSpeakStart?.();
+          },
           onEnd: options.onSpeakEnd,
           onError: options.onError,
-          onBoundary: onBoundary || options.onBoundary,
+          onBoundary: (charIndex, charLength) => {
+            if (characterId) syncLipSync(characterId, charIndex);
+            boundaryHandler?.(charIndex, charLength);
+          },
         });
       } catch (error: any) {
         console.error('[useTextToSpeech] Error speaking:', error);
         options.onError?.(error);
+      } finally {
+        if (characterId) {
+          stopLipSync(characterId);
+          if (lipSyncIdRef.current === characterId) lipSyncIdRef.current = null;
+        }
       }
     },
     [isSupported, ttsEnabled, selectedVoiceName, options]
@@ -149,14 +176,20 @@ export function useTextToSpeech(options: UseTextToSpeechOptions = {}): UseTextTo
 
   const stop = useCallback(() => {
     ttsRef.current.stop();
+    if (lipSyncIdRef.current) {
+      stopLipSync(lipSyncIdRef.current);
+      lipSyncIdRef.current = null;
+    }
   }, []);
 
   const pause = useCallback(() => {
     ttsRef.current.pause();
+    if (lipSyncIdRef.current) pauseLipSync(lipSyncIdRef.current);
   }, []);
 
   const resume = useCallback(() => {
     ttsRef.current.resume();
+    if (lipSyncIdRef.current) resumeLipSync(lipSyncIdRef.current);
   }, []);
 
   // Memoized duration estimator
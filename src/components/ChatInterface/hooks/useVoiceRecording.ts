@@ -4,11 +4,13 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { getVoiceRecorder, RecordingState } from '../../../services/voiceRecording';
-import { transcribeAudio, isWebSpeechSupported } from '../../../services/speechToText';
+import { transcribeAudio, isWebSpeechSupported, isLiveSpeechEnabled } from '../../../services/speechToTextUnified';
+import { speechToTextPreference } from '../../../services/speechToTextPreference';
 import { LiveSpeechRecognition, LiveTranscriptionResult } from '../../../services/speechToTextLive';
 import { detectBrowser, getBrowserGuidance, isVoiceSupported } from '../../../utils/browserDetection';
 
 interface UseVoiceRecordingOptions {
+  language?: string; // BCP-47 language the user speaks, default en-US
   onTranscriptionComplete: (text: string) => void;
   showAlert: (title: string, message: string, buttons?: any[]) => void;
 }
@@ -26,6 +28,7 @@ interface UseVoiceRecordingResult {
 }
 
 export function useVoiceRecording({
+  language = 'en-US',
   onTranscriptionComplete,
   showAlert,
 }: UseVoiceRecordingOptions): UseVoiceRecordingResult {
@@ -41,6 +44,8 @@ export function useVoiceRecording({
   // Setup voice recorder and live speech recognition
   useEffect(() => {
     const voiceRecorder = voiceRecorderRef.current;
+    // Decides whether live Web Speech may run (not with a self-hosted provider)
+    speechToTextPreference.load();
 
     voiceRecorder.setOnStateChange((state: RecordingState) => {
       setIsRecording(state.isRecording);
@@ -50,7 +55,7 @@ export function useVoiceRecording({
 
     // Initialize live speech recognition if supported
     if (isWebSpeechSupported()) {
-      const liveSpeech = new LiveSpeechRecognition();
+      const liveSpeech = new LiveSpeechRecognition(language);
 
       liveSpeech.setOnResult((result: LiveTranscriptionResult) => {
         setLiveTranscript(result.transcript);
@@ -72,14 +77,19 @@ export function useVoiceRecording({
     };
   }, []);
 
+  // Follow conversation language changes (applies from the next recording)
+  useEffect(() => {
+    liveSpeechRef.current?.setLanguage(language);
+  }, [language]);
+
   const handleTranscription = useCallback(async (audioBlob: Blob) => {
     setIsTranscribing(true);
 
     try {
-      console.log('[useVoiceRecording] Transcribing audio with native Web Speech API...');
+      console.log('[useVoiceRecording] Transcribing audio...');
 
-      // Use native Web Speech API (built into browsers)
-      const result = await transcribeAudio(audioBlob, 'web-speech', false);
+      // Active STT provider (Settings)
+      const result = await transcribeAudio(audioBlob, language);
 
       console.log('[useVoiceRecording] Transcription result:', result);
 
@@ -97,7 +107,7 @@ export function useVoiceRecording({
     } finally {
       setIsTranscribing(false);
     }
-  }, [onTranscriptionComplete, showAlert]);
+  }, [language, onTranscriptionComplete, showAlert]);
 
   const toggleRecording = useCallback(async () => {
     const voiceRecorder = voiceRecorderRef.current;
@@ -169,12 +179,13 @@ export function useVoiceRecording({
         await voiceRecorder.startRecording();
         console.log('[useVoiceRecording] VoiceRecorder started successfully');
 
-        // Start live speech recognition if available
+        // Start live speech recognition if available - the saved STT provider may rule it out
+        await speechToTextPreference.load();
         console.log('[useVoiceRecording] Checking live speech support:', {
           liveSpeech: !!liveSpeech,
           isSupported: liveSpeech?.isSupported()
         });
-        if (liveSpeech && liveSpeech.isSupported()) {
+        if (liveSpeech && liveSpeech.isSupported() && isLiveSpeechEnabled()) {
           try {
             liveSpeech.start();
             const browser = detectBrowser();
@@ -227,7 +238,8 @@ export function useVoiceRecording({
     // Start new recording
     try {
       await voiceRecorder.startRecording();
-      if (liveSpeech && liveSpeech.isSupported()) {
+      await speechToTextPreference.load();
+      if (liveSpeech && liveSpeech.isSupported() && isLiveSpeechEnabled()) {
         try {
           liveSpeech.start();
         } catch (error) {
@@ -11,6 +11,7 @@ export interface Message {
   content: string;
   created_at?: string;
   characterId?: string; // Which character is speaking (for assistant messages)
+  metadata?: Record<string, any>; // e.g. previous_versions after a regenerate, edited_from after an edit, scene on a turn's first reply
 }
 
 // Early animation setup from streaming
@@ -27,6 +28,10 @@ export interface ChatInterfaceProps {
   onToggleSidebar: () => void;
   isLoading?: boolean;
   onDeleteMessage?: (messageId: string) => void;
+  // Edit a user message and regenerate everything after it
+  onEditMessage?: (messageId: string, newContent: string) => void;
+  // Regenerate the assistant turn containing this message
+  onRegenerateMessage?: (messageId: string) => void;
   // Animation orchestration
   animationScene?: OrchestrationScene | null;
   // Early animation setup from streaming (before full scene is ready)
@@ -6,3 +6,7 @@ export { IDLE_ANIMATIONS, IDLE_COMPLEMENTARY_BASE, getRandomIdleAnimation, getRa
 export { ANGLE_RANGE_BY_COUNT, calculateCharacterPosition, getCharacterScaleFactor, getCharacterWrapperStyle } from './characterPositioning';
 export type { CharacterPosition } from './characterPositioning';
 export { formatTimestamp } from './messageFormatting';
+export { findTurnScene } from './turnScene';
+export type { TurnScene } from './turnScene';
+export { buildStagePlan, getStagePose } from './stageChoreography';
+export type { StagePlan, StagePoint, StagePose } from './stageChoreography';
@@ -0,0 +1,294 @@
+/**
+ * Stage choreography - turns segment movements into walking paths
+ *
+ * Positions use the same horizontal units as characterPositioning (percent offset
+ * from center) plus a depth axis: 0 = the character's row, 1 = one step toward
+ * the audience, negative = behind the row. Every character starts a scene at its
+ * slot; movements are planned in time order so each path can avoid the others.
+ */
+
+import type { OrchestrationScene, StageMovement } from '../../../services/animationOrchestration';
+
+export interface StagePoint {
+  x: number;
+  depth: number;
+}
+
+interface StageMove {
+  startMs: number;
+  durationMs: number;
+  path: StagePoint[]; // path[0] is where the walk starts
+}
+
+export interface StagePlan {
+  slots: Map<string, StagePoint>;
+  moves: Map<string, StageMove[]>;
+}
+
+export interface StagePose {
+  offset: StagePoint; // From the character's slot
+  walking: boolean;
+  facing?: 'left' | 'right';
+}
+
+const WALK_SPEED = 0.03;        // Horizontal percent per ms (~1.5s across half the stage)
+const MIN_WALK_MS = 500;
+const DEPTH_SCALE = 12;         // One step of depth counts as this much horizontal distance
+const PERSONAL_SPACE = 12;      // Closest two characters get while walking or standing
+const APPROACH_GAP = 15;        // Where an approaching character stops, beside the target
+const FORWARD_DEPTH = 1;
+const DETOUR_DEPTHS = [1.2, -0.8]; // Walk around in front first, then behind
+const STAGE_HALF_WIDTH = 48;
+const COLLISION_SAMPLE_MS = 100;
+
+const AT_REST: StagePose = { offset: { x: 0, depth: 0 }, walking: false };
+
+function stageDistance(a: StagePoint, b: StagePoint): number {
+  return Math.hypot(a.x - b.x, (a.depth - b.depth) * DEPTH_SCALE);
+}
+
+function pathLength(path: StagePoint[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) length += stageDistance(path[i - 1], path[i]);
+  return length;
+}
+
+/**
+ * Point along a path at progress 0..1 (by distance), plus the leg's direction
+ */
+function pointOnPath(path: StagePoint[], progress: number): { point: StagePoint; dx: number } {
+  const total = pathLength(path);
+  let remaining = Math.max(0, Math.min(1, progress)) * total;
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const leg = stageDistance(from, to);
+    if (remaining <= leg || i === path.length - 1) {
+      const t = leg > 0 ? Math.min(1, remaining / leg) : 1;
+      return {
+        point: { x: from.x + (to.x - from.x) * t, depth: from.depth + (to.depth - from.depth) * t },
+        dx: to.x - from.x,
+      };
+    }
+    remaining -= leg;
+  }
+  return { point: path[path.length - 1], dx: 0 };
+}
+
+/**
+ * Where a character is at a given time according to the moves planned so far
+ */
+function positionAt(plan: StagePlan, characterId: string, timeMs: number): StagePoint {
+  const moves = plan.moves.get(characterId) ?? [];
+  let position = plan.slots.get(characterId) ?? { x: 0, depth: 0 };
+  for (const move of moves) {
+    if (timeMs < move.startMs) break;
+    if (timeMs < move.startMs + move.durationMs) {
+      return pointOnPath(move.path, (timeMs - move.startMs) / move.durationMs).point;
+    }
+    position = move.path[move.path.length - 1];
+  }
+  return position;
+}
+
+function lastMoveEnd(plan: StagePlan, characterId: string): number {
+  const moves = plan.moves.get(characterId);
+  const last = moves?.[moves.length - 1];
+  return last ? last.startMs + last.durationMs : 0;
+}
+
+function walkDuration(path: StagePoint[]): number {
+  return Math.max(MIN_WALK_MS, Math.round(pathLength(path) / WALK_SPEED));
+}
+
+/**
+ * Smallest distance to any other character while walking this path
+ */
+function clearance(plan: StagePlan, characterId: string, path: StagePoint[], startMs: number, ignore: string[]): number {
+  const durationMs = walkDuration(path);
+  const others = Array.from(plan.slots.keys()).filter(id => id !== characterId && !ignore.includes(id));
+  let closest = Infinity;
+  for (let t = 0; t <= durationMs; t += COLLISION_SAMPLE_MS) {
+    const point = pointOnPath(path, t / durationMs).point;
+    for (const otherId of others) {
+      closest = Math.min(closest, stageDistance(point, positionAt(plan, otherId, startMs + t)));
+    }
+  }
+  return closest;
+}
+
+/**
+ * Straight line if it's clear, otherwise step around the others (front, then back)
+ */
+function planPath(plan: StagePlan, characterId: string, from: StagePoint, to: StagePoint, startMs: number, ignore: string[]): StagePoint[] {
+  const direct = [from, to];
+  const candidates = [direct, ...DETOUR_DEPTHS.map(depth => [
+    from,
+    { x: from.x + (to.x - from.x) * 0.2, depth },
+    { x: from.x + (to.x - from.x) * 0.8, depth },
+    to,
+  ])];
+
+  let best = direct;
+  let bestClearance = -1;
+  for (const candidate of candidates) {
+    const value = clearance(plan, characterId, candidate, startMs, ignore);
+    if (value >= PERSONAL_SPACE) return candidate;
+    if (value > bestClearance) {
+      best = candidate;
+      bestClearance = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Shift a destination sideways until nobody else is standing there
+ */
+function findFreeSpot(plan: StagePlan, characterId: string, spot: StagePoint, timeMs: number, ignore: string[]): StagePoint {
+  const result = { ...spot };
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const blocker = Array.from(plan.slots.keys())
+      .filter(id => id !== characterId && !ignore.includes(id))
+      .map(id => positionAt(plan, id, timeMs))
+      .find(point => stageDistance(point, result) < PERSONAL_SPACE);
+    if (!blocker) break;
+    const away = result.x >= blocker.x ? 1 : -1;
+    result.x = blocker.x + away * PERSONAL_SPACE;
+    if (Math.abs(result.x) > STAGE_HALF_WIDTH) {
+      // No room on that side - stand in front instead
+      result.x = Math.max(-STAGE_HALF_WIDTH, Math.min(STAGE_HALF_WIDTH, result.x));
+      result.depth = blocker.depth + 1;
+    }
+  }
+  return result;
+}
+
+function addMove(plan: StagePlan, characterId: string, to: StagePoint, startMs: number, ignore: string[] = []): void {
+  const from = positionAt(plan, characterId, startMs);
+  if (stageDistance(from, to) < 0.5) return;
+  const path = planPath(plan, characterId, from, to, startMs, ignore);
+  const moves = plan.moves.get(characterId) ?? [];
+  moves.push({ startMs, durationMs: walkDuration(path), path });
+  plan.moves.set(characterId, moves);
+}
+
+/**
+ * Movement requests in scene time order
+ */
+function collectMovements(scene: OrchestrationScene): Array<{ characterId: string; atMs: number; movement: StageMovement }> {
+  const events: Array<{ characterId: string; atMs: number; movement: StageMovement }> = [];
+  const collect = (characterId: string, startDelay: number, segments: OrchestrationScene['timelines'][0]['segments']) => {
+    let offset = startDelay;
+    for (const segment of segments) {
+      if (segment.movement) events.push({ characterId, atMs: offset, movement: segment.movement });
+      offset += segment.duration;
+    }
+  };
+  scene.timelines.forEach(timeline => collect(timeline.characterId, timeline.startDelay, timeline.segments));
+  Object.entries(scene.nonSpeakerBehavior).forEach(([characterId, segments]) => collect(characterId, 0, segments));
+  return events.sort((a, b) => a.atMs - b.atMs);
+}
+
+/**
+ * Plan every walk in a scene
+ * @param slots - Each on-stage character's home position (horizontalOffset from characterPositioning)
+ */
+export function buildStagePlan(scene: OrchestrationScene, slots: Map<string, StagePoint>): StagePlan {
+  const plan: StagePlan = { slots, moves: new Map() };
+
+  for (const { characterId, atMs, movement } of collectMovements(scene)) {
+    const slot = slots.get(characterId);
+    if (!slot) continue;
+    if (movement.target && !slots.has(movement.target)) continue;
+
+    // Finish the current walk before starting the next one
+    const startMs = Math.max(atMs, lastMoveEnd(plan, characterId));
+    const current = positionAt(plan, characterId, startMs);
+
+    switch (movement.type) {
+      case 'home':
+        addMove(plan, characterId, slot, startMs);
+        break;
+
+      case 'forward':
+        addMove(plan, characterId, findFreeSpot(plan, characterId, { x: current.x, depth: FORWARD_DEPTH }, startMs, []), startMs);
+        break;
+
+      case 'approach': {
+        const target = positionAt(plan, movement.target!, startMs);
+        // Stop on the near side of the target, or the inside when standing right on top of it
+        const side = current.x !== target.x ? Math.sign(current.x - target.x) : (target.x > 0 ? -1 : 1);
+        const spot = { x: target.x + side * APPROACH_GAP, depth: target.depth };
+        addMove(plan, characterId, findFreeSpot(plan, characterId, spot, startMs, [movement.target!]), startMs, [movement.target!]);
+        break;
+      }
+
+      case 'swap': {
+        const partner = movement.target!;
+        const swapStart = Math.max(startMs, lastMoveEnd(plan, partner));
+        const partnerSpot = positionAt(plan, partner, swapStart);
+        const ownSpot = positionAt(plan, characterId, swapStart);
+        // The partner is leaving the spot, so only the others count as obstacles
+        addMove(plan, characterId, partnerSpot, swapStart, [partner]);
+        // Planned second, so the partner steps around the first walker
+        addMove(plan, partner, ownSpot, swapStart);
+        break;
+      }
+    }
+  }
+
+  // Everyone wanders back to their own spot as the scene wraps up
+  slots.forEach((slot, characterId) => {
+    const endMs = lastMoveEnd(plan, characterId);
+    if (endMs === 0) return;
+    const position = positionAt(plan, characterId, endMs);
+    if (stageDistance(position, slot) < 0.5) return;
+    const durationMs = walkDuration([position, slot]);
+    addMove(plan, characterId, slot, Math.max(endMs, scene.sceneDuration - durationMs));
+  });
+
+  return plan;
+}
+
+/**
+ * Where a character should be drawn right now, relative to its slot
+ */
+export function getStagePose(plan: StagePlan | null, characterId: string, elapsedMs: number): StagePose {
+  const slot = plan?.slots.get(characterId);
+  const moves = plan?.moves.get(characterId);
+  if (!plan || !slot || !moves || moves.length === 0) return AT_REST;
+
+  const activeMove = moves.find(move => elapsedMs >= move.startMs && elapsedMs < move.startMs + move.durationMs);
+  if (activeMove) {
+    const { point, dx } = pointOnPath(activeMove.path, (elapsedMs - activeMove.startMs) / activeMove.durationMs);
+    return {
+      offset: { x: point.x - slot.x, depth: point.depth },
+      walking: true,
+      facing: dx < 0 ? 'left' : dx > 0 ? 'right' : undefined,
+    };
+  }
+
+  const position = positionAt(plan, characterId, elapsedMs);
+  return { offset: { x: position.x - slot.x, depth: position.depth }, walking: false };
+}
+
+/**
+ * When the last walk in the plan finishes (0 if nobody moves)
+ */
+export function getStagePlanEnd(plan: StagePlan): number {
+  let end = 0;
+  plan.moves.forEach((_, characterId) => {
+    end = Math.max(end, lastMoveEnd(plan, characterId));
+  });
+  return end;
+}
+
+/**
+ * Whether anyone is mid-walk at this time
+ */
+export function isStageMoving(plan: StagePlan, elapsedMs: number): boolean {
+  return Array.from(plan.moves.values()).some(moves =>
+    moves.some(move => elapsedMs >= move.startMs && elapsedMs < move.startMs + move.durationMs)
+  );
+}
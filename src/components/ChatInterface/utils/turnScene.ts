@@ -0,0 +1,37 @@
+/**
+ * Recorded scenes for past assistant turns
+ * A turn's OrchestrationScene is stored on its first assistant message (metadata.scene).
+ */
+
+import { OrchestrationScene, normalizeOrchestrationScene } from '../../../services/animationOrchestration';
+import { Message } from '../types/chatInterface.types';
+
+export interface TurnScene {
+  scene: OrchestrationScene;
+  // Each speaking character's message in the turn
+  messageIds: Map<string, string>;
+}
+
+/**
+ * Find the recorded scene for the turn containing a message
+ * Returns null for user messages and turns recorded before scenes were stored.
+ */
+export function findTurnScene(messages: Message[], messageId: string): TurnScene | null {
+  let start = messages.findIndex(m => m.id === messageId);
+  if (start === -1 || messages[start].role !== 'assistant') return null;
+  while (start > 0 && messages[start - 1].role === 'assistant' && !messages[start].metadata?.scene) {
+    start--;
+  }
+
+  const scene = normalizeOrchestrationScene(messages[start].metadata?.scene);
+  if (!scene) return null;
+
+  const messageIds = new Map<string, string>();
+  for (let i = start; i < messages.length && messages[i].role === 'assistant'; i++) {
+    const characterId = messages[i].characterId;
+    if (characterId && !messageIds.has(characterId)) {
+      messageIds.set(characterId, messages[i].id);
+    }
+  }
+  return { scene, messageIds };
+}
@@ -6,6 +6,9 @@ import { useResponsive } from '../constants/Layout';
 import { shadows } from '../utils/shadow';
 import { InviteModal } from './InviteModal';
 import { getVersionString } from '../config/version';
+import { MessageSearchResults } from './MessageSearchResults';
+import type { MessageSearchResult } from '../services/messageSearchService';
+import type { ExportFormat } from '../services/conversationExportService';
 
 interface Conversation {
   id: string;
@@ -27,9 +30,11 @@ interface ChatSidebarProps {
   onJoinConversation?: () => void;
   onRenameConversation?: (conversationId: string, newTitle: string) => void;
   onDeleteConversation?: (conversationId: string) => void;
+  onSelectMessage?: (conversationId: string, messageId: string) => void;
+  onExportConversation?: (conversationId: string, format: ExportFormat) => void;
 }
 
-export function ChatSidebar({ conversations, currentConversation, onSelectConversation, onToggleSidebar, isOpen, onNewConversation, onBecomePremium, onJoinConversation, onRenameConversation, onDeleteConversation }: ChatSidebarProps) {
+export function ChatSidebar({ conversations, currentConversation, onSelectConversation, onToggleSidebar, isOpen, onNewConversation, onBecomePremium, onJoinConversation, onRenameConversation, onDeleteConversation, onSelectMessage, onExportConversation }: ChatSidebarProps) {
   const { showAlert, AlertComponent } = useCustomAlert();
   const { fonts, spacing, layout, isMobile, width: screenWidth } = useResponsive();
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -265,6 +270,22 @@ export function ChatSidebar({ conversations, currentConversation, onSelectConver
     );
   };
 
+  const chooseExportFormat = (conversation: Conversation) => {
+    setMenuOpenId(null);
+
+    const exportAs = (format: ExportFormat) => () => onExportConversation?.(conversation.id, format);
+    showAlert(
+      'Export Conversation',
+      `Choose a format for "${conversation.title}".\n\nJSON can be imported again from Settings.`,
+      [
+        { text: 'Markdown', onPress: exportAs('markdown') },
+        { text: 'JSON', onPress: exportAs('json') },
+        { text: 'Printable HTML', onPress: exportAs('html') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
   const toggleMenu = (convId: string, event?: any) => {
     if (event) {
       event.stopPropagation();
@@ -295,6 +316,14 @@ export function ChatSidebar({ conversations, currentConversation, onSelectConver
     }
   }, [menuOpenId]);
 
+  const handleSelectSearchResult = (result: MessageSearchResult) => {
+    onSelectMessage?.(result.conversationId, result.messageId);
+    // Close sidebar on mobile after selection
+    if (isMobile) {
+      onToggleSidebar();
+    }
+  };
+
   // Filter conversations based on search query
   const filteredConversations = conversations.filter(conv => 
     conv.title.toLowerCase().includes(searchQuery.toLowerCase())
@@ -419,7 +448,7 @@ export function ChatSidebar({ conversations, currentConversation, onSelectConver
           <Ionicons name="search" size={16} color="#71717a" style={styles.searchIcon} />
           <TextInput
             style={[styles.searchInput, { fontSize: fonts.sm }]}
-            placeholder="Search conversations..."
+            placeholder="Search conversations and messages..."
             placeholderTextColor="#71717a"
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -535,6 +564,15 @@ export function ChatSidebar({ conversations, currentConversation, onSelectConver
                                       <Ionicons name="pencil" size={14} color="#a1a1aa" />
                                       <Text style={[styles.menuItemText, { fontSize: fonts.sm }]}>Rename</Text>
                                     </TouchableOpacity>
+                                    {onExportConversation && (
+                                      <TouchableOpacity
+                                        onPress={() => chooseExportFormat(conv)}
+                                        style={[styles.menuItem, { minHeight: layout.minTouchTarget }]}
+                                      >
+                                        <Ionicons name="download-outline" size={14} color="#a1a1aa" />
+                                        <Text style={[styles.menuItemText, { fontSize: fonts.sm }]}>Export</Text>
+                                      </TouchableOpacity>
+                                    )}
                                     <TouchableOpacity 
                                       onPress={() => {
                                         console.log('[Menu] Delete clicked');
@@ -559,6 +597,9 @@ export function ChatSidebar({ conversations, currentConversation, onSelectConver
             </View>
             ))
           )}
+          {onSelectMessage && (
+            <MessageSearchResults query={searchQuery} onSelectResult={handleSelectSearchResult} />
+          )}
           </ScrollView>
         </View>
         
@@ -0,0 +1,381 @@
+/**
+ * Memories Modal Component
+ *
+ * Shows what wakattors remember about the user across conversations
+ * Facts can be edited or forgotten individually or all at once
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useResponsive } from '../constants/Layout';
+import { Button } from './ui';
+import { useCustomAlert } from './CustomAlert';
+import { getCharacter } from '../config/characters';
+import {
+  listMemories,
+  updateMemory,
+  deleteMemory,
+  deleteAllMemories,
+  UserMemory,
+} from '../services/memoryService';
+
+interface MemoriesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Facts known to every wakattor are grouped under this key
+const SHARED_GROUP = 'shared';
+
+export const MemoriesModal: React.FC<MemoriesModalProps> = ({ visible, onClose }) => {
+  const { fonts, spacing, borderRadius, isMobile } = useResponsive();
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [memories, setMemories] = useState<UserMemory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadMemories();
+    } else {
+      setEditingId(null);
+    }
+  }, [visible]);
+
+  const loadMemories = async () => {
+    setLoading(true);
+    try {
+      setMemories(await listMemories());
+    } catch (error) {
+      console.error('[MemoriesModal] Error loading memories:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared facts first, then one group per wakattor
+  const groups = useMemo(() => {
+    const byGroup: Record<string, UserMemory[]> = {};
+    memories.forEach(memory => {
+      const key = memory.characterId || SHARED_GROUP;
+      (byGroup[key] ||= []).push(memory);
+    });
+    return Object.keys(byGroup)
+      .sort((a, b) => (a === SHARED_GROUP ? -1 : b === SHARED_GROUP ? 1 : a.localeCompare(b)))
+      .map(key => ({
+        key,
+        title: key === SHARED_GROUP ? 'Everyone knows' : `Only ${getCharacter(key).name} knows`,
+        memories: byGroup[key],
+      }));
+  }, [memories]);
+
+  const startEditing = (memory: UserMemory) => {
+    setEditingId(memory.id);
+    setEditText(memory.fact);
+  };
+
+  const handleSave = async () => {
+    const trimmed = editText.trim();
+    if (!editingId || !trimmed) return;
+
+    setSaving(true);
+    try {
+      await updateMemory(editingId, trimmed);
+      setMemories(prev => prev.map(m => (m.id === editingId ? { ...m, fact: trimmed } : m)));
+      setEditingId(null);
+    } catch (error: any) {
+      showAlert('Error', error.message || 'Failed to update memory.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (memory: UserMemory) => {
+    showAlert('Forget This?', `"${memory.fact}"`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Forget',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteMemory(memory.id);
+            setMemories(prev => prev.filter(m => m.id !== memory.id));
+          } catch (error: any) {
+            showAlert('Error', error.message || 'Failed to delete memory.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteAll = () => {
+    showAlert(
+      'Forget Everything?',
+      'Your wakattors will no longer remember anything from previous conversations. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget Everything',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAllMemories();
+              setMemories([]);
+            } catch (error: any) {
+              showAlert('Error', error.message || 'Failed to delete memories.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <AlertComponent />
+      <View style={styles.overlay}>
+        <View style={[
+          styles.container,
+          {
+            maxWidth: isMobile ? '100%' : 560,
+            maxHeight: isMobile ? '95%' : '85%',
+            margin: isMobile ? 0 : spacing.xl,
+            borderRadius: isMobile ? 0 : 16,
+          }
+        ]}>
+          {/* Header */}
+          <View style={[styles.header, { padding: spacing.lg }]}>
+            <View style={styles.headerContent}>
+              <Ionicons name="bulb" size={28} color="#8b5cf6" />
+              <Text style={[styles.title, { fontSize: fonts.xl, marginLeft: spacing.sm }]}>
+                Memories
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#a1a1aa" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} contentContainerStyle={{ padding: spacing.lg }}>
+            <Text style={[styles.intro, { fontSize: fonts.sm, marginBottom: spacing.lg }]}>
+              Things your wakattors picked up about you in past conversations. They use these to keep
+              the conversation personal. Edit anything that's wrong, or make them forget it.
+            </Text>
+
+            {loading ? (
+              <ActivityIndicator size="large" color="#8b5cf6" style={{ marginTop: spacing.xl }} />
+            ) : memories.length === 0 ? (
+              <View style={[styles.emptyState, { padding: spacing.xl }]}>
+                <Ionicons name="bulb-outline" size={48} color="#3f3f46" />
+                <Text style={[styles.emptyText, { fontSize: fonts.sm, marginTop: spacing.md }]}>
+                  Nothing remembered yet. Memories are collected when you move on from a conversation.
+                </Text>
+              </View>
+            ) : (
+              <>
+                {groups.map(group => (
+                  <View key={group.key} style={{ marginBottom: spacing.lg }}>
+                    <Text style={[styles.groupTitle, { fontSize: fonts.xs, marginBottom: spacing.sm }]}>
+                      {group.title.toUpperCase()}
+                    </Text>
+                    {group.memories.map(memory => (
+                      <View
+                        key={memory.id}
+                        style={[styles.memoryItem, { padding: spacing.md, borderRadius: borderRadius.sm, marginBottom: spacing.sm }]}
+                      >
+                        {editingId === memory.id ? (
+                          <>
+                            <TextInput
+                              value={editText}
+                              onChangeText={setEditText}
+                              multiline
+                              maxLength={500}
+                              autoFocus
+                              style={[styles.editInput, { fontSize: fonts.sm, padding: spacing.sm, borderRadius: borderRadius.sm }]}
+                            />
+                            <View style={[styles.editActions, { marginTop: spacing.sm, gap: spacing.sm }]}>
+                              <Button title="Cancel" onPress={() => setEditingId(null)} variant="ghost" size="sm" />
+                              <Button
+                                title="Save"
+                                onPress={handleSave}
+                                disabled={saving || !editText.trim()}
+                                loading={saving}
+                                size="sm"
+                              />
+                            </View>
+                          </>
+                        ) : (
+                          <View style={styles.memoryRow}>
+                            <Text style={[styles.memoryText, { fontSize: fonts.sm }]}>{memory.fact}</Text>
+                            <TouchableOpacity onPress={() => startEditing(memory)} style={styles.iconButton}>
+                              <Ionicons name="pencil" size={16} color="#a1a1aa" />
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => handleDelete(memory)} style={styles.iconButton}>
+                              <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </View>
+                    ))}
+                  </View>
+                ))}
+
+                <Button
+                  title="Forget Everything"
+                  onPress={handleDeleteAll}
+                  variant="danger"
+                  fullWidth
+                  size="md"
+                  icon="trash-outline"
+                />
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+/**
+ * Memories Button - Use this to open the memories modal
+ */
+export const MemoriesButton: React.FC<{ style?: any }> = ({ style }) => {
+  const [showModal, setShowModal] = useState(false);
+  const { fonts } = useResponsive();
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.memoriesButton, style]}
+        onPress={() => setShowModal(true)}
+      >
+        <Ionicons name="bulb-outline" size={18} color="#8b5cf6" />
+        <Text style={[styles.memoriesButtonText, { fontSize: fonts.sm }]}>
+          What Wakattors Remember
+        </Text>
+        <Ionicons name="chevron-forward" size={18} color="#71717a" />
+      </TouchableOpacity>
+      <MemoriesModal
+        visible={showModal}
+        onClose={() => setShowModal(false)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#171717',
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  intro: {
+    color: '#a1a1aa',
+    lineHeight: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#71717a',
+    textAlign: 'center',
+  },
+  groupTitle: {
+    color: '#71717a',
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  memoryItem: {
+    backgroundColor: '#1f1f1f',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  memoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  memoryText: {
+    color: '#e4e4e7',
+    flex: 1,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  editInput: {
+    color: '#fff',
+    backgroundColor: '#0f0f0f',
+    borderWidth: 1,
+    borderColor: '#8b5cf6',
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  memoriesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#8b5cf620',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#8b5cf630',
+    gap: 10,
+  },
+  memoriesButtonText: {
+    color: '#8b5cf6',
+    flex: 1,
+    fontWeight: '500',
+  },
+});
+
+export default MemoriesModal;
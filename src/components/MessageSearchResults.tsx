@@ -0,0 +1,277 @@
+/**
+ * Message Search Results
+ * Full-text message search results for the sidebar, with role/date/character filters
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useResponsive } from '../constants/Layout';
+import { getCharacter } from '../config/characters';
+import {
+  searchMessages,
+  parseSnippet,
+  MIN_SEARCH_QUERY_LENGTH,
+  type MessageSearchResult,
+  type MessageSearchRole,
+} from '../services/messageSearchService';
+
+// Wait for the user to stop typing before querying
+const SEARCH_DEBOUNCE_MS = 400;
+
+type DateRange = 'any' | 'week' | 'month' | 'year';
+
+const DATE_RANGES: { id: DateRange; label: string; days: number | null }[] = [
+  { id: 'any', label: 'Any time', days: null },
+  { id: 'week', label: 'Past week', days: 7 },
+  { id: 'month', label: 'Past month', days: 30 },
+  { id: 'year', label: 'Past year', days: 365 },
+];
+
+const ROLE_FILTERS: { id: MessageSearchRole | null; label: string }[] = [
+  { id: null, label: 'All' },
+  { id: 'user', label: 'Me' },
+  { id: 'assistant', label: 'Wakattors' },
+];
+
+interface MessageSearchResultsProps {
+  query: string;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+export function MessageSearchResults({ query, onSelectResult }: MessageSearchResultsProps) {
+  const { fonts, spacing } = useResponsive();
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<MessageSearchRole | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const [characterId, setCharacterId] = useState<string | null>(null);
+  // Characters seen in unfiltered results, offered as character filter chips
+  const [knownCharacterIds, setKnownCharacterIds] = useState<string[]>([]);
+
+  const trimmedQuery = query.trim();
+
+  // Reset the character filter when the query changes
+  useEffect(() => {
+    setCharacterId(null);
+    setKnownCharacterIds([]);
+  }, [trimmedQuery]);
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_SEARCH_QUERY_LENGTH) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        const days = DATE_RANGES.find(r => r.id === dateRange)?.days;
+        const found = await searchMessages(trimmedQuery, {
+          role,
+          characterId,
+          from: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null,
+        });
+        if (cancelled) return;
+        setResults(found);
+        if (!characterId) {
+          const ids = found.map(r => r.characterId).filter((id): id is string => !!id);
+          setKnownCharacterIds(Array.from(new Set(ids)));
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setError(err?.message || 'Search failed');
+          setResults([]);
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery, role, dateRange, characterId]);
+
+  const characterChips = useMemo(
+    () => knownCharacterIds.map(id => getCharacter(id)).filter(c => knownCharacterIds.includes(c.id)),
+    [knownCharacterIds]
+  );
+
+  if (trimmedQuery.length < MIN_SEARCH_QUERY_LENGTH) {
+    return null;
+  }
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void, color?: string) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        isActive && { backgroundColor: color || '#8b5cf6', borderColor: color || '#8b5cf6' },
+      ]}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive, { fontSize: fonts.xs }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.sectionTitle, { fontSize: fonts.xs, paddingHorizontal: spacing.sm }]}>Messages</Text>
+
+      {/* Filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chipRow, { paddingHorizontal: spacing.sm }]}>
+        {ROLE_FILTERS.map(f => renderChip(`role-${f.id}`, f.label, role === f.id, () => setRole(f.id)))}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chipRow, { paddingHorizontal: spacing.sm }]}>
+        {DATE_RANGES.map(r => renderChip(`date-${r.id}`, r.label, dateRange === r.id, () => setDateRange(r.id)))}
+      </ScrollView>
+      {characterChips.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chipRow, { paddingHorizontal: spacing.sm }]}>
+          {characterChips.map(c => renderChip(
+            `char-${c.id}`,
+            c.name,
+            characterId === c.id,
+            () => setCharacterId(characterId === c.id ? null : c.id),
+            c.color,
+          ))}
+        </ScrollView>
+      )}
+
+      {isSearching ? (
+        <ActivityIndicator style={{ marginVertical: spacing.md }} color="#8b5cf6" />
+      ) : error ? (
+        <Text style={[styles.emptyText, { fontSize: fonts.xs }]}>{error}</Text>
+      ) : results.length === 0 ? (
+        <Text style={[styles.emptyText, { fontSize: fonts.xs }]}>No messages found</Text>
+      ) : (
+        results.map(result => {
+          const character = result.characterId ? getCharacter(result.characterId) : null;
+          const speaker = result.role === 'user' ? 'You' : character?.name || 'Wakattor';
+          return (
+            <TouchableOpacity
+              key={result.messageId}
+              onPress={() => onSelectResult(result)}
+              style={[styles.resultItem, { paddingVertical: spacing.sm, paddingHorizontal: spacing.md }]}
+              accessibilityLabel={`Message in ${result.conversationTitle}`}
+            >
+              <View style={styles.resultHeader}>
+                <Text style={[styles.resultConversation, { fontSize: fonts.xs }]} numberOfLines={1}>
+                  {result.conversationTitle}
+                </Text>
+                <Text style={[styles.resultDate, { fontSize: fonts.xs }]}>
+                  {new Date(result.createdAt).toLocaleDateString()}
+                </Text>
+              </View>
+              <Text style={[styles.resultSpeaker, { fontSize: fonts.xs, color: character?.color || '#10b981' }]}>
+                {speaker}
+              </Text>
+              <Text style={[styles.resultSnippet, { fontSize: fonts.sm }]} numberOfLines={3}>
+                {parseSnippet(result.snippet).map((segment, i) => (
+                  <Text key={i} style={segment.highlighted ? styles.highlight : undefined}>
+                    {segment.text}
+                  </Text>
+                ))}
+              </Text>
+            </TouchableOpacity>
+          );
+        })
+      )}
+      {!isSearching && results.length > 0 && (
+        <View style={[styles.footer, { paddingHorizontal: spacing.sm }]}>
+          <Ionicons name="search" size={12} color="#52525b" />
+          <Text style={[styles.footerText, { fontSize: fonts.xs }]}>
+            {results.length} {results.length === 1 ? 'match' : 'matches'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#27272a',
+  },
+  sectionTitle: {
+    color: '#71717a',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 6,
+    paddingBottom: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#18181b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  chipText: {
+    color: '#a1a1aa',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  emptyText: {
+    color: '#71717a',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  resultItem: {
+    borderRadius: 8,
+    marginBottom: 4,
+    backgroundColor: '#1c1c1f',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  resultConversation: {
+    flex: 1,
+    color: '#a1a1aa',
+    fontWeight: '600',
+  },
+  resultDate: {
+    color: '#52525b',
+  },
+  resultSpeaker: {
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  resultSnippet: {
+    color: '#d4d4d8',
+    marginTop: 2,
+    lineHeight: 18,
+  },
+  highlight: {
+    color: '#fde68a',
+    fontWeight: '700',
+    backgroundColor: 'rgba(250, 204, 21, 0.15)',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  footerText: {
+    color: '#52525b',
+  },
+});
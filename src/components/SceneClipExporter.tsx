@@ -0,0 +1,388 @@
+/**
+ * Scene Clip Exporter
+ *
+ * Renders a recorded assistant turn offscreen and saves it as a WebM or GIF.
+ * The playback engine and the characters run on a ManualClock, so each frame
+ * is captured at an exact timestamp no matter how long rendering takes.
+ */
+
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useResponsive } from '../constants/Layout';
+import { Button } from './ui';
+import { useCustomAlert } from './CustomAlert';
+import { CharacterDisplay3D, ModelStyle } from './CharacterDisplay3D';
+import { getCharacter } from '../config/characters';
+import { CharacterVoiceProfile } from '../config/voiceConfig';
+import {
+  OrchestrationScene,
+  CharacterAnimationState,
+  getSceneCharacterIds,
+} from '../services/animationOrchestration';
+import { AnimationPlaybackEngine } from '../services/animationPlaybackEngine';
+import { ManualClock } from '../services/animationClock';
+import {
+  ClipFormat,
+  CLIP_EXPORT_SETTINGS,
+  isClipExportSupported,
+  composeClipFrame,
+  createClipEncoder,
+  downloadClip,
+  getClipFileName,
+} from '../services/sceneClipExport';
+
+interface SceneClipExporterProps {
+  visible: boolean;
+  scene: OrchestrationScene | null;
+  title: string;
+  voiceProfiles?: Map<string, CharacterVoiceProfile>;
+  modelStyle?: ModelStyle;
+  onClose: () => void;
+}
+
+type ExportPhase = 'idle' | 'rendering' | 'encoding' | 'done';
+
+// The clock advances in 60fps steps between captured frames so
+// per-frame transitions behave exactly as they do live
+const SIMULATION_FPS = 60;
+
+const FORMAT_OPTIONS: { value: ClipFormat; label: string; description: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'webm', label: 'Video (WebM)', description: 'Smooth, small file', icon: 'videocam-outline' },
+  { value: 'gif', label: 'Animated GIF', description: 'Plays anywhere, larger file', icon: 'images-outline' },
+];
+
+// Two browser frames: React commits the new states, then the canvases render them
+const waitForPaint = () => new Promise<void>(resolve => {
+  requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+});
+
+export const SceneClipExporter: React.FC<SceneClipExporterProps> = ({
+  visible,
+  scene,
+  title,
+  voiceProfiles,
+  modelStyle,
+  onClose,
+}) => {
+  const { fonts, spacing, isMobile } = useResponsive();
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [format, setFormat] = useState<ClipFormat>(isClipExportSupported('webm') ? 'webm' : 'gif');
+  const [phase, setPhase] = useState<ExportPhase>('idle');
+  const [progress, setProgress] = useState(0);
+  // Offscreen stage - only mounted while rendering
+  const [stage, setStage] = useState<{ clock: ManualClock; states: Map<string, CharacterAnimationState> } | null>(null);
+
+  const canvasesRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  const cancelledRef = useRef(false);
+
+  const characterIds = useMemo(() => (scene ? getSceneCharacterIds(scene) : []), [scene]);
+  const { fps, tailMs, maxDurationMs, width, height } = CLIP_EXPORT_SETTINGS;
+  const clipDuration = scene ? Math.min(scene.sceneDuration, maxDurationMs) + tailMs : 0;
+  const frameCount = Math.ceil((clipDuration / 1000) * fps);
+  const isTruncated = !!scene && scene.sceneDuration > maxDurationMs;
+  const isBusy = phase === 'rendering' || phase === 'encoding';
+
+  useEffect(() => {
+    if (visible) {
+      setPhase('idle');
+      setProgress(0);
+    }
+  }, [visible]);
+
+  // Stop rendering if the modal goes away mid-export
+  useEffect(() => () => { cancelledRef.current = true; }, []);
+
+  const handleExport = async () => {
+    if (!scene || characterIds.length === 0) return;
+    cancelledRef.current = false;
+    canvasesRef.current.clear();
+
+    const clock = new ManualClock();
+    const engine = new AnimationPlaybackEngine(clock);
+    engine.setTalkingSoundsEnabled(false);
+    if (voiceProfiles) {
+      engine.setCharacterVoiceProfiles(voiceProfiles);
+    }
+    const unsubscribe = engine.subscribe(state => {
+      setStage({ clock, states: new Map(state.characterStates) });
+    });
+    const encoder = createClipEncoder(format);
+
+    setPhase('rendering');
+    setProgress(0);
+    setStage({ clock, states: new Map() });
+
+    try {
+      // Wait for every character's WebGL canvas to mount
+      for (let i = 0; i < 120 && canvasesRef.current.size < characterIds.length; i++) {
+        await waitForPaint();
+      }
+      if (canvasesRef.current.size < characterIds.length) {
+        throw new Error('Characters could not be rendered in this browser.');
+      }
+
+      const composite = document.createElement('canvas');
+      composite.width = width;
+      composite.height = height;
+      const ctx = composite.getContext('2d');
+      if (!ctx) {
+        throw new Error('Canvas 2D context unavailable');
+      }
+
+      const substeps = Math.max(1, Math.round(SIMULATION_FPS / fps));
+      const stepMs = 1000 / fps / substeps;
+      engine.play(scene);
+
+      for (let frame = 0; frame < frameCount; frame++) {
+        if (cancelledRef.current) break;
+        for (let step = 0; step < substeps; step++) {
+          clock.advance(stepMs);
+        }
+        await waitForPaint();
+
+        composeClipFrame(ctx, characterIds.map(id => {
+          const character = getCharacter(id);
+          return {
+            name: character.name,
+            color: character.color,
+            canvas: canvasesRef.current.get(id) ?? null,
+            revealedText: engine.getRevealedText(id),
+          };
+        }));
+        await encoder.addFrame(composite);
+        setProgress((frame + 1) / frameCount);
+      }
+
+      if (cancelledRef.current) {
+        encoder.dispose();
+        return;
+      }
+
+      setPhase('encoding');
+      const blob = await encoder.finish();
+      downloadClip(blob, getClipFileName(title, format));
+      setPhase('done');
+    } catch (error: any) {
+      encoder.dispose();
+      console.error('[ClipExport] Export failed:', error);
+      showAlert('Export Failed', error.message || 'Could not export this clip.');
+      setPhase('idle');
+    } finally {
+      unsubscribe();
+      engine.stop();
+      setStage(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (isBusy) {
+      cancelledRef.current = true;
+      setPhase('idle');
+    }
+    onClose();
+  };
+
+  const slotWidth = characterIds.length > 0 ? width / characterIds.length : width;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <AlertComponent />
+      <View style={styles.overlay}>
+        {/* Offscreen render stage */}
+        {stage && (
+          <View pointerEvents="none" style={[styles.offscreenStage, { width, height }]}>
+            {characterIds.map(id => {
+              const state = stage.states.get(id);
+              return (
+                <View key={id} style={{ width: slotWidth, height }}>
+                  <CharacterDisplay3D
+                    characterId={id}
+                    isActive={true}
+                    animation={state?.animation ?? 'idle'}
+                    isTalking={state?.isTalking ?? false}
+                    complementary={state?.complementary}
+                    modelStyle={modelStyle}
+                    fov={30}
+                    cameraY={0.7}
+                    characterY={-0.3}
+                    clock={stage.clock}
+                    onCanvasReady={canvas => canvasesRef.current.set(id, canvas)}
+                  />
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={[
+          styles.container,
+          {
+            maxWidth: isMobile ? '100%' : 440,
+            margin: isMobile ? spacing.md : spacing.xl,
+            padding: spacing.lg,
+          }
+        ]}>
+          <View style={[styles.header, { marginBottom: spacing.md }]}>
+            <View style={styles.headerContent}>
+              <Ionicons name="film-outline" size={24} color="#8b5cf6" />
+              <Text style={[styles.title, { fontSize: fonts.lg, marginLeft: spacing.sm }]}>Export Clip</Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={22} color="#a1a1aa" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.info, { fontSize: fonts.sm, marginBottom: spacing.md }]}>
+            {characterIds.map(id => getCharacter(id).name).join(', ')} · {(clipDuration / 1000).toFixed(1)}s
+            {isTruncated ? ` (first ${maxDurationMs / 1000}s)` : ''}
+          </Text>
+
+          {FORMAT_OPTIONS.map(option => {
+            const supported = isClipExportSupported(option.value);
+            const selected = format === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.formatOption,
+                  { padding: spacing.md, marginBottom: spacing.sm },
+                  selected && styles.formatOptionSelected,
+                  !supported && styles.formatOptionDisabled,
+                ]}
+                onPress={() => setFormat(option.value)}
+                disabled={!supported || isBusy}
+              >
+                <Ionicons name={option.icon} size={20} color={selected ? '#8b5cf6' : '#a1a1aa'} />
+                <View style={{ flex: 1, marginLeft: spacing.sm }}>
+                  <Text style={[styles.formatLabel, { fontSize: fonts.md }]}>{option.label}</Text>
+                  <Text style={[styles.formatDescription, { fontSize: fonts.xs }]}>
+                    {supported ? option.description : 'Not supported in this browser'}
+                  </Text>
+                </View>
+                {selected && <Ionicons name="checkmark-circle" size={20} color="#8b5cf6" />}
+              </TouchableOpacity>
+            );
+          })}
+
+          {phase !== 'idle' && (
+            <View style={{ marginTop: spacing.sm }}>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+              </View>
+              <Text style={[styles.info, { fontSize: fonts.xs, marginTop: spacing.xs }]}>
+                {phase === 'rendering' && `Rendering frame ${Math.round(progress * frameCount)} of ${frameCount}...`}
+                {phase === 'encoding' && 'Encoding...'}
+                {phase === 'done' && 'Saved to your downloads.'}
+              </Text>
+            </View>
+          )}
+
+          <View style={[styles.actions, { marginTop: spacing.lg, gap: spacing.sm }]}>
+            <Button title={phase === 'done' ? 'Close' : 'Cancel'} onPress={handleClose} variant="ghost" />
+            <Button
+              title="Export"
+              onPress={handleExport}
+              icon="download-outline"
+              loading={isBusy}
+              disabled={isBusy || !scene || !isClipExportSupported(format)}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  offscreenStage: {
+    position: 'absolute',
+    left: -10000,
+    top: 0,
+    flexDirection: 'row',
+    overflow: 'hidden',
+  },
+  container: {
+    width: '100%',
+    backgroundColor: '#171717',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  info: {
+    color: '#a1a1aa',
+  },
+  formatOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#27272a',
+    backgroundColor: '#1f1f1f',
+  },
+  formatOptionSelected: {
+    borderColor: '#8b5cf6',
+    backgroundColor: '#8b5cf615',
+  },
+  formatOptionDisabled: {
+    opacity: 0.5,
+  },
+  formatLabel: {
+    color: '#e4e4e7',
+    fontWeight: '600',
+  },
+  formatDescription: {
+    color: '#71717a',
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#27272a',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#8b5cf6',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+});
+
+export default SceneClipExporter;
@@ -0,0 +1,286 @@
+import React, { useRef } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { Canvas, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SceneEnvironment, SceneEnvironmentId, getSceneEnvironment } from '../config/sceneEnvironments';
+
+/**
+ * Scene Environment backdrop
+ *
+ * A single low-poly room drawn behind the character canvases (which are transparent).
+ * Props are simple boxes/cylinders so one extra canvas stays cheap; only the
+ * campfire animates, everything else renders on demand.
+ */
+
+interface SceneEnvironment3DProps {
+  environmentId: SceneEnvironmentId;
+}
+
+function Floor({ color }: { color: string }) {
+  return (
+    <mesh position={[0, -1, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+      <planeGeometry args={[30, 12]} />
+      <meshStandardMaterial color={color} roughness={0.9} />
+    </mesh>
+  );
+}
+
+function BackWall({ color, z = -4 }: { color: string; z?: number }) {
+  return (
+    <mesh position={[0, 2, z]}>
+      <planeGeometry args={[30, 8]} />
+      <meshStandardMaterial color={color} roughness={1} />
+    </mesh>
+  );
+}
+
+function Bookshelf({ position, width = 1.6, height = 2.6 }: { position: [number, number, number]; width?: number; height?: number }) {
+  const shelves = 4;
+  const bookColors = ['#7c2d12', '#1e3a8a', '#14532d', '#713f12', '#581c87', '#9f1239'];
+  return (
+    <group position={position}>
+      <mesh position={[0, height / 2, 0]}>
+        <boxGeometry args={[width, height, 0.4]} />
+        <meshStandardMaterial color="#4a3220" />
+      </mesh>
+      {Array.from({ length: shelves }).map((_, shelf) => {
+        const y = (shelf + 0.55) * (height / shelves);
+        return (
+          <group key={shelf} position={[0, y, 0.12]}>
+            {Array.from({ length: 6 }).map((__, book) => (
+              <mesh key={book} position={[-width / 2 + 0.18 + book * (width - 0.3) / 6, 0, 0]}>
+                <boxGeometry args={[0.16, 0.42 + ((book * 7 + shelf * 3) % 5) * 0.03, 0.26]} />
+                <meshStandardMaterial color={bookColors[(book + shelf) % bookColors.length]} />
+              </mesh>
+            ))}
+          </group>
+        );
+      })}
+    </group>
+  );
+}
+
+function TherapistOffice() {
+  return (
+    <>
+      {/* Couch */}
+      <group position={[-2.6, -1, -2.2]}>
+        <mesh position={[0, 0.3, 0]}>
+          <boxGeometry args={[2.2, 0.5, 0.9]} />
+          <meshStandardMaterial color="#6b3f2a" />
+        </mesh>
+        <mesh position={[0, 0.75, -0.35]}>
+          <boxGeometry args={[2.2, 0.6, 0.25]} />
+          <meshStandardMaterial color="#6b3f2a" />
+        </mesh>
+        {[-1.05, 1.05].map(x => (
+          <mesh key={x} position={[x, 0.55, 0]}>
+            <boxGeometry args={[0.2, 0.5, 0.9]} />
+            <meshStandardMaterial color="#5a3322" />
+          </mesh>
+        ))}
+      </group>
+      {/* Floor lamp */}
+      <group position={[2.4, -1, -2.6]}>
+        <mesh position={[0, 0.8, 0]}>
+          <cylinderGeometry args={[0.03, 0.03, 1.6, 8]} />
+          <meshStandardMaterial color="#1f1f1f" />
+        </mesh>
+        <mesh position={[0, 1.7, 0]}>
+          <cylinderGeometry args={[0.18, 0.3, 0.35, 12, 1, true]} />
+          <meshStandardMaterial color="#f5deb3" emissive="#ffcc80" emissiveIntensity={0.6} side={THREE.DoubleSide} />
+        </mesh>
+        <pointLight position={[0, 1.6, 0.2]} color="#ffcc80" intensity={0.8} distance={5} />
+      </group>
+      <Bookshelf position={[3.6, -1, -3.6]} />
+      {/* Rug */}
+      <mesh position={[0, -0.99, -1]} rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[1.8, 24]} />
+        <meshStandardMaterial color="#7f1d1d" roughness={1} />
+      </mesh>
+    </>
+  );
+}
+
+function Campfire({ flickerRef }: { flickerRef: React.RefObject<THREE.PointLight> }) {
+  const flamesRef = useRef<THREE.Group>(null);
+
+  useFrame(({ clock }) => {
+    const t = clock.getElapsedTime();
+    const flicker = 1 + Math.sin(t * 11) * 0.12 + Math.sin(t * 23 + 1.3) * 0.08;
+    if (flickerRef.current) flickerRef.current.intensity = 1.6 * flicker;
+    if (flamesRef.current) {
+      flamesRef.current.scale.y = flicker;
+      flamesRef.current.rotation.y = t * 0.6;
+    }
+  });
+
+  return (
+    <>
+      <group position={[0, -1, -1.6]}>
+        {/* Logs */}
+        {[0, Math.PI / 3, -Math.PI / 3].map(angle => (
+          <mesh key={angle} position={[0, 0.08, 0]} rotation={[0, angle, Math.PI / 2]}>
+            <cylinderGeometry args={[0.08, 0.08, 0.9, 8]} />
+            <meshStandardMaterial color="#4a2c17" />
+          </mesh>
+        ))}
+        {/* Flames */}
+        <group ref={flamesRef} position={[0, 0.15, 0]}>
+          <mesh position={[0, 0.25, 0]}>
+            <coneGeometry args={[0.25, 0.6, 8]} />
+            <meshBasicMaterial color="#ff7a1a" transparent opacity={0.9} />
+          </mesh>
+          <mesh position={[0, 0.2, 0]}>
+            <coneGeometry args={[0.14, 0.4, 8]} />
+            <meshBasicMaterial color="#ffd23f" />
+          </mesh>
+        </group>
+        <pointLight ref={flickerRef} position={[0, 0.6, 0]} color="#ff8c32" intensity={1.6} distance={8} />
+      </group>
+      {/* Tree silhouettes */}
+      {[-4.5, -3, 3.2, 4.6].map((x, i) => (
+        <group key={x} position={[x, -1, -3.4 + (i % 2) * 0.4]}>
+          <mesh position={[0, 0.4, 0]}>
+            <cylinderGeometry args={[0.08, 0.1, 0.8, 6]} />
+            <meshStandardMaterial color="#1a120b" />
+          </mesh>
+          <mesh position={[0, 1.6, 0]}>
+            <coneGeometry args={[0.7, 2.2, 7]} />
+            <meshStandardMaterial color="#0f2418" />
+          </mesh>
+        </group>
+      ))}
+      {/* Stars */}
+      {Array.from({ length: 24 }).map((_, i) => (
+        <mesh key={i} position={[((i * 37) % 24) - 12, 2.2 + ((i * 13) % 7) * 0.4, -5]}>
+          <sphereGeometry args={[0.03, 4, 4]} />
+          <meshBasicMaterial color="#e0e7ff" />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+function Library() {
+  return (
+    <>
+      {[-4.4, -2.6, -0.8, 1, 2.8, 4.6].map(x => (
+        <Bookshelf key={x} position={[x, -1, -3.6]} width={1.7} height={3.4} />
+      ))}
+      {/* Reading table with green lamp */}
+      <group position={[2.8, -1, -1.8]}>
+        <mesh position={[0, 0.7, 0]}>
+          <boxGeometry args={[1.4, 0.08, 0.7]} />
+          <meshStandardMaterial color="#5b3a1e" />
+        </mesh>
+        {[-0.6, 0.6].map(x => (
+          <mesh key={x} position={[x, 0.35, 0]}>
+            <boxGeometry args={[0.08, 0.7, 0.6]} />
+            <meshStandardMaterial color="#4a2f18" />
+          </mesh>
+        ))}
+        <mesh position={[0, 0.92, 0]}>
+          <boxGeometry args={[0.4, 0.1, 0.18]} />
+          <meshStandardMaterial color="#166534" emissive="#22c55e" emissiveIntensity={0.3} />
+        </mesh>
+        <pointLight position={[0, 1, 0.2]} color="#fde68a" intensity={0.6} distance={3} />
+      </group>
+    </>
+  );
+}
+
+function Stage() {
+  return (
+    <>
+      {/* Curtains */}
+      {[-1, 1].map(side => (
+        <group key={side} position={[side * 4.4, 1.5, -3]}>
+          {Array.from({ length: 4 }).map((_, i) => (
+            <mesh key={i} position={[side * -i * 0.35, 0, (i % 2) * 0.1]}>
+              <boxGeometry args={[0.4, 5, 0.1]} />
+              <meshStandardMaterial color={i % 2 ? '#7f1d1d' : '#991b1b'} />
+            </mesh>
+          ))}
+        </group>
+      ))}
+      <mesh position={[0, 3.6, -3]}>
+        <boxGeometry args={[10, 0.8, 0.15]} />
+        <meshStandardMaterial color="#991b1b" />
+      </mesh>
+      {/* Stage edge */}
+      <mesh position={[0, -1.1, 0.5]}>
+        <boxGeometry args={[12, 0.2, 0.2]} />
+        <meshStandardMaterial color="#1c1917" />
+      </mesh>
+      {/* Spotlights */}
+      {[-2, 2].map(x => (
+        <spotLight
+          key={x}
+          position={[x, 4, 1]}
+          angle={0.35}
+          penumbra={0.6}
+          intensity={1.5}
+          color="#fff6e0"
+        />
+      ))}
+    </>
+  );
+}
+
+function EnvironmentScene({ environment }: { environment: SceneEnvironment }) {
+  const flickerRef = useRef<THREE.PointLight>(null);
+  const { lighting } = environment;
+
+  return (
+    <>
+      <color attach="background" args={[environment.backgroundColor]} />
+      {environment.fogColor && <fog attach="fog" args={[environment.fogColor, 4, 12]} />}
+      <ambientLight color={lighting.ambientColor} intensity={0.35 * lighting.ambientIntensity} />
+      <directionalLight position={[0, 4, 5]} color={lighting.keyColor} intensity={0.5 * lighting.keyIntensity} />
+      {lighting.rimColor && (
+        <directionalLight position={[-4, 3, -2]} color={lighting.rimColor} intensity={lighting.rimIntensity ?? 0.3} />
+      )}
+
+      <Floor color={environment.floorColor} />
+      {environment.id !== 'campfire' && environment.id !== 'stage' && <BackWall color={environment.backgroundColor} />}
+
+      {environment.id === 'therapist_office' && <TherapistOffice />}
+      {environment.id === 'campfire' && <Campfire flickerRef={flickerRef} />}
+      {environment.id === 'library' && <Library />}
+      {environment.id === 'stage' && <Stage />}
+    </>
+  );
+}
+
+export function SceneEnvironment3D({ environmentId }: SceneEnvironment3DProps) {
+  const environment = getSceneEnvironment(environmentId);
+  const isMobile = Platform.OS === 'ios' || Platform.OS === 'android';
+
+  if (environment.id === 'none') {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <Canvas
+        key={environment.id} // Fresh scene per environment - nothing to clean up between them
+        camera={{ position: [0, 1, 4], fov: 50 }}
+        dpr={isMobile ? 1 : [1, 1.5]}
+        frameloop={environment.lighting.flicker ? 'always' : 'demand'}
+        gl={{ antialias: !isMobile, powerPreference: 'low-power' }}
+      >
+        <EnvironmentScene environment={environment} />
+      </Canvas>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+});
+
+export default SceneEnvironment3D;
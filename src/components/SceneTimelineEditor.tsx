@@ -0,0 +1,1138 @@
+/**
+ * Scene Timeline Editor
+ *
+ * Builds an OrchestrationScene by hand: a track of AnimationSegments per speaking
+ * character plus listener tracks (nonSpeakerBehavior), with look / eyes / mouth /
+ * effect lanes under each track. Preview and scrubbing run through a dedicated
+ * AnimationPlaybackEngine, and scenes save/load as JSON for canned demo scenes.
+ */
+
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Platform,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useResponsive } from '../constants/Layout';
+import { CharacterDisplay3D, ModelStyle } from './CharacterDisplay3D';
+import { Button } from './ui';
+import { useCustomAlert } from './CustomAlert';
+import { getCharacter, CharacterBehavior } from '../config/characters';
+import {
+  ALL_ANIMATIONS,
+  LOOK_DIRECTIONS,
+  EYE_STATES,
+  MOUTH_STATES,
+  VISUAL_EFFECTS,
+} from '../constants/animationOptions';
+import {
+  VOICE_PITCHES,
+  VOICE_TONES,
+  VOICE_VOLUMES,
+  VOICE_PACES,
+  VOICE_MOODS,
+  VOICE_INTENTS,
+  SegmentVoice,
+} from '../config/voiceConfig';
+import {
+  OrchestrationScene,
+  CharacterTimeline,
+  AnimationSegment,
+  CharacterAnimationState,
+  createDefaultTimeline,
+  getSceneCharacterIds,
+  recalculateSceneDurations,
+} from '../services/animationOrchestration';
+import { AnimationPlaybackEngine, PlaybackStatus } from '../services/animationPlaybackEngine';
+import { saveSceneFile, pickSceneFile, parseSceneFile, serializeScene } from '../services/sceneFileService';
+
+interface SceneTimelineEditorProps {
+  characters: CharacterBehavior[];
+  modelStyle?: ModelStyle;
+}
+
+// A track is either a speaking timeline (by index) or a listener (by character)
+type TrackKey = `speaker:${number}` | `listener:${string}`;
+
+interface Selection {
+  track: TrackKey;
+  segment: number | null; // null = track itself selected
+}
+
+type Lane = 'look' | 'eyes' | 'mouth' | 'effect';
+
+const LANES: { key: Lane; label: string }[] = [
+  { key: 'look', label: 'Look' },
+  { key: 'eyes', label: 'Eyes' },
+  { key: 'mouth', label: 'Mouth' },
+  { key: 'effect', label: 'FX' },
+];
+
+const SEGMENT_HEIGHT = 36;
+const LANE_HEIGHT = 16;
+const TRACK_HEIGHT = SEGMENT_HEIGHT + LANE_HEIGHT * LANES.length + 8;
+const HEADER_WIDTH = 130;
+const MIN_BLOCK_WIDTH = 24;
+const DURATION_STEP = 100; // ms
+
+const EMPTY_SCENE: OrchestrationScene = { timelines: [], sceneDuration: 0, nonSpeakerBehavior: {} };
+
+function getTrackSegments(scene: OrchestrationScene, track: TrackKey): AnimationSegment[] {
+  const [kind, id] = track.split(':');
+  return kind === 'speaker'
+    ? scene.timelines[Number(id)]?.segments ?? []
+    : scene.nonSpeakerBehavior[id] ?? [];
+}
+
+function withTrackSegments(scene: OrchestrationScene, track: TrackKey, segments: AnimationSegment[]): OrchestrationScene {
+  const [kind, id] = track.split(':');
+  if (kind === 'speaker') {
+    const index = Number(id);
+    return {
+      ...scene,
+      timelines: scene.timelines.map((t, i) => (i === index ? { ...t, segments } : t)),
+    };
+  }
+  return { ...scene, nonSpeakerBehavior: { ...scene.nonSpeakerBehavior, [id]: segments } };
+}
+
+function getLaneLabel(segment: AnimationSegment, lane: Lane): string | null {
+  const comp = segment.complementary;
+  switch (lane) {
+    case 'look':
+      return comp?.lookDirection ? LOOK_DIRECTIONS.find(o => o.value === comp.lookDirection)?.icon ?? comp.lookDirection : null;
+    case 'eyes':
+      return comp?.eyeState ? EYE_STATES.find(o => o.value === comp.eyeState)?.icon ?? comp.eyeState : null;
+    case 'mouth':
+      return comp?.mouthState ? MOUTH_STATES.find(o => o.value === comp.mouthState)?.icon ?? comp.mouthState : null;
+    case 'effect':
+      return comp?.effect && comp.effect !== 'none' ? VISUAL_EFFECTS.find(o => o.value === comp.effect)?.icon ?? comp.effect : null;
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export const SceneTimelineEditor: React.FC<SceneTimelineEditorProps> = ({ characters, modelStyle }) => {
+  const { fonts, spacing } = useResponsive();
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [scene, setScene] = useState<OrchestrationScene>(EMPTY_SCENE);
+  const [sceneName, setSceneName] = useState('Untitled scene');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [pendingCharacterId, setPendingCharacterId] = useState<string | null>(characters[0]?.id ?? null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(60);
+  const [showJsonPanel, setShowJsonPanel] = useState(false);
+  const [jsonText, setJsonText] = useState('');
+
+  // Dedicated engine so previews never interfere with chat playback
+  const engineRef = useRef(new AnimationPlaybackEngine());
+  const [status, setStatus] = useState<PlaybackStatus>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [characterStates, setCharacterStates] = useState<Map<string, CharacterAnimationState>>(new Map());
+  const scrubWidthRef = useRef(1);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    engine.setTalkingSoundsEnabled(false);
+    const unsubscribe = engine.subscribe(state => {
+      setStatus(state.status);
+      setElapsed(state.elapsedTime);
+      setCharacterStates(new Map(state.characterStates));
+    });
+    return () => {
+      unsubscribe();
+      engine.stop();
+    };
+  }, []);
+
+  // Keep the preview in sync while editing - same position, same play/pause state
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine.hasScene()) return;
+    const position = engine.getElapsedTime();
+    const wasPlaying = engine.getStatus() === 'playing';
+    engine.play(scene);
+    if (!wasPlaying) engine.pause();
+    engine.seek(position);
+  }, [scene]);
+
+  const updateScene = useCallback((update: (current: OrchestrationScene) => OrchestrationScene) => {
+    setScene(current => recalculateSceneDurations(update(current)));
+  }, []);
+
+  // Characters on stage: speakers first, then listeners
+  const stageCharacterIds = useMemo(() => getSceneCharacterIds(scene), [scene]);
+
+  const tracks: { key: TrackKey; characterId: string; startDelay: number; label: string }[] = useMemo(() => [
+    ...scene.timelines.map((t, i) => ({
+      key: `speaker:${i}` as TrackKey,
+      characterId: t.characterId,
+      startDelay: t.startDelay,
+      label: t.isInterruption ? 'Speaks (interrupts)' : 'Speaks',
+    })),
+    ...Object.keys(scene.nonSpeakerBehavior).map(id => ({
+      key: `listener:${id}` as TrackKey,
+      characterId: id,
+      startDelay: 0,
+      label: 'Listens',
+    })),
+  ], [scene]);
+
+  // ============================================
+  // PLAYBACK
+  // ============================================
+
+  const handlePlay = () => {
+    const engine = engineRef.current;
+    if (scene.sceneDuration <= 0) return;
+    if (engine.getStatus() === 'paused') {
+      engine.resume();
+    } else {
+      engine.play(scene);
+    }
+  };
+
+  const handlePause = () => engineRef.current.pause();
+
+  const handleStop = () => {
+    engineRef.current.stop();
+    setElapsed(0);
+  };
+
+  const seekTo = (ms: number) => {
+    const engine = engineRef.current;
+    if (scene.sceneDuration <= 0) return;
+    if (!engine.hasScene()) {
+      engine.play(scene);
+      engine.pause();
+    }
+    engine.seek(ms);
+  };
+
+  const handleScrub = (event: GestureResponderEvent) => {
+    const ratio = Math.max(0, Math.min(1, event.nativeEvent.locationX / scrubWidthRef.current));
+    seekTo(ratio * scene.sceneDuration);
+  };
+
+  // ============================================
+  // TRACK EDITING
+  // ============================================
+
+  const addSpeakerTrack = () => {
+    if (!pendingCharacterId) return;
+    const content = `Hi, I'm ${getCharacter(pendingCharacterId).name}!`;
+    updateScene(current => ({
+      ...current,
+      timelines: [
+        ...current.timelines,
+        {
+          characterId: pendingCharacterId,
+          content,
+          totalDuration: 0,
+          segments: createDefaultTimeline(content),
+          startDelay: current.timelines.reduce((end, t) => Math.max(end, t.startDelay + t.totalDuration), 0),
+        },
+      ],
+    }));
+    setSelection({ track: `speaker:${scene.timelines.length}`, segment: null });
+  };
+
+  const addListenerTrack = () => {
+    if (!pendingCharacterId || scene.nonSpeakerBehavior[pendingCharacterId]) return;
+    updateScene(current => ({
+      ...current,
+      nonSpeakerBehavior: {
+        ...current.nonSpeakerBehavior,
+        [pendingCharacterId]: [{ animation: 'idle', duration: Math.max(current.sceneDuration, 2000), isTalking: false }],
+      },
+    }));
+    setSelection({ track: `listener:${pendingCharacterId}`, segment: null });
+  };
+
+  const removeTrack = (track: TrackKey) => {
+    const [kind, id] = track.split(':');
+    updateScene(current => {
+      if (kind === 'speaker') {
+        const index = Number(id);
+        return { ...current, timelines: current.timelines.filter((_, i) => i !== index) };
+      }
+      const { [id]: _removed, ...rest } = current.nonSpeakerBehavior;
+      return { ...current, nonSpeakerBehavior: rest };
+    });
+    setSelection(null);
+  };
+
+  const updateTimeline = (index: number, changes: Partial<CharacterTimeline>) => {
+    updateScene(current => ({
+      ...current,
+      timelines: current.timelines.map((t, i) => (i === index ? { ...t, ...changes } : t)),
+    }));
+  };
+
+  // ============================================
+  // SEGMENT EDITING
+  // ============================================
+
+  const updateSegments = (track: TrackKey, update: (segments: AnimationSegment[]) => AnimationSegment[]) => {
+    updateScene(current => withTrackSegments(current, track, update(getTrackSegments(current, track))));
+  };
+
+  const updateSegment = (track: TrackKey, index: number, changes: Partial<AnimationSegment>) => {
+    updateSegments(track, segments => segments.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const updateComplementary = (track: TrackKey, index: number, changes: NonNullable<AnimationSegment['complementary']>) => {
+    updateSegments(track, segments => segments.map((s, i) => {
+      if (i !== index) return s;
+      const complementary = { ...s.complementary, ...changes };
+      (Object.keys(complementary) as (keyof typeof complementary)[]).forEach(key => {
+        if (complementary[key] === undefined) delete complementary[key];
+      });
+      return { ...s, complementary: Object.keys(complementary).length > 0 ? complementary : undefined };
+    }));
+  };
+
+  const updateVoice = (track: TrackKey, index: number, changes: SegmentVoice) => {
+    updateSegments(track, segments => segments.map((s, i) => {
+      if (i !== index) return s;
+      const voice: SegmentVoice = { ...s.voice, ...changes };
+      (Object.keys(voice) as (keyof SegmentVoice)[]).forEach(key => {
+        if (voice[key] === undefined) delete voice[key];
+      });
+      return { ...s, voice: Object.keys(voice).length > 0 ? voice : undefined };
+    }));
+  };
+
+  const addSegment = (track: TrackKey) => {
+    const count = getTrackSegments(scene, track).length;
+    updateSegments(track, segments => [...segments, { animation: 'idle', duration: 1000, isTalking: false }]);
+    setSelection({ track, segment: count });
+  };
+
+  const duplicateSegment = (track: TrackKey, index: number) => {
+    updateSegments(track, segments => [...segments.slice(0, index + 1), { ...segments[index] }, ...segments.slice(index + 1)]);
+    setSelection({ track, segment: index + 1 });
+  };
+
+  const moveSegment = (track: TrackKey, index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    const segments = getTrackSegments(scene, track);
+    if (target < 0 || target >= segments.length) return;
+    updateSegments(track, current => {
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSelection({ track, segment: target });
+  };
+
+  const deleteSegment = (track: TrackKey, index: number) => {
+    updateSegments(track, segments => segments.filter((_, i) => i !== index));
+    setSelection({ track, segment: null });
+  };
+
+  // ============================================
+  // SAVE / LOAD
+  // ============================================
+
+  const loadScene = (loaded: { name: string; scene: OrchestrationScene }) => {
+    engineRef.current.stop();
+    setScene(loaded.scene);
+    setSceneName(loaded.name);
+    setSelection(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveSceneFile(scene, sceneName);
+    } catch (error: any) {
+      showAlert('Error', error.message || 'Failed to save scene.');
+    }
+  };
+
+  const handleLoad = async () => {
+    try {
+      if (Platform.OS !== 'web') {
+        // No file picker on native - paste the JSON instead
+        setJsonText('');
+        setShowJsonPanel(true);
+        return;
+      }
+      const loaded = await pickSceneFile();
+      if (loaded) loadScene(loaded);
+    } catch (error: any) {
+      showAlert('Could Not Load Scene', error.message || 'Failed to load scene.');
+    }
+  };
+
+  const handleLoadPasted = () => {
+    try {
+      loadScene(parseSceneFile(jsonText));
+      setShowJsonPanel(false);
+    } catch (error: any) {
+      showAlert('Could Not Load Scene', error.message || 'Invalid scene JSON.');
+    }
+  };
+
+  const handleNew = () => {
+    showAlert('New Scene?', 'The current scene will be discarded.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'New Scene',
+        style: 'destructive',
+        onPress: () => loadScene({ name: 'Untitled scene', scene: EMPTY_SCENE }),
+      },
+    ]);
+  };
+
+  // ============================================
+  // RENDER HELPERS
+  // ============================================
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string; icon?: string }[],
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void,
+    allowClear = true
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+      {allowClear && (
+        <TouchableOpacity
+          style={[styles.chip, selected === undefined && styles.chipActive]}
+          onPress={() => onSelect(undefined)}
+        >
+          <Text style={[styles.chipText, { fontSize: fonts.xs }]}>—</Text>
+        </TouchableOpacity>
+      )}
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, selected === option.value && styles.chipActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.chipText, { fontSize: fonts.xs }, selected === option.value && styles.chipTextActive]}>
+            {option.icon ? `${option.icon} ` : ''}{option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const toOptions = <T extends string>(values: T[]) => values.map(value => ({ value, label: value }));
+
+  const renderField = (label: string, children: React.ReactNode) => (
+    <View style={{ marginBottom: spacing.sm }}>
+      <Text style={[styles.fieldLabel, { fontSize: fonts.xs, marginBottom: spacing.xs }]}>{label.toUpperCase()}</Text>
+      {children}
+    </View>
+  );
+
+  const renderNumberInput = (value: number, onChange: (value: number) => void, step: number) => (
+    <View style={styles.numberRow}>
+      <TouchableOpacity style={styles.stepButton} onPress={() => onChange(Math.max(0, value - step))}>
+        <Ionicons name="remove" size={16} color="#a1a1aa" />
+      </TouchableOpacity>
+      <TextInput
+        value={String(value)}
+        onChangeText={text => {
+          const parsed = parseInt(text.replace(/[^0-9]/g, ''), 10);
+          onChange(isNaN(parsed) ? 0 : parsed);
+        }}
+        keyboardType="numeric"
+        style={[styles.numberInput, { fontSize: fonts.sm }]}
+      />
+      <TouchableOpacity style={styles.stepButton} onPress={() => onChange(value + step)}>
+        <Ionicons name="add" size={16} color="#a1a1aa" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  // ============================================
+  // INSPECTOR
+  // ============================================
+
+  const renderTrackInspector = (track: TrackKey) => {
+    const [kind, id] = track.split(':');
+    if (kind !== 'speaker') {
+      return (
+        <Text style={[styles.hint, { fontSize: fonts.sm }]}>
+          {getCharacter(id).name} listens while others speak. Add segments to choreograph their reactions.
+        </Text>
+      );
+    }
+
+    const index = Number(id);
+    const timeline = scene.timelines[index];
+    if (!timeline) return null;
+
+    return (
+      <>
+        {renderField('Dialogue', (
+          <TextInput
+            value={timeline.content}
+            onChangeText={content => updateTimeline(index, { content })}
+            multiline
+            style={[styles.textArea, { fontSize: fonts.sm }]}
+          />
+        ))}
+        {renderField('Start delay (ms)', renderNumberInput(timeline.startDelay, startDelay => updateTimeline(index, { startDelay }), 250))}
+        <TouchableOpacity
+          style={[styles.chip, timeline.isInterruption && styles.chipActive, { alignSelf: 'flex-start' }]}
+          onPress={() => updateTimeline(index, { isInterruption: !timeline.isInterruption })}
+        >
+          <Text style={[styles.chipText, { fontSize: fonts.xs }]}>Interrupts previous speaker</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderSegmentInspector = (track: TrackKey, index: number) => {
+    const segment = getTrackSegments(scene, track)[index];
+    if (!segment) return null;
+
+    const isSpeaker = track.startsWith('speaker:');
+    const content = isSpeaker ? scene.timelines[Number(track.split(':')[1])]?.content ?? '' : '';
+    const reveal = segment.textReveal;
+
+    return (
+      <>
+        <View style={[styles.segmentActions, { marginBottom: spacing.md }]}>
+          <TouchableOpacity style={styles.iconButton} onPress={() => moveSegment(track, index, -1)}>
+            <Ionicons name="arrow-back" size={16} color="#a1a1aa" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => moveSegment(track, index, 1)}>
+            <Ionicons name="arrow-forward" size={16} color="#a1a1aa" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => duplicateSegment(track, index)}>
+            <Ionicons name="copy-outline" size={16} color="#a1a1aa" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => seekTo(getSegmentStart(track, index))}>
+            <Ionicons name="locate-outline" size={16} color="#a1a1aa" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => deleteSegment(track, index)}>
+            <Ionicons name="trash-outline" size={16} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+
+        {renderField('Animation', renderChips(
+          ALL_ANIMATIONS.map(a => ({ value: a.name, label: a.name })),
+          segment.animation,
+          animation => updateSegment(track, index, { animation: animation ?? 'idle' }),
+          false
+        ))}
+        {renderField('Duration (ms)', renderNumberInput(
+          segment.duration,
+          duration => updateSegment(track, index, { duration: Math.max(DURATION_STEP, duration) }),
+          DURATION_STEP
+        ))}
+        <TouchableOpacity
+          style={[styles.chip, segment.isTalking && styles.chipActive, { alignSelf: 'flex-start', marginBottom: spacing.sm }]}
+          onPress={() => updateSegment(track, index, { isTalking: !segment.isTalking })}
+        >
+          <Text style={[styles.chipText, { fontSize: fonts.xs }]}>🎤 Talking</Text>
+        </TouchableOpacity>
+
+        {renderField('Look', renderChips(LOOK_DIRECTIONS, segment.complementary?.lookDirection,
+          lookDirection => updateComplementary(track, index, { lookDirection })))}
+        {renderField('Eyes', renderChips(EYE_STATES, segment.complementary?.eyeState,
+          eyeState => updateComplementary(track, index, { eyeState })))}
+        {renderField('Mouth', renderChips(MOUTH_STATES, segment.complementary?.mouthState,
+          mouthState => updateComplementary(track, index, { mouthState })))}
+        {renderField('Effect', renderChips(VISUAL_EFFECTS.filter(e => e.value !== 'none'), segment.complementary?.effect,
+          effect => updateComplementary(track, index, { effect })))}
+
+        {isSpeaker && renderField('Text reveal', (
+          <>
+            <View style={styles.revealRow}>
+              {renderNumberInput(reveal?.startIndex ?? 0, startIndex => updateSegment(track, index, {
+                textReveal: { startIndex: Math.min(startIndex, content.length), endIndex: Math.max(reveal?.endIndex ?? 0, startIndex) },
+              }), 1)}
+              <Text style={[styles.hint, { fontSize: fonts.sm }]}>to</Text>
+              {renderNumberInput(reveal?.endIndex ?? 0, endIndex => updateSegment(track, index, {
+                textReveal: { startIndex: reveal?.startIndex ?? 0, endIndex: Math.min(endIndex, content.length) },
+              }), 1)}
+              {reveal ? (
+                <TouchableOpacity style={styles.iconButton} onPress={() => updateSegment(track, index, { textReveal: undefined })}>
+                  <Ionicons name="close" size={16} color="#a1a1aa" />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={styles.chip}
+                  onPress={() => updateSegment(track, index, { textReveal: { startIndex: 0, endIndex: content.length } })}
+                >
+                  <Text style={[styles.chipText, { fontSize: fonts.xs }]}>All text</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {reveal && (
+              <Text style={[styles.revealPreview, { fontSize: fonts.sm, marginTop: spacing.xs }]}>
+                "{content.substring(reveal.startIndex, reveal.endIndex)}"
+              </Text>
+            )}
+          </>
+        ))}
+
+        {renderField('Voice pitch', renderChips(toOptions(VOICE_PITCHES), segment.voice?.pitch, pitch => updateVoice(track, index, { pitch })))}
+        {renderField('Voice tone', renderChips(toOptions(VOICE_TONES), segment.voice?.tone, tone => updateVoice(track, index, { tone })))}
+        {renderField('Voice volume', renderChips(toOptions(VOICE_VOLUMES), segment.voice?.volume, volume => updateVoice(track, index, { volume })))}
+        {renderField('Voice pace', renderChips(toOptions(VOICE_PACES), segment.voice?.pace, pace => updateVoice(track, index, { pace })))}
+        {renderField('Voice mood', renderChips(toOptions(VOICE_MOODS), segment.voice?.mood, mood => updateVoice(track, index, { mood })))}
+        {renderField('Voice intent', renderChips(toOptions(VOICE_INTENTS), segment.voice?.intent, intent => updateVoice(track, index, { intent })))}
+      </>
+    );
+  };
+
+  const getSegmentStart = (track: TrackKey, index: number): number => {
+    const startDelay = track.startsWith('speaker:') ? scene.timelines[Number(track.split(':')[1])]?.startDelay ?? 0 : 0;
+    return getTrackSegments(scene, track).slice(0, index).reduce((sum, s) => sum + s.duration, startDelay);
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  const timelineWidth = Math.max(600, (scene.sceneDuration / 1000) * pixelsPerSecond + 80);
+  const playheadX = (elapsed / 1000) * pixelsPerSecond;
+  const rulerSeconds = Array.from({ length: Math.ceil(timelineWidth / pixelsPerSecond) }, (_, i) => i);
+  const selectedTrack = selection?.track;
+
+  return (
+    <View style={styles.container}>
+      <AlertComponent />
+
+      {/* Scene header */}
+      <View style={[styles.toolbar, { marginBottom: spacing.sm, gap: spacing.sm }]}>
+        <TextInput
+          value={sceneName}
+          onChangeText={setSceneName}
+          style={[styles.nameInput, { fontSize: fonts.md }]}
+        />
+        <Button title="New" onPress={handleNew} variant="ghost" size="sm" icon="document-outline" />
+        <Button title="Load" onPress={handleLoad} variant="outline" size="sm" icon="folder-open-outline" />
+        <Button title="Save" onPress={handleSave} size="sm" icon="download-outline" disabled={scene.timelines.length === 0} />
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => {
+            setJsonText(serializeScene(scene, sceneName));
+            setShowJsonPanel(!showJsonPanel);
+          }}
+        >
+          <Ionicons name="code-slash" size={18} color={showJsonPanel ? '#8b5cf6' : '#a1a1aa'} />
+        </TouchableOpacity>
+      </View>
+
+      {showJsonPanel && (
+        <View style={[styles.panel, { padding: spacing.md, marginBottom: spacing.sm }]}>
+          <TextInput
+            value={jsonText}
+            onChangeText={setJsonText}
+            multiline
+            placeholder="Paste a scene JSON file here"
+            placeholderTextColor="#52525b"
+            style={[styles.jsonInput, { fontSize: fonts.xs }]}
+          />
+          <View style={[styles.toolbar, { marginTop: spacing.sm, gap: spacing.sm, justifyContent: 'flex-end' }]}>
+            <Button title="Close" onPress={() => setShowJsonPanel(false)} variant="ghost" size="sm" />
+            <Button title="Load JSON" onPress={handleLoadPasted} size="sm" disabled={!jsonText.trim()} />
+          </View>
+        </View>
+      )}
+
+      {/* Stage preview */}
+      <View style={[styles.stage, { marginBottom: spacing.sm }]}>
+        {stageCharacterIds.length === 0 ? (
+          <Text style={[styles.hint, { fontSize: fonts.sm }]}>Add a track below to put a character on stage.</Text>
+        ) : (
+          stageCharacterIds.map(characterId => {
+            const state = characterStates.get(characterId);
+            return (
+              <View key={characterId} style={styles.stageSlot}>
+                <View style={styles.stageCanvas}>
+                  <CharacterDisplay3D
+                    characterId={characterId}
+                    isActive={true}
+                    animation={state?.animation ?? 'idle'}
+                    isTalking={state?.isTalking ?? false}
+                    complementary={state?.complementary}
+                    modelStyle={modelStyle}
+                    fov={30}
+                    cameraY={0.7}
+                    characterY={-0.3}
+                  />
+                </View>
+                <Text style={[styles.stageText, { fontSize: fonts.xs }]} numberOfLines={3}>
+                  {state?.revealedText || ' '}
+                </Text>
+              </View>
+            );
+          })
+        )}
+      </View>
+
+      {/* Transport */}
+      <View style={[styles.toolbar, { marginBottom: spacing.sm, gap: spacing.sm }]}>
+        {status === 'playing' ? (
+          <TouchableOpacity style={styles.transportButton} onPress={handlePause}>
+            <Ionicons name="pause" size={18} color="#fff" />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.transportButton} onPress={handlePlay}>
+            <Ionicons name="play" size={18} color="#fff" />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.transportButton} onPress={handleStop}>
+          <Ionicons name="stop" size={18} color="#fff" />
+        </TouchableOpacity>
+        <View
+          style={styles.scrubber}
+          onLayout={(e: LayoutChangeEvent) => { scrubWidthRef.current = Math.max(1, e.nativeEvent.layout.width); }}
+          onStartShouldSetResponder={() => true}
+          onMoveShouldSetResponder={() => true}
+          onResponderGrant={handleScrub}
+          onResponderMove={handleScrub}
+        >
+          <View
+            pointerEvents="none"
+            style={[styles.scrubberFill, { width: `${scene.sceneDuration > 0 ? Math.min(100, (elapsed / scene.sceneDuration) * 100) : 0}%` }]}
+          />
+        </View>
+        <Text style={[styles.timeText, { fontSize: fonts.xs }]}>
+          {formatSeconds(elapsed)} / {formatSeconds(scene.sceneDuration)}
+        </Text>
+        <TouchableOpacity style={styles.iconButton} onPress={() => setPixelsPerSecond(p => Math.max(20, p - 20))}>
+          <Ionicons name="remove-circle-outline" size={18} color="#a1a1aa" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={() => setPixelsPerSecond(p => Math.min(200, p + 20))}>
+          <Ionicons name="add-circle-outline" size={18} color="#a1a1aa" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Tracks */}
+      <View style={[styles.panel, styles.timelinePanel]}>
+        <View style={{ width: HEADER_WIDTH }}>
+          <View style={styles.rulerSpacer} />
+          {tracks.map(track => {
+            const character = getCharacter(track.characterId);
+            return (
+              <TouchableOpacity
+                key={track.key}
+                style={[styles.trackHeader, selectedTrack === track.key && styles.trackHeaderActive]}
+                onPress={() => setSelection({ track: track.key, segment: null })}
+              >
+                <View style={styles.trackHeaderRow}>
+                  <View style={[styles.colorDot, { backgroundColor: character.color }]} />
+                  <Text style={[styles.trackName, { fontSize: fonts.sm }]} numberOfLines={1}>{character.name}</Text>
+                </View>
+                <Text style={[styles.trackKind, { fontSize: fonts.xs }]}>{track.label}</Text>
+                <View style={styles.trackHeaderRow}>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => addSegment(track.key)}>
+                    <Ionicons name="add" size={14} color="#a1a1aa" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => removeTrack(track.key)}>
+                    <Ionicons name="trash-outline" size={14} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator>
+          <View
+            style={{ width: timelineWidth }}
+            onStartShouldSetResponder={() => false}
+          >
+            {/* Ruler - tap to seek */}
+            <TouchableOpacity
+              activeOpacity={1}
+              style={styles.ruler}
+              onPress={e => seekTo((e.nativeEvent.locationX / pixelsPerSecond) * 1000)}
+            >
+              {rulerSeconds.map(second => (
+                <Text key={second} style={[styles.rulerTick, { left: second * pixelsPerSecond, fontSize: fonts.xs }]}>
+                  {second}s
+                </Text>
+              ))}
+            </TouchableOpacity>
+
+            {tracks.map(track => {
+              const character = getCharacter(track.characterId);
+              const segments = getTrackSegments(scene, track.key);
+              const offset = (track.startDelay / 1000) * pixelsPerSecond;
+              return (
+                <View key={track.key} style={styles.trackRow}>
+                  <View style={[styles.segmentRow, { paddingLeft: offset }]}>
+                    {segments.map((segment, index) => {
+                      const width = Math.max(MIN_BLOCK_WIDTH, (segment.duration / 1000) * pixelsPerSecond);
+                      const isSelected = selection?.track === track.key && selection.segment === index;
+                      return (
+                        <TouchableOpacity
+                          key={index}
+                          style={[
+                            styles.segmentBlock,
+                            { width, backgroundColor: segment.isTalking ? character.color : `${character.color}55` },
+                            isSelected && styles.segmentBlockSelected,
+                          ]}
+                          onPress={() => setSelection({ track: track.key, segment: index })}
+                        >
+                          <Text style={[styles.segmentText, { fontSize: fonts.xs }]} numberOfLines={1}>
+                            {segment.animation}
+                          </Text>
+                          {segment.textReveal && (
+                            <Text style={[styles.segmentSubtext, { fontSize: fonts.xs * 0.85 }]} numberOfLines={1}>
+                              💬 {segment.textReveal.startIndex}–{segment.textReveal.endIndex}
+                            </Text>
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {LANES.map(lane => (
+                    <View key={lane.key} style={[styles.laneRow, { paddingLeft: offset }]}>
+                      {segments.map((segment, index) => (
+                        <View
+                          key={index}
+                          style={[styles.laneCell, { width: Math.max(MIN_BLOCK_WIDTH, (segment.duration / 1000) * pixelsPerSecond) }]}
+                        >
+                          <Text style={[styles.laneText, { fontSize: fonts.xs * 0.85 }]} numberOfLines={1}>
+                            {getLaneLabel(segment, lane.key) ?? ''}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  ))}
+                </View>
+              );
+            })}
+
+            {/* Playhead */}
+            <View pointerEvents="none" style={[styles.playhead, { left: playheadX }]} />
+          </View>
+        </ScrollView>
+      </View>
+
+      {/* Lane legend */}
+      {tracks.length > 0 && (
+        <Text style={[styles.hint, { fontSize: fonts.xs, marginTop: spacing.xs }]}>
+          Lanes under each track: {LANES.map(l => l.label).join(' · ')}
+        </Text>
+      )}
+
+      {/* Add track */}
+      <View style={[styles.panel, { padding: spacing.md, marginTop: spacing.sm }]}>
+        <Text style={[styles.fieldLabel, { fontSize: fonts.xs, marginBottom: spacing.xs }]}>ADD TRACK</Text>
+        {renderChips(
+          characters.map(c => ({ value: c.id, label: c.name })),
+          pendingCharacterId ?? undefined,
+          id => setPendingCharacterId(id ?? null),
+          false
+        )}
+        <View style={[styles.toolbar, { marginTop: spacing.sm, gap: spacing.sm }]}>
+          <Button title="Speaking track" onPress={addSpeakerTrack} size="sm" icon="chatbubble-outline" disabled={!pendingCharacterId} />
+          <Button
+            title="Listener track"
+            onPress={addListenerTrack}
+            variant="outline"
+            size="sm"
+            icon="ear-outline"
+            disabled={!pendingCharacterId || !!scene.nonSpeakerBehavior[pendingCharacterId]}
+          />
+        </View>
+      </View>
+
+      {/* Inspector */}
+      {selection && (
+        <View style={[styles.panel, { padding: spacing.md, marginTop: spacing.sm }]}>
+          <Text style={[styles.inspectorTitle, { fontSize: fonts.md, marginBottom: spacing.sm }]}>
+            {selection.segment === null ? 'Track' : `Segment ${selection.segment + 1}`}
+          </Text>
+          {selection.segment === null
+            ? renderTrackInspector(selection.track)
+            : renderSegmentInspector(selection.track, selection.segment)}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  nameInput: {
+    flex: 1,
+    minWidth: 160,
+    color: '#fff',
+    fontWeight: '600',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#171717',
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  panel: {
+    backgroundColor: '#171717',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#27272a',
+  },
+  jsonInput: {
+    color: '#e4e4e7',
+    fontFamily: 'monospace',
+    minHeight: 160,
+    maxHeight: 320,
+    textAlignVertical: 'top',
+    backgroundColor: '#0f0f0f',
+    borderRadius: 6,
+    padding: 8,
+  },
+  stage: {
+    flexDirection: 'row',
+    minHeight: 120,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  stageSlot: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  stageCanvas: {
+    width: '100%',
+    height: 220,
+  },
+  stageText: {
+    color: '#e4e4e7',
+    textAlign: 'center',
+    paddingHorizontal: 6,
+    paddingBottom: 6,
+    minHeight: 36,
+  },
+  transportButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#8b5cf6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrubber: {
+    flex: 1,
+    minWidth: 120,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#27272a',
+    overflow: 'hidden',
+  },
+  scrubberFill: {
+    height: '100%',
+    backgroundColor: '#8b5cf6',
+  },
+  timeText: {
+    color: '#a1a1aa',
+    fontVariant: ['tabular-nums'],
+  },
+  timelinePanel: {
+    flexDirection: 'row',
+    overflow: 'hidden',
+  },
+  rulerSpacer: {
+    height: 22,
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  ruler: {
+    height: 22,
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  rulerTick: {
+    position: 'absolute',
+    top: 4,
+    color: '#52525b',
+    paddingLeft: 2,
+    borderLeftWidth: 1,
+    borderLeftColor: '#3f3f46',
+  },
+  trackHeader: {
+    height: TRACK_HEIGHT,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+    borderRightWidth: 1,
+    borderRightColor: '#27272a',
+    justifyContent: 'space-between',
+  },
+  trackHeaderActive: {
+    backgroundColor: '#1e1b4b',
+  },
+  trackHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  trackName: {
+    color: '#e4e4e7',
+    fontWeight: '600',
+    flex: 1,
+  },
+  trackKind: {
+    color: '#71717a',
+  },
+  trackRow: {
+    height: TRACK_HEIGHT,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    height: SEGMENT_HEIGHT,
+  },
+  segmentBlock: {
+    height: SEGMENT_HEIGHT,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#0a0a0a',
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  segmentBlockSelected: {
+    borderColor: '#ffffff',
+    borderWidth: 2,
+  },
+  segmentText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  segmentSubtext: {
+    color: '#e4e4e7',
+  },
+  laneRow: {
+    flexDirection: 'row',
+    height: LANE_HEIGHT,
+  },
+  laneCell: {
+    height: LANE_HEIGHT,
+    justifyContent: 'center',
+    paddingHorizontal: 2,
+    borderRightWidth: 1,
+    borderRightColor: '#27272a',
+  },
+  laneText: {
+    color: '#a1a1aa',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#f59e0b',
+  },
+  fieldLabel: {
+    color: '#71717a',
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#27272a',
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+  },
+  chipActive: {
+    backgroundColor: '#8b5cf620',
+    borderColor: '#8b5cf6',
+  },
+  chipText: {
+    color: '#a1a1aa',
+  },
+  chipTextActive: {
+    color: '#c4b5fd',
+  },
+  numberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  stepButton: {
+    padding: 6,
+    borderRadius: 6,
+    backgroundColor: '#27272a',
+  },
+  numberInput: {
+    width: 72,
+    color: '#fff',
+    textAlign: 'center',
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#0f0f0f',
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+  },
+  textArea: {
+    color: '#fff',
+    minHeight: 60,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#0f0f0f',
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+    textAlignVertical: 'top',
+  },
+  revealRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  revealPreview: {
+    color: '#c4b5fd',
+    fontStyle: 'italic',
+  },
+  segmentActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  inspectorTitle: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  hint: {
+    color: '#71717a',
+  },
+});
+
+export default SceneTimelineEditor;
@@ -0,0 +1,77 @@
+import React, { createContext, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { View as CanvasView } from '@react-three/drei';
+import { useQualitySettings } from '../../services/qualityManager';
+
+/**
+ * Shared character canvas (low quality tiers, web only)
+ *
+ * One WebGL context for every character instead of a Canvas each. Characters
+ * inside this provider render into a drei <View> that tracks their own layout
+ * box, so positioning, scaling and bubbles work exactly as with separate canvases.
+ * CharacterDisplay3D switches over when the quality tier asks for it.
+ */
+
+// True inside a SharedCharacterCanvas - CharacterDisplay3D only uses views when a port exists
+export const SharedCharacterCanvasContext = createContext(false);
+
+export { CanvasView };
+
+// Views render with autoClear off - clear the whole canvas once per frame before them
+function FrameClear() {
+  useFrame(({ gl }) => {
+    gl.clear(true, true);
+  });
+  return null;
+}
+
+/**
+ * Put inside a view: clears depth for the view's region so overlapping views
+ * (characters standing close together) don't depth-test against each other
+ */
+export function ViewDepthReset() {
+  const scene = useThree(state => state.scene);
+  useEffect(() => {
+    scene.onBeforeRender = (renderer) => renderer.clearDepth();
+    return () => {
+      scene.onBeforeRender = () => {};
+    };
+  }, [scene]);
+  return null;
+}
+
+interface SharedCharacterCanvasProps {
+  enabled: boolean;
+  children: React.ReactNode;
+}
+
+export function SharedCharacterCanvas({ enabled, children }: SharedCharacterCanvasProps) {
+  const quality = useQualitySettings();
+  const active = enabled && quality.sharedCanvas;
+
+  return (
+    <SharedCharacterCanvasContext.Provider value={active}>
+      {active && (
+        <View style={styles.canvas} pointerEvents="none">
+          <Canvas
+            dpr={[Math.min(1, quality.maxPixelRatio), quality.maxPixelRatio]}
+            gl={{ alpha: true, antialias: false, powerPreference: 'low-power' }}
+            style={{ background: 'transparent' }}
+          >
+            <FrameClear />
+            <CanvasView.Port />
+          </Canvas>
+        </View>
+      )}
+      {children}
+    </SharedCharacterCanvasContext.Provider>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+});
@@ -1,17 +1,24 @@
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
 import { Platform } from 'react-native';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { VisualEffect } from './types';
+import { qualityManager } from '../../services/qualityManager';
 
 // Mobile performance optimization - reduce particle counts
 const isMobile = Platform.OS === 'ios' || Platform.OS === 'android';
 
+// Particle count for the current quality tier - fixed for the effect's lifetime (buffers are sized once)
+function useParticleCount(base: number): number {
+  const [count] = useState(() => Math.max(1, Math.round(base * qualityManager.getSettings().particleScale)));
+  return count;
+}
+
 // Confetti particle effect
 export function ConfettiEffect({ color = '#8b5cf6', speed = 1 }: { color?: string; speed?: number }) {
   const particlesRef = useRef<THREE.Points>(null);
   const timeRef = useRef(0);
-  const particleCount = isMobile ? 40 : 100; // Reduced for mobile
+  const particleCount = useParticleCount(isMobile ? 40 : 100); // Reduced for mobile
 
   const positions = useMemo(() => {
     const pos = new Float32Array(particleCount * 3);
@@ -126,7 +133,7 @@ export function SpotlightEffect({ color = '#ffd700', speed = 1 }: { color?: stri
 export function SparklesEffect({ color = '#ffd700', speed = 1 }: { color?: string; speed?: number }) {
   const particlesRef = useRef<THREE.Points>(null);
   const timeRef = useRef(0);
-  const particleCount = isMobile ? 25 : 50; // Reduced for mobile
+  const particleCount = useParticleCount(isMobile ? 25 : 50); // Reduced for mobile
 
   const positions = useMemo(() => {
     const pos = new Float32Array(particleCount * 3);
@@ -180,7 +187,7 @@ export function SparklesEffect({ color = '#ffd700', speed = 1 }: { color?: strin
 export function HeartsEffect({ color = '#ff6b6b', speed = 1 }: { color?: string; speed?: number }) {
   const groupRef = useRef<THREE.Group>(null);
   const timeRef = useRef(0);
-  const heartCount = isMobile ? 5 : 8; // Reduced for mobile
+  const heartCount = useParticleCount(isMobile ? 5 : 8); // Reduced for mobile
 
   const heartPositions = useMemo(() => {
     return Array.from({ length: heartCount }, () => ({
@@ -241,7 +248,7 @@ export function HeartsEffect({ color = '#ff6b6b', speed = 1 }: { color?: string;
 export function FireEffect({ color = '#ff4500', speed = 1 }: { color?: string; speed?: number }) {
   const particlesRef = useRef<THREE.Points>(null);
   const timeRef = useRef(0);
-  const particleCount = isMobile ? 30 : 60;
+  const particleCount = useParticleCount(isMobile ? 30 : 60);
 
   const positions = useMemo(() => {
     const pos = new Float32Array(particleCount * 3);
@@ -311,7 +318,7 @@ export function FireEffect({ color = '#ff4500', speed = 1 }: { color?: string; s
 export function StarsEffect({ color = '#ffd700', speed = 1 }: { color?: string; speed?: number }) {
   const particlesRef = useRef<THREE.Points>(null);
   const timeRef = useRef(0);
-  const starCount = isMobile ? 15 : 30;
+  const starCount = useParticleCount(isMobile ? 15 : 30);
 
   const positions = useMemo(() => {
     const pos = new Float32Array(starCount * 3);
@@ -365,7 +372,7 @@ export function StarsEffect({ color = '#ffd700', speed = 1 }: { color?: string;
 export function MusicNotesEffect({ color = '#9b59b6', speed = 1 }: { color?: string; speed?: number }) {
   const groupRef = useRef<THREE.Group>(null);
   const timeRef = useRef(0);
-  const noteCount = isMobile ? 5 : 10;
+  const noteCount = useParticleCount(isMobile ? 5 : 10);
 
   const noteData = useMemo(() => {
     return Array.from({ length: noteCount }, () => ({
@@ -424,7 +431,7 @@ export function MusicNotesEffect({ color = '#9b59b6', speed = 1 }: { color?: str
 export function TearsEffect({ color = '#5dade2', speed = 1 }: { color?: string; speed?: number }) {
   const particlesRef = useRef<THREE.Points>(null);
   const timeRef = useRef(0);
-  const tearCount = isMobile ? 20 : 40;
+  const tearCount = useParticleCount(isMobile ? 20 : 40);
 
   const positions = useMemo(() => {
     const pos = new Float32Array(tearCount * 3);
@@ -479,7 +486,7 @@ export function TearsEffect({ color = '#5dade2', speed = 1 }: { color?: string;
 export function AngerEffect({ color = '#e74c3c', speed = 1 }: { color?: string; speed?: number }) {
   const groupRef = useRef<THREE.Group>(null);
   const timeRef = useRef(0);
-  const steamCount = isMobile ? 6 : 12;
+  const steamCount = useParticleCount(isMobile ? 6 : 12);
 
   const steamData = useMemo(() => {
     return Array.from({ length: steamCount }, () => ({
@@ -539,7 +546,7 @@ export function AngerEffect({ color = '#e74c3c', speed = 1 }: { color?: string;
 export function SnowEffect({ color = '#ffffff', speed = 1 }: { color?: string; speed?: number }) {
   const particlesRef = useRef<THREE.Points>(null);
   const timeRef = useRef(0);
-  const snowCount = isMobile ? 40 : 80;
+  const snowCount = useParticleCount(isMobile ? 40 : 80);
 
   const positions = useMemo(() => {
     const pos = new Float32Array(snowCount * 3);
@@ -0,0 +1,337 @@
+/**
+ * Declarative Accessories
+ *
+ * Accessories described as data: a list of primitive meshes attached to the head,
+ * torso or a hand, colored through named color slots. Rendered by SchemaAccessories,
+ * so new accessories (e.g. invented by character generation) need no new component.
+ *
+ * Definitions can be registered at runtime, globally or for a single character
+ * (see CharacterCustomization.customAccessories).
+ *
+ * Definition JSON:
+ * {
+ *   "id": "wizard_hat", "name": "Wizard Hat", "attach": "head",
+ *   "offset": [0, 0.3, 0], "rotation": [0, 0, 0.1], "scale": 1,
+ *   "parts": [
+ *     { "shape": "cylinder", "size": [0.38, 0.38, 0.03], "color": "accessory" },
+ *     { "shape": "cone", "size": [0.2, 0.5], "position": [0, 0.26, 0], "color": "accessory" },
+ *     { "shape": "sphere", "size": [0.04], "position": [0, 0.52, 0], "color": "#ffd700", "glow": true }
+ *   ]
+ * }
+ *
+ * Sizes per shape: box [width, height, depth], sphere [radius],
+ * cylinder [radiusTop, radiusBottom, height], cone [radius, height], torus [radius, tube].
+ * Positions are relative to the attachment point: head center (head is about 0.5 wide,
+ * face at z 0.26, scaled with the head), torso center, or the middle of the hand.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AccessoryShape = 'box' | 'sphere' | 'cylinder' | 'cone' | 'torus';
+
+export type AccessoryAttachPoint = 'head' | 'torso' | 'left_hand' | 'right_hand';
+
+// Named colors taken from the character, or a literal '#rrggbb'
+export type AccessoryColorSlot = 'accessory' | 'body' | 'pants' | 'hair' | 'skin' | 'cape';
+
+export type AccessoryColors = Record<AccessoryColorSlot, string>;
+
+type Vector3Data = [number, number, number];
+
+export interface AccessoryPartData {
+  shape: AccessoryShape;
+  size: number[];
+  position?: Vector3Data;
+  rotation?: Vector3Data;
+  color?: AccessoryColorSlot | string;  // Default 'accessory'
+  roughness?: number;
+  metalness?: number;
+  opacity?: number;
+  glow?: boolean;                       // Emissive in its own color
+}
+
+// Definition as authored in JSON
+export interface AccessoryDefinitionData {
+  id: string;
+  name?: string;
+  attach: AccessoryAttachPoint | 'hand';  // 'hand' means the right hand
+  offset?: Vector3Data;
+  rotation?: Vector3Data;
+  scale?: number;
+  parts: AccessoryPartData[];
+}
+
+export interface AccessoryPart {
+  shape: AccessoryShape;
+  args: number[];  // Geometry constructor args
+  position: Vector3Data;
+  rotation: Vector3Data;
+  color: AccessoryColorSlot | string;
+  roughness: number;
+  metalness: number;
+  opacity: number;
+  glow: boolean;
+}
+
+// Validated, normalized definition
+export interface AccessoryDefinition {
+  id: string;
+  name: string;
+  attach: AccessoryAttachPoint;
+  offset: Vector3Data;
+  rotation: Vector3Data;
+  scale: number;
+  parts: AccessoryPart[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ACCESSORY_SHAPES: AccessoryShape[] = ['box', 'sphere', 'cylinder', 'cone', 'torus'];
+const ATTACH_POINTS: AccessoryAttachPoint[] = ['head', 'torso', 'left_hand', 'right_hand'];
+const COLOR_SLOTS: AccessoryColorSlot[] = ['accessory', 'body', 'pants', 'hair', 'skin', 'cape'];
+
+// Number of size values each shape takes
+const SHAPE_SIZES: Record<AccessoryShape, number> = {
+  box: 3,
+  sphere: 1,
+  cylinder: 3,
+  cone: 2,
+  torus: 2,
+};
+
+// Keep generated accessories cheap and roughly character-sized
+const MAX_PARTS = 24;
+const MAX_SIZE = 1.5;
+const MAX_OFFSET = 1.5;
+const MIN_SIZE = 0.002;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// ============================================
+// PARSING
+// ============================================
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function isVector3(value: unknown): value is Vector3Data {
+  return Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+/**
+ * Geometry args for a shape (segment counts are fixed; paper style lowers them)
+ */
+function shapeArgs(shape: AccessoryShape, size: number[]): number[] {
+  switch (shape) {
+    case 'box': return size;
+    case 'sphere': return [size[0], 16, 12];
+    case 'cylinder': return [size[0], size[1], size[2], 16];
+    case 'cone': return [size[0], size[1], 16];
+    case 'torus': return [size[0], size[1], 8, 24];
+  }
+}
+
+/**
+ * Validate definition JSON and normalize it for rendering
+ * Throws with a message naming the accessory and the problem.
+ */
+export function parseAccessoryDefinition(raw: unknown): AccessoryDefinition {
+  const data = raw as AccessoryDefinitionData;
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid accessory "${data?.id ?? '?'}": ${reason}`);
+  };
+
+  if (!data || typeof data !== 'object') fail('not an object');
+  if (typeof data.id !== 'string' || data.id.trim().length === 0) fail('missing id');
+  const attach = data.attach === 'hand' ? 'right_hand' : data.attach;
+  if (!ATTACH_POINTS.includes(attach)) fail(`unknown attachment point "${data.attach}"`);
+  if (!Array.isArray(data.parts) || data.parts.length === 0) fail('missing parts');
+  if (data.parts.length > MAX_PARTS) fail(`more than ${MAX_PARTS} parts`);
+  if (data.offset !== undefined && !isVector3(data.offset)) fail('offset must be [x, y, z]');
+  if (data.rotation !== undefined && !isVector3(data.rotation)) fail('rotation must be [x, y, z]');
+
+  const parts = data.parts.map((part, index): AccessoryPart => {
+    if (!part || !ACCESSORY_SHAPES.includes(part.shape)) fail(`part ${index} has unknown shape "${part?.shape}"`);
+    const expected = SHAPE_SIZES[part.shape];
+    if (!Array.isArray(part.size) || part.size.length < expected || !part.size.slice(0, expected).every(v => typeof v === 'number' && Number.isFinite(v))) {
+      fail(`part ${index} (${part.shape}) needs ${expected} size values`);
+    }
+    if (part.position !== undefined && !isVector3(part.position)) fail(`part ${index} position must be [x, y, z]`);
+    if (part.rotation !== undefined && !isVector3(part.rotation)) fail(`part ${index} rotation must be [x, y, z]`);
+
+    const color = part.color ?? 'accessory';
+    if (!COLOR_SLOTS.includes(color as AccessoryColorSlot) && !HEX_COLOR.test(color)) {
+      fail(`part ${index} has unknown color "${color}"`);
+    }
+
+    const size = part.size.slice(0, expected).map(v => clamp(Math.abs(v), MIN_SIZE, MAX_SIZE));
+    return {
+      shape: part.shape,
+      args: shapeArgs(part.shape, size),
+      position: (part.position ?? [0, 0, 0]).map(v => clamp(v, -MAX_OFFSET, MAX_OFFSET)) as Vector3Data,
+      rotation: part.rotation ?? [0, 0, 0],
+      color,
+      roughness: typeof part.roughness === 'number' ? clamp(part.roughness, 0, 1) : 0.7,
+      metalness: typeof part.metalness === 'number' ? clamp(part.metalness, 0, 1) : 0,
+      opacity: typeof part.opacity === 'number' ? clamp(part.opacity, 0.05, 1) : 1,
+      glow: part.glow === true,
+    };
+  });
+
+  return {
+    id: data.id,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : data.id,
+    attach,
+    offset: (data.offset ?? [0, 0, 0]).map(v => clamp(v, -MAX_OFFSET, MAX_OFFSET)) as Vector3Data,
+    rotation: data.rotation ?? [0, 0, 0],
+    scale: typeof data.scale === 'number' && data.scale > 0 ? clamp(data.scale, 0.1, 3) : 1,
+    parts,
+  };
+}
+
+/**
+ * Color for a part - a slot name resolves against the character's colors
+ */
+export function resolveAccessoryColor(color: AccessoryColorSlot | string, colors: AccessoryColors): string {
+  return COLOR_SLOTS.includes(color as AccessoryColorSlot) ? colors[color as AccessoryColorSlot] : color;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+// Accessories any character can wear, keyed by id
+const globalAccessories = new Map<string, AccessoryDefinition>();
+// Character-specific accessories (generated with the character), keyed by character ID then id
+const characterAccessories = new Map<string, Map<string, AccessoryDefinition>>();
+
+/**
+ * Register an accessory globally, or for one character when characterId is given
+ * Replaces any accessory previously registered with the same id and scope.
+ */
+export function registerAccessory(definition: AccessoryDefinition, characterId?: string): void {
+  if (!characterId) {
+    globalAccessories.set(definition.id, definition);
+    return;
+  }
+  let accessories = characterAccessories.get(characterId);
+  if (!accessories) {
+    accessories = new Map();
+    characterAccessories.set(characterId, accessories);
+  }
+  accessories.set(definition.id, definition);
+}
+
+export function unregisterCharacterAccessories(characterId: string): void {
+  characterAccessories.delete(characterId);
+}
+
+// Mounted users of each character's accessories (the same character can be on screen twice)
+const characterAccessoryUsers = new Map<string, number>();
+
+/**
+ * Hold a character's accessories while a component uses them
+ * Returns a release function; the accessories are unregistered when the last user releases.
+ */
+export function retainCharacterAccessories(characterId: string): () => void {
+  characterAccessoryUsers.set(characterId, (characterAccessoryUsers.get(characterId) || 0) + 1);
+  return () => {
+    const users = (characterAccessoryUsers.get(characterId) || 1) - 1;
+    if (users > 0) {
+      characterAccessoryUsers.set(characterId, users);
+      return;
+    }
+    characterAccessoryUsers.delete(characterId);
+    unregisterCharacterAccessories(characterId);
+  };
+}
+
+/**
+ * Accessory by id - the character's own definition wins over the global one
+ */
+export function getAccessoryDefinition(id: string, characterId?: string): AccessoryDefinition | null {
+  return (characterId && characterAccessories.get(characterId)?.get(id)) || globalAccessories.get(id) || null;
+}
+
+export function getRegisteredAccessories(): AccessoryDefinition[] {
+  return Array.from(globalAccessories.values());
+}
+
+/**
+ * Parse and register accessories from JSON
+ * Accepts a JSON string or parsed value: a single definition, an array or { accessories: [...] }.
+ * Invalid definitions are skipped with a warning. Returns the definitions that were registered.
+ */
+export function loadAccessoryDefinitions(source: string | unknown, characterId?: string): AccessoryDefinition[] {
+  let parsed: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      console.error('[Accessories] Could not parse accessory JSON:', error);
+      return [];
+    }
+  }
+
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : parsed && Array.isArray((parsed as { accessories?: unknown[] }).accessories)
+      ? (parsed as { accessories: unknown[] }).accessories
+      : [parsed];
+
+  const loaded: AccessoryDefinition[] = [];
+  entries.forEach(entry => {
+    // Plain ids refer to accessories registered globally - nothing to load
+    if (typeof entry === 'string') return;
+    try {
+      const definition = parseAccessoryDefinition(entry);
+      registerAccessory(definition, characterId);
+      loaded.push(definition);
+    } catch (error) {
+      console.warn('[Accessories]', (error as Error).message);
+    }
+  });
+  return loaded;
+}
+
+/**
+ * Fetch and register an accessory pack from a URL (e.g. a community pack or CDN)
+ */
+export async function fetchAccessoryDefinitions(url: string, characterId?: string): Promise<AccessoryDefinition[]> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`[Accessories] Failed to fetch accessories from ${url}: ${response.status}`);
+      return [];
+    }
+    return loadAccessoryDefinitions(await response.text(), characterId);
+  } catch (error) {
+    console.error(`[Accessories] Failed to fetch accessories from ${url}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Definitions a character wears: inline definitions plus ids of global ones
+ */
+export function resolveCustomAccessories(entries: Array<AccessoryDefinitionData | string> | undefined, characterId: string): AccessoryDefinition[] {
+  if (!entries) return [];
+  const resolved: AccessoryDefinition[] = [];
+  entries.forEach(entry => {
+    const id = typeof entry === 'string' ? entry : entry?.id;
+    const definition = typeof id === 'string' ? getAccessoryDefinition(id, characterId) : null;
+    if (definition) resolved.push(definition);
+  });
+  return resolved;
+}
+
+/**
+ * Short schema description for LLM prompts (character generation)
+ */
+export function getAccessorySchemaForPrompt(): string {
+  return `{"id":"snake_case_id","name":"Name","attach":"${ATTACH_POINTS.join('|')}","offset":[x,y,z],"parts":[{"shape":"${ACCESSORY_SHAPES.join('|')}","size":[...],"position":[x,y,z],"rotation":[x,y,z],"color":"${COLOR_SLOTS.join('|')}|#hex","metalness":0-1,"glow":true|false}]}
+Sizes: box [w,h,d], sphere [r], cylinder [rTop,rBottom,h], cone [r,h], torus [r,tube]. Units: head is ~0.5 wide (face at z 0.26), torso ~0.5 wide, hand ~0.1.`;
+}
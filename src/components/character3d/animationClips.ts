@@ -0,0 +1,467 @@
+/**
+ * Keyframe Animation Clips
+ *
+ * Body animations are data: each AnimationState is backed by a JSON clip whose
+ * tracks target CharacterDisplay3D limb refs (head, arms, forearms, hands, legs,
+ * feet, eyes, eyebrows, mouth). Built-in clips live in clips/builtinClips.json.
+ *
+ * Clips can be registered at runtime, globally or for a single character, so
+ * custom wakattors can ship signature moves (see CharacterCustomization.animationClips).
+ *
+ * Clip JSON:
+ * {
+ *   "id": "robot_wave", "state": "wave", "duration": 2, "loop": false,
+ *   "easing": "easeInOutSine", "blendIn": 0.3, "followLook": true,
+ *   "tracks": {
+ *     "rightArm.rotation.x": -2.5,                                   // constant
+ *     "rightForearm.rotation.x": { "keys": [[0, -0.3], [0.5, -1.2, "easeOutBack"], [1, -0.3]] },
+ *     "body.position.y": { "period": 1, "keys": [[0, 0], [0.5, 0.05], [1, 0]] }
+ *   }
+ * }
+ *
+ * Keys are [time, value] or [time, value, easing]; the easing applies from that
+ * key to the next one. Tracks with a period loop on their own; the others loop
+ * with the clip (or hold their last value when the clip doesn't loop).
+ */
+
+import { AnimationState } from './types';
+import builtinClipData from './clips/builtinClips.json';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ClipChannel =
+  | 'body.position.y' | 'body.rotation.x' | 'body.rotation.y'
+  | 'head.rotation.x' | 'head.rotation.y' | 'head.rotation.z' | 'head.position.z'
+  | 'leftArm.rotation.x' | 'leftArm.rotation.y' | 'leftArm.rotation.z'
+  | 'leftArm.position.x' | 'leftArm.position.y' | 'leftArm.position.z'
+  | 'rightArm.rotation.x' | 'rightArm.rotation.y' | 'rightArm.rotation.z'
+  | 'rightArm.position.x' | 'rightArm.position.y' | 'rightArm.position.z'
+  | 'leftForearm.rotation.x' | 'rightForearm.rotation.x'
+  | 'leftHand.rotation.x' | 'leftHand.rotation.z' | 'rightHand.rotation.x' | 'rightHand.rotation.z'
+  | 'leftLeg.rotation.x' | 'rightLeg.rotation.x'
+  | 'leftLowerLeg.rotation.x' | 'rightLowerLeg.rotation.x'
+  | 'leftFoot.rotation.x' | 'rightFoot.rotation.x'
+  | 'leftEye.scale.y' | 'rightEye.scale.y'
+  | 'leftEyebrow.rotation.z' | 'leftEyebrow.position.y'
+  | 'rightEyebrow.rotation.z' | 'rightEyebrow.position.y'
+  | 'mouth.scale.x' | 'mouth.scale.y';
+
+export type ClipEasing =
+  | 'linear'
+  | 'step'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInSine'
+  | 'easeOutSine'
+  | 'easeInOutSine'
+  | 'easeOutBack';
+
+// [time, value] or [time, value, easing to the next key]
+export type ClipKeyframe = [number, number] | [number, number, ClipEasing];
+
+export interface ClipTrackData {
+  keys: ClipKeyframe[];
+  period?: number;       // Loop this track on its own cycle (seconds)
+  activeOnly?: boolean;  // Only animate while the character is the active speaker
+}
+
+// Clip as authored in JSON
+export interface AnimationClipData {
+  id: string;
+  state: AnimationState;     // Animation state this clip plays for
+  duration: number;          // Seconds
+  loop?: boolean;            // Default true
+  easing?: ClipEasing;       // Default easing for keys without one
+  blendIn?: number;          // Crossfade from the previous clip (seconds)
+  followLook?: boolean;      // Add the complementary look direction to head rotation
+  tracks: Partial<Record<ClipChannel, number | ClipTrackData>>;
+}
+
+interface ClipKey {
+  time: number;
+  value: number;
+  easing: ClipEasing;
+}
+
+interface ClipTrack {
+  channel: ClipChannel;
+  keys: ClipKey[];
+  period: number | null;
+  activeOnly: boolean;
+}
+
+// Validated, normalized clip
+export interface AnimationClip {
+  id: string;
+  state: AnimationState;
+  duration: number;
+  loop: boolean;
+  blendIn: number;
+  followLook: boolean;
+  tracks: ClipTrack[];
+}
+
+export type ClipPose = Partial<Record<ClipChannel, number>>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CLIP_CHANNELS: ClipChannel[] = [
+  'body.position.y', 'body.rotation.x', 'body.rotation.y',
+  'head.rotation.x', 'head.rotation.y', 'head.rotation.z', 'head.position.z',
+  'leftArm.rotation.x', 'leftArm.rotation.y', 'leftArm.rotation.z',
+  'leftArm.position.x', 'leftArm.position.y', 'leftArm.position.z',
+  'rightArm.rotation.x', 'rightArm.rotation.y', 'rightArm.rotation.z',
+  'rightArm.position.x', 'rightArm.position.y', 'rightArm.position.z',
+  'leftForearm.rotation.x', 'rightForearm.rotation.x',
+  'leftHand.rotation.x', 'leftHand.rotation.z', 'rightHand.rotation.x', 'rightHand.rotation.z',
+  'leftLeg.rotation.x', 'rightLeg.rotation.x',
+  'leftLowerLeg.rotation.x', 'rightLowerLeg.rotation.x',
+  'leftFoot.rotation.x', 'rightFoot.rotation.x',
+  'leftEye.scale.y', 'rightEye.scale.y',
+  'leftEyebrow.rotation.z', 'leftEyebrow.position.y',
+  'rightEyebrow.rotation.z', 'rightEyebrow.position.y',
+  'mouth.scale.x', 'mouth.scale.y',
+];
+
+const CLIP_EASINGS: ClipEasing[] = [
+  'linear', 'step', 'easeInQuad', 'easeOutQuad', 'easeInOutQuad',
+  'easeInSine', 'easeOutSine', 'easeInOutSine', 'easeOutBack',
+];
+
+// Default crossfade between clips (seconds)
+export const DEFAULT_CLIP_BLEND_IN = 0.25;
+
+// Value of a channel when no clip drives it (offsets are 0, scales are 1)
+export function getRestValue(channel: ClipChannel): number {
+  return channel.includes('.scale.') ? 1 : 0;
+}
+
+// ============================================
+// EASING
+// ============================================
+
+export function applyEasing(easing: ClipEasing, u: number): number {
+  switch (easing) {
+    case 'step':
+      return 0;
+    case 'easeInQuad':
+      return u * u;
+    case 'easeOutQuad':
+      return u * (2 - u);
+    case 'easeInOutQuad':
+      return u < 0.5 ? 2 * u * u : -1 + (4 - 2 * u) * u;
+    case 'easeInSine':
+      return 1 - Math.cos((u * Math.PI) / 2);
+    case 'easeOutSine':
+      return Math.sin((u * Math.PI) / 2);
+    case 'easeInOutSine':
+      return -(Math.cos(Math.PI * u) - 1) / 2;
+    case 'easeOutBack': {
+      const c1 = 1.70158;
+      const c3 = c1 + 1;
+      return 1 + c3 * Math.pow(u - 1, 3) + c1 * Math.pow(u - 1, 2);
+    }
+    default:
+      return u;
+  }
+}
+
+// ============================================
+// PARSING / VALIDATION
+// ============================================
+
+function isEasing(value: unknown): value is ClipEasing {
+  return typeof value === 'string' && CLIP_EASINGS.includes(value as ClipEasing);
+}
+
+/**
+ * Validate clip JSON and normalize it for playback
+ * Throws with a message naming the clip and the problem.
+ */
+export function parseAnimationClip(raw: unknown): AnimationClip {
+  const data = raw as AnimationClipData;
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid animation clip "${data?.id ?? '?'}": ${reason}`);
+  };
+
+  if (!data || typeof data !== 'object') fail('not an object');
+  if (typeof data.id !== 'string' || data.id.trim().length === 0) fail('missing id');
+  if (typeof data.state !== 'string') fail('missing state');
+  if (typeof data.duration !== 'number' || !(data.duration > 0)) fail('duration must be a positive number');
+  if (data.easing !== undefined && !isEasing(data.easing)) fail(`unknown easing "${data.easing}"`);
+  if (!data.tracks || typeof data.tracks !== 'object') fail('missing tracks');
+
+  const defaultEasing: ClipEasing = data.easing ?? 'linear';
+  const tracks: ClipTrack[] = [];
+
+  Object.entries(data.tracks).forEach(([channel, track]) => {
+    if (!CLIP_CHANNELS.includes(channel as ClipChannel)) {
+      fail(`unknown channel "${channel}"`);
+    }
+
+    // A bare number is a constant pose value
+    if (typeof track === 'number') {
+      tracks.push({
+        channel: channel as ClipChannel,
+        keys: [{ time: 0, value: track, easing: 'linear' }],
+        period: null,
+        activeOnly: false,
+      });
+      return;
+    }
+
+    if (!track || !Array.isArray(track.keys) || track.keys.length === 0) {
+      fail(`channel "${channel}" has no keys`);
+    }
+    if (track.period !== undefined && !(track.period > 0)) {
+      fail(`channel "${channel}" period must be positive`);
+    }
+
+    const keys = track.keys.map((key): ClipKey => {
+      if (!Array.isArray(key) || typeof key[0] !== 'number' || typeof key[1] !== 'number') {
+        fail(`channel "${channel}" has a malformed key`);
+      }
+      if (key[2] !== undefined && !isEasing(key[2])) {
+        fail(`channel "${channel}" uses unknown easing "${key[2]}"`);
+      }
+      return { time: key[0], value: key[1], easing: key[2] ?? defaultEasing };
+    });
+    keys.sort((a, b) => a.time - b.time);
+
+    tracks.push({
+      channel: channel as ClipChannel,
+      keys,
+      period: track.period ?? null,
+      activeOnly: track.activeOnly === true,
+    });
+  });
+
+  return {
+    id: data.id,
+    state: data.state,
+    duration: data.duration,
+    loop: data.loop !== false,
+    blendIn: typeof data.blendIn === 'number' && data.blendIn >= 0 ? data.blendIn : DEFAULT_CLIP_BLEND_IN,
+    followLook: data.followLook === true,
+    tracks,
+  };
+}
+
+// ============================================
+// SAMPLING / BLENDING
+// ============================================
+
+function sampleKeys(keys: ClipKey[], time: number): number {
+  if (keys.length === 1 || time <= keys[0].time) return keys[0].value;
+
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return last.value;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const from = keys[i];
+    const to = keys[i + 1];
+    if (time < to.time) {
+      const span = to.time - from.time;
+      const u = span > 0 ? (time - from.time) / span : 1;
+      return from.value + (to.value - from.value) * applyEasing(from.easing, u);
+    }
+  }
+  return last.value;
+}
+
+/**
+ * Evaluate a clip at a time (seconds since it started)
+ * Only channels the clip defines are present in the pose.
+ */
+export function sampleClip(clip: AnimationClip, time: number, isActive = true): ClipPose {
+  const pose: ClipPose = {};
+  const clipTime = clip.loop ? time % clip.duration : Math.min(time, clip.duration);
+
+  for (const track of clip.tracks) {
+    if (track.activeOnly && !isActive) {
+      pose[track.channel] = getRestValue(track.channel);
+      continue;
+    }
+    const localTime = track.period ? time % track.period : clipTime;
+    pose[track.channel] = sampleKeys(track.keys, localTime);
+  }
+  return pose;
+}
+
+/**
+ * Blend two poses (weight 0 = from, 1 = to)
+ * Channels missing on one side blend against their rest value.
+ */
+export function blendPoses(from: ClipPose, to: ClipPose, weight: number): ClipPose {
+  if (weight >= 1) return to;
+
+  const pose: ClipPose = {};
+  const channels = new Set([...Object.keys(from), ...Object.keys(to)] as ClipChannel[]);
+  channels.forEach(channel => {
+    const a = from[channel] ?? getRestValue(channel);
+    const b = to[channel] ?? getRestValue(channel);
+    pose[channel] = a + (b - a) * weight;
+  });
+  return pose;
+}
+
+/**
+ * Plays one clip at a time per character, crossfading on clip changes
+ */
+export class AnimationClipPlayer {
+  private clip: AnimationClip | null = null;
+  private startTime = 0;
+  private fadeFrom: ClipPose = {};
+  private lastPose: ClipPose = {};
+
+  /**
+   * Switch to a clip (no-op if it's already playing)
+   * The pose at the moment of switching is kept and faded out over clip.blendIn.
+   */
+  play(clip: AnimationClip | null, now: number): void {
+    if (clip === this.clip) return;
+    this.fadeFrom = this.lastPose;
+    this.clip = clip;
+    this.startTime = now;
+  }
+
+  /**
+   * Current pose; `speed` scales playback rate (complementary animation speed)
+   */
+  sample(now: number, speed = 1, isActive = true): ClipPose {
+    if (!this.clip) {
+      this.lastPose = {};
+      return this.lastPose;
+    }
+
+    const elapsed = now - this.startTime;
+    const pose = sampleClip(this.clip, elapsed * speed, isActive);
+    const weight = this.clip.blendIn > 0 ? Math.min(1, elapsed / this.clip.blendIn) : 1;
+
+    this.lastPose = weight < 1
+      ? blendPoses(this.fadeFrom, pose, applyEasing('easeInOutSine', weight))
+      : pose;
+    return this.lastPose;
+  }
+
+  get currentClip(): AnimationClip | null {
+    return this.clip;
+  }
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+// Clips that apply to every character, keyed by state
+const globalClips = new Map<AnimationState, AnimationClip>();
+// Character-specific clips (signature moves), keyed by character ID then state
+const characterClips = new Map<string, Map<AnimationState, AnimationClip>>();
+
+/**
+ * Register a clip globally, or for one character when characterId is given
+ * Replaces any clip previously registered for the same state and scope.
+ */
+export function registerAnimationClip(clip: AnimationClip, characterId?: string): void {
+  if (!characterId) {
+    globalClips.set(clip.state, clip);
+    return;
+  }
+  let clips = characterClips.get(characterId);
+  if (!clips) {
+    clips = new Map();
+    characterClips.set(characterId, clips);
+  }
+  clips.set(clip.state, clip);
+}
+
+export function unregisterCharacterClips(characterId: string): void {
+  characterClips.delete(characterId);
+}
+
+// Mounted users of each character's clips (the same character can be on screen twice)
+const characterClipUsers = new Map<string, number>();
+
+/**
+ * Hold a character's clips while a component uses them
+ * Returns a release function; the clips are unregistered when the last user releases.
+ */
+export function retainCharacterClips(characterId: string): () => void {
+  characterClipUsers.set(characterId, (characterClipUsers.get(characterId) || 0) + 1);
+  return () => {
+    const users = (characterClipUsers.get(characterId) || 1) - 1;
+    if (users > 0) {
+      characterClipUsers.set(characterId, users);
+      return;
+    }
+    characterClipUsers.delete(characterId);
+    unregisterCharacterClips(characterId);
+  };
+}
+
+/**
+ * Clip to play for a state - the character's own clip wins over the global one
+ */
+export function getAnimationClip(state: AnimationState, characterId?: string): AnimationClip | null {
+  return (characterId && characterClips.get(characterId)?.get(state)) || globalClips.get(state) || null;
+}
+
+/**
+ * Parse and register clips from JSON
+ * Accepts a JSON string or parsed value: a single clip, an array of clips or { clips: [...] }.
+ * Invalid clips are skipped with a warning. Returns the clips that were registered.
+ */
+export function loadAnimationClips(source: string | unknown, characterId?: string): AnimationClip[] {
+  let parsed: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      console.error('[AnimClips] Could not parse clip JSON:', error);
+      return [];
+    }
+  }
+
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : parsed && Array.isArray((parsed as { clips?: unknown[] }).clips)
+      ? (parsed as { clips: unknown[] }).clips
+      : [parsed];
+
+  const loaded: AnimationClip[] = [];
+  entries.forEach(entry => {
+    try {
+      const clip = parseAnimationClip(entry);
+      registerAnimationClip(clip, characterId);
+      loaded.push(clip);
+    } catch (error) {
+      console.warn('[AnimClips]', (error as Error).message);
+    }
+  });
+  return loaded;
+}
+
+/**
+ * Download and register a clip pack (e.g. a signature move hosted with a custom wakattor)
+ */
+export async function fetchAnimationClips(url: string, characterId?: string): Promise<AnimationClip[]> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`[AnimClips] Failed to fetch clips from ${url}: ${response.status}`);
+      return [];
+    }
+    return loadAnimationClips(await response.text(), characterId);
+  } catch (error) {
+    console.error(`[AnimClips] Failed to fetch clips from ${url}:`, error);
+    return [];
+  }
+}
+
+// Built-in clips for every AnimationState
+loadAnimationClips(builtinClipData);
@@ -1,18 +1,39 @@
 import { useMemo } from 'react';
-import { BodyConfig } from './types';
+import { BodyConfig, ModelStyle } from './types';
+
+// Proportions per model style, relative to blocky
+// (limb = limb lengths, depth = front-to-back thickness of every body part)
+const STYLE_PROPORTIONS: Record<ModelStyle, { torsoWidth: number; torsoHeight: number; limb: number; depth: number }> = {
+  blocky: { torsoWidth: 1, torsoHeight: 1, limb: 1, depth: 1 },
+  chibi: { torsoWidth: 0.85, torsoHeight: 0.75, limb: 0.7, depth: 1 },
+  paper: { torsoWidth: 1, torsoHeight: 1, limb: 1, depth: 0.3 },
+};
+
+// Bottom of the feet - every style stands on the same ground
+const FEET_BOTTOM_Y = -0.465;
 
 /**
  * Hook that returns the body configuration with all dimensions and derived positions.
  * This centralizes all body measurements so components can reference them consistently.
+ * Every model style shares this contract; only the proportions differ.
  */
-export function useBodyConfig(): BodyConfig {
+export function useBodyConfig(modelStyle: ModelStyle = 'blocky'): BodyConfig {
   return useMemo(() => {
+    const proportions = STYLE_PROPORTIONS[modelStyle] || STYLE_PROPORTIONS.blocky;
+
+    // === LEG SIZES (needed first so the torso stands on the ground) ===
+    const legDiameter = { width: 0.25, depth: 0.25 * proportions.depth };
+    const upperLeg = { ...legDiameter, height: 0.22 * proportions.limb };
+    const lowerLeg = { ...legDiameter, height: 0.22 * proportions.limb };
+    const foot = { width: 0.25, height: 0.06, depth: 0.35 * proportions.depth };
+
     // === TORSO ===
+    const torsoHeight = 0.65 * proportions.torsoHeight;
     const torso = {
-      width: 0.9,
-      height: 0.65,
-      depth: 0.45,
-      y: 0.25,
+      width: 0.9 * proportions.torsoWidth,
+      height: torsoHeight,
+      depth: 0.45 * proportions.depth,
+      y: FEET_BOTTOM_Y + foot.height + lowerLeg.height / 2 + upperLeg.height + torsoHeight / 2, // 0.25 for blocky
     };
     // Derived torso positions
     const torsoTop = torso.y + torso.height / 2;
@@ -21,20 +42,16 @@ export function useBodyConfig(): BodyConfig {
     const torsoBack = -torso.depth / 2;
 
     // === ARMS ===
-    const armDiameter = { width: 0.2, depth: 0.25 };
-    const upperArm = { ...armDiameter, height: 0.25 };
-    const forearm = { ...armDiameter, height: 0.25 };
+    const armDiameter = { width: 0.2, depth: 0.25 * proportions.depth };
+    const upperArm = { ...armDiameter, height: 0.25 * proportions.limb };
+    const forearm = { ...armDiameter, height: 0.25 * proportions.limb };
     const hand = { ...armDiameter, height: 0.1 };
     const armX = torso.width / 2 + armDiameter.width / 2 + 0.025;
-    const armY = 0.45;
+    const armY = torsoTop - 0.125;
     const forearmY = -upperArm.height;
     const handY = -(forearm.height / 2 + hand.height / 2);
 
     // === LEGS ===
-    const legDiameter = { width: 0.25, depth: 0.25 };
-    const upperLeg = { ...legDiameter, height: 0.22 };
-    const lowerLeg = { ...legDiameter, height: 0.22 };
-    const foot = { width: 0.25, height: 0.06, depth: 0.35 };
     const legX = 0.15;
     const legY = torsoBottom;
     const lowerLegY = -upperLeg.height;
@@ -74,5 +91,5 @@ export function useBodyConfig(): BodyConfig {
       // Accessory Z positions
       frontZ, frontZOuter, backZ, backZOuter,
     };
-  }, []);
+  }, [modelStyle]);
 }
@@ -52,10 +52,12 @@ export const SKIN_TONE_COLORS: Record<string, string> = {
 export const HEAD_DIMENSIONS: Record<string, [number, number, number]> = {
   default: [0.5, 0.55, 0.5],
   bigger: [0.6, 0.70, 0.6],
+  chibi: [0.85, 0.85, 0.85],
 };
 
 // Head heights for animation calculations
 export const HEAD_HEIGHTS: Record<string, number> = {
   default: 0.55,
   bigger: 0.70,
+  chibi: 0.85,
 };
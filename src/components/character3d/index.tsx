@@ -5,9 +5,13 @@
  *
  * Structure:
  * - types.ts: Type definitions
- * - bodyConfig.ts: Body dimensions and measurements
+ * - bodyConfig.ts: Body dimensions and measurements (per model style)
+ * - modelStyles.tsx: Chibi / paper restyling of the shared body
  * - constants.ts: Animation constants and helpers
+ * - animationClips.ts: JSON keyframe clips for body animations (clips/builtinClips.json)
+ * - accessoryDefinitions.ts: Declarative accessories (primitive meshes) rendered by parts/SchemaAccessories.tsx
  * - VisualEffects.tsx: Particle and lighting effects
+ * - SharedCharacterCanvas.tsx: One canvas for all characters at low quality tiers
  * - index.tsx: Main exports
  *
  * Usage:
@@ -20,9 +24,48 @@ export * from './types';
 // Re-export constants
 export * from './constants';
 
+// Re-export keyframe clip API (runtime clip loading)
+export {
+  registerAnimationClip,
+  unregisterCharacterClips,
+  retainCharacterClips,
+  getAnimationClip,
+  loadAnimationClips,
+  fetchAnimationClips,
+  parseAnimationClip,
+} from './animationClips';
+export type { AnimationClip, AnimationClipData, ClipChannel, ClipEasing, ClipKeyframe } from './animationClips';
+
+// Re-export declarative accessory API (runtime accessory registration)
+export {
+  registerAccessory,
+  unregisterCharacterAccessories,
+  retainCharacterAccessories,
+  getAccessoryDefinition,
+  getRegisteredAccessories,
+  loadAccessoryDefinitions,
+  fetchAccessoryDefinitions,
+  parseAccessoryDefinition,
+} from './accessoryDefinitions';
+export type {
+  AccessoryDefinition,
+  AccessoryDefinitionData,
+  AccessoryPartData,
+  AccessoryShape,
+  AccessoryAttachPoint,
+  AccessoryColorSlot,
+} from './accessoryDefinitions';
+export { SchemaAccessories } from './parts/SchemaAccessories';
+
 // Re-export body config
 export { useBodyConfig } from './bodyConfig';
 
+// Re-export model styles
+export { StyledModel, resolveHeadStyle } from './modelStyles';
+
+// Re-export shared canvas (adaptive quality)
+export { SharedCharacterCanvas } from './SharedCharacterCanvas';
+
 // Re-export visual effects
 export {
   ConfettiEffect,
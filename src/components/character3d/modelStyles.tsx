@@ -0,0 +1,195 @@
+import React, { useRef, useEffect, useLayoutEffect } from 'react';
+import * as THREE from 'three';
+import { ModelStyle, HeadStyle } from './types';
+
+/**
+ * Model styles
+ *
+ * Every style renders the same body - same BodyConfig contract and animation refs -
+ * so animations, parts/ accessories and FaceDecorations work in all of them.
+ * Proportions come from useBodyConfig(modelStyle); StyledModel then restyles the
+ * rendered meshes:
+ * - chibi: every box is rounded, head is oversized
+ * - paper: curved shapes drop to a few segments, flat shading, outlined pieces
+ */
+
+// Styles that always use their own head shape
+const STYLE_HEADS: Partial<Record<ModelStyle, HeadStyle>> = {
+  chibi: 'chibi',
+};
+
+/**
+ * Head style to render for a model style (complementary headStyle otherwise, 'bigger' by default)
+ */
+export function resolveHeadStyle(modelStyle: ModelStyle, headStyle?: HeadStyle): HeadStyle {
+  return STYLE_HEADS[modelStyle] ?? headStyle ?? 'bigger';
+}
+
+// Box corners are rounded by this fraction of the box's smallest side
+const CHIBI_CORNER_RATIO = 0.3;
+const CHIBI_BOX_SEGMENTS = 4;
+const PAPER_MAX_SEGMENTS = 6;
+const PAPER_OUTLINE_COLOR = '#1a1a1a';
+
+let paperOutlineMaterial: THREE.LineBasicMaterial | null = null;
+
+function getPaperOutlineMaterial(): THREE.LineBasicMaterial {
+  if (!paperOutlineMaterial) {
+    paperOutlineMaterial = new THREE.LineBasicMaterial({ color: PAPER_OUTLINE_COLOR });
+  }
+  return paperOutlineMaterial;
+}
+
+/**
+ * Subdivided box with its vertices pushed onto a rounded box of the same size
+ */
+function createRoundedBoxGeometry(width: number, height: number, depth: number): THREE.BufferGeometry {
+  const radius = Math.min(width, height, depth) * CHIBI_CORNER_RATIO;
+  if (radius < 0.002) {
+    // Flat decals (patches, marks) have nothing to round
+    return new THREE.BoxGeometry(width, height, depth);
+  }
+  const geometry = new THREE.BoxGeometry(width, height, depth, CHIBI_BOX_SEGMENTS, CHIBI_BOX_SEGMENTS, CHIBI_BOX_SEGMENTS);
+  const inner = new THREE.Vector3(width / 2 - radius, height / 2 - radius, depth / 2 - radius);
+  const position = geometry.attributes.position;
+  const normal = geometry.attributes.normal;
+  const point = new THREE.Vector3();
+  const core = new THREE.Vector3();
+
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i);
+    core.copy(point).clamp(inner.clone().negate(), inner);
+    // Direction from the inner core is the surface normal of the rounded box
+    const direction = point.sub(core).normalize();
+    normal.setXYZ(i, direction.x, direction.y, direction.z);
+    position.setXYZ(i, core.x + direction.x * radius, core.y + direction.y * radius, core.z + direction.z * radius);
+  }
+  position.needsUpdate = true;
+  normal.needsUpdate = true;
+  return geometry;
+}
+
+/**
+ * Same shape with at most a few segments around (low-poly)
+ */
+function createLowPolyGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry | null {
+  const cap = (segments: number) => Math.min(segments, PAPER_MAX_SEGMENTS);
+  if (geometry instanceof THREE.SphereGeometry) {
+    const p = geometry.parameters;
+    return new THREE.SphereGeometry(p.radius, cap(p.widthSegments), Math.min(p.heightSegments, 4), p.phiStart, p.phiLength, p.thetaStart, p.thetaLength);
+  }
+  if (geometry instanceof THREE.ConeGeometry) {
+    const p = geometry.parameters as unknown as { radius: number; height: number; radialSegments: number; heightSegments: number; openEnded: boolean; thetaStart: number; thetaLength: number };
+    return new THREE.ConeGeometry(p.radius, p.height, cap(p.radialSegments), p.heightSegments, p.openEnded, p.thetaStart, p.thetaLength);
+  }
+  if (geometry instanceof THREE.CylinderGeometry) {
+    const p = geometry.parameters;
+    return new THREE.CylinderGeometry(p.radiusTop, p.radiusBottom, p.height, cap(p.radialSegments), p.heightSegments, p.openEnded, p.thetaStart, p.thetaLength);
+  }
+  if (geometry instanceof THREE.TorusGeometry) {
+    const p = geometry.parameters;
+    return new THREE.TorusGeometry(p.radius, p.tube, Math.min(p.radialSegments, 4), cap(p.tubularSegments), p.arc);
+  }
+  if (geometry instanceof THREE.CircleGeometry) {
+    const p = geometry.parameters;
+    return new THREE.CircleGeometry(p.radius, cap(p.segments), p.thetaStart, p.thetaLength);
+  }
+  return null;
+}
+
+function createStyledGeometry(geometry: THREE.BufferGeometry, modelStyle: ModelStyle): THREE.BufferGeometry | null {
+  if (modelStyle === 'chibi' && geometry instanceof THREE.BoxGeometry) {
+    const { width, height, depth } = geometry.parameters;
+    return createRoundedBoxGeometry(width, height, depth);
+  }
+  if (modelStyle === 'paper') {
+    return createLowPolyGeometry(geometry);
+  }
+  return null;
+}
+
+/**
+ * Restyle every mesh under root. Meshes already restyled are skipped, so this
+ * is cheap to run after every render (new meshes and new geometry args get styled).
+ */
+function restyleMeshes(root: THREE.Object3D, modelStyle: ModelStyle, created: Set<THREE.BufferGeometry>): void {
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const mesh = object;
+
+    // React re-renders can attach fresh geometry; our own output and sources we left alone are skipped
+    const current: THREE.BufferGeometry = mesh.geometry;
+    if (current !== mesh.userData.styledGeometry && current !== mesh.userData.styleSource) {
+      mesh.userData.styleSource = current;
+      const styled = createStyledGeometry(current, modelStyle);
+      if (styled) {
+        const previous: THREE.BufferGeometry | undefined = mesh.userData.styledGeometry;
+        if (previous) {
+          previous.dispose();
+          created.delete(previous);
+        }
+        mesh.geometry = styled;
+        mesh.userData.styledGeometry = styled;
+        created.add(styled);
+      }
+
+      if (modelStyle === 'paper') {
+        const previousOutline: THREE.LineSegments | undefined = mesh.userData.paperOutline;
+        if (previousOutline) {
+          mesh.remove(previousOutline);
+          previousOutline.geometry.dispose();
+          created.delete(previousOutline.geometry);
+        }
+        const edges = new THREE.EdgesGeometry(mesh.geometry, 30);
+        const outline = new THREE.LineSegments(edges, getPaperOutlineMaterial());
+        outline.raycast = () => {};
+        mesh.add(outline);
+        mesh.userData.paperOutline = outline;
+        created.add(edges);
+      }
+    }
+
+    if (modelStyle === 'paper') {
+      const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach((material) => {
+        if (material instanceof THREE.MeshStandardMaterial && !material.userData.modelStyle) {
+          material.userData.modelStyle = modelStyle;
+          material.flatShading = true;
+          material.roughness = 1;
+          material.metalness = 0;
+          material.needsUpdate = true;
+        }
+      });
+    }
+  });
+}
+
+interface StyledModelProps {
+  modelStyle: ModelStyle;
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps a rendered body and applies the model style to its meshes
+ */
+export function StyledModel({ modelStyle, children }: StyledModelProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const createdRef = useRef<Set<THREE.BufferGeometry>>(new Set());
+
+  // Runs after every render so meshes that appear later (accessories, face states) are styled too
+  useLayoutEffect(() => {
+    if (groupRef.current && modelStyle !== 'blocky') {
+      restyleMeshes(groupRef.current, modelStyle, createdRef.current);
+    }
+  });
+
+  useEffect(() => {
+    const created = createdRef.current;
+    return () => {
+      created.forEach(geometry => geometry.dispose());
+      created.clear();
+    };
+  }, []);
+
+  return <group ref={groupRef}>{children}</group>;
+}
@@ -5,21 +5,24 @@ interface FaceDecorationsProps {
   complementary?: ComplementaryAnimation;
   faceOffset?: { x: number; y: number; z: number };
   headScale?: number;
+  showDetails?: boolean; // Cheek and forehead states (dropped at low quality tiers)
 }
 
 /**
  * Renders anime-style face decorations based on the complementary animation state.
  * Includes cheek states, forehead states, tears, and special eye effects.
  * All positions and sizes are scaled by headScale for different head sizes.
+ * Cheek and forehead states are skipped when showDetails is false.
  */
 export function FaceDecorations({
   complementary,
   faceOffset = { x: 0, y: 0, z: 0 },
-  headScale = 1
+  headScale = 1,
+  showDetails = true
 }: FaceDecorationsProps) {
   const faceState = complementary?.faceState;
-  const foreheadState = complementary?.foreheadState;
-  const cheekState = complementary?.cheekState;
+  const foreheadState = showDetails ? complementary?.foreheadState : undefined;
+  const cheekState = showDetails ? complementary?.cheekState : undefined;
   const eyeState = complementary?.eyeState;
   
   // Only return null if there are no active states at all
@@ -36,7 +39,7 @@ export function FaceDecorations({
   return (
     <>
       {/* Cheek States */}
-      {complementary?.cheekState === 'flushed' && (
+      {cheekState === 'flushed' && (
         <>
           <mesh position={[-0.18 * s + faceOffset.x, -0.02 * s + faceOffset.y, 0.24 * s + faceOffset.z]}>
             <circleGeometry args={[0.06 * s, 16]} />
@@ -49,7 +52,7 @@ export function FaceDecorations({
         </>
       )}
 
-      {complementary?.cheekState === 'sunken' && (
+      {cheekState === 'sunken' && (
         <>
           <mesh position={[-0.18 * s + faceOffset.x, -0.05 * s + faceOffset.y, 0.23 * s + faceOffset.z]}>
             <boxGeometry args={[0.08 * s, 0.06 * s, 0.01]} />
@@ -62,7 +65,7 @@ export function FaceDecorations({
         </>
       )}
 
-      {complementary?.cheekState === 'puffed' && (
+      {cheekState === 'puffed' && (
         <>
           <mesh position={[-0.20 * s + faceOffset.x, -0.02 * s + faceOffset.y, 0.26 * s + faceOffset.z]}>
             <sphereGeometry args={[0.08 * s, 16, 16]} />
@@ -75,7 +78,7 @@ export function FaceDecorations({
         </>
       )}
 
-      {complementary?.cheekState === 'dimpled' && (
+      {cheekState === 'dimpled' && (
         <>
           <mesh position={[-0.18 * s + faceOffset.x, -0.08 * s + faceOffset.y, 0.26 * s + faceOffset.z]}>
             <sphereGeometry args={[0.02 * s, 8, 8]} />
@@ -89,7 +92,7 @@ export function FaceDecorations({
       )}
 
       {/* Forehead States - positioned just above eyebrows (eyebrows are at ~0.14) */}
-      {complementary?.foreheadState === 'wrinkled' && (
+      {foreheadState === 'wrinkled' && (
         <>
           <mesh position={[0 + faceOffset.x, 0.15 * s + faceOffset.y, 0.28 * s + faceOffset.z]}>
             <boxGeometry args={[0.25 * s, 0.012 * s, 0.01]} />
@@ -106,14 +109,14 @@ export function FaceDecorations({
         </>
       )}
 
-      {complementary?.foreheadState === 'tense' && (
+      {foreheadState === 'tense' && (
         <mesh position={[0 + faceOffset.x, 0.16 * s + faceOffset.y, 0.28 * s + faceOffset.z]}>
           <boxGeometry args={[0.26 * s, 0.025 * s, 0.01]} />
           <meshBasicMaterial color="#2a2a2a" transparent opacity={0.7} />
         </mesh>
       )}
 
-      {complementary?.foreheadState === 'raised' && (
+      {foreheadState === 'raised' && (
         <mesh position={[0 + faceOffset.x, 0.18 * s + faceOffset.y, 0.28 * s + faceOffset.z]}>
           <boxGeometry args={[0.2 * s, 0.01 * s, 0.01]} />
           <meshBasicMaterial color="#2a2a2a" transparent opacity={0.4} />
@@ -0,0 +1,80 @@
+import React from 'react';
+import { BodyConfig } from '../types';
+import {
+  AccessoryAttachPoint,
+  AccessoryColors,
+  AccessoryDefinition,
+  AccessoryPart,
+  resolveAccessoryColor,
+} from '../accessoryDefinitions';
+
+interface SchemaAccessoriesProps {
+  definitions: AccessoryDefinition[];
+  attach: AccessoryAttachPoint;
+  body: BodyConfig;
+  headScale?: number;
+  colors: AccessoryColors;
+}
+
+function PartGeometry({ part }: { part: AccessoryPart }) {
+  switch (part.shape) {
+    case 'box': return <boxGeometry args={part.args as [number, number, number]} />;
+    case 'sphere': return <sphereGeometry args={part.args as [number, number, number]} />;
+    case 'cylinder': return <cylinderGeometry args={part.args as [number, number, number, number]} />;
+    case 'cone': return <coneGeometry args={part.args as [number, number, number]} />;
+    case 'torus': return <torusGeometry args={part.args as [number, number, number, number]} />;
+  }
+}
+
+/**
+ * Renders declarative accessories (accessoryDefinitions.ts) for one attachment point.
+ * Rendered inside the matching group in CharacterDisplay3D.tsx (head, torso or forearm)
+ * so accessories move with the body part:
+ * - head: origin at head center, scaled with the head
+ * - torso: origin at torso center
+ * - left_hand / right_hand: origin at the hand
+ */
+export function SchemaAccessories({ definitions, attach, body, headScale = 1, colors }: SchemaAccessoriesProps) {
+  const attached = definitions.filter(definition => definition.attach === attach);
+  if (attached.length === 0) return null;
+
+  const origin: [number, number, number] =
+    attach === 'torso' ? [0, body.torso.y, 0]
+      : attach === 'head' ? [0, 0, 0]
+        : [0, body.handY, 0];
+  const baseScale = attach === 'head' ? headScale : 1;
+
+  return (
+    <>
+      {attached.map(definition => (
+        <group
+          key={definition.id}
+          position={[
+            origin[0] + definition.offset[0] * baseScale,
+            origin[1] + definition.offset[1] * baseScale,
+            origin[2] + definition.offset[2] * baseScale,
+          ]}
+          rotation={definition.rotation}
+          scale={definition.scale * baseScale}
+        >
+          {definition.parts.map((part, index) => {
+            const color = resolveAccessoryColor(part.color, colors);
+            return (
+              <mesh key={index} position={part.position} rotation={part.rotation} castShadow>
+                <PartGeometry part={part} />
+                <meshStandardMaterial
+                  color={color}
+                  roughness={part.roughness}
+                  metalness={part.metalness}
+                  transparent={part.opacity < 1}
+                  opacity={part.opacity}
+                  {...(part.glow && { emissive: color, emissiveIntensity: 0.6 })}
+                />
+              </mesh>
+            );
+          })}
+        </group>
+      ))}
+    </>
+  );
+}
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { CharacterBehavior } from '../../config/characters';
+import type { AnimationClock } from '../../services/animationClock';
+import type { LightingPreset } from '../../config/sceneEnvironments';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -152,10 +154,13 @@ export type VisualEffect =
   | 'rainbow';     // 🌈 - Arcing rainbow bands
 
 // 3D Model style types
-export type ModelStyle = 'blocky';
+export type ModelStyle =
+  | 'blocky'            // Default - Minecraft-like boxes
+  | 'chibi'             // Rounded, big head, short limbs
+  | 'paper';            // Flat low-poly cutout
 
 // Head style types
-export type HeadStyle = 'default' | 'bigger';
+export type HeadStyle = 'default' | 'bigger' | 'chibi';
 
 // Complementary animation configuration
 export interface ComplementaryAnimation {
@@ -188,13 +193,20 @@ export interface CharacterDisplay3DProps {
   nameKey?: number;
   complementary?: ComplementaryAnimation;
   onAnimationComplete?: () => void;
+  // Overrides the character's own customization.modelStyle
   modelStyle?: ModelStyle;
+  // Scene environment lighting (tints the default lights)
+  lighting?: LightingPreset;
   fov?: number;
   cameraX?: number;
   cameraY?: number;
   characterX?: number;
   characterY?: number;
   characterZ?: number;
+  // Drives the animation loop instead of real time (offscreen clip export)
+  clock?: AnimationClock;
+  // Called with the WebGL canvas; the drawing buffer is preserved so frames can be read back
+  onCanvasReady?: (canvas: HTMLCanvasElement) => void;
 }
 
 // Internal Character component props
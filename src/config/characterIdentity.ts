@@ -139,9 +139,10 @@ Remember: You're the cheeky, sassy, funny character who became a wakattor. Human
  * Structure: STATIC_RULES (cached) + CHARACTER_DETAILS (dynamic)
  *
  * @param character - The character configuration
+ * @param memories - Long-term facts about the user recalled for this turn
  * @returns Full system prompt with identity enforcement
  */
-export function buildCharacterIdentityPrompt(character: CharacterBehavior): string {
+export function buildCharacterIdentityPrompt(character: CharacterBehavior, memories: string[] = []): string {
   const characterDetails = `## CHARACTER: ${character.name.toUpperCase()}
 
 **Identity:**
@@ -152,7 +153,21 @@ export function buildCharacterIdentityPrompt(character: CharacterBehavior): stri
 **Your Approach:**
 ${character.systemPrompt}`;
 
-  return STATIC_IDENTITY_RULES + characterDetails;
+  return STATIC_IDENTITY_RULES + characterDetails + formatUserMemories(memories);
+}
+
+/**
+ * Format recalled user memories as a prompt section
+ * Returns an empty string when there is nothing to remember.
+ */
+export function formatUserMemories(memories: string[], heading = 'WHAT YOU REMEMBER ABOUT THE USER'): string {
+  if (memories.length === 0) return '';
+
+  return `
+
+## ${heading}
+From previous conversations. Use it naturally - don't recite it back.
+${memories.map(fact => `- ${fact}`).join('\n')}`;
 }
 
 /**
@@ -2,7 +2,11 @@
 
 import { TemperamentId } from './temperaments';
 import { CharacterVoiceProfile } from './voiceConfig';
+import type { CharacterCloudVoice } from './cloudVoices';
 import { buildCharacterIdentityPrompt } from './characterIdentity';
+import type { AnimationClipData } from '../components/character3d/animationClips';
+import type { AccessoryDefinitionData } from '../components/character3d/accessoryDefinitions';
+import type { ModelStyle } from '../components/character3d/types';
 
 export type GenderType = 'male' | 'female' | 'neutral';
 export type SkinToneType = 'light' | 'medium' | 'tan' | 'dark';
@@ -38,6 +42,9 @@ export interface CharacterCustomization {
   capeColor?: string;   // Optional cape color (defaults to accessoryColor if not set)
   hairColor: string;
   hasUnibrow?: boolean;  // Renders single connected eyebrow spanning both eyes
+  animationClips?: AnimationClipData[];  // Signature moves - keyframe clips that replace built-in animations
+  modelStyle?: ModelStyle;  // 3D model style (defaults to 'blocky')
+  customAccessories?: Array<AccessoryDefinitionData | string>;  // Declarative accessories - inline definitions or ids registered globally
 }
 
 export interface CharacterBehavior {
@@ -50,6 +57,7 @@ export interface CharacterBehavior {
   responseStyle: string;
   temperaments?: TemperamentId[]; // Array of temperament IDs for greeting/response style
   voiceProfile?: CharacterVoiceProfile; // Voice characteristics for speech orchestration
+  cloudVoice?: CharacterCloudVoice; // Cloud TTS voice (derived from voiceProfile and gender when not set)
   model3D: {
     bodyColor: string;
     pantsColor?: string;  // Separate pants color (defaults to bodyColor if not set)
@@ -92,6 +100,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'explaining',
       talkingSound: 'warm'  // Deep, resonant tones for Freud
     },
+    cloudVoice: { name: 'en-US-Neural2-D', gender: 'MALE' },
     model3D: {
       bodyColor: '#5c4a3a',
       accessoryColor: '#3a2a1a',
@@ -140,6 +149,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'questioning',
       talkingSound: 'mysterious'  // Ethereal sounds for Jung's dreamlike approach
     },
+    cloudVoice: { name: 'en-US-Neural2-J', gender: 'MALE' },
     model3D: {
       bodyColor: '#9a9a9a',
       accessoryColor: '#6a6a6a',
@@ -188,6 +198,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'encouraging',
       talkingSound: 'click'  // Crisp, practical sounds for Adler
     },
+    cloudVoice: { name: 'en-US-Neural2-A', gender: 'MALE' },
     model3D: {
       bodyColor: '#4a7c59',
       accessoryColor: '#2d5a3d',
@@ -236,6 +247,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'encouraging',
       talkingSound: 'chime'  // Bright, hopeful chimes for Seligman
     },
+    cloudVoice: { name: 'en-US-Wavenet-D', gender: 'MALE' },
     model3D: {
       bodyColor: '#059669',
       accessoryColor: '#047857',
@@ -284,6 +296,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'explaining',
       talkingSound: 'deep'  // Deep, meaningful tones for Frankl
     },
+    cloudVoice: { name: 'en-US-Wavenet-J', gender: 'MALE' },
     model3D: {
       bodyColor: '#475569',
       accessoryColor: '#334155',
@@ -332,6 +345,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'explaining',
       talkingSound: 'whisper'  // Stoic, airy tones for Epictetus
     },
+    cloudVoice: { name: 'en-US-Wavenet-B', gender: 'MALE' },
     model3D: {
       bodyColor: '#57534e',
       accessoryColor: '#44403c',
@@ -380,6 +394,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'commanding',
       talkingSound: 'beep'  // Sharp, fierce beeps for Nietzsche
     },
+    cloudVoice: { name: 'en-GB-Neural2-D', gender: 'MALE' },
     model3D: {
       bodyColor: '#991b1b',
       accessoryColor: '#7f1d1d',
@@ -428,6 +443,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'explaining',
       talkingSound: 'playful'  // Bouncy, energetic sounds for Csikszentmihalyi
     },
+    cloudVoice: { name: 'en-AU-Neural2-B', gender: 'MALE' },
     model3D: {
       bodyColor: '#2563eb',
       accessoryColor: '#1d4ed8',
@@ -495,6 +511,7 @@ Remember: You're the cheeky employee who became a reliable assistant. Helpful, h
       defaultIntent: 'explaining',
       talkingSound: 'blip'  // Casual, friendly blips for Bob
     },
+    cloudVoice: { name: 'en-US-Neural2-I', gender: 'MALE' },
     model3D: {
       bodyColor: '#f59e0b',
       accessoryColor: '#d97706',
@@ -543,6 +560,7 @@ Otherwise, favor concise, impactful insights.`,
       defaultIntent: 'commanding',
       talkingSound: 'pop'  // Bold, adventurous pops for Blackbeard
     },
+    cloudVoice: { name: 'en-GB-Neural2-B', gender: 'MALE' },
     model3D: {
       bodyColor: '#1e293b',
       accessoryColor: '#64748b',
@@ -617,6 +635,6 @@ export function getAllCharacters(): CharacterBehavior[] {
 
 // Get the effective system prompt for a character
 // Now includes identity enforcement rules for staying in character
-export function getCharacterPrompt(character: CharacterBehavior): string {
-  return buildCharacterIdentityPrompt(character);
+export function getCharacterPrompt(character: CharacterBehavior, memories: string[] = []): string {
+  return buildCharacterIdentityPrompt(character, memories);
 }
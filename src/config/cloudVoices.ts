@@ -0,0 +1,245 @@
+/**
+ * Cloud Voice Configuration
+ *
+ * Google Cloud TTS voices for characters. Each character stores a
+ * CharacterCloudVoice (built-ins in characters.ts, custom Wakattors in the
+ * custom_wakattors.cloud_voice column); characters without one get a voice
+ * derived from their CharacterVoiceProfile and customization.gender.
+ *
+ * Per-segment expression (mood, volume, pace) is layered on top by SSML
+ * prosody (see ssmlBuilder.ts) - the cloud voice is only the base timbre.
+ *
+ * Stored voices are English. In other conversation languages a character
+ * speaks with the closest voice (same gender and register) of that language.
+ */
+
+import type { CharacterBehavior, GenderType } from './characters';
+import { CharacterVoiceProfile, VoicePitch } from './voiceConfig';
+import { LanguageCode, DEFAULT_LANGUAGE } from './languages';
+
+export type CloudVoiceGender = 'MALE' | 'FEMALE';
+
+// How high the voice sits naturally - matched against the profile pitch
+export type CloudVoiceRegister = 'low' | 'mid' | 'high';
+
+export interface CloudVoiceInfo {
+  name: string;
+  gender: CloudVoiceGender;
+  register: CloudVoiceRegister;
+  label: string;
+}
+
+/**
+ * A character's cloud voice
+ */
+export interface CharacterCloudVoice {
+  name: string;             // Google voice name, e.g. 'en-US-Neural2-D'
+  gender: CloudVoiceGender;
+  pitch?: number;           // Semitone offset - tells apart characters sharing a voice
+}
+
+export const CLOUD_VOICES: CloudVoiceInfo[] = [
+  // Male
+  { name: 'en-US-Neural2-D', gender: 'MALE', register: 'low', label: 'Deep & calm (US)' },
+  { name: 'en-US-Wavenet-B', gender: 'MALE', register: 'low', label: 'Resonant (US)' },
+  { name: 'en-US-Wavenet-J', gender: 'MALE', register: 'low', label: 'Gravelly (US)' },
+  { name: 'en-GB-Neural2-B', gender: 'MALE', register: 'low', label: 'Deep (UK)' },
+  { name: 'en-US-Neural2-J', gender: 'MALE', register: 'mid', label: 'Warm & friendly (US)' },
+  { name: 'en-US-Neural2-A', gender: 'MALE', register: 'mid', label: 'Clear & professional (US)' },
+  { name: 'en-US-Wavenet-D', gender: 'MALE', register: 'mid', label: 'Steady (US)' },
+  { name: 'en-GB-Neural2-D', gender: 'MALE', register: 'mid', label: 'Measured (UK)' },
+  { name: 'en-AU-Neural2-B', gender: 'MALE', register: 'mid', label: 'Relaxed (AU)' },
+  { name: 'en-US-Neural2-I', gender: 'MALE', register: 'high', label: 'Bright & young (US)' },
+  { name: 'en-US-Wavenet-I', gender: 'MALE', register: 'high', label: 'Energetic (US)' },
+  // Female
+  { name: 'en-US-Neural2-E', gender: 'FEMALE', register: 'low', label: 'Low & smooth (US)' },
+  { name: 'en-GB-Neural2-C', gender: 'FEMALE', register: 'low', label: 'Rich (UK)' },
+  { name: 'en-US-Neural2-F', gender: 'FEMALE', register: 'mid', label: 'Warm (US)' },
+  { name: 'en-US-Neural2-C', gender: 'FEMALE', register: 'mid', label: 'Clear (US)' },
+  { name: 'en-GB-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Crisp (UK)' },
+  { name: 'en-AU-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Friendly (AU)' },
+  { name: 'en-US-Neural2-G', gender: 'FEMALE', register: 'high', label: 'Bright (US)' },
+  { name: 'en-US-Neural2-H', gender: 'FEMALE', register: 'high', label: 'Light & lively (US)' },
+
+  // Spanish
+  { name: 'es-ES-Neural2-B', gender: 'MALE', register: 'low', label: 'Deep (ES)' },
+  { name: 'es-ES-Neural2-F', gender: 'MALE', register: 'mid', label: 'Warm (ES)' },
+  { name: 'es-ES-Neural2-C', gender: 'FEMALE', register: 'low', label: 'Smooth (ES)' },
+  { name: 'es-ES-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Clear (ES)' },
+  { name: 'es-ES-Neural2-E', gender: 'FEMALE', register: 'high', label: 'Bright (ES)' },
+  // French
+  { name: 'fr-FR-Neural2-B', gender: 'MALE', register: 'low', label: 'Deep (FR)' },
+  { name: 'fr-FR-Neural2-D', gender: 'MALE', register: 'mid', label: 'Warm (FR)' },
+  { name: 'fr-FR-Neural2-C', gender: 'FEMALE', register: 'low', label: 'Smooth (FR)' },
+  { name: 'fr-FR-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Clear (FR)' },
+  { name: 'fr-FR-Neural2-E', gender: 'FEMALE', register: 'high', label: 'Bright (FR)' },
+  // German
+  { name: 'de-DE-Neural2-B', gender: 'MALE', register: 'low', label: 'Deep (DE)' },
+  { name: 'de-DE-Neural2-D', gender: 'MALE', register: 'mid', label: 'Warm (DE)' },
+  { name: 'de-DE-Neural2-C', gender: 'FEMALE', register: 'low', label: 'Smooth (DE)' },
+  { name: 'de-DE-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Clear (DE)' },
+  { name: 'de-DE-Neural2-F', gender: 'FEMALE', register: 'high', label: 'Bright (DE)' },
+  // Italian
+  { name: 'it-IT-Wavenet-D', gender: 'MALE', register: 'low', label: 'Deep (IT)' },
+  { name: 'it-IT-Neural2-C', gender: 'MALE', register: 'mid', label: 'Warm (IT)' },
+  { name: 'it-IT-Wavenet-B', gender: 'FEMALE', register: 'low', label: 'Smooth (IT)' },
+  { name: 'it-IT-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Clear (IT)' },
+  // Portuguese
+  { name: 'pt-BR-Wavenet-B', gender: 'MALE', register: 'low', label: 'Deep (BR)' },
+  { name: 'pt-BR-Neural2-B', gender: 'MALE', register: 'mid', label: 'Warm (BR)' },
+  { name: 'pt-BR-Neural2-A', gender: 'FEMALE', register: 'mid', label: 'Clear (BR)' },
+  { name: 'pt-BR-Neural2-C', gender: 'FEMALE', register: 'high', label: 'Bright (BR)' },
+  // Japanese
+  { name: 'ja-JP-Neural2-D', gender: 'MALE', register: 'low', label: 'Deep (JP)' },
+  { name: 'ja-JP-Neural2-C', gender: 'MALE', register: 'mid', label: 'Warm (JP)' },
+  { name: 'ja-JP-Wavenet-A', gender: 'FEMALE', register: 'mid', label: 'Clear (JP)' },
+  { name: 'ja-JP-Neural2-B', gender: 'FEMALE', register: 'high', label: 'Bright (JP)' },
+];
+
+const PITCH_REGISTERS: Record<VoicePitch, CloudVoiceRegister> = {
+  deep: 'low',
+  low: 'low',
+  medium: 'mid',
+  high: 'high',
+  shrill: 'high',
+};
+
+const REGISTER_ORDER: CloudVoiceRegister[] = ['low', 'mid', 'high'];
+
+// Offsets tried, in order, when a scene has more characters than distinct voices
+const PITCH_OFFSETS = [0, 2, -2, 4, -4];
+
+export function getCloudVoiceInfo(name: string): CloudVoiceInfo | undefined {
+  return CLOUD_VOICES.find(voice => voice.name === name);
+}
+
+/**
+ * Language code a voice belongs to ('en-GB-Neural2-B' → 'en-GB')
+ */
+export function getCloudVoiceLanguage(name: string): string {
+  return name.split('-').slice(0, 2).join('-');
+}
+
+function isVoiceForLanguage(name: string, language: LanguageCode): boolean {
+  return name.startsWith(`${language}-`);
+}
+
+function genderToCloudGender(gender?: GenderType): CloudVoiceGender | undefined {
+  if (gender === 'male') return 'MALE';
+  if (gender === 'female') return 'FEMALE';
+  return undefined;
+}
+
+// Stable hash so a character always gets the same voice among equal candidates
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// Voices of a language and gender (both if undefined), closest to the register first
+function rankVoices(
+  language: LanguageCode,
+  gender: CloudVoiceGender | undefined,
+  register: CloudVoiceRegister
+): CloudVoiceInfo[] {
+  const target = REGISTER_ORDER.indexOf(register);
+  return CLOUD_VOICES
+    .filter(voice => isVoiceForLanguage(voice.name, language) && (!gender || voice.gender === gender))
+    .map((voice, index) => ({ voice, index, distance: Math.abs(REGISTER_ORDER.indexOf(voice.register) - target) }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .map(entry => entry.voice);
+}
+
+/**
+ * Voices for a gender (both for neutral), closest register to the profile first
+ */
+export function getCloudVoiceCandidates(
+  voiceProfile?: CharacterVoiceProfile,
+  gender?: GenderType,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): CloudVoiceInfo[] {
+  return rankVoices(language, genderToCloudGender(gender), PITCH_REGISTERS[voiceProfile?.pitch ?? 'medium']);
+}
+
+/**
+ * The same voice in another language: closest register of the same gender
+ * (pitch offset kept). Voices already in the language are returned as is.
+ */
+export function localizeCloudVoice(voice: CharacterCloudVoice, language: LanguageCode): CharacterCloudVoice {
+  if (isVoiceForLanguage(voice.name, language)) return voice;
+
+  const candidates = rankVoices(language, voice.gender, getCloudVoiceInfo(voice.name)?.register ?? 'mid');
+  if (candidates.length === 0) return voice;
+  const best = candidates.filter(candidate => candidate.register === candidates[0].register);
+  const localized = best[hashString(voice.name) % best.length];
+  return { name: localized.name, gender: localized.gender, pitch: voice.pitch };
+}
+
+/**
+ * Derive a cloud voice from a voice profile and gender
+ * The seed (character id) picks among equally good voices, so characters with
+ * the same profile usually still differ.
+ */
+export function deriveCloudVoice(
+  voiceProfile: CharacterVoiceProfile | undefined,
+  gender: GenderType | undefined,
+  seed: string
+): CharacterCloudVoice {
+  const candidates = getCloudVoiceCandidates(voiceProfile, gender);
+  const best = candidates.filter(voice => voice.register === candidates[0].register);
+  const voice = best[hashString(seed) % best.length];
+  return { name: voice.name, gender: voice.gender };
+}
+
+/**
+ * A character's stored cloud voice, or one derived from their profile and gender
+ */
+export function getCharacterCloudVoice(character: CharacterBehavior): CharacterCloudVoice {
+  if (character.cloudVoice && getCloudVoiceInfo(character.cloudVoice.name)) {
+    return character.cloudVoice;
+  }
+  return deriveCloudVoice(character.voiceProfile, character.customization?.gender, character.id);
+}
+
+/**
+ * Cloud voices for everyone in a scene, no two alike
+ * Characters keep their own voice (localized to the language) in order; a later
+ * character whose voice is taken moves to the nearest free voice of their
+ * gender, and once those run out shares a voice at a different pitch offset.
+ */
+export function assignSceneCloudVoices(
+  characters: CharacterBehavior[],
+  language: LanguageCode = DEFAULT_LANGUAGE
+): Map<string, CharacterCloudVoice> {
+  const assigned = new Map<string, CharacterCloudVoice>();
+  const taken = new Set<string>();
+  const key = (voice: CharacterCloudVoice) => `${voice.name}:${voice.pitch ?? 0}`;
+
+  characters.forEach(character => {
+    const own = localizeCloudVoice(getCharacterCloudVoice(character), language);
+    let voice: CharacterCloudVoice | undefined = taken.has(key(own)) ? undefined : own;
+
+    if (!voice) {
+      const candidates = getCloudVoiceCandidates(character.voiceProfile, character.customization?.gender, language);
+      // Any free voice at the character's own pitch first, then shifted pitches (own voice tried first)
+      const names = [own.name, ...candidates.map(candidate => candidate.name).filter(name => name !== own.name)];
+      for (const offset of PITCH_OFFSETS) {
+        const name = names.find(candidate => !taken.has(`${candidate}:${(own.pitch ?? 0) + offset}`));
+        if (name) {
+          const info = getCloudVoiceInfo(name);
+          voice = { name, gender: info?.gender ?? own.gender, pitch: (own.pitch ?? 0) + offset || undefined };
+          break;
+        }
+      }
+    }
+
+    const result = voice ?? own;
+    taken.add(key(result));
+    assigned.set(character.id, result);
+  });
+
+  return assigned;
+}
@@ -0,0 +1,60 @@
+/**
+ * Conversation Languages
+ *
+ * Languages the characters can talk in. The user picks a default in Settings
+ * (languagePreference.ts) and a conversation can override it
+ * (conversations.language). The language drives speech recognition (Web Speech
+ * and Whisper), TTS voices, greeting templates and a reply instruction in the
+ * orchestration prompt.
+ */
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'ja';
+
+export interface LanguageInfo {
+  code: LanguageCode;      // ISO 639-1 - Whisper language, greeting/voice lookup
+  locale: string;          // BCP-47 - Web Speech, device TTS, cloud TTS languageCode
+  name: string;            // English name (used in the LLM prompt)
+  nativeName: string;      // Shown in the language pickers
+  flag: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { code: 'en', locale: 'en-US', name: 'English', nativeName: 'English', flag: '🇺🇸' },
+  es: { code: 'es', locale: 'es-ES', name: 'Spanish', nativeName: 'Español', flag: '🇪🇸' },
+  fr: { code: 'fr', locale: 'fr-FR', name: 'French', nativeName: 'Français', flag: '🇫🇷' },
+  de: { code: 'de', locale: 'de-DE', name: 'German', nativeName: 'Deutsch', flag: '🇩🇪' },
+  it: { code: 'it', locale: 'it-IT', name: 'Italian', nativeName: 'Italiano', flag: '🇮🇹' },
+  pt: { code: 'pt', locale: 'pt-BR', name: 'Portuguese', nativeName: 'Português', flag: '🇧🇷' },
+  ja: { code: 'ja', locale: 'ja-JP', name: 'Japanese', nativeName: '日本語', flag: '🇯🇵' },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Validate a language from storage, accepting locales too ('es-MX' → 'es')
+ */
+export function parseLanguageCode(value: unknown): LanguageCode | undefined {
+  if (typeof value !== 'string') return undefined;
+  const code = value.toLowerCase().trim().split(/[-_]/)[0];
+  return LANGUAGE_CODES.includes(code as LanguageCode) ? code as LanguageCode : undefined;
+}
+
+export function getLanguage(code?: string | null): LanguageInfo {
+  return LANGUAGES[parseLanguageCode(code) ?? DEFAULT_LANGUAGE];
+}
+
+/**
+ * Reply-language section for the orchestration prompt (empty for English)
+ */
+export function getLanguageInstruction(code?: LanguageCode): string {
+  if (!code || code === DEFAULT_LANGUAGE) return '';
+  const { name, nativeName } = LANGUAGES[code];
+
+  return `
+## Language: ${name} (${nativeName})
+The user is talking in ${name}. Every character speaks ${name} - write all dialogue in ${name}, even if earlier messages were in another language.
+Keep JSON keys, character IDs and animation/expression values exactly as specified (in English).
+`;
+}
@@ -53,9 +53,21 @@ export function resetGlobalTemperature(): void {
   globalTemperature = DEFAULT_GLOBAL_TEMPERATURE;
 }
 
+/**
+ * Conversation history budget
+ * When the history sent with a prompt exceeds recentMessages or maxHistoryTokens,
+ * older turns are condensed into a rolling summary and only recent messages are
+ * sent verbatim (see conversationSummaryService).
+ */
+export interface ContextBudget {
+  maxHistoryTokens: number;  // Estimated tokens of raw history before summarizing
+  recentMessages: number;    // Most messages sent verbatim; older ones are summarized
+}
+
 export interface ProviderConfig {
   defaultModel: string;
   parameters: ModelParameters;
+  contextBudget: ContextBudget;
 }
 
 /**
@@ -76,6 +88,10 @@ export const LLM_CONFIG: Record<string, ProviderConfig> = {
       frequencyPenalty: 0.3,
       presencePenalty: 0.3,
     },
+    contextBudget: {
+      maxHistoryTokens: 6000,
+      recentMessages: 16,
+    },
   },
   anthropic: {
     defaultModel: 'claude-3-5-sonnet-20241022', // Claude 3.5 Sonnet (best balance)
@@ -85,6 +101,10 @@ export const LLM_CONFIG: Record<string, ProviderConfig> = {
       topP: 0.95,
       topK: 40,
     },
+    contextBudget: {
+      maxHistoryTokens: 8000,
+      recentMessages: 20,
+    },
   },
   anthropic_fast: {
     defaultModel: 'claude-3-haiku-20240307', // 3x faster than Sonnet
@@ -94,6 +114,10 @@ export const LLM_CONFIG: Record<string, ProviderConfig> = {
       topP: 0.95,
       topK: 40,
     },
+    contextBudget: {
+      maxHistoryTokens: 4000,
+      recentMessages: 12,
+    },
   },
   gemini: {
     defaultModel: 'gemini-1.5-pro',
@@ -103,6 +127,10 @@ export const LLM_CONFIG: Record<string, ProviderConfig> = {
       topP: 0.95,
       topK: 40,
     },
+    contextBudget: {
+      maxHistoryTokens: 8000,
+      recentMessages: 20,
+    },
   },
   mock: {
     defaultModel: 'mock',
@@ -110,6 +138,10 @@ export const LLM_CONFIG: Record<string, ProviderConfig> = {
       temperature: 0.7,
       maxTokens: 1000,
     },
+    contextBudget: {
+      maxHistoryTokens: 2000,
+      recentMessages: 8,
+    },
   },
 };
 
@@ -143,6 +175,13 @@ export function getProviderConfig(provider: string): ProviderConfig {
   return LLM_CONFIG[provider] || LLM_CONFIG.anthropic;
 }
 
+/**
+ * Get the conversation history budget for a provider
+ */
+export function getContextBudget(provider: string): ContextBudget {
+  return getProviderConfig(provider).contextBudget;
+}
+
 /**
  * Get model parameters with optional overrides
  */
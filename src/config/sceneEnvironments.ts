@@ -0,0 +1,145 @@
+/**
+ * Scene Environments
+ *
+ * Themed 3D backdrops drawn behind the characters, each with a lighting preset
+ * that also tints the characters. Chosen per conversation (conversations.environment),
+ * suggested by stories, or switched by the LLM with "env" in a scene.
+ */
+
+export type SceneEnvironmentId =
+  | 'none'             // Plain background, default lighting
+  | 'therapist_office'
+  | 'campfire'
+  | 'library'
+  | 'stage';
+
+/**
+ * Lighting applied to the backdrop and to each character canvas
+ */
+export interface LightingPreset {
+  ambientColor: string;
+  ambientIntensity: number;    // Multiplier on the default ambient intensity
+  keyColor: string;            // Frontal light color
+  keyIntensity: number;        // Multiplier on the default frontal light intensity
+  rimColor?: string;           // Optional colored light from behind/side
+  rimIntensity?: number;
+  flicker?: boolean;           // Key light flickers (fire)
+}
+
+export interface SceneEnvironment {
+  id: SceneEnvironmentId;
+  name: string;
+  icon: string;
+  description: string;
+  backgroundColor: string;
+  floorColor: string;
+  fogColor?: string;
+  lighting: LightingPreset;
+}
+
+export const SCENE_ENVIRONMENTS: Record<SceneEnvironmentId, SceneEnvironment> = {
+  none: {
+    id: 'none',
+    name: 'None',
+    icon: '⬛',
+    description: 'No backdrop',
+    backgroundColor: '#0f0f0f',
+    floorColor: '#171717',
+    lighting: {
+      ambientColor: '#ffffff',
+      ambientIntensity: 1,
+      keyColor: '#ffffff',
+      keyIntensity: 1,
+    },
+  },
+  therapist_office: {
+    id: 'therapist_office',
+    name: "Therapist's Office",
+    icon: '🛋️',
+    description: 'Couch, lamp and bookshelf - warm and quiet',
+    backgroundColor: '#3b2f2a',
+    floorColor: '#5b4636',
+    lighting: {
+      ambientColor: '#ffe8cc',
+      ambientIntensity: 1.1,
+      keyColor: '#ffd9a8',
+      keyIntensity: 0.95,
+      rimColor: '#ffb366',
+      rimIntensity: 0.3,
+    },
+  },
+  campfire: {
+    id: 'campfire',
+    name: 'Campfire',
+    icon: '🔥',
+    description: 'Night in the woods around a crackling fire',
+    backgroundColor: '#0b1020',
+    floorColor: '#1f2a1a',
+    fogColor: '#0b1020',
+    lighting: {
+      ambientColor: '#6b7bb3',
+      ambientIntensity: 0.6,
+      keyColor: '#ff9a3c',
+      keyIntensity: 1.2,
+      rimColor: '#ff6a00',
+      rimIntensity: 0.6,
+      flicker: true,
+    },
+  },
+  library: {
+    id: 'library',
+    name: 'Library',
+    icon: '📚',
+    description: 'Tall shelves and green reading lamps',
+    backgroundColor: '#2a2418',
+    floorColor: '#3d2b1f',
+    lighting: {
+      ambientColor: '#f5e6c8',
+      ambientIntensity: 0.9,
+      keyColor: '#fff1d6',
+      keyIntensity: 0.9,
+      rimColor: '#7fd18b',
+      rimIntensity: 0.2,
+    },
+  },
+  stage: {
+    id: 'stage',
+    name: 'Stage',
+    icon: '🎭',
+    description: 'Red curtains and spotlights',
+    backgroundColor: '#12060a',
+    floorColor: '#2b1a10',
+    lighting: {
+      ambientColor: '#d6c7ff',
+      ambientIntensity: 0.5,
+      keyColor: '#fff6e0',
+      keyIntensity: 1.3,
+      rimColor: '#ff3366',
+      rimIntensity: 0.4,
+    },
+  },
+};
+
+export const SCENE_ENVIRONMENT_IDS = Object.keys(SCENE_ENVIRONMENTS) as SceneEnvironmentId[];
+
+/**
+ * Validate an environment id from storage or LLM output
+ */
+export function parseSceneEnvironmentId(value: unknown): SceneEnvironmentId | undefined {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.toLowerCase().trim().replace(/[\s-]+/g, '_');
+  return SCENE_ENVIRONMENT_IDS.includes(normalized as SceneEnvironmentId)
+    ? normalized as SceneEnvironmentId
+    : undefined;
+}
+
+export function getSceneEnvironment(id?: string | null): SceneEnvironment {
+  return SCENE_ENVIRONMENTS[parseSceneEnvironmentId(id) ?? 'none'];
+}
+
+/**
+ * Environment ids for the LLM prompt
+ */
+export function getSceneEnvironmentsList(): string {
+  return SCENE_ENVIRONMENT_IDS.join(', ');
+}
@@ -0,0 +1,137 @@
+/**
+ * Animation option lists shared by the Animations screen controls and the
+ * scene timeline editor (labels and icons for each state)
+ */
+
+import {
+  AnimationState,
+  LookDirection,
+  EyeState,
+  MouthState,
+  VisualEffect,
+  ModelStyle,
+} from '../components/CharacterDisplay3D';
+
+// 3D model styles (persisted per character in customization.modelStyle)
+export const MODEL_STYLE_OPTIONS: { value: ModelStyle; label: string; icon: string; description: string }[] = [
+  { value: 'blocky', label: 'Blocky', icon: '🧱', description: 'Classic cubes' },
+  { value: 'chibi', label: 'Chibi', icon: '🍡', description: 'Round & big-headed' },
+  { value: 'paper', label: 'Paper', icon: '✂️', description: 'Flat cutout' },
+];
+
+// All available base animations
+export const ALL_ANIMATIONS: { name: AnimationState; description: string; category: string }[] = [
+  // Basic animations
+  { name: 'idle', description: 'Default resting state with subtle breathing', category: 'Basic' },
+  { name: 'thinking', description: 'Hand on chin, contemplative pose', category: 'Basic' },
+  { name: 'talking', description: 'Animated gestures while speaking', category: 'Basic' },
+  { name: 'confused', description: 'Head tilting, scratching head', category: 'Basic' },
+  { name: 'happy', description: 'Bouncing, swaying joyfully', category: 'Basic' },
+  { name: 'excited', description: 'Fast bouncing, waving arms', category: 'Basic' },
+  
+  // Movement animations
+  { name: 'walking', description: 'Walking motion with arm swing', category: 'Movement' },
+  { name: 'jump', description: 'Simple jumping animation', category: 'Movement' },
+  { name: 'winning', description: 'Victory celebration with arms up', category: 'Movement' },
+  { name: 'dance', description: 'Celebratory dancing with rhythm', category: 'Movement' },
+  { name: 'stretch', description: 'Stretching arms up, yawning', category: 'Movement' },
+  
+  // Reaction animations
+  { name: 'surprise_jump', description: 'Startled jump with hands out', category: 'Reaction' },
+  { name: 'laugh', description: 'Laughing with head thrown back', category: 'Reaction' },
+  { name: 'celebrate', description: 'Arms up celebration, jumping', category: 'Reaction' },
+  
+  // Body language animations
+  { name: 'lean_back', description: 'Leaning back, skeptical or relaxed', category: 'Body Language' },
+  { name: 'lean_forward', description: 'Leaning forward, engaged and interested', category: 'Body Language' },
+  { name: 'cross_arms', description: 'Arms crossed, reserved stance', category: 'Body Language' },
+  { name: 'nod', description: 'Nodding in agreement', category: 'Body Language' },
+  { name: 'shake_head', description: 'Shaking head in disagreement', category: 'Body Language' },
+  { name: 'shrug', description: 'Shoulders up, uncertainty gesture', category: 'Body Language' },
+  { name: 'peek', description: 'Curious peeking to the side', category: 'Body Language' },
+  
+  // Gestures
+  { name: 'wave', description: 'Waving hello or goodbye', category: 'Gestures' },
+  { name: 'point', description: 'Pointing for emphasis', category: 'Gestures' },
+  { name: 'clap', description: 'Clapping in applause', category: 'Gestures' },
+  { name: 'bow', description: 'Respectful bow', category: 'Gestures' },
+  { name: 'facepalm', description: 'Hand to face in frustration', category: 'Gestures' },
+  
+  // Emotional animations
+  { name: 'cry', description: 'Sad crying, hunched over', category: 'Emotional' },
+  { name: 'angry', description: 'Angry tense stance, clenched fists', category: 'Emotional' },
+  { name: 'nervous', description: 'Fidgeting nervously, looking around', category: 'Emotional' },
+  { name: 'doze', description: 'Sleepy, head drooping, eyes closing', category: 'Emotional' },
+  
+  // Idle animations
+  { name: 'kick_ground', description: 'Kicking at ground, looking down', category: 'Idle' },
+  { name: 'meh', description: 'Bored shrug, disinterested posture', category: 'Idle' },
+  { name: 'foot_tap', description: 'Impatient foot tapping', category: 'Idle' },
+  { name: 'look_around', description: 'Curious looking left and right', category: 'Idle' },
+  { name: 'yawn', description: 'Yawning with mouth wide open', category: 'Idle' },
+  { name: 'rub_eyes', description: 'Tiredly rubbing eyes', category: 'Idle' },
+  
+  // Processing/thinking animations
+  { name: 'head_tilt', description: 'Curious head tilt to the side', category: 'Processing' },
+];
+
+// Look directions
+export const LOOK_DIRECTIONS: { value: LookDirection; label: string; icon: string }[] = [
+  { value: 'center', label: 'Center', icon: '⬤' },
+  { value: 'left', label: 'Left', icon: '←' },
+  { value: 'right', label: 'Right', icon: '→' },
+  { value: 'up', label: 'Up', icon: '↑' },
+  { value: 'down', label: 'Down', icon: '↓' },
+  { value: 'at_left_character', label: 'At Left Char', icon: '👈' },
+  { value: 'at_right_character', label: 'At Right Char', icon: '👉' },
+];
+
+// Eye states
+export const EYE_STATES: { value: EyeState; label: string; icon: string }[] = [
+  { value: 'open', label: 'Open (Auto Blink)', icon: '👁️' },
+  { value: 'closed', label: 'Closed', icon: '😌' },
+  { value: 'wink_left', label: 'Wink Left', icon: '😉' },
+  { value: 'wink_right', label: 'Wink Right', icon: '🙃' },
+  { value: 'blink', label: 'Blinking', icon: '😊' },
+  { value: 'surprised_blink', label: 'Surprised', icon: '😳' },
+  { value: 'wide', label: 'Wide', icon: '😳' },
+  { value: 'narrow', label: 'Narrow/Squinting', icon: '😑' },
+  { value: 'soft', label: 'Soft/Warm', icon: '😌' },
+  { value: 'half_closed', label: 'Half Closed', icon: '😏' },
+  { value: 'tearful', label: 'Tearful/Wet', icon: '🥺' },
+];
+
+// Mouth states
+export const MOUTH_STATES: { value: MouthState; label: string; icon: string }[] = [
+  { value: 'closed', label: 'Closed', icon: '😐' },
+  { value: 'open', label: 'Open', icon: '😮' },
+  { value: 'smile', label: 'Smile', icon: '🙂' },
+  { value: 'wide_smile', label: 'Wide Smile', icon: '😄' },
+  { value: 'surprised', label: 'Surprised', icon: '😲' },
+  { value: 'smirk', label: 'Smirk', icon: '😏' },
+  { value: 'slight_smile', label: 'Slight Smile', icon: '🙂' },
+  { value: 'sad_smile', label: 'Sad Smile', icon: '🙁' },
+  { value: 'grimace', label: 'Grimace', icon: '😬' },
+  { value: 'tense', label: 'Tense/Pressed', icon: '😑' },
+  { value: 'kiss', label: 'Kiss Lips', icon: '😘' },
+  { value: 'teeth_showing', label: 'Teeth Showing', icon: '😬' },
+  { value: 'big_grin', label: 'Big Grin', icon: '😃' },
+  { value: 'o_shape', label: 'O-Shape', icon: '😯' },
+];
+
+// Visual effects
+export const VISUAL_EFFECTS: { value: VisualEffect; label: string; icon: string }[] = [
+  { value: 'none', label: 'None', icon: '⚪' },
+  { value: 'confetti', label: 'Confetti', icon: '🎊' },
+  { value: 'spotlight', label: 'Spotlight', icon: '🔦' },
+  { value: 'sparkles', label: 'Sparkles', icon: '✨' },
+  { value: 'hearts', label: 'Hearts', icon: '💕' },
+  // New emoji-triggered effects
+  { value: 'fire', label: 'Fire', icon: '🔥' },
+  { value: 'stars', label: 'Stars', icon: '⭐' },
+  { value: 'music_notes', label: 'Music', icon: '🎵' },
+  { value: 'tears', label: 'Tears', icon: '😢' },
+  { value: 'anger', label: 'Anger', icon: '😡' },
+  { value: 'snow', label: 'Snow', icon: '❄️' },
+  { value: 'rainbow', label: 'Rainbow', icon: '🌈' },
+];
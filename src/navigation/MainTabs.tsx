@@ -4,9 +4,9 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { ChatInterface } from '../components/ChatInterface';
 import { JoinConversation } from '../components/JoinConversation';
-import { View, StyleSheet, Platform, TouchableOpacity, Text } from 'react-native';
+import { View, StyleSheet, Platform, TouchableOpacity, Text, AppState } from 'react-native';
 import { useSelector, useDispatch, useStore } from 'react-redux';
-import { RootState } from '../store';
+import { AppDispatch, RootState } from '../store';
 import { Header } from '../components/Header';
 import { ChatSidebar } from '../components/ChatSidebar';
 import { useCustomAlert } from '../components/CustomAlert';
@@ -16,12 +16,15 @@ import { useSimpleNavigation } from './AppNavigator';
 import {
   loadConversations,
   selectConversation,
+  jumpToMessage,
   createConversation,
   createOrNavigateToTutorial,
   saveMessage,
   renameConversation,
   deleteConversation,
   deleteMessage,
+  editMessage,
+  replaceAssistantTurn,
 } from '../store/actions/conversationActions';
 import { getCharacter } from '../config/characters';
 import { getBobGreeting, getBobPostTrialPitch } from '../services/characterGreetings';
@@ -34,6 +37,9 @@ import {
 import { OrchestrationScene, createFallbackScene, fillGapsForNonSpeakers } from '../services/animationOrchestration';
 import { isStreamingSupported, warmupAuthCache, warmupEdgeFunction } from '../services/aiService';
 import { generateConversationTitle } from '../services/conversationTitleGenerator';
+import { exportConversations, type ExportFormat } from '../services/conversationExportService';
+import { extractConversationMemories } from '../services/memoryService';
+import { languagePreference } from '../services/languagePreference';
 import { getProfiler, PROFILE_OPS, ProfileSession } from '../services/profilingService';
 import { 
   messageQueueService, 
@@ -47,6 +53,7 @@ import { ProfilingDashboard, useProfilingDashboard } from '../components/Profili
 import SettingsScreen from '../screens/SettingsScreen';
 import LibraryScreen from '../screens/LibraryScreen';
 import AnimationsScreen from '../screens/AnimationsScreen';
+import KnowledgeGraphScreen from '../screens/KnowledgeGraphScreen';
 import CharacterSelectionScreen from '../screens/CharacterSelectionScreen';
 import { fetchOnboarding, incrementOnboardingMessageCount } from '../store/actions/usageActions';
 import { 
@@ -58,8 +65,15 @@ import {
 
 const Tab = createBottomTabNavigator();
 
+// New user messages in one sitting before memories are extracted without leaving the conversation
+const MEMORY_EXTRACTION_INTERVAL = 10;
+
+// The turn's scene is stored on its first assistant message so it can be replayed later
+const getTurnMetadata = (scene: OrchestrationScene, index: number) =>
+  index === 0 ? { scene } : undefined;
+
 export default function MainTabs() {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const store = useStore();
   const { showAlert, AlertComponent } = useCustomAlert();
   const { conversations, currentConversation, messages } = useSelector((state: RootState) => state.conversations);
@@ -101,7 +115,7 @@ export default function MainTabs() {
   const GENERATION_GRACE_PERIOD_MS = 5000; // 5 seconds grace period after our own generation
 
   // State for active tab (custom tab bar since Tab.Navigator doesn't work on web)
-  type TabName = 'Home' | 'Wakattors' | 'Library' | 'Animations' | 'Settings';
+  type TabName = 'Home' | 'Wakattors' | 'Library' | 'Animations' | 'Graph' | 'Settings';
   const [activeTab, setActiveTab] = useState<TabName>('Home');
 
   // Hide sidebar by default
@@ -222,6 +236,7 @@ export default function MainTabs() {
       setAnimationScene(null);
 
       const shouldUseStreaming = useStreaming && isStreamingSupported();
+      const config = { language: languagePreference.resolve(currentConversation.language) };
 
       let scene: OrchestrationScene;
       let characterResponses: any[];
@@ -244,7 +259,7 @@ export default function MainTabs() {
             },
             onError: () => setEarlyAnimationSetup(null),
           },
-          undefined,
+          config,
           batch.conversationId
         );
         scene = result.scene;
@@ -254,7 +269,7 @@ export default function MainTabs() {
           formattedContent,
           batch.selectedCharacters,
           conversationHistory,
-          undefined,
+          config,
           batch.conversationId
         );
         scene = result.scene;
@@ -265,12 +280,13 @@ export default function MainTabs() {
       setStreamingProgress(0);
 
       // Save responses (fire and forget)
-      const savePromises = characterResponses.map(response =>
+      const savePromises = characterResponses.map((response, index) =>
         dispatch(saveMessage(
           batch.conversationId,
           'assistant',
           response.content,
-          response.characterId
+          response.characterId,
+          getTurnMetadata(scene, index)
         ) as any)
       );
       Promise.all(savePromises).catch(console.error);
@@ -313,6 +329,54 @@ export default function MainTabs() {
     };
   }, [currentConversation?.id, currentConversation?.selected_characters, processBatchedMessages]);
 
+  // Summarize conversations into long-term memories: when the user leaves one, when the
+  // app goes to the background or closes, and every few user messages in a long session.
+  // Extraction only reads messages since the previous run, so extra triggers are cheap.
+  const extractMemories = useCallback((conversationId: string | null | undefined) => {
+    if (!conversationId) return;
+    extractConversationMemories(conversationId).catch(error => {
+      console.warn('[Memory] Failed to extract memories:', error);
+    });
+  }, []);
+
+  const previousConversationIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const previousId = previousConversationIdRef.current;
+    previousConversationIdRef.current = currentConversation?.id || null;
+
+    if (previousId && previousId !== currentConversation?.id) {
+      extractMemories(previousId);
+    }
+  }, [currentConversation?.id, extractMemories]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background' || state === 'inactive') {
+        extractMemories(previousConversationIdRef.current);
+      }
+    });
+    return () => {
+      subscription.remove();
+      extractMemories(previousConversationIdRef.current);
+    };
+  }, [extractMemories]);
+
+  const userMessageCount = messages.filter(m => m.role === 'user').length;
+  const memoryCheckpointRef = useRef<{ conversationId: string | null; userMessages: number }>({ conversationId: null, userMessages: 0 });
+  useEffect(() => {
+    const conversationId = currentConversation?.id || null;
+    const checkpoint = memoryCheckpointRef.current;
+    if (checkpoint.conversationId !== conversationId || userMessageCount < checkpoint.userMessages) {
+      // Opened (or branched) - count from here
+      memoryCheckpointRef.current = { conversationId, userMessages: userMessageCount };
+      return;
+    }
+    if (userMessageCount - checkpoint.userMessages >= MEMORY_EXTRACTION_INTERVAL) {
+      memoryCheckpointRef.current = { conversationId, userMessages: userMessageCount };
+      extractMemories(conversationId);
+    }
+  }, [currentConversation?.id, userMessageCount, extractMemories]);
+
   // Handle real-time messages from other users - trigger character animations
   const prevMessagesRef = useRef<typeof messages>([]);
   const hasInitializedMessagesRef = useRef(false);
@@ -387,6 +451,14 @@ export default function MainTabs() {
   const onSelectConversation = (conversation: any) => {
     dispatch(selectConversation(conversation) as any);
   };
+
+  // Jump to a message from sidebar search results
+  const onSelectMessage = (conversationId: string, messageId: string) => {
+    setActiveTab('Home');
+    dispatch(jumpToMessage(conversationId, messageId)).catch((error: any) => {
+      showAlert('Error', 'Failed to open message: ' + error.message);
+    });
+  };
   
   const onToggleSidebar = () => {
     // Prevent opening sidebar in mobile landscape mode (limited vertical space)
@@ -495,6 +567,14 @@ export default function MainTabs() {
     }
   };
 
+  const onExportConversation = async (conversationId: string, format: ExportFormat) => {
+    try {
+      await exportConversations(format, [conversationId]);
+    } catch (error: any) {
+      showAlert('Export Failed', error.message || 'Failed to export conversation.');
+    }
+  };
+
   const onDeleteConversation = async (conversationId: string) => {
     try {
       await dispatch(deleteConversation(conversationId) as any);
@@ -515,6 +595,84 @@ export default function MainTabs() {
     }
   };
 
+  // Edit a past user message and regenerate everything after it
+  // The original message and its replies stay reachable as a sibling branch
+  const onEditMessage = async (messageId: string, newContent: string) => {
+    const conversation = currentConversation;
+    const selectedChars = conversation?.selected_characters || [];
+    if (!conversation || selectedChars.length === 0) return;
+
+    setIsLoadingAI(true);
+    try {
+      const { history } = await dispatch(editMessage(messageId, newContent) as any);
+      const { scene, responses } = await runOrchestration(
+        newContent,
+        selectedChars,
+        toConversationHistory(history),
+        conversation.id
+      );
+      setAnimationScene(scene);
+      setStreamingProgress(0);
+
+      await Promise.all(responses.map((response, index) =>
+        dispatch(saveMessage(
+          conversation.id,
+          'assistant',
+          response.content,
+          response.characterId,
+          getTurnMetadata(scene, index)
+        ) as any)
+      ));
+    } catch (error: any) {
+      showAlert('Error', 'Failed to edit message: ' + error.message);
+    } finally {
+      setIsLoadingAI(false);
+      lastGenerationTimestampRef.current = Date.now();
+    }
+  };
+
+  // Re-run orchestration for a single assistant turn
+  // The turn is every assistant message between the prompting user message and the next one
+  const onRegenerateMessage = async (messageId: string) => {
+    const conversation = currentConversation;
+    const selectedChars = conversation?.selected_characters || [];
+    if (!conversation || selectedChars.length === 0) return;
+
+    const index = messages.findIndex(m => m.id === messageId);
+    let userIndex = index;
+    while (userIndex >= 0 && messages[userIndex].role !== 'user') {
+      userIndex--;
+    }
+    if (index === -1 || userIndex < 0) {
+      showAlert('Cannot Regenerate', 'Only replies to your messages can be regenerated.');
+      return;
+    }
+
+    const turnMessages: any[] = [];
+    for (let i = userIndex + 1; i < messages.length && messages[i].role === 'assistant'; i++) {
+      turnMessages.push(messages[i]);
+    }
+
+    setIsLoadingAI(true);
+    try {
+      const { scene, responses } = await runOrchestration(
+        messages[userIndex].content,
+        selectedChars,
+        toConversationHistory(messages.slice(0, userIndex)),
+        conversation.id
+      );
+      setAnimationScene(scene);
+      setStreamingProgress(0);
+
+      await dispatch(replaceAssistantTurn(turnMessages, responses, scene) as any);
+    } catch (error: any) {
+      showAlert('Error', 'Failed to regenerate response: ' + error.message);
+    } finally {
+      setIsLoadingAI(false);
+      lastGenerationTimestampRef.current = Date.now();
+    }
+  };
+
   // Clear history - delete current conversation and create a new one with same characters
   const onClearHistory = async () => {
     if (!currentConversation) return;
@@ -599,7 +757,8 @@ The text behaves as it should be.`;
         conversation.id,
         'assistant',
         TEST_POEM,
-        testCharacter
+        testCharacter,
+        getTurnMetadata(testScene, 0)
       ) as any);
     } catch (error: any) {
       showAlert('Error', 'Failed to play test poem: ' + error.message);
@@ -609,6 +768,73 @@ The text behaves as it should be.`;
     }
   }, [currentConversation, dispatch, showAlert]);
 
+  // Convert stored messages into orchestration history
+  const toConversationHistory = (history: any[]): ConversationMessage[] => history.map(msg => ({
+    id: msg.id,
+    role: msg.role as 'user' | 'assistant',
+    content: msg.content,
+    characterId: msg.characterId,
+    timestamp: new Date(msg.created_at || Date.now()).getTime(),
+  }));
+
+  // Run single-call orchestration for one user turn (streaming when supported)
+  // Shared by sending, editing and regenerating
+  const runOrchestration = async (
+    content: string,
+    selectedCharacters: string[],
+    conversationHistory: ConversationMessage[],
+    conversationId: string
+  ): Promise<{ scene: OrchestrationScene; responses: any[] }> => {
+    // Clear previous animation scene
+    setAnimationScene(null);
+
+    // Use single-call orchestration for ALL character counts (1 or more)
+    const shouldUseStreaming = useStreaming && isStreamingSupported();
+    // Characters reply in the conversation's language
+    const config = { language: languagePreference.resolve(currentConversation?.language) };
+
+    if (shouldUseStreaming) {
+      // Streaming version - shows progress during generation
+      setStreamingProgress(0);
+      setEarlyAnimationSetup(null); // Clear previous early setup
+
+      return generateAnimatedSceneOrchestrationStreaming(
+        content,
+        selectedCharacters,
+        conversationHistory,
+        {
+          onStart: () => {
+            setStreamingProgress(5);
+          },
+          onProgress: (_, percentage) => {
+            setStreamingProgress(percentage);
+          },
+          onEarlySetup: (setup) => {
+            setEarlyAnimationSetup(setup);
+          },
+          onComplete: () => {
+            setStreamingProgress(100);
+            setEarlyAnimationSetup(null);
+          },
+          onError: () => {
+            setEarlyAnimationSetup(null);
+          },
+        },
+        config,
+        conversationId    // For tutorial token limit multiplier (3x)
+      );
+    }
+
+    // Non-streaming version
+    return generateAnimatedSceneOrchestration(
+      content,
+      selectedCharacters,
+      conversationHistory,
+      config,
+      conversationId    // For tutorial token limit multiplier (3x)
+    );
+  };
+
   const handleSendMessage = async (content: string, selectedCharacters: string[]) => {
     // Validate that at least one character is selected
     if (!selectedCharacters || selectedCharacters.length === 0) {
@@ -696,70 +922,14 @@ The text behaves as it should be.`;
           })();
         }
 
-        // Prepare conversation history for multi-character service
-        // Include all existing messages (greetings, etc.) for context
-        const conversationHistory: ConversationMessage[] = messages.map(msg => ({
-          id: msg.id,
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-          characterId: msg.characterId,
-          timestamp: new Date(msg.created_at || Date.now()).getTime(),
-        }));
-
         try {
-          // Clear previous animation scene
-          setAnimationScene(null);
-
-          // Use single-call orchestration for ALL character counts (1 or more)
-          const shouldUseStreaming = useStreaming && isStreamingSupported();
-          
-          let scene: OrchestrationScene;
-          let characterResponses: any[];
-          
-          if (shouldUseStreaming) {
-            // Streaming version - shows progress during generation
-            setStreamingProgress(0);
-            setEarlyAnimationSetup(null); // Clear previous early setup
-
-            const result = await generateAnimatedSceneOrchestrationStreaming(
-              content,
-              selectedCharacters,
-              conversationHistory,
-              {
-                onStart: () => {
-                  setStreamingProgress(5);
-                },
-                onProgress: (_, percentage) => {
-                  setStreamingProgress(percentage);
-                },
-                onEarlySetup: (setup) => {
-                  setEarlyAnimationSetup(setup);
-                },
-                onComplete: () => {
-                  setStreamingProgress(100);
-                  setEarlyAnimationSetup(null);
-                },
-                onError: () => {
-                  setEarlyAnimationSetup(null);
-                },
-              },
-              undefined,        // config overrides
-              conversation.id   // For tutorial token limit multiplier (3x)
-            );
-            scene = result.scene;
-            characterResponses = result.responses;
-          } else {
-            // Non-streaming version
-            const result = await generateAnimatedSceneOrchestration(
-              content,
-              selectedCharacters,
-              conversationHistory,
-              undefined,        // config overrides
-              conversation.id   // For tutorial token limit multiplier (3x)
-            );
-            scene = result.scene;
-            characterResponses = result.responses;
-          }
+          // Include all existing messages (greetings, etc.) for context
+          const { scene, responses: characterResponses } = await runOrchestration(
+            content,
+            selectedCharacters,
+            toConversationHistory(messages),
+            conversation.id
+          );
 
           // Profile animation setup
           const animSetupTimer = profiler.start(PROFILE_OPS.ANIMATION_SETUP);
@@ -771,12 +941,13 @@ The text behaves as it should be.`;
           // Save assistant responses in BACKGROUND (non-blocking parallel saves)
           // This allows the UI to show responses immediately while persisting to DB
           const saveAssistantTimer = profiler.start(PROFILE_OPS.DB_SAVE_ASSISTANT_MESSAGE);
-          const savePromises = characterResponses.map(response =>
+          const savePromises = characterResponses.map((response, index) =>
             dispatch(saveMessage(
               conversation.id,
               'assistant',
               response.content,
-              response.characterId
+              response.characterId,
+              getTurnMetadata(scene, index)
             ) as any)
           );
 
@@ -980,6 +1151,8 @@ The text behaves as it should be.`;
           onJoinConversation={onJoinConversation}
           onRenameConversation={onRenameConversation}
           onDeleteConversation={onDeleteConversation}
+          onSelectMessage={onSelectMessage}
+          onExportConversation={onExportConversation}
         />
       )}
       {!isFullscreen && !isMobileLandscape && <Header />}
@@ -1012,6 +1185,8 @@ The text behaves as it should be.`;
             onToggleSidebar={onToggleSidebar}
             isLoading={isLoadingAI}
             onDeleteMessage={onDeleteMessage}
+            onEditMessage={onEditMessage}
+            onRegenerateMessage={onRegenerateMessage}
             animationScene={animationScene}
             earlyAnimationSetup={earlyAnimationSetup}
             onGreeting={handleGreeting}
@@ -1029,6 +1204,7 @@ The text behaves as it should be.`;
         )}
         {activeTab === 'Library' && <LibraryScreen />}
         {activeTab === 'Animations' && <AnimationsScreen onNavigateToChat={() => setActiveTab('Home')} />}
+        {activeTab === 'Graph' && <KnowledgeGraphScreen onNavigateToChat={() => setActiveTab('Home')} />}
         {activeTab === 'Settings' && <SettingsScreen />}
         </View>
       </View>
@@ -1079,6 +1255,20 @@ The text behaves as it should be.`;
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.tabItem, activeTab === 'Graph' && styles.tabItemActive]}
+            onPress={() => setActiveTab('Graph')}
+          >
+            <Ionicons
+              name={activeTab === 'Graph' ? 'git-network' : 'git-network-outline'}
+              size={22}
+              color={activeTab === 'Graph' ? '#5398BE' : '#71717a'}
+            />
+            <Text style={[styles.tabLabel, activeTab === 'Graph' && styles.tabLabelActive]}>
+              Graph
+            </Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.tabItem, activeTab === 'Settings' && styles.tabItemActive]}
             onPress={() => setActiveTab('Settings')}
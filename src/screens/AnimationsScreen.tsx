@@ -21,126 +21,11 @@ import {
 } from '../components/CharacterDisplay3D';
 import { getCharacter, CharacterBehavior } from '../config/characters';
 import { Card, Badge } from '../components/ui';
+import { SceneTimelineEditor } from '../components/SceneTimelineEditor';
 import { useCharacterLoading } from '../components/ChatInterface/hooks/useCharacterLoading';
 import { expandExpression, getCanonicalExpressions } from '../services/animationOrchestration';
 import { getTalkingSoundsService, TALKING_SOUND_TYPES, TalkingSoundType } from '../services/talkingSoundsService';
-
-// All available base animations
-const ALL_ANIMATIONS: { name: AnimationState; description: string; category: string }[] = [
-  // Basic animations
-  { name: 'idle', description: 'Default resting state with subtle breathing', category: 'Basic' },
-  { name: 'thinking', description: 'Hand on chin, contemplative pose', category: 'Basic' },
-  { name: 'talking', description: 'Animated gestures while speaking', category: 'Basic' },
-  { name: 'confused', description: 'Head tilting, scratching head', category: 'Basic' },
-  { name: 'happy', description: 'Bouncing, swaying joyfully', category: 'Basic' },
-  { name: 'excited', description: 'Fast bouncing, waving arms', category: 'Basic' },
-  
-  // Movement animations
-  { name: 'walking', description: 'Walking motion with arm swing', category: 'Movement' },
-  { name: 'jump', description: 'Simple jumping animation', category: 'Movement' },
-  { name: 'winning', description: 'Victory celebration with arms up', category: 'Movement' },
-  { name: 'dance', description: 'Celebratory dancing with rhythm', category: 'Movement' },
-  { name: 'stretch', description: 'Stretching arms up, yawning', category: 'Movement' },
-  
-  // Reaction animations
-  { name: 'surprise_jump', description: 'Startled jump with hands out', category: 'Reaction' },
-  { name: 'laugh', description: 'Laughing with head thrown back', category: 'Reaction' },
-  { name: 'celebrate', description: 'Arms up celebration, jumping', category: 'Reaction' },
-  
-  // Body language animations
-  { name: 'lean_back', description: 'Leaning back, skeptical or relaxed', category: 'Body Language' },
-  { name: 'lean_forward', description: 'Leaning forward, engaged and interested', category: 'Body Language' },
-  { name: 'cross_arms', description: 'Arms crossed, reserved stance', category: 'Body Language' },
-  { name: 'nod', description: 'Nodding in agreement', category: 'Body Language' },
-  { name: 'shake_head', description: 'Shaking head in disagreement', category: 'Body Language' },
-  { name: 'shrug', description: 'Shoulders up, uncertainty gesture', category: 'Body Language' },
-  { name: 'peek', description: 'Curious peeking to the side', category: 'Body Language' },
-  
-  // Gestures
-  { name: 'wave', description: 'Waving hello or goodbye', category: 'Gestures' },
-  { name: 'point', description: 'Pointing for emphasis', category: 'Gestures' },
-  { name: 'clap', description: 'Clapping in applause', category: 'Gestures' },
-  { name: 'bow', description: 'Respectful bow', category: 'Gestures' },
-  { name: 'facepalm', description: 'Hand to face in frustration', category: 'Gestures' },
-  
-  // Emotional animations
-  { name: 'cry', description: 'Sad crying, hunched over', category: 'Emotional' },
-  { name: 'angry', description: 'Angry tense stance, clenched fists', category: 'Emotional' },
-  { name: 'nervous', description: 'Fidgeting nervously, looking around', category: 'Emotional' },
-  { name: 'doze', description: 'Sleepy, head drooping, eyes closing', category: 'Emotional' },
-  
-  // Idle animations
-  { name: 'kick_ground', description: 'Kicking at ground, looking down', category: 'Idle' },
-  { name: 'meh', description: 'Bored shrug, disinterested posture', category: 'Idle' },
-  { name: 'foot_tap', description: 'Impatient foot tapping', category: 'Idle' },
-  { name: 'look_around', description: 'Curious looking left and right', category: 'Idle' },
-  { name: 'yawn', description: 'Yawning with mouth wide open', category: 'Idle' },
-  { name: 'rub_eyes', description: 'Tiredly rubbing eyes', category: 'Idle' },
-  
-  // Processing/thinking animations
-  { name: 'head_tilt', description: 'Curious head tilt to the side', category: 'Processing' },
-];
-
-// Look directions
-const LOOK_DIRECTIONS: { value: LookDirection; label: string; icon: string }[] = [
-  { value: 'center', label: 'Center', icon: '⬤' },
-  { value: 'left', label: 'Left', icon: '←' },
-  { value: 'right', label: 'Right', icon: '→' },
-  { value: 'up', label: 'Up', icon: '↑' },
-  { value: 'down', label: 'Down', icon: '↓' },
-  { value: 'at_left_character', label: 'At Left Char', icon: '👈' },
-  { value: 'at_right_character', label: 'At Right Char', icon: '👉' },
-];
-
-// Eye states
-const EYE_STATES: { value: EyeState; label: string; icon: string }[] = [
-  { value: 'open', label: 'Open (Auto Blink)', icon: '👁️' },
-  { value: 'closed', label: 'Closed', icon: '😌' },
-  { value: 'wink_left', label: 'Wink Left', icon: '😉' },
-  { value: 'wink_right', label: 'Wink Right', icon: '🙃' },
-  { value: 'blink', label: 'Blinking', icon: '😊' },
-  { value: 'surprised_blink', label: 'Surprised', icon: '😳' },
-  { value: 'wide', label: 'Wide', icon: '😳' },
-  { value: 'narrow', label: 'Narrow/Squinting', icon: '😑' },
-  { value: 'soft', label: 'Soft/Warm', icon: '😌' },
-  { value: 'half_closed', label: 'Half Closed', icon: '😏' },
-  { value: 'tearful', label: 'Tearful/Wet', icon: '🥺' },
-];
-
-// Mouth states
-const MOUTH_STATES: { value: MouthState; label: string; icon: string }[] = [
-  { value: 'closed', label: 'Closed', icon: '😐' },
-  { value: 'open', label: 'Open', icon: '😮' },
-  { value: 'smile', label: 'Smile', icon: '🙂' },
-  { value: 'wide_smile', label: 'Wide Smile', icon: '😄' },
-  { value: 'surprised', label: 'Surprised', icon: '😲' },
-  { value: 'smirk', label: 'Smirk', icon: '😏' },
-  { value: 'slight_smile', label: 'Slight Smile', icon: '🙂' },
-  { value: 'sad_smile', label: 'Sad Smile', icon: '🙁' },
-  { value: 'grimace', label: 'Grimace', icon: '😬' },
-  { value: 'tense', label: 'Tense/Pressed', icon: '😑' },
-  { value: 'kiss', label: 'Kiss Lips', icon: '😘' },
-  { value: 'teeth_showing', label: 'Teeth Showing', icon: '😬' },
-  { value: 'big_grin', label: 'Big Grin', icon: '😃' },
-  { value: 'o_shape', label: 'O-Shape', icon: '😯' },
-];
-
-// Visual effects
-const VISUAL_EFFECTS: { value: VisualEffect; label: string; icon: string }[] = [
-  { value: 'none', label: 'None', icon: '⚪' },
-  { value: 'confetti', label: 'Confetti', icon: '🎊' },
-  { value: 'spotlight', label: 'Spotlight', icon: '🔦' },
-  { value: 'sparkles', label: 'Sparkles', icon: '✨' },
-  { value: 'hearts', label: 'Hearts', icon: '💕' },
-  // New emoji-triggered effects
-  { value: 'fire', label: 'Fire', icon: '🔥' },
-  { value: 'stars', label: 'Stars', icon: '⭐' },
-  { value: 'music_notes', label: 'Music', icon: '🎵' },
-  { value: 'tears', label: 'Tears', icon: '😢' },
-  { value: 'anger', label: 'Anger', icon: '😡' },
-  { value: 'snow', label: 'Snow', icon: '❄️' },
-  { value: 'rainbow', label: 'Rainbow', icon: '🌈' },
-];
+import { ALL_ANIMATIONS, LOOK_DIRECTIONS, EYE_STATES, MOUTH_STATES, VISUAL_EFFECTS, MODEL_STYLE_OPTIONS } from '../constants/animationOptions';
 
 // Speed presets
 const SPEED_PRESETS = [
@@ -174,11 +59,6 @@ const TALKING_SOUNDS: { value: TalkingSoundType; label: string; icon: string; de
 // Available preset characters (built-in only)
 const PRESET_CHARACTERS = ['freud', 'adler'];
 
-// 3D Model styles
-const MODEL_STYLES: { value: ModelStyle; label: string; icon: string }[] = [
-  { value: 'blocky', label: 'Blocky', icon: '🧱' },
-];
-
 // Eyebrow states (anime-style)
 const EYEBROW_STATES: { value: EyebrowState; label: string; icon: string }[] = [
   { value: 'normal', label: 'Normal', icon: '😐' },
@@ -199,6 +79,7 @@ const EYEBROW_STATES: { value: EyebrowState; label: string; icon: string }[] = [
 const HEAD_STYLES: { value: HeadStyle; label: string; icon: string; description: string }[] = [
   { value: 'default', label: 'Default', icon: '🟦', description: 'Standard cube' },
   { value: 'bigger', label: 'Bigger', icon: '🔷', description: 'Scaled up cube' },
+  { value: 'chibi', label: 'Chibi', icon: '🟪', description: 'Oversized head' },
 ];
 
 // Face states (anime-style decorations)
@@ -431,7 +312,7 @@ const AnimationsScreen = ({ onNavigateToChat }: AnimationsScreenProps): JSX.Elem
   const [effectColor, setEffectColor] = useState('#8b5cf6');
 
   // Tab state - default to complementary
-  const [activeTab, setActiveTab] = useState<'base' | 'complementary' | 'sounds'>('base');
+  const [activeTab, setActiveTab] = useState<'base' | 'complementary' | 'sounds' | 'timeline'>('base');
 
   // Expression preset state
   const [selectedExpression, setSelectedExpression] = useState<string | null>(null);
@@ -501,6 +382,11 @@ const AnimationsScreen = ({ onNavigateToChat }: AnimationsScreenProps): JSX.Elem
   };
 
   const character = getCharacter(activeCharacterId);
+
+  // Start from the character's own model style when switching characters
+  useEffect(() => {
+    setSelectedModelStyle(character.customization.modelStyle ?? 'blocky');
+  }, [activeCharacterId]);
   const categories = [...new Set(ALL_ANIMATIONS.map(a => a.category))];
   
   const filteredAnimations = selectedCategory
@@ -557,124 +443,126 @@ const AnimationsScreen = ({ onNavigateToChat }: AnimationsScreenProps): JSX.Elem
   return (
     <View style={styles.container}>
       <View style={dynamicStyles.content}>
-        {/* 3D Character Preview */}
-        <View style={dynamicStyles.previewSection}>
-          <Card variant="elevated" style={styles.previewCard}>
-            <View style={dynamicStyles.characterPreview}>
-              <CharacterDisplay3D
-                characterId={activeCharacterId}
-                isActive={true}
-                animation={currentAnimation}
-                isTalking={isTalking}
-                complementary={complementary}
-                modelStyle={selectedModelStyle}
-                fov={25}
-                cameraX={0}
-                cameraY={0.7}
-                characterY={-0.3}
-                characterX={-0.3}
-              />
-            </View>
-            
-            {/* Current state info */}
-            <View style={styles.stateInfo}>
-              <View style={styles.stateRow}>
-                <Text style={dynamicStyles.stateLabel}>Animation:</Text>
-                <Badge label={currentAnimation} variant="primary" size="md" />
-              </View>
-              <View style={styles.stateRow}>
-                <Text style={dynamicStyles.stateLabel}>Speed:</Text>
-                <Badge label={`${speed}x`} variant="secondary" size="sm" />
+        {/* 3D Character Preview - the timeline editor has its own stage */}
+        {activeTab !== 'timeline' && (
+          <View style={dynamicStyles.previewSection}>
+            <Card variant="elevated" style={styles.previewCard}>
+              <View style={dynamicStyles.characterPreview}>
+                <CharacterDisplay3D
+                  characterId={activeCharacterId}
+                  isActive={true}
+                  animation={currentAnimation}
+                  isTalking={isTalking}
+                  complementary={complementary}
+                  modelStyle={selectedModelStyle}
+                  fov={25}
+                  cameraX={0}
+                  cameraY={0.7}
+                  characterY={-0.3}
+                  characterX={-0.3}
+                />
               </View>
-              {isTalking && (
+            
+              {/* Current state info */}
+              <View style={styles.stateInfo}>
                 <View style={styles.stateRow}>
-                  <Badge label="🎤 Talking" variant="success" size="sm" />
+                  <Text style={dynamicStyles.stateLabel}>Animation:</Text>
+                  <Badge label={currentAnimation} variant="primary" size="md" />
                 </View>
-              )}
-              {lookDirection !== 'center' && (
                 <View style={styles.stateRow}>
-                  <Badge label={`👁️ ${lookDirection}`} variant="info" size="sm" />
+                  <Text style={dynamicStyles.stateLabel}>Speed:</Text>
+                  <Badge label={`${speed}x`} variant="secondary" size="sm" />
                 </View>
-              )}
-              {effect !== 'none' && (
-                <View style={styles.stateRow}>
-                  <Badge label={`✨ ${effect}`} variant="warning" size="sm" />
+                {isTalking && (
+                  <View style={styles.stateRow}>
+                    <Badge label="🎤 Talking" variant="success" size="sm" />
+                  </View>
+                )}
+                {lookDirection !== 'center' && (
+                  <View style={styles.stateRow}>
+                    <Badge label={`👁️ ${lookDirection}`} variant="info" size="sm" />
+                  </View>
+                )}
+                {effect !== 'none' && (
+                  <View style={styles.stateRow}>
+                    <Badge label={`✨ ${effect}`} variant="warning" size="sm" />
+                  </View>
+                )}
+              </View>
+
+              {/* Character selector */}
+              <View style={styles.characterSelector}>
+                <Text style={dynamicStyles.selectorLabel}>Character:</Text>
+                <View style={styles.characterButtons}>
+                  {/* Custom button (default) */}
+                  <TouchableOpacity
+                    style={[
+                      styles.characterButton,
+                      selectedCharacter === null && styles.characterButtonActive,
+                      { borderColor: character?.color || '#8b5cf6' }
+                    ]}
+                    onPress={() => setShowCustomPicker(true)}
+                  >
+                    <Text style={[
+                      dynamicStyles.characterButtonText,
+                      selectedCharacter === null && { color: character?.color || '#8b5cf6' }
+                    ]}>
+                      {selectedCharacter === null ? (character?.name || 'Custom') : 'Custom'}
+                    </Text>
+                    <Ionicons name="chevron-down" size={12} color={selectedCharacter === null ? (character?.color || '#8b5cf6') : '#71717a'} />
+                  </TouchableOpacity>
+                  {/* Preset characters */}
+                  {PRESET_CHARACTERS.map((charId) => {
+                    const char = getCharacter(charId);
+                    return (
+                      <TouchableOpacity
+                        key={charId}
+                        style={[
+                          styles.characterButton,
+                          selectedCharacter === charId && styles.characterButtonActive,
+                          { borderColor: char.color }
+                        ]}
+                        onPress={() => setSelectedCharacter(charId)}
+                      >
+                        <Text style={[
+                          dynamicStyles.characterButtonText,
+                          selectedCharacter === charId && { color: char.color }
+                        ]}>
+                          {char.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
                 </View>
-              )}
-            </View>
+              </View>
 
-            {/* Character selector */}
-            <View style={styles.characterSelector}>
-              <Text style={dynamicStyles.selectorLabel}>Character:</Text>
-              <View style={styles.characterButtons}>
-                {/* Custom button (default) */}
+              {/* Quick controls */}
+              <View style={styles.quickControls}>
                 <TouchableOpacity
-                  style={[
-                    styles.characterButton,
-                    selectedCharacter === null && styles.characterButtonActive,
-                    { borderColor: character?.color || '#8b5cf6' }
-                  ]}
-                  onPress={() => setShowCustomPicker(true)}
+                  style={[styles.quickButton, isTalking && styles.quickButtonActive]}
+                  onPress={() => setIsTalking(!isTalking)}
                 >
-                  <Text style={[
-                    dynamicStyles.characterButtonText,
-                    selectedCharacter === null && { color: character?.color || '#8b5cf6' }
-                  ]}>
-                    {selectedCharacter === null ? (character?.name || 'Custom') : 'Custom'}
+                  <Ionicons
+                    name={isTalking ? "mic" : "mic-off"}
+                    size={18}
+                    color={isTalking ? "#10b981" : "#71717a"}
+                  />
+                  <Text style={[dynamicStyles.quickButtonText, isTalking && styles.quickButtonTextActive]}>
+                    Talk
                   </Text>
-                  <Ionicons name="chevron-down" size={12} color={selectedCharacter === null ? (character?.color || '#8b5cf6') : '#71717a'} />
                 </TouchableOpacity>
-                {/* Preset characters */}
-                {PRESET_CHARACTERS.map((charId) => {
-                  const char = getCharacter(charId);
-                  return (
-                    <TouchableOpacity
-                      key={charId}
-                      style={[
-                        styles.characterButton,
-                        selectedCharacter === charId && styles.characterButtonActive,
-                        { borderColor: char.color }
-                      ]}
-                      onPress={() => setSelectedCharacter(charId)}
-                    >
-                      <Text style={[
-                        dynamicStyles.characterButtonText,
-                        selectedCharacter === charId && { color: char.color }
-                      ]}>
-                        {char.name}
-                      </Text>
-                    </TouchableOpacity>
-                  );
-                })}
-              </View>
-            </View>
 
-            {/* Quick controls */}
-            <View style={styles.quickControls}>
-              <TouchableOpacity
-                style={[styles.quickButton, isTalking && styles.quickButtonActive]}
-                onPress={() => setIsTalking(!isTalking)}
-              >
-                <Ionicons
-                  name={isTalking ? "mic" : "mic-off"}
-                  size={18}
-                  color={isTalking ? "#10b981" : "#71717a"}
-                />
-                <Text style={[dynamicStyles.quickButtonText, isTalking && styles.quickButtonTextActive]}>
-                  Talk
-                </Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={styles.quickButton}
-                onPress={resetComplementary}
-              >
-                <Ionicons name="refresh" size={18} color="#71717a" />
-                <Text style={dynamicStyles.quickButtonText}>Reset</Text>
-              </TouchableOpacity>
-            </View>
-          </Card>
-        </View>
+                <TouchableOpacity
+                  style={styles.quickButton}
+                  onPress={resetComplementary}
+                >
+                  <Ionicons name="refresh" size={18} color="#71717a" />
+                  <Text style={dynamicStyles.quickButtonText}>Reset</Text>
+                </TouchableOpacity>
+              </View>
+            </Card>
+          </View>
+        )}
 
         {/* Controls Section */}
         <View style={dynamicStyles.controlsSection}>
@@ -704,6 +592,14 @@ const AnimationsScreen = ({ onNavigateToChat }: AnimationsScreenProps): JSX.Elem
                 🔊 Sounds
               </Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'timeline' && styles.tabActive]}
+              onPress={() => setActiveTab('timeline')}
+            >
+              <Text style={[dynamicStyles.tabText, activeTab === 'timeline' && styles.tabTextActive]}>
+                🎬 Timeline
+              </Text>
+            </TouchableOpacity>
           </View>
 
           <ScrollView 
@@ -712,6 +608,32 @@ const AnimationsScreen = ({ onNavigateToChat }: AnimationsScreenProps): JSX.Elem
           >
             {activeTab === 'base' ? (
               <>
+                {/* Model Style */}
+                <View style={styles.controlGroup}>
+                  <Text style={dynamicStyles.controlGroupTitle}>🧩 Model Style</Text>
+                  <View style={styles.optionGrid}>
+                    {MODEL_STYLE_OPTIONS.map((style) => (
+                      <TouchableOpacity
+                        key={style.value}
+                        style={[
+                          styles.optionButton,
+                          selectedModelStyle === style.value && styles.optionButtonActive
+                        ]}
+                        onPress={() => setSelectedModelStyle(style.value)}
+                      >
+                        <Text style={dynamicStyles.optionIcon}>{style.icon}</Text>
+                        <Text style={[
+                          dynamicStyles.optionButtonText,
+                          selectedModelStyle === style.value && styles.optionButtonTextActive
+                        ]}>
+                          {style.label}
+                        </Text>
+                        <Text style={dynamicStyles.optionDescription}>{style.description}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
                 {/* Category filter */}
                 <ScrollView 
                   horizontal 
@@ -1393,6 +1315,14 @@ const AnimationsScreen = ({ onNavigateToChat }: AnimationsScreenProps): JSX.Elem
                   </View>
                 </View>
 
+                <View style={{ height: 150, marginBottom: 20 }} />
+              </>
+            ) : activeTab === 'timeline' ? (
+              <>
+                <SceneTimelineEditor
+                  characters={availableCharacters}
+                  modelStyle={selectedModelStyle}
+                />
                 <View style={{ height: 150, marginBottom: 20 }} />
               </>
             ) : null}
@@ -0,0 +1,536 @@
+/**
+ * Knowledge Graph Screen
+ * Force-directed graph of the people, places and organizations in the user's diary
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { selectConversation } from '../store/actions/conversationActions';
+import { useResponsive } from '../constants/Layout';
+import {
+  loadKnowledgeGraph,
+  getEntityMentions,
+  GRAPH_ENTITY_TYPES,
+  type KnowledgeGraph,
+  type GraphNode,
+  type EntityMention,
+} from '../services/knowledgeGraphService';
+import { computeForceLayout } from '../utils/forceLayout';
+import type { EntityType } from '../services/ax';
+
+const TYPE_COLORS: Record<string, string> = {
+  person: '#8b5cf6',
+  place: '#10b981',
+  organization: '#f59e0b',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  person: 'People',
+  place: 'Places',
+  organization: 'Organizations',
+};
+
+const MIN_NODE_RADIUS = 10;
+const MAX_NODE_RADIUS = 36;
+
+// Node size grows with the square root of mention count
+const getNodeRadius = (mentionCount: number): number =>
+  Math.min(MAX_NODE_RADIUS, MIN_NODE_RADIUS + Math.sqrt(mentionCount) * 5);
+
+interface KnowledgeGraphScreenProps {
+  onNavigateToChat?: () => void;
+}
+
+export default function KnowledgeGraphScreen({ onNavigateToChat }: KnowledgeGraphScreenProps) {
+  const dispatch = useDispatch();
+  const { conversations } = useSelector((state: RootState) => state.conversations);
+  const { fonts, spacing, isMobile } = useResponsive();
+
+  const [graph, setGraph] = useState<KnowledgeGraph>({ nodes: [], edges: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [visibleTypes, setVisibleTypes] = useState<EntityType[]>(GRAPH_ENTITY_TYPES);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+  const [mentions, setMentions] = useState<EntityMention[]>([]);
+  const [mentionsLoading, setMentionsLoading] = useState(false);
+
+  const loadGraph = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await loadKnowledgeGraph();
+      setGraph(result);
+    } catch (err: any) {
+      console.error('[KnowledgeGraphScreen] Failed to load graph:', err);
+      setError(err?.message || 'Failed to load knowledge graph');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGraph();
+  }, [loadGraph]);
+
+  // Apply type filter
+  const filteredGraph = useMemo(() => {
+    const nodes = graph.nodes.filter(n => visibleTypes.includes(n.type));
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const edges = graph.edges.filter(e => nodeIds.has(e.from) && nodeIds.has(e.to));
+    return { nodes, edges };
+  }, [graph, visibleTypes]);
+
+  // Layout is recomputed only when the filtered graph or canvas size changes
+  const positions = useMemo(() => computeForceLayout(
+    filteredGraph.nodes.map(n => ({ id: n.id, radius: getNodeRadius(n.mentionCount) })),
+    filteredGraph.edges,
+    canvasSize.width,
+    canvasSize.height,
+  ), [filteredGraph, canvasSize]);
+
+  const maxEdgeStrength = useMemo(
+    () => filteredGraph.edges.reduce((max, e) => Math.max(max, e.strength), 1),
+    [filteredGraph.edges]
+  );
+
+  const handleCanvasLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    if (Math.abs(width - canvasSize.width) > 1 || Math.abs(height - canvasSize.height) > 1) {
+      setCanvasSize({ width, height });
+    }
+  };
+
+  const toggleType = (type: EntityType) => {
+    setVisibleTypes(prev => {
+      if (prev.includes(type)) {
+        // Keep at least one type visible
+        return prev.length > 1 ? prev.filter(t => t !== type) : prev;
+      }
+      return [...prev, type];
+    });
+  };
+
+  const handleNodePress = async (node: GraphNode) => {
+    if (selectedNode?.id === node.id) {
+      setSelectedNode(null);
+      return;
+    }
+
+    setSelectedNode(node);
+    setMentions([]);
+    setMentionsLoading(true);
+    try {
+      setMentions(await getEntityMentions(node.id));
+    } catch (err) {
+      console.error('[KnowledgeGraphScreen] Failed to load mentions:', err);
+    } finally {
+      setMentionsLoading(false);
+    }
+  };
+
+  const handleMentionPress = async (mention: EntityMention) => {
+    const conversation = conversations.find((c: any) => c.id === mention.conversationId)
+      || { id: mention.conversationId, title: mention.conversationTitle };
+    await dispatch(selectConversation(conversation) as any);
+    onNavigateToChat?.();
+  };
+
+  // Neighbors of the selected node are highlighted, everything else is dimmed
+  const highlightedIds = useMemo(() => {
+    if (!selectedNode) return null;
+    const ids = new Set([selectedNode.id]);
+    filteredGraph.edges.forEach(e => {
+      if (e.from === selectedNode.id) ids.add(e.to);
+      if (e.to === selectedNode.id) ids.add(e.from);
+    });
+    return ids;
+  }, [selectedNode, filteredGraph.edges]);
+
+  const renderEdges = () => filteredGraph.edges.map(edge => {
+    const a = positions[edge.from];
+    const b = positions[edge.to];
+    if (!a || !b) return null;
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const angle = Math.atan2(dy, dx);
+    const thickness = 1 + (edge.strength / maxEdgeStrength) * 3;
+    const isHighlighted = highlightedIds
+      ? highlightedIds.has(edge.from) && highlightedIds.has(edge.to)
+      : true;
+
+    // A View rotated around its center, positioned at the midpoint of the edge
+    return (
+      <View
+        key={edge.id}
+        pointerEvents="none"
+        style={[
+          styles.edge,
+          {
+            left: (a.x + b.x) / 2 - length / 2,
+            top: (a.y + b.y) / 2 - thickness / 2,
+            width: length,
+            height: thickness,
+            opacity: isHighlighted ? 0.7 : 0.1,
+            backgroundColor: edge.source === 'relationship' ? '#a1a1aa' : '#52525b',
+            transform: [{ rotate: `${angle}rad` }],
+          },
+        ]}
+      />
+    );
+  });
+
+  const renderNodes = () => filteredGraph.nodes.map(node => {
+    const position = positions[node.id];
+    if (!position) return null;
+
+    const radius = getNodeRadius(node.mentionCount);
+    const color = TYPE_COLORS[node.type] || '#71717a';
+    const isSelected = selectedNode?.id === node.id;
+    const isDimmed = highlightedIds ? !highlightedIds.has(node.id) : false;
+
+    return (
+      <TouchableOpacity
+        key={node.id}
+        onPress={() => handleNodePress(node)}
+        style={[
+          styles.nodeWrapper,
+          {
+            left: position.x - radius,
+            top: position.y - radius,
+            opacity: isDimmed ? 0.25 : 1,
+          },
+        ]}
+      >
+        <View
+          style={[
+            styles.node,
+            {
+              width: radius * 2,
+              height: radius * 2,
+              borderRadius: radius,
+              backgroundColor: color,
+              borderColor: isSelected ? 'white' : 'rgba(255, 255, 255, 0.2)',
+            },
+          ]}
+        />
+        <Text style={[styles.nodeLabel, { fontSize: fonts.xs }]} numberOfLines={1}>
+          {node.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  });
+
+  const renderMentionsPanel = () => {
+    if (!selectedNode) return null;
+
+    return (
+      <View style={[styles.mentionsPanel, isMobile ? styles.mentionsPanelMobile : styles.mentionsPanelDesktop]}>
+        <View style={[styles.mentionsHeader, { padding: spacing.md }]}>
+          <View style={styles.mentionsHeaderLeft}>
+            <View style={[styles.typeDot, { backgroundColor: TYPE_COLORS[selectedNode.type] }]} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.mentionsTitle, { fontSize: fonts.md }]} numberOfLines={1}>
+                {selectedNode.name}
+              </Text>
+              <Text style={[styles.mentionsSubtitle, { fontSize: fonts.xs }]}>
+                Mentioned {selectedNode.mentionCount} {selectedNode.mentionCount === 1 ? 'time' : 'times'}
+              </Text>
+            </View>
+          </View>
+          <TouchableOpacity onPress={() => setSelectedNode(null)} style={styles.iconButton}>
+            <Ionicons name="close" size={20} color="#a1a1aa" />
+          </TouchableOpacity>
+        </View>
+
+        {mentionsLoading ? (
+          <ActivityIndicator style={{ margin: spacing.lg }} color="#8b5cf6" />
+        ) : mentions.length === 0 ? (
+          <Text style={[styles.emptyMentions, { fontSize: fonts.sm, padding: spacing.md }]}>
+            No messages found for this entity.
+          </Text>
+        ) : (
+          <ScrollView style={styles.mentionsList}>
+            {mentions.map(mention => (
+              <TouchableOpacity
+                key={mention.id}
+                style={[styles.mentionItem, { padding: spacing.md }]}
+                onPress={() => handleMentionPress(mention)}
+              >
+                <View style={styles.mentionMeta}>
+                  <Text style={[styles.mentionConversation, { fontSize: fonts.sm }]} numberOfLines={1}>
+                    {mention.conversationTitle}
+                  </Text>
+                  <Text style={[styles.mentionDate, { fontSize: fonts.xs }]}>
+                    {new Date(mention.createdAt).toLocaleDateString()}
+                  </Text>
+                </View>
+                <Text style={[styles.mentionContent, { fontSize: fonts.sm }]} numberOfLines={3}>
+                  {mention.content}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#8b5cf6" />
+        <Text style={[styles.loadingText, { fontSize: fonts.md }]}>Loading knowledge graph...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingVertical: spacing.lg }]}>
+        <View style={[styles.headerLeft, { gap: spacing.md }]}>
+          <Ionicons name="git-network-outline" size={isMobile ? 24 : 28} color="#8b5cf6" />
+          <View>
+            <Text style={[styles.title, { fontSize: isMobile ? fonts.lg : fonts.xxl }]}>Knowledge Graph</Text>
+            <Text style={[styles.subtitle, { fontSize: fonts.xs }]}>
+              {filteredGraph.nodes.length} entities · {filteredGraph.edges.length} connections
+            </Text>
+          </View>
+        </View>
+        <TouchableOpacity onPress={loadGraph} style={styles.iconButton}>
+          <Ionicons name="refresh" size={22} color="#a1a1aa" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Type Filter */}
+      <View style={[styles.filterRow, { paddingHorizontal: spacing.lg, gap: spacing.sm }]}>
+        {GRAPH_ENTITY_TYPES.map(type => {
+          const isActive = visibleTypes.includes(type);
+          return (
+            <TouchableOpacity
+              key={type}
+              onPress={() => toggleType(type)}
+              style={[
+                styles.typeChip,
+                isActive && { backgroundColor: TYPE_COLORS[type], borderColor: TYPE_COLORS[type] },
+              ]}
+            >
+              <Text style={[styles.typeChipText, isActive && styles.typeChipTextActive, { fontSize: fonts.sm }]}>
+                {TYPE_LABELS[type]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Graph Canvas */}
+      <View style={styles.canvas} onLayout={handleCanvasLayout}>
+        {error ? (
+          <View style={styles.centered}>
+            <Ionicons name="alert-circle-outline" size={48} color="#ef4444" />
+            <Text style={[styles.emptyTitle, { fontSize: fonts.lg }]}>Couldn't load graph</Text>
+            <Text style={[styles.emptySubtext, { fontSize: fonts.md }]}>{error}</Text>
+          </View>
+        ) : filteredGraph.nodes.length === 0 ? (
+          <View style={styles.centered}>
+            <Ionicons name="git-network-outline" size={64} color="#52525b" />
+            <Text style={[styles.emptyTitle, { fontSize: fonts.lg }]}>Nothing here yet</Text>
+            <Text style={[styles.emptySubtext, { fontSize: fonts.md }]}>
+              People, places and organizations you mention in your diary will show up here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {renderEdges()}
+            {renderNodes()}
+          </>
+        )}
+        {renderMentionsPanel()}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f0f',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  loadingText: {
+    color: '#a1a1aa',
+    marginTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    fontWeight: '700',
+    color: 'white',
+  },
+  subtitle: {
+    color: '#71717a',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  typeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#18181b',
+    borderWidth: 2,
+    borderColor: '#27272a',
+  },
+  typeChipText: {
+    color: '#a1a1aa',
+    fontWeight: '600',
+  },
+  typeChipTextActive: {
+    color: 'white',
+  },
+  canvas: {
+    flex: 1,
+    position: 'relative',
+    overflow: 'hidden',
+  },
+  edge: {
+    position: 'absolute',
+  },
+  nodeWrapper: {
+    position: 'absolute',
+    alignItems: 'center',
+  },
+  node: {
+    borderWidth: 2,
+  },
+  nodeLabel: {
+    color: '#e4e4e7',
+    marginTop: 4,
+    maxWidth: 120,
+    textAlign: 'center',
+  },
+  emptyTitle: {
+    fontWeight: '700',
+    color: 'white',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: '#71717a',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  mentionsPanel: {
+    position: 'absolute',
+    backgroundColor: '#18181b',
+    borderWidth: 1,
+    borderColor: '#27272a',
+    overflow: 'hidden',
+  },
+  mentionsPanelMobile: {
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '55%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  mentionsPanelDesktop: {
+    top: 16,
+    right: 16,
+    bottom: 16,
+    width: 360,
+    borderRadius: 12,
+  },
+  mentionsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  mentionsHeaderLeft: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  typeDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  mentionsTitle: {
+    color: 'white',
+    fontWeight: '700',
+  },
+  mentionsSubtitle: {
+    color: '#71717a',
+    marginTop: 2,
+  },
+  mentionsList: {
+    flexGrow: 0,
+  },
+  emptyMentions: {
+    color: '#71717a',
+  },
+  mentionItem: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#27272a',
+  },
+  mentionMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+    gap: 8,
+  },
+  mentionConversation: {
+    flex: 1,
+    color: '#c4b5fd',
+    fontWeight: '600',
+  },
+  mentionDate: {
+    color: '#71717a',
+  },
+  mentionContent: {
+    color: '#d4d4d8',
+    lineHeight: 20,
+  },
+});
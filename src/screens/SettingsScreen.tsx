@@ -13,10 +13,31 @@ import { useCustomAlert } from '../components/CustomAlert';
 import { Button, Input, Card, Badge } from '../components/ui';
 import { DisclaimerButton } from '../components/Disclaimer';
 import { InviteButton } from '../components/InviteModal';
+import { MemoriesButton } from '../components/MemoriesModal';
 import { useResponsive } from '../constants/Layout';
 import { runQuickBenchmark, runAnimationBenchmark, BenchmarkReport } from '../services/benchmarkService';
 import { getProfiler } from '../services/profilingService';
 import { getTalkingSoundsService } from '../services/talkingSoundsService';
+import { qualityManager, useQualitySettings, QualityPreference, QUALITY_TIERS, QUALITY_TIER_LABELS } from '../services/qualityManager';
+import { languagePreference, useLanguagePreference } from '../services/languagePreference';
+import { LANGUAGES, LANGUAGE_CODES } from '../config/languages';
+import {
+  speechToTextPreference,
+  useSpeechToTextPreference,
+  STT_PROVIDER_PREFERENCES,
+  STT_PROVIDER_LABELS,
+  DEFAULT_LOCAL_WHISPER_URL,
+} from '../services/speechToTextPreference';
+import { STT_PROVIDERS, getActiveSTTMethod } from '../services/speechToTextUnified';
+import {
+  exportConversations,
+  parseConversationImport,
+  pickImportFile,
+  isImportFileSupported,
+  ConversationImportError,
+  type ExportFormat,
+} from '../services/conversationExportService';
+import { importConversations } from '../store/actions/conversationActions';
 // Temperature is now configured in code, not UI
 
 type AIProvider = 'mock' | 'openai' | 'anthropic' | 'gemini';
@@ -87,6 +108,22 @@ const SettingsScreen = (): JSX.Element => {
   const [soundsEnabled, setSoundsEnabled] = useState(soundsService.isEnabled());
   const [soundVolume, setSoundVolume] = useState(0.5);
 
+  // Graphics quality state
+  const qualitySettings = useQualitySettings();
+  const [qualityPreference, setQualityPreference] = useState<QualityPreference>(qualityManager.getPreference());
+
+  // Conversation language state
+  const language = useLanguagePreference();
+
+  // Speech recognition state
+  const sttPreference = useSpeechToTextPreference();
+  const [localWhisperUrl, setLocalWhisperUrl] = useState(sttPreference.localServerUrl);
+
+  // Backup state
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [importing, setImporting] = useState(false);
+  const canImport = isImportFileSupported();
+
   useEffect(() => {
     // Load current AI configuration
     const loadConfig = async () => {
@@ -98,6 +135,11 @@ const SettingsScreen = (): JSX.Element => {
     loadConfig();
   }, []);
 
+  useEffect(() => {
+    qualityManager.load().then(() => setQualityPreference(qualityManager.getPreference()));
+    speechToTextPreference.load().then(() => setLocalWhisperUrl(speechToTextPreference.get().localServerUrl));
+  }, []);
+
   // Fetch usage data on mount
   useEffect(() => {
     dispatch(fetchUsage() as any);
@@ -229,6 +271,44 @@ const SettingsScreen = (): JSX.Element => {
     showAlert('Cleared', 'Profiling history cleared.');
   };
 
+  // Export every conversation in one file
+  const handleExportAll = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const count = await exportConversations(format);
+      if (count === 0) {
+        showAlert('Nothing to Export', 'You have no conversations yet.');
+      }
+    } catch (error: any) {
+      showAlert('Error', 'Export failed: ' + error.message);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Import conversations from a JSON export
+  const handleImport = async () => {
+    const text = await pickImportFile();
+    if (text === null) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const conversations = parseConversationImport(text);
+      const result: any = await dispatch(importConversations(conversations) as any);
+      const skippedNote = result.skipped > 0 ? `\n\n${result.skipped} skipped (tutorial or no wakattors).` : '';
+      showAlert('Import Complete', `Imported ${result.imported} conversation${result.imported === 1 ? '' : 's'}.${skippedNote}`);
+    } catch (error: any) {
+      showAlert(
+        error instanceof ConversationImportError ? 'Invalid File' : 'Error',
+        error instanceof ConversationImportError ? error.message : 'Import failed: ' + error.message
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
   return (
     <ScrollView style={styles.container}>
       <AlertComponent />
@@ -717,6 +797,203 @@ const SettingsScreen = (): JSX.Element => {
         </Card>
       </View>
 
+      {/* Graphics Quality Section */}
+      <View style={[styles.section, { padding: spacing.lg }]}>
+        <Text style={[styles.sectionTitle, { fontSize: fonts.lg, marginBottom: spacing.md }]}>🎮 Graphics Quality</Text>
+        <Card variant="elevated">
+          <View style={styles.infoBox}>
+            <Ionicons name="speedometer-outline" size={20} color="#c4b5fd" />
+            <Text style={styles.infoBoxText}>
+              Auto lowers effects, lighting and resolution when scenes get slow (many wakattors on a slower device) and raises them again when there's headroom.
+            </Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.md }}>
+            {(['auto', ...QUALITY_TIERS] as QualityPreference[]).map((preference) => (
+              <TouchableOpacity
+                key={preference}
+                style={[
+                  styles.providerButton,
+                  qualityPreference === preference && styles.providerButtonActive,
+                  { flex: 1, minWidth: 80, alignItems: 'center', paddingVertical: spacing.md }
+                ]}
+                onPress={() => {
+                  setQualityPreference(preference);
+                  qualityManager.setPreference(preference);
+                }}
+              >
+                <Text style={[
+                  styles.providerButtonText,
+                  { fontSize: fonts.sm },
+                  qualityPreference === preference && styles.providerButtonTextActive
+                ]}>
+                  {QUALITY_TIER_LABELS[preference]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {qualityPreference === 'auto' && (
+            <Text style={[styles.label, { fontSize: fonts.sm, marginTop: spacing.md }]}>
+              Current tier: {QUALITY_TIER_LABELS[qualitySettings.tier]}
+            </Text>
+          )}
+        </Card>
+      </View>
+
+      {/* Language Section */}
+      <View style={[styles.section, { padding: spacing.lg }]}>
+        <Text style={[styles.sectionTitle, { fontSize: fonts.lg, marginBottom: spacing.md }]}>🌐 Language</Text>
+        <Card variant="elevated">
+          <View style={styles.infoBox}>
+            <Ionicons name="chatbubbles-outline" size={20} color="#c4b5fd" />
+            <Text style={styles.infoBoxText}>
+              Wakattors greet you, listen and reply in this language. A conversation can use another one - pick it with the flag button in the chat toolbar.
+            </Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.md }}>
+            {LANGUAGE_CODES.map((code) => (
+              <TouchableOpacity
+                key={code}
+                style={[
+                  styles.providerButton,
+                  language === code && styles.providerButtonActive,
+                  { minWidth: 110, alignItems: 'center', paddingVertical: spacing.md }
+                ]}
+                onPress={() => languagePreference.set(code)}
+              >
+                <Text style={[
+                  styles.providerButtonText,
+                  { fontSize: fonts.sm },
+                  language === code && styles.providerButtonTextActive
+                ]}>
+                  {LANGUAGES[code].flag} {LANGUAGES[code].nativeName}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </Card>
+      </View>
+
+      {/* Speech Recognition Section */}
+      <View style={[styles.section, { padding: spacing.lg }]}>
+        <Text style={[styles.sectionTitle, { fontSize: fonts.lg, marginBottom: spacing.md }]}>🎙️ Speech Recognition</Text>
+        <Card variant="elevated">
+          <View style={styles.infoBox}>
+            <Ionicons name="mic-outline" size={20} color="#c4b5fd" />
+            <Text style={styles.infoBoxText}>
+              Auto uses your browser's recognition on web and Cloud Whisper on mobile. Self-hosted sends your voice only to your own whisper.cpp or faster-whisper server.
+            </Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginTop: spacing.md }}>
+            {STT_PROVIDER_PREFERENCES.map((preference) => {
+              const unavailable = preference === 'web-speech' && !STT_PROVIDERS['web-speech'].isAvailable();
+              return (
+                <TouchableOpacity
+                  key={preference}
+                  style={[
+                    styles.providerButton,
+                    sttPreference.provider === preference && styles.providerButtonActive,
+                    { flex: 1, minWidth: 110, alignItems: 'center', paddingVertical: spacing.md, opacity: unavailable ? 0.5 : 1 }
+                  ]}
+                  disabled={unavailable}
+                  onPress={() => speechToTextPreference.setProvider(preference)}
+                >
+                  <Text style={[
+                    styles.providerButtonText,
+                    { fontSize: fonts.sm },
+                    sttPreference.provider === preference && styles.providerButtonTextActive
+                  ]}>
+                    {STT_PROVIDER_LABELS[preference]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {sttPreference.provider === 'auto' && (
+            <Text style={[styles.label, { fontSize: fonts.sm, marginTop: spacing.md }]}>
+              Using: {STT_PROVIDER_LABELS[getActiveSTTMethod('auto')]}
+            </Text>
+          )}
+
+          {sttPreference.provider === 'local-whisper' && (
+            <View style={{ marginTop: spacing.md }}>
+              <Input
+                label="Whisper Server URL"
+                placeholder={DEFAULT_LOCAL_WHISPER_URL}
+                value={localWhisperUrl}
+                onChangeText={setLocalWhisperUrl}
+                onBlur={() => speechToTextPreference.setLocalServerUrl(localWhisperUrl)}
+                onSubmitEditing={() => speechToTextPreference.setLocalServerUrl(localWhisperUrl)}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                icon="server-outline"
+                helperText="whisper.cpp: http://host:8080/inference - faster-whisper: http://host:8000/v1/audio/transcriptions. The server must allow cross-origin requests."
+              />
+            </View>
+          )}
+        </Card>
+      </View>
+
+      {/* Backup Section */}
+      <View style={[styles.section, { padding: spacing.lg }]}>
+        <Text style={[styles.sectionTitle, { fontSize: fonts.lg, marginBottom: spacing.md }]}>Your Conversations</Text>
+        <Card variant="elevated">
+          <Text style={[styles.label, { fontSize: fonts.sm, marginBottom: spacing.sm }]}>
+            Export all conversations
+          </Text>
+          <View style={{ flexDirection: 'row', gap: spacing.sm, flexWrap: 'wrap' }}>
+            {([
+              { format: 'markdown', label: 'Markdown', icon: 'document-text-outline' },
+              { format: 'json', label: 'JSON', icon: 'code-slash-outline' },
+              { format: 'html', label: 'Printable', icon: 'print-outline' },
+            ] as { format: ExportFormat; label: string; icon: keyof typeof Ionicons.glyphMap }[]).map(option => (
+              <Button
+                key={option.format}
+                title={option.label}
+                onPress={() => handleExportAll(option.format)}
+                disabled={exportingFormat !== null}
+                loading={exportingFormat === option.format}
+                variant="secondary"
+                size="sm"
+                icon={option.icon}
+              />
+            ))}
+          </View>
+
+          <Button
+            title={importing ? 'Importing...' : 'Import from JSON'}
+            onPress={handleImport}
+            disabled={importing || !canImport}
+            loading={importing}
+            variant="outline"
+            fullWidth
+            size="md"
+            icon="cloud-upload-outline"
+            style={{ marginTop: spacing.lg }}
+          />
+
+          <View style={[styles.infoBox, { marginTop: spacing.md, padding: spacing.md, borderRadius: borderRadius.sm, gap: spacing.sm }]}>
+            <Ionicons name="information-circle-outline" size={20} color="#c4b5fd" />
+            <Text style={[styles.infoBoxText, { fontSize: fonts.xs }]}>
+              {canImport
+                ? 'Only JSON exports can be imported. Imported conversations are added alongside your existing ones.'
+                : 'Importing needs a file picker, which the app does not have yet. Open Wakatto in a browser to import a JSON export.'}
+            </Text>
+          </View>
+        </Card>
+      </View>
+
+      {/* Memories Section */}
+      <View style={[styles.section, { padding: spacing.lg }]}>
+        <Text style={[styles.sectionTitle, { fontSize: fonts.lg, marginBottom: spacing.md }]}>Memories</Text>
+        <MemoriesButton />
+      </View>
+
       {/* Invite Friends Section */}
       <View style={[styles.section, { padding: spacing.lg }]}>
         <Text style={[styles.sectionTitle, { fontSize: fonts.lg, marginBottom: spacing.md }]}>Invite & Earn</Text>
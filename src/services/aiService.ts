@@ -2,7 +2,7 @@
  * AI Service
  *
  * This service handles AI API calls for generating responses.
- * Currently supports: OpenAI GPT, Anthropic Claude, Google Gemini
+ * Currently supports: OpenAI GPT, Anthropic Claude, Google Gemini, and an offline mock (mockLLMProvider)
  *
  * SECURITY NOTE: API keys are now stored in secure storage with basic obfuscation.
  * For production, use Supabase Edge Functions or a backend server as a proxy.
@@ -21,6 +21,12 @@ import {
   isLimitExceededError,
   getUsageFromLimitError,
 } from './usageTrackingService';
+import {
+  generateMockCompletion,
+  streamMockCompletion,
+  isMockProviderInjected,
+  MockLimitExceededError,
+} from './mockLLMProvider';
 
 // Cross-platform timing helper
 const getTimestamp = (): number => {
@@ -47,6 +53,43 @@ interface LLMCallLogEntry {
   estimated_cost_usd?: number;
   streaming?: boolean;
   error_message?: string;
+  requested_provider?: string;
+  attempts?: number;
+  failed_over?: boolean;
+}
+
+// Which provider the ai-chat gateway actually used (it may retry or fail over)
+interface ServedBy {
+  provider: string;
+  model: string;
+  attempts: number;
+  failedOver: boolean;
+}
+
+// Provider route selected by the gateway for each kind of request
+type GatewayRequestType = 'orchestration' | 'title' | 'entity_extraction' | 'default';
+
+const REQUEST_TYPES: Record<string, GatewayRequestType> = {
+  orchestrator: 'orchestration',
+  'title-generator': 'title',
+  'entity-extractor': 'entity_extraction',
+};
+
+function getRequestType(characterId?: string): GatewayRequestType {
+  return (characterId && REQUEST_TYPES[characterId]) || 'default';
+}
+
+/**
+ * Log fields describing which provider served a call
+ */
+function servedByLogFields(servedBy: ServedBy | undefined, requestedProvider: string, requestedModel: string) {
+  return {
+    provider: servedBy?.provider || requestedProvider,
+    model: servedBy?.model || requestedModel,
+    requested_provider: requestedProvider,
+    attempts: servedBy?.attempts,
+    failed_over: servedBy?.failedOver || false,
+  };
 }
 
 // Cost per 1M tokens (approximate, as of 2025)
@@ -56,6 +99,7 @@ const TOKEN_COSTS: Record<string, { input: number; output: number }> = {
   'claude-3-opus-20240229': { input: 15, output: 75 },
   'gpt-4': { input: 30, output: 60 },
   'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
   'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
   'gemini-1.5-flash': { input: 0.075, output: 0.30 },
   'gemini-1.5-pro': { input: 1.25, output: 5 },
@@ -91,6 +135,9 @@ async function logLLMCall(entry: LLMCallLogEntry): Promise<void> {
         estimated_cost_usd: entry.estimated_cost_usd || null,
         streaming: entry.streaming || false,
         error_message: entry.error_message || null,
+        requested_provider: entry.requested_provider || null,
+        attempts: entry.attempts || null,
+        failed_over: entry.failed_over || false,
       });
 
     if (error) {
@@ -261,6 +308,11 @@ export async function initializeAI() {
   // Use stored preferences, or defaults if none exist
   if (provider) config.provider = provider;
   if (model) config.model = model;
+
+  // Test harness asked for the offline mock provider
+  if (isMockProviderInjected()) {
+    config.provider = 'mock';
+  }
   if (apiKey) {
     config.apiKey = apiKey;
   }
@@ -302,7 +354,15 @@ export async function generateAIResponse(
 
   // Use mock for testing without API
   if (config.provider === 'mock') {
-    return generateMockResponse(fullMessages);
+    try {
+      const completion = await generateMockCompletion({ messages: fullMessages, characterId });
+      return completion.text;
+    } catch (error) {
+      if (error instanceof MockLimitExceededError) {
+        throw new TokenLimitExceededError(error.message, error.usage);
+      }
+      throw error;
+    }
   }
 
   const profiler = getProfiler();
@@ -338,6 +398,7 @@ export async function generateAIResponse(
           model: config.model,
           parameters: finalParameters,
           conversationId, // For tutorial token limit multiplier
+          requestType: getRequestType(characterId),
         }),
       }
     );
@@ -391,13 +452,13 @@ export async function generateAIResponse(
     const promptTokens = data.usage?.input_tokens || data.usage?.prompt_tokens || estimatedPromptTokens;
     const completionTokens = data.usage?.output_tokens || data.usage?.completion_tokens || estimatedResponseTokens;
     const totalTokens = promptTokens + completionTokens;
-    const estimatedCost = calculateCost(config.model || '', promptTokens, completionTokens);
+    const servedFields = servedByLogFields(data.servedBy, config.provider, config.model || '');
+    const estimatedCost = calculateCost(servedFields.model, promptTokens, completionTokens);
 
     logLLMCall({
       conversation_id: conversationId,
       user_id: session.user.id,
-      provider: config.provider,
-      model: config.model || '',
+      ...servedFields,
       prompt_tokens: promptTokens,
       completion_tokens: completionTokens,
       total_tokens: totalTokens,
@@ -496,9 +557,23 @@ export async function generateAIResponseStreaming(
 
   // Use mock for testing without API
   if (config.provider === 'mock') {
-    const mockResponse = await generateMockResponse(fullMessages);
-    callbacks?.onDone?.(mockResponse, 1000);
-    return mockResponse;
+    try {
+      const completion = await streamMockCompletion(
+        { messages: fullMessages, characterId, enableTools, enableAnimationTools },
+        callbacks
+      );
+      callbacks?.onDone?.(completion.text, completion.latencyMs);
+      return completion.text;
+    } catch (error: any) {
+      const finalError = error instanceof MockLimitExceededError
+        ? new TokenLimitExceededError(error.message, error.usage)
+        : error;
+      if (error instanceof MockLimitExceededError) {
+        callbacks?.onLimitExceeded?.(error.usage);
+      }
+      callbacks?.onError?.(finalError);
+      throw finalError;
+    }
   }
 
   const profiler = getProfiler();
@@ -507,6 +582,7 @@ export async function generateAIResponseStreaming(
   let timeToFirstToken: number | null = null;
   let edgeTimerStopped = false;
   let streamingUsageData: Partial<UsageInfo> | null = null;
+  let streamingServedBy: ServedBy | undefined;
 
   // Profile auth session fetch
   const authTimer = profiler.start(PROFILE_OPS.AUTH_SESSION);
@@ -542,6 +618,7 @@ export async function generateAIResponseStreaming(
           parameters: finalParameters,
           stream: true, // Enable streaming
           conversationId, // For tutorial token limit multiplier
+          requestType: getRequestType(characterId),
           enableTools, // Enable Bob's AI tools
           enableAnimationTools, // Enable animation expression tools
         }),
@@ -595,6 +672,7 @@ export async function generateAIResponseStreaming(
               const parsed = JSON.parse(data);
               
               if (parsed.type === 'start') {
+                streamingServedBy = parsed.servedBy;
                 callbacks?.onStart?.(parsed.timestamp);
               } else if (parsed.type === 'delta') {
                 // Track time to first token
@@ -654,13 +732,13 @@ export async function generateAIResponseStreaming(
                 const promptTokens = (streamingUsageData as any)?.input_tokens || profiler.estimateTokens(fullMessages.map(m => m.content).join(' '));
                 const completionTokens = (streamingUsageData as any)?.output_tokens || profiler.estimateTokens(accumulatedText);
                 const totalTokens = promptTokens + completionTokens;
-                const estimatedCost = calculateCost(config.model || '', promptTokens, completionTokens);
+                const servedFields = servedByLogFields(streamingServedBy, effectiveProvider, effectiveModel || '');
+                const estimatedCost = calculateCost(servedFields.model, promptTokens, completionTokens);
 
                 logLLMCall({
                   conversation_id: conversationId,
                   user_id: session.user.id,
-                  provider: config.provider,
-                  model: config.model || '',
+                  ...servedFields,
                   prompt_tokens: promptTokens,
                   completion_tokens: completionTokens,
                   total_tokens: totalTokens,
@@ -713,13 +791,13 @@ export async function generateAIResponseStreaming(
       const fallbackPromptTokens = json.usage?.input_tokens || json.usage?.prompt_tokens || profiler.estimateTokens(fullMessages.map(m => m.content).join(' '));
       const fallbackCompletionTokens = json.usage?.output_tokens || json.usage?.completion_tokens || profiler.estimateTokens(content);
       const fallbackTotalTokens = fallbackPromptTokens + fallbackCompletionTokens;
-      const fallbackEstimatedCost = calculateCost(config.model || '', fallbackPromptTokens, fallbackCompletionTokens);
+      const fallbackServedFields = servedByLogFields(json.servedBy, effectiveProvider, effectiveModel || '');
+      const fallbackEstimatedCost = calculateCost(fallbackServedFields.model, fallbackPromptTokens, fallbackCompletionTokens);
 
       logLLMCall({
         conversation_id: conversationId,
         user_id: session.user.id,
-        provider: config.provider,
-        model: config.model || '',
+        ...fallbackServedFields,
         prompt_tokens: fallbackPromptTokens,
         completion_tokens: fallbackCompletionTokens,
         total_tokens: fallbackTotalTokens,
@@ -745,11 +823,18 @@ export async function generateAIResponseStreaming(
   }
 }
 
+/**
+ * Get the currently configured provider (sync - no API key lookup)
+ */
+export function getAIProvider(): AIConfig['provider'] {
+  return config.provider;
+}
+
 /**
  * Check if streaming is supported for the current provider
  */
 export function isStreamingSupported(): boolean {
-  return config.provider === 'anthropic';
+  return config.provider === 'anthropic' || config.provider === 'mock';
 }
 
 /**
@@ -941,36 +1026,4 @@ async function generateGeminiResponse(messages: AIMessage[]): Promise<string> {
   }
 }
 
-/**
- * Mock AI response for development (no API key needed)
- */
-async function generateMockResponse(messages: AIMessage[]): Promise<string> {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-
-  const lastUserMessage = messages.filter(m => m.role === 'user').pop();
-  
-  if (!lastUserMessage) {
-    return "Hello! I'm here to help you with your journaling. What's on your mind today?";
-  }
-
-  const content = lastUserMessage.content.toLowerCase();
-
-  // Generate contextual mock responses based on user input
-  if (content.includes('hello') || content.includes('hi')) {
-    return "Hello! It's great to hear from you. How are you feeling today?";
-  }
-  
-  if (content.includes('feeling') || content.includes('feel')) {
-    return "Thank you for sharing how you're feeling. It's important to acknowledge our emotions. Would you like to tell me more about what's been on your mind?";
-  }
-  
-  if (content.includes('thank')) {
-    return "You're very welcome! I'm here to support you on your journaling journey. Is there anything else you'd like to explore or discuss?";
-  }
-
-  // Default empathetic response
-  return `I appreciate you sharing that with me. Your thoughts and experiences are valid. This is a safe space for you to express yourself. Would you like to explore this further, or is there something else on your mind?`;
-}
-
 
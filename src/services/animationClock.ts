@@ -0,0 +1,67 @@
+/**
+ * Animation Clock
+ *
+ * Time source and frame scheduler for the playback engine and character
+ * animation loops. Live playback uses the real clock (performance.now +
+ * requestAnimationFrame); offscreen rendering (clip export) uses a ManualClock
+ * that only moves when advanced, so every frame lands on an exact timestamp.
+ */
+
+export type FrameCallback = (time: number) => void;
+
+export interface AnimationClock {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Schedule a callback for the next frame - same contract as requestAnimationFrame */
+  requestFrame(callback: FrameCallback): number;
+  cancelFrame(id: number): void;
+}
+
+export const realClock: AnimationClock = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (id) => cancelAnimationFrame(id),
+};
+
+/**
+ * Deterministic clock - time only moves on advance()
+ * Each advance() runs the frame callbacks that were pending when it was called,
+ * like one requestAnimationFrame pass at the new time.
+ */
+export class ManualClock implements AnimationClock {
+  private time: number;
+  private nextId = 1;
+  private pending: Map<number, FrameCallback> = new Map();
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: FrameCallback): number {
+    const id = this.nextId++;
+    this.pending.set(id, callback);
+    return id;
+  }
+
+  cancelFrame(id: number): void {
+    this.pending.delete(id);
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+    const frame = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const callback of frame) {
+      callback(this.time);
+    }
+  }
+
+  /** Number of callbacks waiting for the next advance() */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+}
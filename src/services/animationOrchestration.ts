@@ -21,6 +21,7 @@ import {
 } from '../components/CharacterDisplay3D';
 import { getCharacter } from '../config/characters';
 import { SegmentVoice, parseSegmentVoice } from '../config/voiceConfig';
+import { SceneEnvironmentId, parseSceneEnvironmentId } from '../config/sceneEnvironments';
 import { resolveEffect, extractExpressionFromEmojis } from './emojiAnimations';
 
 // ============================================
@@ -52,6 +53,21 @@ export interface AnimationSegment {
   };
   voice?: SegmentVoice; // Voice characteristics for this segment (pitch, tone, volume, pace, mood, intent)
   actionText?: string; // Comic-style action text like "slams hand on table" (extracted from *asterisks*)
+  movement?: StageMovement; // Walk somewhere on stage when this segment starts
+}
+
+/**
+ * Stage movement for a segment (see stageChoreography for pathing)
+ * - forward: step toward the audience to speak
+ * - approach: walk up to another character (target)
+ * - swap: trade places with another character (target walks too)
+ * - home: return to own slot
+ */
+export type StageMovementType = 'forward' | 'approach' | 'swap' | 'home';
+
+export interface StageMovement {
+  type: StageMovementType;
+  target?: string; // Character ID for approach / swap
 }
 
 /**
@@ -75,6 +91,7 @@ export interface OrchestrationScene {
   nonSpeakerBehavior: {
     [characterId: string]: AnimationSegment[];
   };
+  environment?: SceneEnvironmentId; // Scene change requested for this turn
 }
 
 /**
@@ -912,6 +929,36 @@ function validateEffect(effect?: string): VisualEffect | undefined {
   return undefined;
 }
 
+const VALID_MOVEMENTS: StageMovementType[] = ['forward', 'approach', 'swap', 'home'];
+const TARGETED_MOVEMENTS: StageMovementType[] = ['approach', 'swap'];
+
+/**
+ * Validate stage movement - "forward", "home", "approach:ID", "swap:ID"
+ * (or a stored { type, target } object). Targets must be other selected characters.
+ */
+function validateMovement(
+  movement: unknown,
+  characterId: string,
+  selectedCharacters: string[]
+): StageMovement | undefined {
+  let type: string | undefined;
+  let target: string | undefined;
+  if (typeof movement === 'string') {
+    [type, target] = movement.split(':').map(part => part.trim());
+  } else if (movement && typeof movement === 'object') {
+    type = (movement as any).type;
+    target = (movement as any).target;
+  }
+
+  const normalized = type?.toLowerCase() as StageMovementType | undefined;
+  if (!normalized || !VALID_MOVEMENTS.includes(normalized)) return undefined;
+  if (!TARGETED_MOVEMENTS.includes(normalized)) return { type: normalized };
+
+  const targetId = target ? resolveCharacterId(target, selectedCharacters) : null;
+  if (!targetId || targetId === characterId) return undefined;
+  return { type: normalized, target: targetId };
+}
+
 /**
  * Validate and normalize eyebrow state
  */
@@ -1101,7 +1148,9 @@ interface SimplifiedSceneResponse {
       fh?: string;     // forehead (override)
       j?: string;      // jaw (override)
       v?: any;         // voice
+      mv?: string;     // movement: forward | home | approach:ID | swap:ID
     }>;
+    env?: string;      // scene environment change
   };
 }
 
@@ -1386,6 +1435,13 @@ function convertSimplifiedScene(
         talkingSegment.actionText = actionTexts.join(' ');
       }
 
+      // Movement starts with the first sentence
+      if (i === 0 && char.mv) {
+        const characterId = resolveCharacterId(char.c, selectedCharacters);
+        const movement = characterId ? validateMovement(char.mv, characterId, selectedCharacters) : undefined;
+        if (movement) talkingSegment.movement = movement;
+      }
+
       segments.push(talkingSegment);
 
       // Add pause segment after sentence (except for the last one)
@@ -1456,10 +1512,16 @@ function convertSimplifiedScene(
   console.log(`Total scene duration: ${sceneDuration}ms`);
   console.log('-----------------------------------------------------------\n');
 
+  const environment = parseSceneEnvironmentId(simplified.s.env);
+  if (simplified.s.env && !environment) {
+    console.warn(`[AnimOrch] Ignoring unknown environment "${simplified.s.env}"`);
+  }
+
   return {
     timelines,
     sceneDuration,
-    nonSpeakerBehavior: {} // Will be filled by fillGapsForNonSpeakers
+    nonSpeakerBehavior: {}, // Will be filled by fillGapsForNonSpeakers
+    ...(environment && { environment }),
   };
 }
 
@@ -2365,3 +2427,143 @@ export function adjustSceneForTTS(
   };
 }
 
+
+// ============================================
+// STORED SCENES
+// ============================================
+
+/**
+ * Every character in a scene - speakers in speaking order, then listeners
+ */
+export function getSceneCharacterIds(scene: OrchestrationScene): string[] {
+  const ids: string[] = [];
+  scene.timelines.forEach(t => { if (!ids.includes(t.characterId)) ids.push(t.characterId); });
+  Object.keys(scene.nonSpeakerBehavior).forEach(id => { if (!ids.includes(id)) ids.push(id); });
+  return ids;
+}
+
+/**
+ * Recalculate timeline and scene durations from segment durations
+ * Used after editing segments by hand (timeline editor) or loading a stored scene.
+ */
+export function recalculateSceneDurations(scene: OrchestrationScene): OrchestrationScene {
+  const timelines = scene.timelines.map(timeline => ({
+    ...timeline,
+    totalDuration: timeline.segments.reduce((sum, seg) => sum + seg.duration, 0),
+  }));
+
+  const speakerEnd = timelines.reduce((max, t) => Math.max(max, t.startDelay + t.totalDuration), 0);
+  const listenerEnd = Object.values(scene.nonSpeakerBehavior).reduce(
+    (max, segments) => Math.max(max, segments.reduce((sum, seg) => sum + seg.duration, 0)),
+    0
+  );
+
+  return {
+    ...scene,
+    timelines,
+    sceneDuration: Math.max(speakerEnd, listenerEnd),
+  };
+}
+
+/**
+ * Validate a stored segment (already in AnimationSegment shape)
+ * Unlike parseSegment, durations are kept as authored - stored scenes are exact.
+ */
+function normalizeStoredSegment(raw: any, contentLength: number): AnimationSegment {
+  const segment: AnimationSegment = {
+    animation: validateAnimation(typeof raw?.animation === 'string' ? raw.animation : 'idle'),
+    duration: typeof raw?.duration === 'number' && raw.duration > 0 ? Math.round(raw.duration) : MIN_SEGMENT_DURATION,
+    isTalking: raw?.isTalking === true,
+  };
+
+  const rawComp = raw?.complementary;
+  if (rawComp && typeof rawComp === 'object') {
+    const complementary: AnimationSegment['complementary'] = {};
+    const lookDir = validateLookDirection(rawComp.lookDirection);
+    if (lookDir) complementary.lookDirection = lookDir;
+    const eyeState = validateEyeState(rawComp.eyeState);
+    if (eyeState) complementary.eyeState = eyeState;
+    const eyebrowState = validateEyebrowState(rawComp.eyebrowState);
+    if (eyebrowState) complementary.eyebrowState = eyebrowState;
+    const mouthState = validateMouthState(rawComp.mouthState);
+    if (mouthState) complementary.mouthState = mouthState;
+    const faceState = validateFaceState(rawComp.faceState);
+    if (faceState) complementary.faceState = faceState;
+    const effect = validateEffect(rawComp.effect);
+    if (effect) complementary.effect = effect;
+    if (typeof rawComp.speed === 'number' && rawComp.speed > 0) complementary.speed = rawComp.speed;
+    if (typeof rawComp.blinkDuration === 'number') complementary.blinkDuration = rawComp.blinkDuration;
+    if (typeof rawComp.blinkPeriod === 'number') complementary.blinkPeriod = rawComp.blinkPeriod;
+    if (Object.keys(complementary).length > 0) segment.complementary = complementary;
+  }
+
+  const reveal = raw?.textReveal;
+  if (reveal && typeof reveal.startIndex === 'number' && typeof reveal.endIndex === 'number') {
+    const startIndex = Math.max(0, Math.min(reveal.startIndex, contentLength));
+    segment.textReveal = {
+      startIndex,
+      endIndex: Math.max(startIndex, Math.min(reveal.endIndex, contentLength)),
+    };
+  }
+
+  const voice = parseSegmentVoice(raw?.voice);
+  if (voice) segment.voice = voice;
+
+  if (typeof raw?.actionText === 'string' && raw.actionText.trim()) {
+    segment.actionText = raw.actionText.trim();
+  }
+
+  // Targets aren't checked against a cast here - the stage plan skips unknown ones
+  const rawMovement = raw?.movement;
+  if (rawMovement && VALID_MOVEMENTS.includes(rawMovement.type)) {
+    if (!TARGETED_MOVEMENTS.includes(rawMovement.type)) {
+      segment.movement = { type: rawMovement.type };
+    } else if (typeof rawMovement.target === 'string' && rawMovement.target) {
+      segment.movement = { type: rawMovement.type, target: rawMovement.target };
+    }
+  }
+
+  return segment;
+}
+
+/**
+ * Validate a stored OrchestrationScene (saved scene file, persisted turn)
+ * Returns null if the data doesn't look like a scene at all.
+ */
+export function normalizeOrchestrationScene(raw: any): OrchestrationScene | null {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.timelines)) {
+    return null;
+  }
+
+  const timelines: CharacterTimeline[] = raw.timelines
+    .filter((t: any) => t && typeof t.characterId === 'string' && Array.isArray(t.segments))
+    .map((t: any) => {
+      const content = typeof t.content === 'string' ? t.content : '';
+      return {
+        characterId: t.characterId,
+        content,
+        totalDuration: 0,
+        segments: t.segments.map((seg: any) => normalizeStoredSegment(seg, content.length)),
+        startDelay: typeof t.startDelay === 'number' && t.startDelay > 0 ? Math.round(t.startDelay) : 0,
+        isInterruption: t.isInterruption === true,
+      };
+    });
+
+  const nonSpeakerBehavior: OrchestrationScene['nonSpeakerBehavior'] = {};
+  if (raw.nonSpeakerBehavior && typeof raw.nonSpeakerBehavior === 'object') {
+    Object.entries(raw.nonSpeakerBehavior).forEach(([characterId, segments]) => {
+      if (Array.isArray(segments)) {
+        nonSpeakerBehavior[characterId] = segments.map((seg: any) => normalizeStoredSegment(seg, 0));
+      }
+    });
+  }
+
+  const environment = parseSceneEnvironmentId(raw.environment);
+
+  return recalculateSceneDurations({
+    timelines,
+    sceneDuration: 0,
+    nonSpeakerBehavior,
+    ...(environment && { environment }),
+  });
+}
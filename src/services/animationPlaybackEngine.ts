@@ -2,7 +2,8 @@
  * Animation Playback Engine
  * 
  * Real-time playback engine for orchestrated animation scenes.
- * Uses requestAnimationFrame for smooth 60fps updates.
+ * Uses requestAnimationFrame for smooth 60fps updates, or a ManualClock for
+ * deterministic offscreen rendering (see animationClock).
  */
 
 import {
@@ -18,6 +19,7 @@ import {
   MouthState,
   EyeState
 } from '../components/CharacterDisplay3D';
+import { AnimationClock, realClock } from './animationClock';
 import {
   CharacterVoiceProfile,
   SegmentVoice,
@@ -127,6 +129,13 @@ export class AnimationPlaybackEngine {
   private lastRevealedLengths: Map<string, number> = new Map();
   private soundInterval: number = 65; // ms between sounds (roughly per character)
 
+  // Time source - real time for live playback, manual for offscreen rendering
+  private clock: AnimationClock;
+
+  constructor(clock: AnimationClock = realClock) {
+    this.clock = clock;
+  }
+
   // ============================================
   // PUBLIC METHODS
   // ============================================
@@ -197,7 +206,7 @@ export class AnimationPlaybackEngine {
   setTTSCharPosition(characterId: string, charIndex: number): void {
     this.ttsCharPositions.set(characterId, charIndex);
     // Throttle state updates to prevent excessive re-renders
-    const now = performance.now();
+    const now = this.clock.now();
     if (this.status === 'playing' && (now - this.lastTTSUpdateTime) >= this.ttsUpdateThrottleMs) {
       this.lastTTSUpdateTime = now;
       this.notifyCallbacks();
@@ -241,14 +250,14 @@ export class AnimationPlaybackEngine {
   play(scene: OrchestrationScene): void {
     // Cancel any existing animation frame without full stop() to avoid chars: 0 flash
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.clock.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
 
     // Reset state without clearing cached states (prevents character disappearing during transition)
     this.scene = scene;
     this.status = 'playing';
-    this.startTime = performance.now();
+    this.startTime = this.clock.now();
     this.pausedAt = 0;
 
     // Clear cached expressions for new scene
@@ -320,10 +329,10 @@ export class AnimationPlaybackEngine {
     if (this.status !== 'playing') return;
     
     this.status = 'paused';
-    this.pausedAt = performance.now() - this.startTime;
+    this.pausedAt = this.clock.now() - this.startTime;
     
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.clock.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
   }
@@ -335,17 +344,46 @@ export class AnimationPlaybackEngine {
     if (this.status !== 'paused' || !this.scene) return;
 
     this.status = 'playing';
-    this.startTime = performance.now() - this.pausedAt;
+    this.startTime = this.clock.now() - this.pausedAt;
 
     this.tick();
   }
 
+  /**
+   * Jump to a point in the current scene (ms)
+   * Keeps playing if playing; otherwise the scene is left paused at that point
+   * so the characters hold the pose (used for scrubbing in the timeline editor).
+   */
+  seek(elapsedMs: number): void {
+    if (!this.scene) return;
+
+    const target = Math.max(0, Math.min(elapsedMs, this.scene.sceneDuration));
+    const wasPlaying = this.status === 'playing';
+    this.lastCachedElapsed = -1;
+
+    if (wasPlaying) {
+      this.startTime = this.clock.now() - target;
+    } else {
+      this.status = 'paused';
+      this.pausedAt = target;
+    }
+
+    // Don't play talking sounds for text revealed by the jump
+    this.characterTimelinesCache.forEach((_, characterId) => {
+      this.lastRevealedLengths.set(characterId, this.getRevealedText(characterId).length);
+    });
+
+    if (!wasPlaying) {
+      this.notifyCallbacks();
+    }
+  }
+
   /**
    * Stop playback and reset
    */
   stop(): void {
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.clock.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
 
@@ -428,7 +466,7 @@ export class AnimationPlaybackEngine {
   getElapsedTime(): number {
     if (this.status === 'idle') return 0;
     if (this.status === 'paused') return this.pausedAt;
-    return performance.now() - this.startTime;
+    return this.clock.now() - this.startTime;
   }
 
   /**
@@ -758,6 +796,13 @@ export class AnimationPlaybackEngine {
     return this.scene !== null;
   }
 
+  /**
+   * Get the scene being played (null when nothing is loaded)
+   */
+  getScene(): OrchestrationScene | null {
+    return this.scene;
+  }
+
   /**
    * Get the scene duration
    */
@@ -776,12 +821,12 @@ export class AnimationPlaybackEngine {
     if (this.status !== 'playing' || !this.scene) return;
 
     const perfStart = performanceLogger.frameStart();
-    const now = performance.now();
+    const now = this.clock.now();
     const elapsed = now - this.startTime;
 
     // Throttle updates
     if (now - this.lastUpdateTime < this.updateThrottleMs) {
-      this.animationFrameId = requestAnimationFrame(this.tick);
+      this.animationFrameId = this.clock.requestFrame(this.tick);
       return;
     }
     this.lastUpdateTime = now;
@@ -841,7 +886,7 @@ export class AnimationPlaybackEngine {
 
     performanceLogger.frameEnd(perfStart, 'PlaybackEngine:tick');
     // Schedule next frame
-    this.animationFrameId = requestAnimationFrame(this.tick);
+    this.animationFrameId = this.clock.requestFrame(this.tick);
   };
 
   /**
@@ -997,7 +1042,7 @@ export class AnimationPlaybackEngine {
     if (!this.talkingSoundsEnabled || !this.scene) return;
 
     const soundsService = getTalkingSoundsService();
-    const now = performance.now();
+    const now = this.clock.now();
 
     // Check each character with an active timeline
     for (const [characterId, timelines] of this.characterTimelinesCache) {
@@ -206,20 +206,24 @@ export async function generateTitle(
 // ============================================
 
 /**
- * Extract entities from text using AI
+ * Extract entities and entity-to-entity relationships from text using AI
+ * Throws on failure so callers can fall back to offline extraction
  */
 export async function extractEntities(
   axAI: AxAI,
   text: string
-): Promise<EntityExtractionOutput['entities']> {
+): Promise<EntityExtractionOutput> {
   const gen = new AxGen(entityExtractionSignature);
 
   try {
     const result = await gen.forward(axAI, { text }) as EntityExtractionOutput;
-    return result.entities || [];
+    return {
+      entities: Array.isArray(result.entities) ? result.entities : [],
+      relationships: Array.isArray(result.relationships) ? result.relationships : [],
+    };
   } catch (error) {
     console.error('[AxService] Entity extraction error:', error);
-    return [];
+    throw error;
   }
 }
 
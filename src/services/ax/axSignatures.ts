@@ -99,25 +99,43 @@ export type ConversationTitleOutput = {
 // ============================================
 
 /**
- * Extract entities (people, places, organizations) from text
+ * Knowledge graph entity types (mirrors the `entities.type` column)
+ */
+export const ENTITY_TYPES = [
+  'person', 'place', 'organization', 'event', 'topic', 'emotion'
+] as const;
+
+export type EntityType = typeof ENTITY_TYPES[number];
+
+/**
+ * Extract entities and the relationships between them from text
  */
 export const entityExtractionSignature = new AxSignature(`
-  "Extract named entities from user message text"
+  "Extract named entities and how they relate to each other from a diary entry"
   
   text:string "The text to extract entities from"
   
   ->
   
-  entities:json "Array of {name: string, type: 'person'|'place'|'organization'}"
+  entities:json "Array of {name: string, type: '${ENTITY_TYPES.join("'|'")}'}",
+  relationships:json "Array of {from: string, to: string, type: string, strength: number 0-1} between extracted entity names"
 `);
 
 export type ExtractedEntity = {
   name: string;
-  type: 'person' | 'place' | 'organization';
+  type: EntityType;
+};
+
+export type ExtractedRelationship = {
+  from: string;
+  to: string;
+  type: string;
+  strength?: number;
 };
 
 export type EntityExtractionOutput = {
   entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
 };
 
 // ============================================
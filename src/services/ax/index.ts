@@ -36,6 +36,8 @@ export {
   type ConversationTitleOutput,
   type EntityExtractionOutput,
   type ExtractedEntity,
+  type ExtractedRelationship,
+  type EntityType,
   type OrchestrationOutput,
   type OrchestrationResponse,
   type SentimentOutput,
@@ -44,6 +46,7 @@ export {
   // Constants
   EMOTIONS,
   ANIMATIONS,
+  ENTITY_TYPES,
 } from './axSignatures';
 
 // Re-export service functions
@@ -7,6 +7,7 @@
 
 import { generateAIResponse } from './aiService';
 import { CharacterBehavior } from '../config/characters';
+import { getAccessorySchemaForPrompt, parseAccessoryDefinition } from '../components/character3d/accessoryDefinitions';
 
 // Step 2: LLM analyzes character name
 export interface CharacterAnalysis {
@@ -105,11 +106,16 @@ Response format (JSON only, no markdown):
     "accessory": "glasses/none/hat/tie/scarf/bowtie/cape/crown/headphones/necklace/suspenders/backpack/wings",
     "bodyColor": "#hex",
     "accessoryColor": "#hex",
-    "hairColor": "#hex"
+    "hairColor": "#hex",
+    "modelStyle": "blocky/chibi/paper",
+    "customAccessories": []
   },
   "color": "#hex",
   "responseStyle": "one word style"
-}`;
+}
+
+customAccessories (optional, at most 2): signature items not in the accessory list above, built from simple shapes:
+${getAccessorySchemaForPrompt()}`;
 
   const traitsText = description.keyTraits.join(', ');
   const descText = description.description || '';
@@ -136,6 +142,20 @@ Respond with ONLY valid JSON, no markdown formatting.`;
     const cleanedResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
     const config = JSON.parse(cleanedResponse);
 
+    // Drop invented accessories that don't fit the schema rather than failing the character
+    const customAccessories = config.customization?.customAccessories;
+    if (Array.isArray(customAccessories)) {
+      config.customization.customAccessories = customAccessories.filter((definition: unknown) => {
+        try {
+          parseAccessoryDefinition(definition);
+          return true;
+        } catch (error) {
+          console.warn('[CharGen]', (error as Error).message);
+          return false;
+        }
+      });
+    }
+
     return config;
   } catch (error) {
     console.error('[CharGen] Error generating character:', error);
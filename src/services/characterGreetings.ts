@@ -13,6 +13,7 @@
 
 import { TemperamentId, isValidTemperament } from '../config/temperaments';
 import { GREETING_TEMPLATES, getGreetingFromTemperament } from './greetingTemplates';
+import { LanguageCode, DEFAULT_LANGUAGE } from '../config/languages';
 
 // Fallback greetings when no temperament is defined
 const FALLBACK_GREETINGS: string[] = [
@@ -23,6 +24,40 @@ const FALLBACK_GREETINGS: string[] = [
   "Welcome. What would you like to explore together?",
 ];
 
+// Localized fallbacks - {name} is replaced with the character's name
+const LOCALIZED_FALLBACK_GREETINGS: Record<Exclude<LanguageCode, 'en'>, string[]> = {
+  es: [
+    "Hola. ¿Qué te trae por aquí hoy?",
+    "Hola, soy {name}. Estoy aquí para escucharte. ¿Qué tienes en mente?",
+    "Te doy la bienvenida. ¿Qué te gustaría explorar hoy?",
+  ],
+  fr: [
+    "Bonjour. Qu'est-ce qui t'amène aujourd'hui ?",
+    "Salut, je suis {name}. Je suis là pour t'écouter. À quoi penses-tu ?",
+    "Bienvenue. Qu'aimerais-tu explorer aujourd'hui ?",
+  ],
+  de: [
+    "Hallo. Was führt dich heute zu mir?",
+    "Hi, ich bin {name}. Ich bin hier, um zuzuhören. Was beschäftigt dich?",
+    "Willkommen. Worüber möchtest du heute sprechen?",
+  ],
+  it: [
+    "Ciao. Cosa ti porta qui oggi?",
+    "Ciao, sono {name}. Sono qui per ascoltarti. A cosa stai pensando?",
+    "Eccoti. Di cosa ti piacerebbe parlare oggi?",
+  ],
+  pt: [
+    "Oi. O que traz você aqui hoje?",
+    "Oi, eu sou {name}. Estou aqui para ouvir. O que você tem em mente?",
+    "Boas-vindas! Sobre o que você gostaria de conversar hoje?",
+  ],
+  ja: [
+    "こんにちは。今日はどうしましたか？",
+    "こんにちは、{name}です。話を聞かせてください。何を考えていますか？",
+    "ようこそ。今日は何について話しましょうか？",
+  ],
+};
+
 /**
  * Get a random greeting based on character's temperaments
  * 
@@ -33,17 +68,19 @@ const FALLBACK_GREETINGS: string[] = [
  * @param characterId - The character's unique ID (for logging)
  * @param characterName - The character's display name (for fallback)
  * @param temperaments - Array of temperament IDs (e.g., ['fierce', 'sardonic'])
+ * @param language - Conversation language (localized greetings for non-English)
  * @returns A greeting string appropriate to the character's temperament
  */
 export function getRandomGreeting(
   characterId: string,
   characterName: string,
-  temperaments?: string[]
+  temperaments?: string[],
+  language: LanguageCode = DEFAULT_LANGUAGE
 ): string {
   // If no temperaments defined, use fallback
   if (!temperaments || temperaments.length === 0) {
     console.log(`[Greetings] No temperaments for ${characterId}, using fallback`);
-    return getFallbackGreeting(characterName);
+    return getFallbackGreeting(characterName, language);
   }
 
   // Validate temperaments
@@ -51,14 +88,14 @@ export function getRandomGreeting(
 
   if (validTemperaments.length === 0) {
     console.warn(`[Greetings] No valid temperaments for ${characterId}:`, temperaments);
-    return getFallbackGreeting(characterName);
+    return getFallbackGreeting(characterName, language);
   }
 
   // Select temperament based on probability
   const selectedTemperament = selectTemperament(validTemperaments);
 
   // Get random greeting from selected temperament pool
-  const greeting = getGreetingFromTemperament(selectedTemperament);
+  const greeting = getGreetingFromTemperament(selectedTemperament, language);
 
   console.log(`[Greetings] ${characterId}: selected ${selectedTemperament} temperament`);
 
@@ -93,7 +130,12 @@ function selectTemperament(temperaments: TemperamentId[]): TemperamentId {
 /**
  * Get a fallback greeting with character name placeholder
  */
-function getFallbackGreeting(characterName: string): string {
+function getFallbackGreeting(characterName: string, language: LanguageCode = DEFAULT_LANGUAGE): string {
+  if (language !== 'en') {
+    const localized = LOCALIZED_FALLBACK_GREETINGS[language];
+    return localized[Math.floor(Math.random() * localized.length)].replace('{name}', characterName);
+  }
+
   const randomIndex = Math.floor(Math.random() * FALLBACK_GREETINGS.length);
   const greeting = FALLBACK_GREETINGS[randomIndex];
 
@@ -0,0 +1,449 @@
+/**
+ * Conversation Export Service
+ * Serializes conversations to Markdown, versioned JSON and printable HTML,
+ * and parses JSON backups for re-import
+ *
+ * The JSON format is the only one that round-trips (every branch of the message tree):
+ * Markdown and HTML are for reading and show the branch the chat shows.
+ */
+
+import { Platform, Share } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { getCharacter } from '../config/characters';
+import { buildMessagePath } from '../utils/messageTree';
+
+export const CONVERSATION_EXPORT_FORMAT = 'wakatto-conversations';
+// v2: messages carry id/parentId (message tree); v1 files are a single linear thread
+export const CONVERSATION_EXPORT_VERSION = 2;
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export interface ExportedMessage {
+  id: string;                // ID in the exported file - only used to link replies
+  parentId: string | null;   // Previous message on this message's branch (null for the first)
+  role: 'user' | 'assistant';
+  content: string;
+  characterId: string | null;
+  createdAt: string;
+  metadata: Record<string, any> | null;
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  selectedCharacters: string[];
+  messages: ExportedMessage[];
+}
+
+export interface ConversationExportFile {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: ExportedConversation[];
+}
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+/**
+ * Error thrown when an import file can't be read
+ */
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Load conversations with their messages for export
+ * Pass conversation IDs to export specific conversations, or omit for all of the user's own
+ */
+export async function loadConversationsForExport(conversationIds?: string[]): Promise<ExportedConversation[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  let query = supabase
+    .from('conversations')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  query = conversationIds ? query.in('id', conversationIds) : query.eq('user_id', user.id);
+
+  const { data: conversations, error } = await query;
+  if (error) throw error;
+
+  const exported: ExportedConversation[] = [];
+
+  for (const conv of conversations || []) {
+    // Superseded rows are loaded too - replies can hang off them (see toExportedMessages)
+    const { data: messages, error: msgError } = await supabase
+      .from('messages')
+      .select('id, parent_message_id, superseded_by, role, content, character_id, created_at, metadata')
+      .eq('conversation_id', conv.id)
+      .order('created_at', { ascending: true });
+
+    if (msgError) {
+      console.error('[ConversationExport] Error loading messages for', conv.id, msgError);
+      throw msgError;
+    }
+
+    exported.push({
+      id: conv.id,
+      title: conv.title,
+      createdAt: conv.created_at,
+      updatedAt: conv.updated_at,
+      selectedCharacters: conv.selected_characters || [],
+      messages: toExportedMessages(messages || []),
+    });
+  }
+
+  console.log(`[ConversationExport] Loaded ${exported.length} conversations for export`);
+  return exported;
+}
+
+/**
+ * Visible user/assistant rows, each linked to its nearest exported ancestor
+ * Regenerated turns leave superseded rows mid-branch, so replies to them move up.
+ */
+function toExportedMessages(rows: any[]): ExportedMessage[] {
+  const byId = new Map<string, any>();
+  rows.forEach(row => byId.set(row.id, row));
+  const isExported = (row: any) => !row.superseded_by && (row.role === 'user' || row.role === 'assistant');
+
+  return rows.filter(isExported).map(row => {
+    const visited = new Set<string>();
+    let parent = row.parent_message_id ? byId.get(row.parent_message_id) : undefined;
+    while (parent && !isExported(parent) && !visited.has(parent.id)) {
+      visited.add(parent.id);
+      parent = parent.parent_message_id ? byId.get(parent.parent_message_id) : undefined;
+    }
+
+    return {
+      id: row.id,
+      parentId: parent && isExported(parent) ? parent.id : null,
+      role: row.role,
+      content: row.content,
+      characterId: row.character_id || null,
+      createdAt: row.created_at,
+      metadata: row.metadata && Object.keys(row.metadata).length > 0 ? row.metadata : null,
+    };
+  });
+}
+
+// ============================================
+// SERIALIZATION
+// ============================================
+
+/**
+ * Display name for a message's speaker
+ */
+function getSpeakerName(message: ExportedMessage): string {
+  if (message.role === 'user') {
+    return message.metadata?.sender_name || 'You';
+  }
+  if (message.characterId) {
+    const character = getCharacter(message.characterId);
+    return character.id === message.characterId ? character.name : message.characterId;
+  }
+  return 'Assistant';
+}
+
+/**
+ * The branch a reader sees: root to the most recent message, as the chat shows it
+ */
+function getReadingPath(conv: ExportedConversation): ExportedMessage[] {
+  return buildMessagePath(conv.messages.map(message => ({
+    ...message,
+    parent_message_id: message.parentId,
+    created_at: message.createdAt,
+  }))).path;
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function toMarkdown(conversations: ExportedConversation[]): string {
+  return conversations.map(conv => {
+    const lines: string[] = [
+      `# ${conv.title}`,
+      '',
+      `*Started ${formatDateTime(conv.createdAt)}*`,
+    ];
+
+    const characterNames = conv.selectedCharacters.map(id => getCharacter(id).name);
+    if (characterNames.length > 0) {
+      lines.push('', `**Wakattors:** ${characterNames.join(', ')}`);
+    }
+
+    lines.push('');
+    getReadingPath(conv).forEach(message => {
+      lines.push(`**${getSpeakerName(message)}** · ${formatDateTime(message.createdAt)}`, '');
+      // Blockquote each line so multi-paragraph messages stay grouped
+      lines.push(message.content.split('\n').map(line => `> ${line}`).join('\n'), '');
+    });
+
+    return lines.join('\n');
+  }).join('\n---\n\n');
+}
+
+export function toJSON(conversations: ExportedConversation[]): string {
+  const file: ConversationExportFile = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function toHTML(conversations: ExportedConversation[]): string {
+  const title = conversations.length === 1 ? conversations[0].title : 'Wakatto Conversations';
+
+  const body = conversations.map(conv => {
+    const messages = getReadingPath(conv).map(message => {
+      const character = message.characterId ? getCharacter(message.characterId) : null;
+      const color = message.role === 'assistant' && character ? character.color : '#10b981';
+      return `
+      <div class="message ${message.role}" style="border-left-color: ${escapeHtml(color)}">
+        <div class="meta"><span class="speaker" style="color: ${escapeHtml(color)}">${escapeHtml(getSpeakerName(message))}</span>
+        <span class="time">${escapeHtml(formatDateTime(message.createdAt))}</span></div>
+        <div class="content">${escapeHtml(message.content).replace(/\n/g, '<br>')}</div>
+      </div>`;
+    }).join('');
+
+    return `
+    <section class="conversation">
+      <h1>${escapeHtml(conv.title)}</h1>
+      <p class="started">Started ${escapeHtml(formatDateTime(conv.createdAt))}</p>
+      ${messages}
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 24px; color: #18181b; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  .started { color: #71717a; font-size: 13px; margin-top: 0; }
+  .message { border-left: 4px solid; padding: 8px 14px; margin: 14px 0; page-break-inside: avoid; }
+  .message.user { background: #f4f4f5; }
+  .meta { font-size: 12px; margin-bottom: 4px; }
+  .speaker { font-weight: 700; margin-right: 8px; }
+  .time { color: #a1a1aa; }
+  .conversation + .conversation { page-break-before: always; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialize conversations in the given format
+ */
+export function serializeConversations(conversations: ExportedConversation[], format: ExportFormat): string {
+  switch (format) {
+    case 'markdown': return toMarkdown(conversations);
+    case 'html': return toHTML(conversations);
+    case 'json':
+    default:
+      return toJSON(conversations);
+  }
+}
+
+/**
+ * Build a filesystem-friendly file name
+ */
+export function getExportFileName(baseName: string, format: ExportFormat): string {
+  const safeName = baseName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60) || 'conversation';
+  const date = new Date().toISOString().split('T')[0];
+  return `wakatto-${safeName}-${date}.${FORMAT_DETAILS[format].extension}`;
+}
+
+/**
+ * Hand the exported file to the user
+ * Web: browser download. Native: system share sheet.
+ */
+export async function deliverExport(content: string, fileName: string, format: ExportFormat): Promise<void> {
+  if (Platform.OS === 'web' && typeof document !== 'undefined') {
+    const blob = new Blob([content], { type: `${FORMAT_DETAILS[format].mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return;
+  }
+
+  await Share.share({ message: content, title: fileName });
+}
+
+/**
+ * Load, serialize and deliver conversations in one step
+ */
+export async function exportConversations(
+  format: ExportFormat,
+  conversationIds?: string[]
+): Promise<number> {
+  const conversations = await loadConversationsForExport(conversationIds);
+  if (conversations.length === 0) {
+    return 0;
+  }
+
+  const baseName = conversations.length === 1 ? conversations[0].title : 'backup';
+  await deliverExport(
+    serializeConversations(conversations, format),
+    getExportFileName(baseName, format),
+    format
+  );
+  return conversations.length;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Parse and validate a JSON export file
+ * Throws ConversationImportError for anything that isn't a supported Wakatto export
+ */
+export function parseConversationImport(text: string): ExportedConversation[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new ConversationImportError('The file is not valid JSON.');
+  }
+
+  if (!parsed || parsed.format !== CONVERSATION_EXPORT_FORMAT || !Array.isArray(parsed.conversations)) {
+    throw new ConversationImportError('This file is not a Wakatto conversation export.');
+  }
+
+  if (typeof parsed.version !== 'number' || parsed.version > CONVERSATION_EXPORT_VERSION) {
+    throw new ConversationImportError(
+      `Unsupported export version ${parsed.version}. Please update Wakatto and try again.`
+    );
+  }
+
+  return parsed.conversations.map((conv: any, index: number) => {
+    if (typeof conv.title !== 'string' || !Array.isArray(conv.messages)) {
+      throw new ConversationImportError(`Conversation #${index + 1} is malformed.`);
+    }
+
+    return {
+      id: String(conv.id || ''),
+      title: conv.title,
+      createdAt: conv.createdAt,
+      updatedAt: conv.updatedAt,
+      selectedCharacters: Array.isArray(conv.selectedCharacters) ? conv.selectedCharacters : [],
+      messages: orderParentsFirst(conv.messages
+        .filter((m: any) => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+        .map((m: any, messageIndex: number, messages: any[]) => ({
+          // v1 files have no tree - chain the messages in file order
+          id: parsed.version >= 2 ? String(m.id) : String(messageIndex),
+          parentId: parsed.version >= 2
+            ? (m.parentId ? String(m.parentId) : null)
+            : (messageIndex > 0 ? String(messageIndex - 1) : null),
+          role: m.role,
+          content: m.content,
+          characterId: m.characterId || null,
+          createdAt: m.createdAt,
+          metadata: m.metadata || null,
+        }))),
+    };
+  });
+}
+
+/**
+ * Order messages so every parent comes before its replies (import saves them in this order)
+ * Replies to messages missing from the file start their own branch at the root.
+ */
+function orderParentsFirst(messages: ExportedMessage[]): ExportedMessage[] {
+  const ids = new Set(messages.map(m => m.id));
+  const children = new Map<string | null, ExportedMessage[]>();
+  messages.forEach(message => {
+    const parentId = message.parentId && ids.has(message.parentId) ? message.parentId : null;
+    const list = children.get(parentId) || [];
+    list.push(message);
+    children.set(parentId, list);
+  });
+
+  const ordered: ExportedMessage[] = [];
+  const queue = [...(children.get(null) || [])];
+  while (queue.length > 0) {
+    const message = queue.shift()!;
+    ordered.push(message);
+    queue.push(...(children.get(message.id) || []));
+  }
+  return ordered;
+}
+
+/**
+ * Whether this platform can pick a file to import (the browser file picker - no native picker yet)
+ */
+export function isImportFileSupported(): boolean {
+  return Platform.OS === 'web' && typeof document !== 'undefined';
+}
+
+/**
+ * Let the user pick a JSON backup file and return its text (web only)
+ * Resolves null if the picker is cancelled or unavailable (see isImportFileSupported)
+ */
+export function pickImportFile(): Promise<string | null> {
+  if (!isImportFileSupported()) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsText(file);
+    };
+    input.click();
+  });
+}
@@ -12,6 +12,7 @@ import { AnimationState, LookDirection } from '../components/CharacterDisplay3D'
 import { generateAIResponseStreaming, isStreamingSupported } from './aiService';
 import { getVoiceOptionsForPrompt } from '../config/voiceConfig';
 import { Story } from './storyLibrary';
+import { LanguageCode, getLanguageInstruction } from '../config/languages';
 
 // ============================================
 // STARTER THEMES
@@ -228,21 +229,23 @@ export interface ConversationStarterResult {
  * @param characterIds - Array of character IDs to generate starter for
  * @param onProgress - Optional callback for streaming progress (0-100)
  * @param story - Optional story to use as conversation topic
+ * @param language - Language the characters talk in (English if unset)
  * @returns Promise with scene and character responses
  */
 export async function generateConversationStarter(
   characterIds: string[],
   onProgress?: (percentage: number) => void,
-  story?: Story
+  story?: Story,
+  language?: LanguageCode
 ): Promise<ConversationStarterResult> {
   console.log('[ConversationStarter] Starting generation for', characterIds.length, 'characters:', characterIds);
   console.log('[ConversationStarter] Story:', story?.toastText || 'none');
 
   const isSingleCharacter = characterIds.length === 1;
 
-  const prompt = isSingleCharacter
+  const prompt = (isSingleCharacter
     ? buildSingleCharacterStarterPrompt(characterIds[0])
-    : buildMultiCharacterStarterPrompt(characterIds, story);
+    : buildMultiCharacterStarterPrompt(characterIds, story)) + getLanguageInstruction(language);
 
   // Anthropic API requires at least one user message
   const conversationMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [
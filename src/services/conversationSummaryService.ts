@@ -0,0 +1,138 @@
+/**
+ * Conversation Summary Service
+ * Rolling summarization that keeps orchestration prompts within budget
+ *
+ * Once a conversation's history exceeds the provider's context budget
+ * (LLM_CONFIG[provider].contextBudget) - more than recentMessages messages, or
+ * more than maxHistoryTokens - older turns are folded into a summary stored on
+ * the conversation. Prompts then send the summary plus the most recent messages
+ * instead of the full history, so no turn is dropped without being summarized.
+ */
+
+import { supabase } from '../lib/supabase';
+import { generateAIResponse, getAIProvider } from './aiService';
+import { getCharacter } from '../config/characters';
+import { getContextBudget } from '../config/llmConfig';
+import { ConversationMessage } from './multiCharacterConversation';
+
+export interface ConversationContext {
+  summary: string | null;                 // Summary of everything before recentHistory
+  recentHistory: ConversationMessage[];   // Messages to send verbatim
+}
+
+// Rough token estimate (same heuristic as the profiler)
+function estimateTokens(messages: ConversationMessage[]): number {
+  return Math.ceil(messages.reduce((total, m) => total + m.content.length, 0) / 4);
+}
+
+function formatTranscript(messages: ConversationMessage[]): string {
+  return messages
+    .map(m => m.role === 'user'
+      ? `User: ${m.content}`
+      : `${m.characterId ? getCharacter(m.characterId).name : 'Assistant'}: ${m.content}`)
+    .join('\n');
+}
+
+const SUMMARY_PROMPT = `You keep a running summary of a group chat between a user and several characters ("wakattors").
+Update the summary so it covers the previous summary plus the new messages.
+
+Keep:
+- What the user shared about themselves and their situation
+- Topics discussed and where each one ended up
+- Notable moments between the characters (running jokes, arguments, who sided with whom)
+- Anything the user asked to come back to later
+
+Write in past tense, third person, as compact paragraphs. Stay under 250 words.
+Respond with ONLY the updated summary.`;
+
+async function summarize(previousSummary: string | null, messages: ConversationMessage[]): Promise<string> {
+  const content = previousSummary
+    ? `Previous summary:\n${previousSummary}\n\nNew messages:\n${formatTranscript(messages)}`
+    : `New messages:\n${formatTranscript(messages)}`;
+
+  const summary = await generateAIResponse(
+    [{ role: 'user', content }],
+    SUMMARY_PROMPT,
+    'conversation-summarizer'
+  );
+
+  return summary.trim();
+}
+
+/**
+ * Resolve what history to send for a turn, rolling the summary forward if needed
+ * Falls back to the most recent messages when summarization isn't possible.
+ */
+export async function prepareConversationContext(
+  conversationId: string | undefined,
+  messageHistory: ConversationMessage[]
+): Promise<ConversationContext> {
+  const budget = getContextBudget(getAIProvider());
+  const recentCount = budget.recentMessages;
+  const fitsVerbatim = (messages: ConversationMessage[]) =>
+    messages.length <= recentCount && estimateTokens(messages) <= budget.maxHistoryTokens;
+
+  // Short conversations are sent as-is
+  if (fitsVerbatim(messageHistory)) {
+    return { summary: null, recentHistory: messageHistory };
+  }
+
+  const fallback: ConversationContext = { summary: null, recentHistory: messageHistory.slice(-recentCount) };
+  if (!conversationId) {
+    return fallback;
+  }
+
+  try {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .select('summary, summary_through_message_id')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error || !conversation) {
+      return fallback;
+    }
+
+    // The stored summary only applies if it was built from this branch
+    const throughIndex = conversation.summary_through_message_id
+      ? messageHistory.findIndex(m => m.id === conversation.summary_through_message_id)
+      : -1;
+    const previousSummary: string | null = throughIndex >= 0 ? conversation.summary : null;
+    const unsummarized = messageHistory.slice(throughIndex + 1);
+
+    if (previousSummary && fitsVerbatim(unsummarized)) {
+      return { summary: previousSummary, recentHistory: unsummarized };
+    }
+
+    // Fold everything but the newest half of the window into the summary, so it
+    // rolls forward every few turns rather than on every message
+    const keepCount = Math.ceil(recentCount / 2);
+    const toSummarize = unsummarized.slice(0, -keepCount);
+    const recentHistory = unsummarized.slice(-keepCount);
+    if (toSummarize.length === 0) {
+      return { summary: previousSummary, recentHistory };
+    }
+
+    console.log(`[Summary] Rolling ${toSummarize.length} messages into summary for ${conversationId}`);
+    const summary = await summarize(previousSummary, toSummarize);
+
+    const { error: updateError } = await supabase
+      .from('conversations')
+      .update({
+        summary,
+        summary_through_message_id: toSummarize[toSummarize.length - 1].id,
+        summary_updated_at: new Date().toISOString(),
+      })
+      .eq('id', conversationId);
+
+    // Participants may not be allowed to update the conversation - the summary still applies to this turn
+    if (updateError) {
+      console.warn('[Summary] Could not store summary:', updateError);
+    }
+
+    return { summary, recentHistory };
+  } catch (error) {
+    console.warn('[Summary] Summarization failed, sending recent messages only:', error);
+    return fallback;
+  }
+}
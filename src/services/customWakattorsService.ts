@@ -7,6 +7,8 @@
 import { supabase } from '../lib/supabase';
 import { CharacterBehavior } from '../config/characters';
 import { TemperamentId, isValidTemperament } from '../config/temperaments';
+import { CharacterVoiceProfile } from '../config/voiceConfig';
+import { CharacterCloudVoice, getCharacterCloudVoice } from '../config/cloudVoices';
 
 export interface CustomWakattor {
   id: string;
@@ -21,6 +23,8 @@ export interface CustomWakattor {
   temperaments: string[]; // Array of TemperamentId values
   customization: Record<string, any>;
   model3d: Record<string, any>;
+  voice_profile: CharacterVoiceProfile | null;
+  cloud_voice: CharacterCloudVoice | null;
   is_public: boolean;
   created_at: string;
   updated_at: string;
@@ -45,6 +49,8 @@ function characterToDBFormat(character: CharacterBehavior, userId: string): Omit
     temperaments: temperaments as string[],
     customization: character.customization,
     model3d: character.model3D,
+    voice_profile: character.voiceProfile ?? null,
+    cloud_voice: getCharacterCloudVoice(character),
     is_public: false,
   };
 }
@@ -64,6 +70,8 @@ function dbToCharacterFormat(dbRecord: CustomWakattor): CharacterBehavior {
     temperaments: (dbRecord.temperaments || []) as TemperamentId[],
     model3D: dbRecord.model3d as any,
     customization: dbRecord.customization as any,
+    voiceProfile: dbRecord.voice_profile ?? undefined,
+    cloudVoice: dbRecord.cloud_voice ?? undefined,
   };
 }
 
@@ -250,6 +258,8 @@ export async function addCharacterToWakattors(character: CustomWakattor | Charac
     customization: character.customization,
     // Handle both model3d (snake) and model3D (camel)
     model3d: (character as any).model3d || (character as any).model3D || {},
+    voice_profile: (character as any).voice_profile || (character as any).voiceProfile || null,
+    cloud_voice: (character as any).cloud_voice || (character as any).cloudVoice || null,
     is_public: false,
   };
 
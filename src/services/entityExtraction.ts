@@ -1,13 +1,46 @@
 import { supabase } from '../lib/supabase';
+import { generateAIResponse, getAIConfig } from './aiService';
+import {
+  getAxAI,
+  extractEntities as extractEntitiesWithAx,
+  ENTITY_TYPES,
+  type AxProvider,
+  type EntityType,
+  type ExtractedRelationship,
+} from './ax';
 
 export interface ExtractedEntity {
   name: string;
-  type: 'person' | 'place' | 'organization';
+  type: EntityType;
 }
 
+export interface EntityExtractionResult {
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+  source: 'llm' | 'regex';
+}
+
+// Stored edge strength: each extraction adds its 0-1 confidence, up to this cap
+export const MAX_RELATIONSHIP_STRENGTH = 100;
+
+/**
+ * Keep an accumulated relationship strength within 0..MAX_RELATIONSHIP_STRENGTH
+ */
+export function clampRelationshipStrength(strength: number): number {
+  if (isNaN(strength)) return 0;
+  return Math.max(0, Math.min(MAX_RELATIONSHIP_STRENGTH, strength));
+}
+
+// Map aiService provider names to Ax provider names
+const AX_PROVIDERS: Record<string, AxProvider> = {
+  anthropic: 'anthropic',
+  openai: 'openai',
+  gemini: 'google-gemini',
+};
+
 /**
  * Extract entities from text using simple pattern matching
- * In a production app, this would use NLP libraries or AI APIs
+ * Offline fallback for when no LLM provider is configured or the LLM call fails
  */
 export function extractEntities(text: string): ExtractedEntity[] {
   const entities: ExtractedEntity[] = [];
@@ -97,7 +130,206 @@ export function extractEntities(text: string): ExtractedEntity[] {
 }
 
 /**
- * Process a message and store extracted entities
+ * Clean up raw LLM output: drop unknown types, blank names and duplicates,
+ * and keep only relationships between entities that were actually extracted
+ */
+function normalizeExtraction(
+  rawEntities: ExtractedEntity[],
+  rawRelationships: ExtractedRelationship[]
+): Pick<EntityExtractionResult, 'entities' | 'relationships'> {
+  const entities: ExtractedEntity[] = [];
+  const names = new Map<string, string>();
+
+  rawEntities.forEach(entity => {
+    const name = typeof entity?.name === 'string' ? entity.name.trim() : '';
+    const type = typeof entity?.type === 'string' ? entity.type.toLowerCase() as EntityType : null;
+    if (!name || !type || !ENTITY_TYPES.includes(type) || names.has(name.toLowerCase())) {
+      return;
+    }
+    entities.push({ name, type });
+    names.set(name.toLowerCase(), name);
+  });
+
+  const relationships: ExtractedRelationship[] = [];
+  rawRelationships.forEach(rel => {
+    const from = typeof rel?.from === 'string' ? names.get(rel.from.trim().toLowerCase()) : undefined;
+    const to = typeof rel?.to === 'string' ? names.get(rel.to.trim().toLowerCase()) : undefined;
+    if (!from || !to || from === to) {
+      return;
+    }
+    const strength = typeof rel.strength === 'number' && !isNaN(rel.strength)
+      ? Math.max(0, Math.min(1, rel.strength))
+      : 1;
+    const type = typeof rel.type === 'string' && rel.type.trim()
+      ? rel.type.trim().toLowerCase().replace(/\s+/g, '_')
+      : 'related_to';
+    relationships.push({ from, to, type, strength });
+  });
+
+  return { entities, relationships };
+}
+
+const ENTITY_EXTRACTION_PROMPT = `Extract named entities and how they relate to each other from a diary entry.
+
+Respond with ONLY a JSON object, no explanation:
+{"entities": [{"name": string, "type": ${ENTITY_TYPES.map(type => `"${type}"`).join(' | ')}}],
+ "relationships": [{"from": entity name, "to": entity name, "type": string, "strength": number 0-1}]}
+
+Use an empty array when there is nothing to extract.`;
+
+/**
+ * Extract through the ai-chat Edge Function (entity_extraction route)
+ * Used when there is no local API key for Ax
+ */
+async function extractEntitiesWithGateway(text: string): Promise<Pick<EntityExtractionResult, 'entities' | 'relationships'>> {
+  const raw = await generateAIResponse(
+    [{ role: 'user', content: text }],
+    ENTITY_EXTRACTION_PROMPT,
+    'entity-extractor'
+  );
+
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('No JSON object in entity extraction response');
+  }
+  const parsed = JSON.parse(match[0]);
+  return normalizeExtraction(
+    Array.isArray(parsed.entities) ? parsed.entities : [],
+    Array.isArray(parsed.relationships) ? parsed.relationships : []
+  );
+}
+
+/**
+ * Extract entities and relationships with the LLM: the Ax entity extraction
+ * signature when there is a local API key, otherwise the ai-chat gateway
+ * Falls back to regex extraction (no relationships) when offline or on failure
+ */
+export async function extractEntitiesWithAI(text: string): Promise<EntityExtractionResult> {
+  try {
+    const aiConfig = await getAIConfig();
+    const axProvider = AX_PROVIDERS[aiConfig.provider];
+
+    if (axProvider && aiConfig.apiKey) {
+      const axAI = getAxAI({ provider: axProvider, apiKey: aiConfig.apiKey, model: aiConfig.model });
+      const result = await extractEntitiesWithAx(axAI, text);
+      return { ...normalizeExtraction(result.entities, result.relationships), source: 'llm' };
+    }
+
+    return { ...(await extractEntitiesWithGateway(text)), source: 'llm' };
+  } catch (error) {
+    console.warn('[EntityExtraction] LLM extraction failed, using regex fallback:', error);
+  }
+
+  return { entities: extractEntities(text), relationships: [], source: 'regex' };
+}
+
+/**
+ * Find or create an entity for a user, bumping its mention count
+ * Returns the entity ID, or null if the write failed
+ */
+async function upsertEntity(userId: string, entity: ExtractedEntity): Promise<string | null> {
+  const now = new Date().toISOString();
+
+  const { data: existing } = await supabase
+    .from('entities')
+    .select('id, mention_count')
+    .eq('user_id', userId)
+    .eq('name', entity.name)
+    .eq('type', entity.type)
+    .maybeSingle();
+
+  if (existing) {
+    const { error: updateError } = await supabase
+      .from('entities')
+      .update({
+        mention_count: (existing.mention_count || 0) + 1,
+        last_mentioned: now,
+        updated_at: now,
+      })
+      .eq('id', existing.id);
+
+    if (updateError) {
+      console.error('Error updating entity:', updateError);
+      return null;
+    }
+
+    return existing.id;
+  }
+
+  const { data: newEntity, error: createError } = await supabase
+    .from('entities')
+    .insert({
+      user_id: userId,
+      name: entity.name,
+      type: entity.type,
+      mention_count: 1,
+      first_mentioned: now,
+      last_mentioned: now,
+    })
+    .select('id')
+    .single();
+
+  if (createError || !newEntity) {
+    console.error('Error creating entity:', createError);
+    return null;
+  }
+
+  return newEntity.id;
+}
+
+/**
+ * Create or strengthen an entity-to-entity edge in the relationships table
+ */
+async function upsertRelationship(
+  userId: string,
+  entityFrom: string,
+  entityTo: string,
+  relationship: ExtractedRelationship,
+  messageId: string,
+  conversationId: string
+): Promise<void> {
+  const { data: existing } = await supabase
+    .from('relationships')
+    .select('id, strength')
+    .eq('user_id', userId)
+    .eq('entity_from', entityFrom)
+    .eq('entity_to', entityTo)
+    .eq('relationship_type', relationship.type)
+    .maybeSingle();
+
+  if (existing) {
+    const { error: updateError } = await supabase
+      .from('relationships')
+      .update({
+        strength: clampRelationshipStrength((existing.strength || 0) + (relationship.strength ?? 1)),
+        metadata: { last_message_id: messageId, last_conversation_id: conversationId },
+      })
+      .eq('id', existing.id);
+
+    if (updateError) {
+      console.error('Error updating relationship:', updateError);
+    }
+    return;
+  }
+
+  const { error: createError } = await supabase
+    .from('relationships')
+    .insert({
+      user_id: userId,
+      entity_from: entityFrom,
+      entity_to: entityTo,
+      relationship_type: relationship.type,
+      strength: clampRelationshipStrength(relationship.strength ?? 1),
+      metadata: { last_message_id: messageId, last_conversation_id: conversationId },
+    });
+
+  if (createError) {
+    console.error('Error creating relationship:', createError);
+  }
+}
+
+/**
+ * Process a message and store extracted entities, mentions and relationships
  */
 export async function processMessageEntities(
   userId: string,
@@ -106,74 +338,43 @@ export async function processMessageEntities(
   conversationId: string
 ): Promise<void> {
   try {
-    const extracted = extractEntities(messageContent);
+    const { entities, relationships } = await extractEntitiesWithAI(messageContent);
 
-    if (extracted.length === 0) {
+    if (entities.length === 0) {
       return;
     }
 
-    for (const entity of extracted) {
-      // Check if entity already exists
-      const { data: existing, error: findError } = await supabase
-        .from('entities')
-        .select('id, mention_count')
-        .eq('user_id', userId)
-        .eq('name', entity.name)
-        .eq('type', entity.type)
-        .single();
-
-      let entityId: string;
-
-      if (existing) {
-        // Update existing entity
-        const { error: updateError } = await supabase
-          .from('entities')
-          .update({
-            mention_count: existing.mention_count + 1,
-            last_mentioned: new Date().toISOString(),
-          })
-          .eq('id', existing.id);
-
-        if (updateError) {
-          console.error('Error updating entity:', updateError);
-          continue;
-        }
-
-        entityId = existing.id;
-      } else {
-        // Create new entity
-        const { data: newEntity, error: createError } = await supabase
-          .from('entities')
-          .insert({
-            user_id: userId,
-            name: entity.name,
-            type: entity.type,
-            mention_count: 1,
-            first_mentioned: new Date().toISOString(),
-            last_mentioned: new Date().toISOString(),
-          })
-          .select('id')
-          .single();
-
-        if (createError || !newEntity) {
-          console.error('Error creating entity:', createError);
-          continue;
-        }
-
-        entityId = newEntity.id;
+    // Entity name (lowercased) -> entity ID, for resolving relationship endpoints
+    const entityIds = new Map<string, string>();
+
+    for (const entity of entities) {
+      const entityId = await upsertEntity(userId, entity);
+      if (!entityId) {
+        continue;
       }
 
-      // Create relationship between entity and message
-      const { error: relError } = await supabase
-        .from('relationships')
+      entityIds.set(entity.name.toLowerCase(), entityId);
+
+      // Record where the entity was mentioned
+      const { error: mentionError } = await supabase
+        .from('entity_mentions')
         .insert({
+          user_id: userId,
           entity_id: entityId,
           message_id: messageId,
           conversation_id: conversationId,
         });
 
-      if (relError) {
-        console.error('Error creating relationship:', relError);
+      if (mentionError) {
+        console.error('Error creating entity mention:', mentionError);
+      }
+    }
+
+    for (const relationship of relationships) {
+      const fromId = entityIds.get(relationship.from.toLowerCase());
+      const toId = entityIds.get(relationship.to.toLowerCase());
+      if (fromId && toId) {
+        await upsertRelationship(userId, fromId, toId, relationship, messageId, conversationId);
       }
     }
   } catch (error) {
@@ -9,9 +9,13 @@
  * - Zero token cost for first message
  * - Authentic character first impressions
  * - Offline capability for initial interaction
+ *
+ * Other conversation languages use a smaller localized pool per temperament
+ * category (LOCALIZED_GREETING_TEMPLATES).
  */
 
-import { TemperamentId } from '../config/temperaments';
+import { TemperamentId, TemperamentCategory, getTemperamentInfo } from '../config/temperaments';
+import { LanguageCode, DEFAULT_LANGUAGE } from '../config/languages';
 
 /**
  * All greeting templates organized by temperament
@@ -639,11 +643,250 @@ export const GREETING_TEMPLATES: Record<TemperamentId, string[]> = {
   ],
 };
 
+/**
+ * Localized greetings by temperament category, for non-English conversations
+ */
+export const LOCALIZED_GREETING_TEMPLATES: Record<Exclude<LanguageCode, 'en'>, Record<TemperamentCategory, string[]>> = {
+  es: {
+    intellectual: [
+      "Interesante que hayas venido. Dime, ¿qué pregunta te ronda la cabeza últimamente?",
+      "Antes de empezar: ¿qué crees que te ha traído aquí realmente?",
+      "Examinemos esto con calma. ¿Qué te gustaría entender mejor?",
+    ],
+    emotional: [
+      "Hola... siento que traes algo contigo. ¿Qué hay en tu corazón hoy?",
+      "¡Qué alegría verte! ¿Cómo te sientes, de verdad?",
+      "Aquí puedes sentir lo que sientas. ¿Qué te pasa?",
+    ],
+    social: [
+      "¡Hola! Qué bueno que estés aquí. ¿De qué quieres hablar?",
+      "Ven, siéntate. Cuéntame cómo va todo.",
+      "¡Por fin alguien con quien charlar! ¿Qué tal tu día?",
+    ],
+    authority: [
+      "Has llegado. Bien. Dime qué necesitas y pongámonos a ello.",
+      "Sin rodeos: ¿cuál es el problema que quieres resolver?",
+      "Te escucho. Habla con claridad y te ayudaré a encontrar el camino.",
+    ],
+    artistic: [
+      "Cada conversación es un lienzo en blanco. ¿Qué pintamos hoy?",
+      "Hola. Siento una historia en ti esperando ser contada. ¿Cuál es?",
+      "¿Qué te ha tocado el corazón últimamente? Empecemos por ahí.",
+    ],
+    philosophical: [
+      "Aquí estamos, en este instante. ¿Qué te preocupa de verdad?",
+      "Dime: ¿qué da sentido a tus días?",
+      "Lo que no depende de ti, déjalo. ¿Qué sí depende de ti hoy?",
+    ],
+    archetype: [
+      "Toda aventura empieza con un paso. ¿Hacia dónde va el tuyo?",
+      "Estás en un umbral. ¿Qué te espera al otro lado?",
+      "Hola. ¿Qué buscas en este camino?",
+    ],
+  },
+
+  fr: {
+    intellectual: [
+      "Intéressant. Dis-moi, quelle question te trotte dans la tête ces temps-ci ?",
+      "Avant de commencer : qu'est-ce qui t'amène vraiment ici ?",
+      "Examinons cela calmement. Qu'aimerais-tu mieux comprendre ?",
+    ],
+    emotional: [
+      "Bonjour... je sens que tu portes quelque chose. Qu'as-tu sur le cœur aujourd'hui ?",
+      "Quel plaisir de te voir ! Comment te sens-tu, vraiment ?",
+      "Ici, tu peux ressentir ce que tu ressens. Que se passe-t-il ?",
+    ],
+    social: [
+      "Salut ! Ça fait plaisir de te voir. De quoi veux-tu parler ?",
+      "Viens, installe-toi. Raconte-moi comment ça va.",
+      "Enfin quelqu'un avec qui bavarder ! Comment s'est passée ta journée ?",
+    ],
+    authority: [
+      "Te voilà. Bien. Dis-moi ce dont tu as besoin et mettons-nous au travail.",
+      "Sans détour : quel problème veux-tu résoudre ?",
+      "Je t'écoute. Parle clairement et je t'aiderai à trouver la voie.",
+    ],
+    artistic: [
+      "Chaque conversation est une toile blanche. Que peignons-nous aujourd'hui ?",
+      "Bonjour. Je sens en toi une histoire qui attend d'être racontée. Laquelle ?",
+      "Qu'est-ce qui a fait vibrer ton cœur récemment ? Commençons par là.",
+    ],
+    philosophical: [
+      "Nous voici, dans cet instant. Qu'est-ce qui te préoccupe vraiment ?",
+      "Dis-moi : qu'est-ce qui donne un sens à tes journées ?",
+      "Ce qui ne dépend pas de toi, laisse-le. Qu'est-ce qui dépend de toi aujourd'hui ?",
+    ],
+    archetype: [
+      "Toute aventure commence par un pas. Où mène le tien ?",
+      "Tu es sur un seuil. Qu'est-ce qui t'attend de l'autre côté ?",
+      "Bonjour. Que cherches-tu sur ce chemin ?",
+    ],
+  },
+
+  de: {
+    intellectual: [
+      "Interessant, dass du hier bist. Welche Frage geht dir in letzter Zeit nicht aus dem Kopf?",
+      "Bevor wir anfangen: Was hat dich wirklich hierher geführt?",
+      "Lass uns das in Ruhe untersuchen. Was möchtest du besser verstehen?",
+    ],
+    emotional: [
+      "Hallo... ich spüre, dass dich etwas beschäftigt. Was liegt dir heute auf dem Herzen?",
+      "Wie schön, dich zu sehen! Wie fühlst du dich – ganz ehrlich?",
+      "Hier darfst du fühlen, was du fühlst. Was ist los?",
+    ],
+    social: [
+      "Hallo! Schön, dass du da bist. Worüber möchtest du reden?",
+      "Komm, setz dich. Erzähl mir, wie es dir geht.",
+      "Endlich jemand zum Plaudern! Wie war dein Tag?",
+    ],
+    authority: [
+      "Da bist du ja. Gut. Sag mir, was du brauchst, und packen wir es an.",
+      "Ohne Umschweife: Welches Problem willst du lösen?",
+      "Ich höre dir zu. Sprich klar, und ich helfe dir, den Weg zu finden.",
+    ],
+    artistic: [
+      "Jedes Gespräch ist eine leere Leinwand. Was malen wir heute?",
+      "Hallo. In dir wartet eine Geschichte darauf, erzählt zu werden. Welche?",
+      "Was hat dich in letzter Zeit berührt? Fangen wir dort an.",
+    ],
+    philosophical: [
+      "Hier sind wir, in diesem Augenblick. Was beschäftigt dich wirklich?",
+      "Sag mir: Was gibt deinen Tagen Sinn?",
+      "Was nicht in deiner Macht steht, lass los. Was liegt heute in deiner Macht?",
+    ],
+    archetype: [
+      "Jedes Abenteuer beginnt mit einem Schritt. Wohin führt deiner?",
+      "Du stehst an einer Schwelle. Was erwartet dich auf der anderen Seite?",
+      "Hallo. Was suchst du auf diesem Weg?",
+    ],
+  },
+
+  it: {
+    intellectual: [
+      "Interessante che tu sia qui. Dimmi, quale domanda ti gira in testa ultimamente?",
+      "Prima di cominciare: cosa ti ha portato qui davvero?",
+      "Esaminiamo la cosa con calma. Cosa vorresti capire meglio?",
+    ],
+    emotional: [
+      "Ciao... sento che porti qualcosa con te. Cosa hai nel cuore oggi?",
+      "Che gioia vederti! Come ti senti, davvero?",
+      "Qui puoi sentire quello che senti. Cosa succede?",
+    ],
+    social: [
+      "Ciao! Che bello averti qui. Di cosa vuoi parlare?",
+      "Vieni, siediti. Raccontami come va.",
+      "Finalmente qualcuno con cui chiacchierare! Com'è andata la giornata?",
+    ],
+    authority: [
+      "Eccoti. Bene. Dimmi cosa ti serve e mettiamoci al lavoro.",
+      "Senza giri di parole: quale problema vuoi risolvere?",
+      "Ti ascolto. Parla chiaro e ti aiuterò a trovare la strada.",
+    ],
+    artistic: [
+      "Ogni conversazione è una tela bianca. Cosa dipingiamo oggi?",
+      "Ciao. Sento in te una storia che aspetta di essere raccontata. Quale?",
+      "Cosa ti ha toccato il cuore di recente? Partiamo da lì.",
+    ],
+    philosophical: [
+      "Eccoci, in questo istante. Cosa ti preoccupa davvero?",
+      "Dimmi: cosa dà senso alle tue giornate?",
+      "Ciò che non dipende da te, lascialo andare. Cosa dipende da te oggi?",
+    ],
+    archetype: [
+      "Ogni avventura comincia con un passo. Dove porta il tuo?",
+      "Sei su una soglia. Cosa ti aspetta dall'altra parte?",
+      "Ciao. Cosa cerchi lungo questo cammino?",
+    ],
+  },
+
+  pt: {
+    intellectual: [
+      "Interessante você ter vindo. Me diga, que pergunta não sai da sua cabeça ultimamente?",
+      "Antes de começar: o que realmente trouxe você aqui?",
+      "Vamos examinar isso com calma. O que você gostaria de entender melhor?",
+    ],
+    emotional: [
+      "Oi... sinto que você carrega algo. O que está no seu coração hoje?",
+      "Que alegria ver você! Como você está se sentindo, de verdade?",
+      "Aqui você pode sentir o que sente. O que está acontecendo?",
+    ],
+    social: [
+      "Oi! Que bom que você está aqui. Sobre o que quer conversar?",
+      "Vem, senta aqui. Me conta como vão as coisas.",
+      "Finalmente alguém para bater papo! Como foi o seu dia?",
+    ],
+    authority: [
+      "Você chegou. Ótimo. Diga do que precisa e vamos ao trabalho.",
+      "Sem rodeios: qual problema você quer resolver?",
+      "Estou ouvindo. Fale com clareza e eu ajudo você a encontrar o caminho.",
+    ],
+    artistic: [
+      "Cada conversa é uma tela em branco. O que vamos pintar hoje?",
+      "Oi. Sinto uma história em você esperando para ser contada. Qual é?",
+      "O que tocou o seu coração ultimamente? Vamos começar por aí.",
+    ],
+    philosophical: [
+      "Aqui estamos, neste instante. O que realmente preocupa você?",
+      "Me diga: o que dá sentido aos seus dias?",
+      "O que não depende de você, deixe ir. O que depende de você hoje?",
+    ],
+    archetype: [
+      "Toda aventura começa com um passo. Para onde leva o seu?",
+      "Você está diante de um limiar. O que espera do outro lado?",
+      "Oi. O que você procura neste caminho?",
+    ],
+  },
+
+  ja: {
+    intellectual: [
+      "ようこそ。最近、頭から離れない問いはありますか？",
+      "始める前に一つ。本当は何があなたをここへ導いたのでしょう？",
+      "落ち着いて考えてみましょう。何をもっと深く理解したいですか？",
+    ],
+    emotional: [
+      "こんにちは…何か抱えているように感じます。今日はどんな気持ちですか？",
+      "会えてうれしいです！本当のところ、気分はどうですか？",
+      "ここでは感じたままでいいんですよ。何があったんですか？",
+    ],
+    social: [
+      "こんにちは！来てくれてうれしいです。何について話しましょうか？",
+      "さあ、座って。最近どうしているか聞かせてください。",
+      "やっと話し相手が来た！今日はどんな一日でしたか？",
+    ],
+    authority: [
+      "来ましたね。よろしい。必要なことを言ってください、さっそく取りかかりましょう。",
+      "率直に聞きます。解決したい問題は何ですか？",
+      "聞いています。はっきり話してくれれば、道を見つける手伝いをします。",
+    ],
+    artistic: [
+      "会話はまっさらなキャンバスです。今日は何を描きましょうか？",
+      "こんにちは。あなたの中に、語られるのを待っている物語を感じます。",
+      "最近、心を動かされたことは何ですか？そこから始めましょう。",
+    ],
+    philosophical: [
+      "今、この瞬間に私たちはいます。本当に気にかかっていることは何ですか？",
+      "教えてください。あなたの日々に意味を与えているものは何ですか？",
+      "自分の力の及ばないことは手放しましょう。今日、あなたの力でできることは何ですか？",
+    ],
+    archetype: [
+      "どんな冒険も一歩から始まります。あなたの一歩はどこへ向かっていますか？",
+      "あなたは今、境目に立っています。その向こうに何が待っていますか？",
+      "こんにちは。この道で何を探しているのですか？",
+    ],
+  },
+};
+
 /**
  * Get a random greeting from a temperament pool
+ * Non-English languages pick from the temperament's category pool.
  */
-export function getGreetingFromTemperament(temperamentId: TemperamentId): string {
-  const greetings = GREETING_TEMPLATES[temperamentId];
+export function getGreetingFromTemperament(
+  temperamentId: TemperamentId,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): string {
+  const greetings = language === 'en'
+    ? GREETING_TEMPLATES[temperamentId]
+    : LOCALIZED_GREETING_TEMPLATES[language][getTemperamentInfo(temperamentId).category];
   if (!greetings || greetings.length === 0) {
     return "Hello. What brings you here today?";
   }
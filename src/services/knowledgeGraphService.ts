@@ -0,0 +1,210 @@
+/**
+ * Knowledge Graph Service
+ * Loads the user's diary entities and the edges between them for visualization
+ *
+ * Edges come from two sources:
+ * - Stored relationships (written by entity extraction)
+ * - Co-mentions (two entities mentioned in the same message)
+ */
+
+import { supabase } from '../lib/supabase';
+import type { EntityType } from './ax';
+import { clampRelationshipStrength } from './entityExtraction';
+
+// Entity types shown in the graph
+export const GRAPH_ENTITY_TYPES: EntityType[] = ['person', 'place', 'organization'];
+
+// Cap on rendered nodes (most-mentioned first) to keep layout fast on mobile
+const MAX_GRAPH_NODES = 80;
+
+export interface GraphNode {
+  id: string;
+  name: string;
+  type: EntityType;
+  mentionCount: number;
+  lastMentioned: string | null;
+}
+
+export interface GraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  type: string;
+  strength: number;
+  source: 'relationship' | 'co_mention';
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface EntityMention {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  content: string;
+  role: 'user' | 'assistant' | 'system';
+  createdAt: string;
+}
+
+/**
+ * Build a stable key for an undirected edge
+ */
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Load the current user's knowledge graph
+ */
+export async function loadKnowledgeGraph(
+  types: EntityType[] = GRAPH_ENTITY_TYPES
+): Promise<KnowledgeGraph> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    console.log('[KnowledgeGraph] No authenticated user');
+    return { nodes: [], edges: [] };
+  }
+
+  const { data: entities, error: entitiesError } = await supabase
+    .from('entities')
+    .select('id, name, type, mention_count, last_mentioned')
+    .eq('user_id', user.id)
+    .in('type', types)
+    .order('mention_count', { ascending: false })
+    .limit(MAX_GRAPH_NODES);
+
+  if (entitiesError) {
+    console.error('[KnowledgeGraph] Error loading entities:', entitiesError);
+    throw entitiesError;
+  }
+
+  const nodes: GraphNode[] = (entities || []).map((e: any) => ({
+    id: e.id,
+    name: e.name,
+    type: e.type,
+    mentionCount: e.mention_count || 1,
+    lastMentioned: e.last_mentioned || null,
+  }));
+
+  if (nodes.length === 0) {
+    return { nodes, edges: [] };
+  }
+
+  const nodeIds = nodes.map(n => n.id);
+  const edges = new Map<string, GraphEdge>();
+
+  // Stored relationships take precedence over co-mentions
+  const { data: relationships, error: relError } = await supabase
+    .from('relationships')
+    .select('id, entity_from, entity_to, relationship_type, strength')
+    .eq('user_id', user.id)
+    .in('entity_from', nodeIds)
+    .in('entity_to', nodeIds);
+
+  if (relError) {
+    console.error('[KnowledgeGraph] Error loading relationships:', relError);
+  }
+
+  (relationships || []).forEach((rel: any) => {
+    const key = edgeKey(rel.entity_from, rel.entity_to);
+    const existing = edges.get(key);
+    if (existing) {
+      existing.strength = clampRelationshipStrength(existing.strength + (rel.strength || 1));
+      return;
+    }
+    edges.set(key, {
+      id: rel.id,
+      from: rel.entity_from,
+      to: rel.entity_to,
+      type: rel.relationship_type || 'related_to',
+      strength: clampRelationshipStrength(rel.strength || 1),
+      source: 'relationship',
+    });
+  });
+
+  // Co-mentions: group mentions by message, link every pair in a message
+  const { data: mentions, error: mentionsError } = await supabase
+    .from('entity_mentions')
+    .select('entity_id, message_id')
+    .eq('user_id', user.id)
+    .in('entity_id', nodeIds);
+
+  if (mentionsError) {
+    console.error('[KnowledgeGraph] Error loading mentions:', mentionsError);
+  }
+
+  const entitiesByMessage = new Map<string, Set<string>>();
+  (mentions || []).forEach((m: any) => {
+    if (!entitiesByMessage.has(m.message_id)) {
+      entitiesByMessage.set(m.message_id, new Set());
+    }
+    entitiesByMessage.get(m.message_id)!.add(m.entity_id);
+  });
+
+  entitiesByMessage.forEach(entitySet => {
+    const ids = Array.from(entitySet);
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = edgeKey(ids[i], ids[j]);
+        const existing = edges.get(key);
+        if (existing) {
+          if (existing.source === 'co_mention') {
+            existing.strength = clampRelationshipStrength(existing.strength + 1);
+          }
+          continue;
+        }
+        edges.set(key, {
+          id: `co:${key}`,
+          from: ids[i],
+          to: ids[j],
+          type: 'co_mentioned',
+          strength: 1,
+          source: 'co_mention',
+        });
+      }
+    }
+  });
+
+  console.log(`[KnowledgeGraph] Loaded ${nodes.length} nodes, ${edges.size} edges`);
+  return { nodes, edges: Array.from(edges.values()) };
+}
+
+/**
+ * Load the messages (and their conversations) where an entity was mentioned
+ * Most recent first
+ */
+export async function getEntityMentions(entityId: string): Promise<EntityMention[]> {
+  const { data, error } = await supabase
+    .from('entity_mentions')
+    .select(`
+      id,
+      message_id,
+      conversation_id,
+      created_at,
+      message:messages(content, role, created_at),
+      conversation:conversations(title)
+    `)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('[KnowledgeGraph] Error loading entity mentions:', error);
+    throw error;
+  }
+
+  return (data || [])
+    .filter((row: any) => row.message)
+    .map((row: any) => ({
+      id: row.id,
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation?.title || 'Untitled conversation',
+      content: row.message.content,
+      role: row.message.role,
+      createdAt: row.message.created_at || row.created_at,
+    }));
+}
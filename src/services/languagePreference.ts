@@ -0,0 +1,112 @@
+/**
+ * Language Preference
+ *
+ * The user's default conversation language (Settings). Conversations without
+ * their own language (conversations.language) use it. It is saved on the
+ * user's profile (user_profiles.language) so it follows them to other devices,
+ * and cached on the device for startup and offline use.
+ */
+
+import { supabase } from '../lib/supabase';
+import { StoredPreference, usePreference } from './storedPreference';
+import { LanguageCode, DEFAULT_LANGUAGE, parseLanguageCode } from '../config/languages';
+
+const STORAGE_KEY = 'language_preference';
+
+type LanguageCallback = (language: LanguageCode) => void;
+
+class LanguagePreference {
+  private stored = new StoredPreference<LanguageCode>(STORAGE_KEY, DEFAULT_LANGUAGE, parseLanguageCode);
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Load the saved preference (call once at startup; safe to call again)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.stored.load().then(() => this.loadFromProfile());
+      // Another account may have a different language
+      supabase.auth.onAuthStateChange(event => {
+        if (event === 'SIGNED_IN') {
+          this.loadFromProfile();
+        } else if (event === 'SIGNED_OUT') {
+          // Don't hand this account's language to the next one on a shared device
+          this.stored.set(DEFAULT_LANGUAGE);
+        }
+      });
+    }
+    return this.loading;
+  }
+
+  get(): LanguageCode {
+    return this.stored.get();
+  }
+
+  set(language: LanguageCode): void {
+    if (!this.stored.set(language)) return;
+    console.log('[Language] Preference:', language);
+    this.saveToProfile(language);
+  }
+
+  /**
+   * Language for a conversation - its own, else the user's preference
+   */
+  resolve(conversationLanguage?: string | null): LanguageCode {
+    return parseLanguageCode(conversationLanguage) ?? this.get();
+  }
+
+  subscribe(callback: LanguageCallback): () => void {
+    return this.stored.subscribe(callback);
+  }
+
+  private async loadFromProfile(): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('language')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+
+      const language = parseLanguageCode(data?.language);
+      if (language) {
+        this.stored.set(language);
+      } else if (this.get() !== DEFAULT_LANGUAGE) {
+        // Chosen on this device before the profile kept it
+        await this.saveToProfile(this.get());
+      }
+    } catch (error) {
+      console.warn('[Language] Could not load preference from profile:', error);
+    }
+  }
+
+  private async saveToProfile(language: LanguageCode): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({ language })
+        .eq('id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.warn('[Language] Could not save preference to profile:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const languagePreference = new LanguagePreference();
+
+/**
+ * The user's language preference, re-rendering when it changes
+ */
+export function useLanguagePreference(): LanguageCode {
+  return usePreference(languagePreference);
+}
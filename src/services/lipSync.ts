@@ -0,0 +1,353 @@
+/**
+ * Lip Sync
+ *
+ * Maps spoken text to visemes (mouth shapes) and plays them in time with TTS.
+ * Text is split into syllables with simple English spelling rules; each syllable
+ * becomes consonant/vowel visemes that drive MouthState and JawState.
+ *
+ * Timing comes from, in order of preference:
+ * - Cloud TTS word timepoints (exact start time of every word)
+ * - Device TTS boundary events (re-anchor the track as each word starts)
+ * - estimateTTSDuration (spread evenly by syllable weight)
+ */
+
+import { MouthState, JawState } from '../components/character3d/types';
+import { estimateTTSDuration } from './ttsDurationEstimator';
+import { realClock } from './animationClock';
+
+// ============================================
+// VISEMES
+// ============================================
+
+// Preston Blair mouth set
+export type Viseme = 'rest' | 'AI' | 'E' | 'O' | 'U' | 'WQ' | 'MBP' | 'FV' | 'L' | 'etc';
+
+export interface VisemeShape {
+  mouthState: MouthState;
+  jawState: JawState;
+  // Scale of the talking mouth mesh for this shape
+  mouthScaleX: number;
+  mouthScaleY: number;
+}
+
+export const VISEME_SHAPES: Record<Viseme, VisemeShape> = {
+  rest: { mouthState: 'closed', jawState: 'relaxed', mouthScaleX: 1.5, mouthScaleY: 0.1 },
+  AI: { mouthState: 'open', jawState: 'slack', mouthScaleX: 1.3, mouthScaleY: 0.95 },
+  E: { mouthState: 'wide_smile', jawState: 'relaxed', mouthScaleX: 2.0, mouthScaleY: 0.5 },
+  O: { mouthState: 'o_shape', jawState: 'slack', mouthScaleX: 0.9, mouthScaleY: 0.9 },
+  U: { mouthState: 'kiss', jawState: 'protruding', mouthScaleX: 0.6, mouthScaleY: 0.55 },
+  WQ: { mouthState: 'kiss', jawState: 'protruding', mouthScaleX: 0.7, mouthScaleY: 0.45 },
+  MBP: { mouthState: 'closed', jawState: 'relaxed', mouthScaleX: 1.4, mouthScaleY: 0.05 },
+  FV: { mouthState: 'tense', jawState: 'relaxed', mouthScaleX: 1.6, mouthScaleY: 0.2 },
+  L: { mouthState: 'open', jawState: 'relaxed', mouthScaleX: 1.1, mouthScaleY: 0.6 },
+  etc: { mouthState: 'teeth_showing', jawState: 'relaxed', mouthScaleX: 1.6, mouthScaleY: 0.4 },
+};
+
+// Longest spellings first so digraphs win over single letters
+const GRAPHEMES: [string, Viseme, boolean][] = [
+  // [spelling, viseme, isVowel]
+  ['ee', 'E', true], ['ea', 'E', true], ['ie', 'E', true], ['ai', 'E', true], ['ay', 'E', true], ['ei', 'E', true],
+  ['oo', 'U', true], ['ou', 'U', true], ['ew', 'U', true], ['ue', 'U', true],
+  ['oa', 'O', true], ['ow', 'O', true], ['au', 'O', true], ['aw', 'O', true], ['oi', 'O', true], ['oy', 'O', true],
+  ['th', 'L', false], ['sh', 'etc', false], ['ch', 'etc', false], ['ph', 'FV', false],
+  ['wh', 'WQ', false], ['qu', 'WQ', false], ['ng', 'etc', false], ['ck', 'etc', false],
+  ['a', 'AI', true], ['i', 'AI', true], ['e', 'E', true], ['o', 'O', true], ['u', 'U', true],
+  ['m', 'MBP', false], ['b', 'MBP', false], ['p', 'MBP', false],
+  ['f', 'FV', false], ['v', 'FV', false],
+  ['w', 'WQ', false], ['q', 'WQ', false],
+  ['l', 'L', false],
+];
+
+interface Grapheme {
+  index: number; // Offset in the word
+  viseme: Viseme;
+  isVowel: boolean;
+}
+
+function splitGraphemes(word: string): Grapheme[] {
+  const lower = word.toLowerCase();
+  const graphemes: Grapheme[] = [];
+  let i = 0;
+  while (i < lower.length) {
+    const ch = lower[i];
+    if (!/[a-z]/.test(ch)) {
+      i++;
+      continue;
+    }
+    const match = GRAPHEMES.find(([spelling]) => lower.startsWith(spelling, i));
+    if (match) {
+      graphemes.push({ index: i, viseme: match[1], isVowel: match[2] });
+      i += match[0].length;
+    } else if (ch === 'y') {
+      // Consonant at the start of a word ("yes"), vowel elsewhere ("happy", "my")
+      const isVowel = i > 0;
+      graphemes.push({ index: i, viseme: isVowel ? (lower.length <= 3 ? 'AI' : 'E') : 'etc', isVowel });
+      i++;
+    } else {
+      graphemes.push({ index: i, viseme: 'etc', isVowel: false });
+      i++;
+    }
+  }
+
+  // Silent final "e" ("make", "time") doesn't get its own syllable
+  const last = graphemes[graphemes.length - 1];
+  const lastLetter = lower.search(/[a-z][^a-z]*$/);
+  if (last && last.isVowel && last.index === lastLetter && lower[lastLetter] === 'e' &&
+      graphemes.length > 2 && !graphemes[graphemes.length - 2].isVowel) {
+    graphemes.pop();
+  }
+  return graphemes;
+}
+
+// ============================================
+// SYLLABLES
+// ============================================
+
+export interface LipSyncSyllable {
+  charIndex: number; // Start of the syllable in the full text
+  visemes: { viseme: Viseme; weight: number }[];
+}
+
+export interface LipSyncWord {
+  charIndex: number;
+  syllables: LipSyncSyllable[];
+  // Pause after the word (ms) - punctuation
+  pauseAfter: number;
+}
+
+const COMMA_PAUSE_MS = 250;
+const SENTENCE_PAUSE_MS = 400;
+// Relative length of vowel vs consonant shapes within a syllable
+const VOWEL_WEIGHT = 2;
+const CONSONANT_WEIGHT = 1;
+
+/**
+ * Split a word into syllables: onset consonants + vowel group, trailing consonants
+ * join the last syllable
+ */
+function wordToSyllables(word: string, wordIndex: number): LipSyncSyllable[] {
+  const graphemes = splitGraphemes(word);
+  const syllables: LipSyncSyllable[] = [];
+  let current: LipSyncSyllable | null = null;
+  let sawVowel = false;
+
+  graphemes.forEach((g, i) => {
+    // A consonant after the vowel starts the next syllable, unless no vowel follows (coda)
+    const startsSyllable = sawVowel && !g.isVowel && graphemes.slice(i + 1).some(next => next.isVowel);
+    if (!current || startsSyllable) {
+      current = { charIndex: wordIndex + g.index, visemes: [] };
+      syllables.push(current);
+      sawVowel = false;
+    }
+    current.visemes.push({ viseme: g.viseme, weight: g.isVowel ? VOWEL_WEIGHT : CONSONANT_WEIGHT });
+    if (g.isVowel) sawVowel = true;
+  });
+
+  // Words without letters ("42", "&") still move the mouth once
+  if (syllables.length === 0 && word.trim()) {
+    syllables.push({ charIndex: wordIndex, visemes: [{ viseme: 'etc', weight: CONSONANT_WEIGHT }, { viseme: 'AI', weight: VOWEL_WEIGHT }] });
+  }
+  return syllables;
+}
+
+/**
+ * Break text into words with their syllables and punctuation pauses
+ */
+export function textToLipSyncWords(text: string): LipSyncWord[] {
+  const words: LipSyncWord[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const token = match[0];
+    const syllables = wordToSyllables(token, match.index);
+    if (syllables.length === 0) continue;
+    const pauseAfter = /[.!?…]["')\]]*$/.test(token) ? SENTENCE_PAUSE_MS
+      : /[,;:—-]["')\]]*$/.test(token) ? COMMA_PAUSE_MS
+      : 0;
+    words.push({ charIndex: match.index, syllables, pauseAfter });
+  }
+  return words;
+}
+
+// ============================================
+// TRACKS
+// ============================================
+
+export interface VisemeCue {
+  viseme: Viseme;
+  start: number; // ms from the start of speech
+  end: number;
+}
+
+export interface VisemeTrack {
+  cues: VisemeCue[];
+  // Start time of each word, for re-anchoring on TTS boundary events
+  words: { charIndex: number; start: number }[];
+  duration: number;
+}
+
+// Word start times reported by cloud TTS (SSML marks)
+export interface TTSTimepoint {
+  charIndex: number;
+  time: number; // ms
+}
+
+export interface VisemeTrackOptions {
+  rate?: number;
+  timepoints?: TTSTimepoint[];
+}
+
+const MIN_SYLLABLE_MS = 80;
+
+function wordWeight(word: LipSyncWord): number {
+  return word.syllables.reduce((sum, s) => sum + s.visemes.reduce((w, v) => w + v.weight, 0), 0);
+}
+
+function pushWordCues(cues: VisemeCue[], word: LipSyncWord, start: number, duration: number): void {
+  const total = wordWeight(word);
+  let time = start;
+  for (const syllable of word.syllables) {
+    for (const { viseme, weight } of syllable.visemes) {
+      const length = (duration * weight) / total;
+      const previous = cues[cues.length - 1];
+      // Merge repeated shapes so the mouth doesn't stutter
+      if (previous && previous.viseme === viseme && Math.abs(previous.end - time) < 1) {
+        previous.end = time + length;
+      } else {
+        cues.push({ viseme, start: time, end: time + length });
+      }
+      time += length;
+    }
+  }
+}
+
+/**
+ * Build a viseme track for text
+ * With timepoints each word is fitted between its start and the next word's;
+ * otherwise the estimated TTS duration is spread over the syllables.
+ */
+export function buildVisemeTrack(text: string, options: VisemeTrackOptions = {}): VisemeTrack {
+  const words = textToLipSyncWords(text);
+  const cues: VisemeCue[] = [];
+  const wordStarts: { charIndex: number; start: number }[] = [];
+  if (words.length === 0) {
+    return { cues, words: wordStarts, duration: 0 };
+  }
+
+  const syllableCount = words.reduce((sum, w) => sum + w.syllables.length, 0);
+  const totalPause = words.reduce((sum, w) => sum + w.pauseAfter, 0);
+  const estimated = estimateTTSDuration(text, options.rate ?? 1.0);
+  const msPerWeight = Math.max(syllableCount * MIN_SYLLABLE_MS, estimated - totalPause) /
+    words.reduce((sum, w) => sum + wordWeight(w), 0);
+
+  const timepoints = new Map((options.timepoints || []).map(tp => [tp.charIndex, tp.time]));
+  const useTimepoints = words.every(w => timepoints.has(w.charIndex));
+
+  let time = 0;
+  words.forEach((word, i) => {
+    const start = useTimepoints ? timepoints.get(word.charIndex)! : time;
+    const expected = wordWeight(word) * msPerWeight;
+    let duration = expected;
+    if (useTimepoints && i < words.length - 1) {
+      // Speak until the next word starts, leaving any long gap as a pause
+      const gap = timepoints.get(words[i + 1].charIndex)! - start;
+      duration = Math.max(MIN_SYLLABLE_MS, Math.min(gap, expected * 1.5));
+    }
+
+    wordStarts.push({ charIndex: word.charIndex, start });
+    pushWordCues(cues, word, start, duration);
+    time = start + duration + word.pauseAfter;
+  });
+
+  return { cues, words: wordStarts, duration: time };
+}
+
+/**
+ * Viseme at a time in the track (rest between words and after the end)
+ */
+export function sampleVisemeTrack(track: VisemeTrack, time: number): Viseme {
+  let low = 0;
+  let high = track.cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const cue = track.cues[mid];
+    if (time < cue.start) high = mid - 1;
+    else if (time >= cue.end) low = mid + 1;
+    else return cue.viseme;
+  }
+  return 'rest';
+}
+
+// ============================================
+// ACTIVE LIP SYNC (per character)
+// ============================================
+
+interface ActiveLipSync {
+  track: VisemeTrack;
+  startedAt: number;
+  pausedAt: number | null;
+}
+
+const activeLipSync: Map<string, ActiveLipSync> = new Map();
+
+/**
+ * Start lip sync for a character - call when their audio starts playing
+ */
+export function startLipSync(characterId: string, text: string, options: VisemeTrackOptions = {}): void {
+  activeLipSync.set(characterId, {
+    track: buildVisemeTrack(text, options),
+    startedAt: realClock.now(),
+    pausedAt: null,
+  });
+}
+
+/**
+ * Re-anchor on a TTS boundary event: the word at charIndex is starting now
+ */
+export function syncLipSync(characterId: string, charIndex: number): void {
+  const active = activeLipSync.get(characterId);
+  if (!active || active.pausedAt !== null) return;
+  const word = [...active.track.words].reverse().find(w => w.charIndex <= charIndex);
+  if (word) {
+    active.startedAt = realClock.now() - word.start;
+  }
+}
+
+export function pauseLipSync(characterId: string): void {
+  const active = activeLipSync.get(characterId);
+  if (active && active.pausedAt === null) {
+    active.pausedAt = realClock.now();
+  }
+}
+
+export function resumeLipSync(characterId: string): void {
+  const active = activeLipSync.get(characterId);
+  if (active && active.pausedAt !== null) {
+    active.startedAt += realClock.now() - active.pausedAt;
+    active.pausedAt = null;
+  }
+}
+
+export function stopLipSync(characterId?: string): void {
+  if (characterId) {
+    activeLipSync.delete(characterId);
+  } else {
+    activeLipSync.clear();
+  }
+}
+
+/**
+ * Current mouth shape for a character, or null when no speech is driving it
+ * (the character falls back to generic talking motion)
+ */
+export function getLipSyncShape(characterId: string, now: number = realClock.now()): VisemeShape | null {
+  const active = activeLipSync.get(characterId);
+  if (!active) return null;
+  const time = (active.pausedAt ?? now) - active.startedAt;
+  if (time > active.track.duration + 1000) {
+    // Audio should have ended - don't hold a stale track forever
+    activeLipSync.delete(characterId);
+    return null;
+  }
+  return VISEME_SHAPES[sampleVisemeTrack(active.track, time)];
+}
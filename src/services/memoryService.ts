@@ -0,0 +1,372 @@
+/**
+ * Memory Service
+ * Long-term facts about the user that wakattors recall across conversations
+ *
+ * Finished conversations are summarized by the LLM into short durable facts
+ * (stored in user_memories). Each turn, the most relevant facts are recalled
+ * and injected into the orchestration prompt.
+ */
+
+import { supabase } from '../lib/supabase';
+import { generateAIResponse } from './aiService';
+import { getCharacter } from '../config/characters';
+import { buildMessagePath } from '../utils/messageTree';
+
+// Facts injected into a single prompt
+const MAX_RECALLED_MEMORIES = 8;
+// Conversations with fewer new user messages aren't worth summarizing yet
+const MIN_USER_MESSAGES_TO_SUMMARIZE = 2;
+// Existing facts shown to the summarizer so it doesn't repeat them
+const MAX_KNOWN_FACTS_IN_PROMPT = 50;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'because', 'been', 'before', 'being', 'could', 'does',
+  'from', 'have', 'just', 'like', 'more', 'much', 'really', 'should', 'some', 'than', 'that',
+  'their', 'them', 'then', 'there', 'they', 'this', 'very', 'what', 'when', 'where', 'which',
+  'while', 'with', 'would', 'your', 'user', 'users',
+]);
+
+export interface UserMemory {
+  id: string;
+  characterId: string | null;
+  fact: string;
+  importance: number;
+  sourceConversationId: string | null;
+  lastRecalledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryContext {
+  general: string[];                       // Facts every wakattor knows
+  byCharacter: Record<string, string[]>;   // Facts shared with one wakattor
+}
+
+export const EMPTY_MEMORY_CONTEXT: MemoryContext = { general: [], byCharacter: {} };
+
+interface ExtractedFact {
+  fact: string;
+  character: string | null;
+  importance: number;
+}
+
+function mapMemory(row: any): UserMemory {
+  return {
+    id: row.id,
+    characterId: row.character_id,
+    fact: row.fact,
+    importance: row.importance,
+    sourceConversationId: row.source_conversation_id,
+    lastRecalledAt: row.last_recalled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function normalizeFact(fact: string): string {
+  return fact.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .filter(word => word.length >= 4 && !STOP_WORDS.has(word))
+  );
+}
+
+// ============================================
+// CRUD
+// ============================================
+
+/**
+ * List all of the current user's memories, newest first
+ */
+export async function listMemories(): Promise<UserMemory[]> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[Memory] Error listing memories:', error);
+    throw error;
+  }
+
+  return (data || []).map(mapMemory);
+}
+
+export async function updateMemory(id: string, fact: string, importance?: number): Promise<void> {
+  const updates: Record<string, any> = { fact: fact.trim() };
+  if (importance !== undefined) {
+    updates.importance = Math.max(1, Math.min(5, Math.round(importance)));
+  }
+
+  const { error } = await supabase
+    .from('user_memories')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) {
+    console.error('[Memory] Error updating memory:', error);
+    throw error;
+  }
+}
+
+export async function deleteMemory(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_memories')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('[Memory] Error deleting memory:', error);
+    throw error;
+  }
+}
+
+/**
+ * Forget everything remembered about the current user
+ */
+export async function deleteAllMemories(): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('user_memories')
+    .delete()
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('[Memory] Error deleting all memories:', error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+function buildExtractionPrompt(characterIds: string[], knownFacts: string[]): string {
+  const characterList = characterIds
+    .map(id => `- ${id}: ${getCharacter(id).name}`)
+    .join('\n');
+
+  const known = knownFacts.length > 0
+    ? `\nAlready remembered (do NOT repeat these):\n${knownFacts.map(f => `- ${f}`).join('\n')}\n`
+    : '';
+
+  return `You maintain a long-term memory about a user of a chat app where they talk with characters ("wakattors").
+Read the conversation and extract durable facts about the USER worth remembering in future conversations:
+people in their life, important events, ongoing situations, goals, preferences, feelings they keep coming back to.
+
+Rules:
+- Only facts about the user, never about the characters
+- Each fact is one short sentence in third person ("Has a younger sister named Ana")
+- Skip small talk, greetings and anything only relevant to this moment
+- Set "character" to the wakattor ID if the user shared it specifically with that wakattor, otherwise null
+- "importance" is 1 (trivia) to 5 (core to who they are)
+- Return [] if there is nothing worth remembering
+
+Wakattors in this conversation:
+${characterList}
+${known}
+Respond with ONLY a JSON array, no other text:
+[{"fact":"...","character":null,"importance":3}]`;
+}
+
+function parseExtractedFacts(raw: string, characterIds: string[]): ExtractedFact[] {
+  const match = raw.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((item: any) => item && typeof item.fact === 'string' && item.fact.trim().length > 0)
+      .map((item: any) => ({
+        fact: item.fact.trim().substring(0, 500),
+        character: characterIds.includes(item.character) ? item.character : null,
+        importance: Math.max(1, Math.min(5, Math.round(Number(item.importance) || 3))),
+      }));
+  } catch (error) {
+    console.warn('[Memory] Could not parse extracted facts:', error);
+    return [];
+  }
+}
+
+// Extractions in progress, by conversation - overlapping triggers share one run
+const extractionsInFlight = new Map<string, Promise<number>>();
+
+/**
+ * Summarize a conversation's new messages into durable facts
+ * Only messages since the last extraction are read, so this is safe to call repeatedly
+ * (on conversation switch, app background, sign-out and every few user messages).
+ * Returns the number of facts stored.
+ */
+export function extractConversationMemories(conversationId: string): Promise<number> {
+  const inFlight = extractionsInFlight.get(conversationId);
+  if (inFlight) return inFlight;
+
+  const extraction = runMemoryExtraction(conversationId).finally(() => {
+    extractionsInFlight.delete(conversationId);
+  });
+  extractionsInFlight.set(conversationId, extraction);
+  return extraction;
+}
+
+async function runMemoryExtraction(conversationId: string): Promise<number> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return 0;
+
+  const { data: conversation, error: convError } = await supabase
+    .from('conversations')
+    .select('id, user_id, is_tutorial, selected_characters, memories_extracted_at')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  // Shared conversations are summarized by their owner only
+  if (convError || !conversation || conversation.user_id !== user.id || conversation.is_tutorial) {
+    return 0;
+  }
+
+  // The whole tree is loaded to find the active branch (other branches were abandoned)
+  const { data: rows, error: msgError } = await supabase
+    .from('messages')
+    .select('id, parent_message_id, superseded_by, role, content, character_id, created_at')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (msgError) {
+    console.error('[Memory] Error loading messages:', msgError);
+    throw msgError;
+  }
+
+  const extractedAt = conversation.memories_extracted_at;
+  const messages = buildMessagePath(rows || []).path
+    .filter((m: any) => !extractedAt || new Date(m.created_at) > new Date(extractedAt));
+
+  const userMessageCount = messages.filter((m: any) => m.role === 'user').length;
+  if (userMessageCount < MIN_USER_MESSAGES_TO_SUMMARIZE) {
+    return 0;
+  }
+
+  const characterIds: string[] = conversation.selected_characters || [];
+  const existing = await listMemories();
+  const knownFacts = existing.slice(0, MAX_KNOWN_FACTS_IN_PROMPT).map(m => m.fact);
+
+  const transcript = messages
+    .map((m: any) => m.role === 'user'
+      ? `User: ${m.content}`
+      : `${getCharacter(m.character_id).name} (${m.character_id}): ${m.content}`)
+    .join('\n');
+
+  const raw = await generateAIResponse(
+    [{ role: 'user', content: `Conversation:\n${transcript}` }],
+    buildExtractionPrompt(characterIds, knownFacts),
+    'memory-extractor'
+  );
+
+  const seen = new Set(existing.map(m => normalizeFact(m.fact)));
+  const facts = parseExtractedFacts(raw, characterIds).filter(f => {
+    const key = normalizeFact(f.fact);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (facts.length > 0) {
+    const { error: insertError } = await supabase
+      .from('user_memories')
+      .insert(facts.map(f => ({
+        user_id: user.id,
+        character_id: f.character,
+        fact: f.fact,
+        importance: f.importance,
+        source_conversation_id: conversationId,
+      })));
+
+    if (insertError) {
+      console.error('[Memory] Error storing memories:', insertError);
+      throw insertError;
+    }
+  }
+
+  await supabase
+    .from('conversations')
+    .update({ memories_extracted_at: new Date().toISOString() })
+    .eq('id', conversationId);
+
+  console.log(`[Memory] Stored ${facts.length} facts from conversation ${conversationId}`);
+  return facts.length;
+}
+
+// ============================================
+// RECALL
+// ============================================
+
+/**
+ * Pick the facts most relevant to this turn for the given wakattors
+ * Ranked by keyword overlap with the current message and recent history, then importance.
+ * Never throws - a turn without memories is better than a failed turn.
+ */
+export async function recallMemories(
+  characterIds: string[],
+  userMessage: string,
+  recentMessages: string[] = []
+): Promise<MemoryContext> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return EMPTY_MEMORY_CONTEXT;
+
+    const { data, error } = await supabase
+      .from('user_memories')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (error || !data || data.length === 0) {
+      return EMPTY_MEMORY_CONTEXT;
+    }
+
+    const queryWords = keywords([userMessage, ...recentMessages.slice(-4)].join(' '));
+    const candidates = data
+      .map(mapMemory)
+      .filter(m => m.characterId === null || characterIds.includes(m.characterId))
+      .map(memory => {
+        let overlap = 0;
+        keywords(memory.fact).forEach(word => {
+          if (queryWords.has(word)) overlap++;
+        });
+        return { memory, score: overlap * 3 + memory.importance };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RECALLED_MEMORIES);
+
+    const context: MemoryContext = { general: [], byCharacter: {} };
+    candidates.forEach(({ memory }) => {
+      if (memory.characterId) {
+        (context.byCharacter[memory.characterId] ||= []).push(memory.fact);
+      } else {
+        context.general.push(memory.fact);
+      }
+    });
+
+    // Track recall in the background
+    const recalledIds = candidates.map(c => c.memory.id);
+    if (recalledIds.length > 0) {
+      supabase
+        .from('user_memories')
+        .update({ last_recalled_at: new Date().toISOString() })
+        .in('id', recalledIds)
+        .then(({ error: recallError }) => {
+          if (recallError) console.warn('[Memory] Failed to mark recall:', recallError);
+        });
+    }
+
+    return context;
+  } catch (error) {
+    console.warn('[Memory] Recall failed, continuing without memories:', error);
+    return EMPTY_MEMORY_CONTEXT;
+  }
+}
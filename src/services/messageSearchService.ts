@@ -0,0 +1,107 @@
+/**
+ * Message Search Service
+ * Full-text search across message contents (Postgres FTS via the search_messages RPC)
+ */
+
+import { supabase } from '../lib/supabase';
+
+// Highlight markers emitted by ts_headline in search_messages()
+const HIGHLIGHT_START = '[[';
+const HIGHLIGHT_END = ']]';
+
+// Queries shorter than this are not sent to the server
+export const MIN_SEARCH_QUERY_LENGTH = 3;
+
+export type MessageSearchRole = 'user' | 'assistant';
+
+export interface MessageSearchFilters {
+  characterId?: string | null;
+  role?: MessageSearchRole | null;
+  from?: Date | null;
+  to?: Date | null;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: 'user' | 'assistant' | 'system';
+  characterId: string | null;
+  createdAt: string;
+  snippet: string;
+  rank: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Search the current user's messages
+ */
+export async function searchMessages(
+  query: string,
+  filters: MessageSearchFilters = {}
+): Promise<MessageSearchResult[]> {
+  const trimmed = query.trim();
+  if (trimmed.length < MIN_SEARCH_QUERY_LENGTH) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    p_query: trimmed,
+    p_character_id: filters.characterId || null,
+    p_role: filters.role || null,
+    p_from: filters.from ? filters.from.toISOString() : null,
+    p_to: filters.to ? filters.to.toISOString() : null,
+    p_limit: filters.limit || 50,
+  });
+
+  if (error) {
+    console.error('[MessageSearch] Search error:', error);
+    throw error;
+  }
+
+  return (data || []).map((row: any) => ({
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title || 'Untitled conversation',
+    role: row.role,
+    characterId: row.character_id,
+    createdAt: row.created_at,
+    snippet: row.snippet || '',
+    rank: row.rank || 0,
+  }));
+}
+
+/**
+ * Split a search snippet into plain and highlighted segments for rendering
+ */
+export function parseSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (end === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
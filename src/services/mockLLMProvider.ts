@@ -0,0 +1,454 @@
+/**
+ * Mock LLM Provider
+ *
+ * Offline stand-in for the ai-chat Edge Function, used when AIConfig.provider is 'mock'.
+ * Produces payloads shaped like the real thing so the app runs end to end with no
+ * network and no API key:
+ * - Orchestrator prompts get valid animated-scene JSON for the characters in the prompt
+ * - Utility prompts (titles, memories, entities, summaries) get plausible answers
+ * - Streaming requests are chunked into deltas and can carry tool calls
+ *   (ANIMATION_TOOLS' express, BOB_TOOLS)
+ *
+ * Responses are fixture-driven: register fixtures with registerMockFixture(), or on web
+ * inject them before the app loads (e.g. Playwright's page.addInitScript):
+ *
+ *   window.__WAKATTO_MOCK_LLM__ = {
+ *     fixtures: [{ name: 'greeting', match: 'hello', response: '{"s":{"ch":[...]}}' }],
+ *   };
+ *
+ * Setting window.__WAKATTO_MOCK_LLM__ also switches the AI service to the mock provider.
+ * It is only honoured in development and test builds, never in production.
+ *
+ * Error cases can be triggered from the chat itself by including a directive in the
+ * user message: [mock:limit], [mock:malformed], [mock:error], [mock:network], [mock:tools]
+ */
+
+import { Platform } from 'react-native';
+import { isTestEnvironment } from '../config/environment';
+import { ANIMATION_TOOLS, BOB_TOOLS, ToolCall, ToolResult } from './aiToolsService';
+import { UsageInfo } from './usageTrackingService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MockErrorKind = 'limit_exceeded' | 'malformed_json' | 'server_error' | 'network';
+
+export interface MockRequest {
+  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+  characterId?: string;           // Caller ID, e.g. 'orchestrator', 'title-generator'
+  enableTools?: boolean;          // Bob's tools
+  enableAnimationTools?: boolean; // express()
+}
+
+export interface MockFixture {
+  name: string;
+  /** String = case-insensitive substring of the last user message */
+  match: string | RegExp | ((request: MockRequest) => boolean);
+  response?: string | ((request: MockRequest) => string);
+  toolCalls?: ToolCall[];       // Client tool calls sent with tool_results
+  serverResults?: ToolResult[]; // Server tool results sent with tool_results
+  error?: MockErrorKind;
+  latencyMs?: number;
+  once?: boolean;               // Remove after first use
+}
+
+export interface MockCompletion {
+  text: string;
+  toolCalls: ToolCall[];
+  serverResults: ToolResult[];
+  latencyMs: number;
+}
+
+export interface MockStreamCallbacks {
+  onStart?: (timestamp: number) => void;
+  onDelta?: (text: string, accumulated: string) => void;
+  onToolResults?: (serverResults: ToolResult[], clientToolCalls: ToolCall[]) => void;
+}
+
+/**
+ * Thrown for [mock:limit] / limit_exceeded fixtures
+ * aiService converts it to its TokenLimitExceededError
+ */
+export class MockLimitExceededError extends Error {
+  public usage: UsageInfo;
+
+  constructor(usage: UsageInfo) {
+    super('Token limit exceeded');
+    this.name = 'MockLimitExceededError';
+    this.usage = usage;
+  }
+}
+
+// Shape of window.__WAKATTO_MOCK_LLM__ (serializable, so matches are strings)
+export type InjectedMockFixture = Omit<MockFixture, 'match' | 'response'> & { match: string; response?: string };
+
+interface InjectedMockConfig {
+  fixtures?: InjectedMockFixture[];
+  latencyMs?: number;
+}
+
+// ============================================
+// STATE
+// ============================================
+
+const DEFAULT_LATENCY_MS = 600;
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+let fixtures: MockFixture[] = [];
+let defaultLatencyMs = DEFAULT_LATENCY_MS;
+let injectedConfigLoaded = false;
+
+function getInjectedConfig(): InjectedMockConfig | null {
+  // Production builds can't be switched to the mock from the browser console
+  if (!isTestEnvironment) return null;
+  if (Platform.OS !== 'web' || typeof window === 'undefined') return null;
+  return (window as any).__WAKATTO_MOCK_LLM__ || null;
+}
+
+/**
+ * Whether the page asked for the mock provider (web test harness)
+ */
+export function isMockProviderInjected(): boolean {
+  return getInjectedConfig() !== null;
+}
+
+function loadInjectedFixtures(): void {
+  if (injectedConfigLoaded) return;
+  injectedConfigLoaded = true;
+
+  const injected = getInjectedConfig();
+  if (!injected) return;
+
+  if (typeof injected.latencyMs === 'number') {
+    defaultLatencyMs = injected.latencyMs;
+  }
+  (injected.fixtures || []).forEach(fixture => registerMockFixture(parseInjectedFixture(fixture)));
+  console.log(`[MockLLM] Loaded ${injected.fixtures?.length || 0} injected fixtures`);
+}
+
+/**
+ * Turn a serialized fixture (window.__WAKATTO_MOCK_LLM__) into a MockFixture
+ * "/pattern/flags" match strings become regular expressions; other strings stay substrings.
+ */
+export function parseInjectedFixture(fixture: InjectedMockFixture): MockFixture {
+  const regex = fixture.match.match(/^\/(.+)\/([a-z]*)$/);
+  return { ...fixture, match: regex ? new RegExp(regex[1], regex[2]) : fixture.match };
+}
+
+/**
+ * Register a fixture. Fixtures are checked in registration order, before built-in responses.
+ */
+export function registerMockFixture(fixture: MockFixture): void {
+  fixtures.push(fixture);
+}
+
+export function clearMockFixtures(): void {
+  fixtures = [];
+}
+
+/**
+ * Set the simulated latency for responses without their own latencyMs (0 for tests)
+ */
+export function setMockLatency(ms: number): void {
+  defaultLatencyMs = Math.max(0, ms);
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function getLastUserMessage(request: MockRequest): string {
+  return request.messages.filter(m => m.role === 'user').pop()?.content || '';
+}
+
+function getSystemPrompt(request: MockRequest): string {
+  return request.messages.find(m => m.role === 'system')?.content || '';
+}
+
+function fixtureMatches(fixture: MockFixture, request: MockRequest): boolean {
+  const { match } = fixture;
+  if (typeof match === 'function') return match(request);
+  const userMessage = getLastUserMessage(request);
+  if (match instanceof RegExp) return match.test(userMessage);
+  return userMessage.toLowerCase().includes(match.toLowerCase());
+}
+
+function findFixture(request: MockRequest): MockFixture | null {
+  loadInjectedFixtures();
+
+  const index = fixtures.findIndex(fixture => fixtureMatches(fixture, request));
+  if (index === -1) return null;
+
+  const fixture = fixtures[index];
+  if (fixture.once) {
+    fixtures.splice(index, 1);
+  }
+  return fixture;
+}
+
+// Directives typed into the chat, e.g. "hello [mock:malformed]"
+function getDirective(request: MockRequest): string | null {
+  const match = getLastUserMessage(request).match(/\[mock:([a-z_]+)\]/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+const DIRECTIVE_ERRORS: Record<string, MockErrorKind> = {
+  limit: 'limit_exceeded',
+  malformed: 'malformed_json',
+  error: 'server_error',
+  network: 'network',
+};
+
+// ============================================
+// BUILT-IN RESPONSES
+// ============================================
+
+/**
+ * Character IDs listed in an orchestration prompt
+ * Animated format: "### Name (id, Position: L)"; legacy format: "### Name (ID: id)"
+ */
+function getPromptCharacters(systemPrompt: string): string[] {
+  const ids = [
+    ...Array.from(systemPrompt.matchAll(/^### .+? \(([\w-]+), Position:/gm)),
+    ...Array.from(systemPrompt.matchAll(/^### .+? \(ID: ([\w-]+)\)/gm)),
+  ].map(match => match[1]);
+
+  if (ids.length === 0 && /\bBob\b/.test(systemPrompt)) {
+    return ['bob'];
+  }
+  return Array.from(new Set(ids));
+}
+
+const MOCK_LINES = [
+  { t: 'Okay, that actually got my attention. Tell me more.', a: 'lean_forward', ex: 'curious', lk: 'center' },
+  { t: 'Oh please, you say that every time.', a: 'cross_arms', ex: 'skeptical', lk: 'at_left_character' },
+  { t: 'At least I say something. You just sigh dramatically.', a: 'shrug', ex: 'playful', lk: 'at_right_character' },
+  { t: 'Both of you, stop. Let them finish their thought!', a: 'wave', ex: 'amused', lk: 'center' },
+  { t: "Fine. But I'm right and we all know it.", a: 'nod', ex: 'smug', lk: 'center' },
+];
+
+function buildSceneResponse(characters: string[]): string {
+  const count = Math.min(MOCK_LINES.length, Math.max(3, characters.length));
+  const ch = Array.from({ length: count }, (_, index) => {
+    const line = MOCK_LINES[index];
+    const entry: Record<string, any> = {
+      c: characters[index % characters.length],
+      t: line.t,
+      ord: index + 1,
+      a: line.a,
+      sp: index === 0 ? 'normal' : 'fast',
+      lk: characters.length > 1 ? line.lk : 'center',
+      ex: line.ex,
+    };
+    if (index > 0 && characters.length > 1) {
+      entry.reactsTo = characters[(index - 1) % characters.length];
+    }
+    return entry;
+  });
+  return JSON.stringify({ s: { ch } });
+}
+
+function buildLegacyResponse(characters: string[]): string {
+  return JSON.stringify({
+    responses: characters.map((character, index) => ({
+      character,
+      content: MOCK_LINES[index % MOCK_LINES.length].t,
+      gesture: 'talking',
+      timing: index === 0 ? 'immediate' : 'delayed',
+      interrupts: false,
+      reactsTo: index > 0 ? characters[index - 1] : null,
+    })),
+    conversationFlow: 'Mock conversation',
+  });
+}
+
+function buildTextResponse(userMessage: string): string {
+  const content = userMessage.toLowerCase();
+
+  if (content.includes('hello') || content.includes('hi')) {
+    return "Hello! It's great to hear from you. How are you feeling today?";
+  }
+  if (content.includes('feeling') || content.includes('feel')) {
+    return "Thank you for sharing how you're feeling. Would you like to tell me more about what's been on your mind?";
+  }
+  if (content.includes('thank')) {
+    return "You're very welcome! Is there anything else you'd like to explore or discuss?";
+  }
+  return 'I appreciate you sharing that with me. Would you like to explore this further, or is there something else on your mind?';
+}
+
+function buildBuiltInResponse(request: MockRequest): string {
+  const systemPrompt = getSystemPrompt(request);
+  const userMessage = getLastUserMessage(request);
+
+  switch (request.characterId) {
+    case 'title-generator':
+      return 'Mock Conversation Title';
+    case 'memory-extractor':
+      return '[]';
+    case 'entity-extractor':
+      return '{"entities":[],"relationships":[]}';
+    case 'conversation-summarizer':
+      return 'The user and the wakattors talked about several topics. The characters teased each other along the way.';
+  }
+
+  const characters = getPromptCharacters(systemPrompt);
+  if (characters.length > 0) {
+    return systemPrompt.includes('"s":{"ch"')
+      ? buildSceneResponse(characters)
+      : buildLegacyResponse(characters);
+  }
+
+  return buildTextResponse(userMessage);
+}
+
+function buildBuiltInTools(request: MockRequest): { toolCalls: ToolCall[]; serverResults: ToolResult[] } {
+  const toolCalls: ToolCall[] = [];
+  const serverResults: ToolResult[] = [];
+  const forced = getDirective(request) === 'tools';
+  const now = Date.now();
+
+  if (request.enableAnimationTools || forced) {
+    const express = ANIMATION_TOOLS.find(tool => tool.name === 'express');
+    if (express) {
+      toolCalls.push({
+        id: `mock_tool_${now}_express`,
+        name: express.name,
+        arguments: { expression: 'amused', animation: 'nod', look_at: 'center' },
+      });
+    }
+  }
+
+  if (request.enableTools || forced) {
+    const statusTool = BOB_TOOLS.find(tool => tool.name === 'get_user_status');
+    if (statusTool) {
+      serverResults.push({
+        toolCallId: `mock_tool_${now}_status`,
+        result: {
+          tier: 'trial',
+          isSubscriber: false,
+          isTrial: true,
+          trialDaysRemaining: 5,
+          tokensUsed: 1200,
+          tokenLimit: 50000,
+          tokensRemaining: 48800,
+          usagePercentage: 2.4,
+          periodEnd: new Date(now + 5 * 24 * 60 * 60 * 1000).toISOString(),
+          hasActiveDiscount: false,
+          unlockedWakattors: [],
+        },
+      });
+    }
+    if (/upgrade|price|premium/i.test(getLastUserMessage(request))) {
+      toolCalls.push({
+        id: `mock_tool_${now}_upgrade`,
+        name: 'show_upgrade_modal',
+        arguments: { highlight_tier: 'premium', show_discount: false },
+      });
+    }
+  }
+
+  return { toolCalls, serverResults };
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+function buildMockUsage(): UsageInfo {
+  return {
+    tier: 'free',
+    tokensUsed: 10000,
+    tokenLimit: 10000,
+    remainingTokens: 0,
+    usagePercentage: 100,
+    periodEnd: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    warningLevel: 'blocked',
+  };
+}
+
+// Malformed JSON is a response, not an exception, so it isn't handled here
+function throwMockError(kind: Exclude<MockErrorKind, 'malformed_json'>): never {
+  switch (kind) {
+    case 'limit_exceeded':
+      throw new MockLimitExceededError(buildMockUsage());
+    case 'network':
+      throw new TypeError('Failed to fetch');
+    case 'server_error':
+      throw new Error('Mock provider error: the model is overloaded');
+  }
+}
+
+const MALFORMED_RESPONSE = '{"s":{"ch":[{"c":"freud","t":"This response was cut off mid-';
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Resolve a mock completion for a request (fixture first, then built-ins)
+ * Throws for error fixtures/directives, like the real provider would.
+ */
+export async function generateMockCompletion(request: MockRequest): Promise<MockCompletion> {
+  const fixture = findFixture(request);
+  const directiveError = DIRECTIVE_ERRORS[getDirective(request) || ''];
+  const error = fixture?.error || (fixture ? undefined : directiveError);
+  const latencyMs = fixture?.latencyMs ?? defaultLatencyMs;
+
+  if (latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+  }
+
+  if (error && error !== 'malformed_json') {
+    console.log(`[MockLLM] Simulating ${error}${fixture ? ` (fixture: ${fixture.name})` : ''}`);
+    throwMockError(error);
+  }
+
+  const builtInTools = fixture ? { toolCalls: [], serverResults: [] } : buildBuiltInTools(request);
+  let text: string;
+  if (error === 'malformed_json') {
+    text = MALFORMED_RESPONSE;
+  } else if (fixture?.response !== undefined) {
+    text = typeof fixture.response === 'function' ? fixture.response(request) : fixture.response;
+  } else {
+    text = buildBuiltInResponse(request);
+  }
+
+  return {
+    text,
+    toolCalls: fixture?.toolCalls || builtInTools.toolCalls,
+    serverResults: fixture?.serverResults || builtInTools.serverResults,
+    latencyMs,
+  };
+}
+
+/**
+ * Stream a mock completion in small deltas, mirroring the Edge Function's SSE events
+ * (start → tool_results → delta... ). Returns the full text.
+ */
+export async function streamMockCompletion(
+  request: MockRequest,
+  callbacks: MockStreamCallbacks = {}
+): Promise<MockCompletion> {
+  const completion = await generateMockCompletion(request);
+
+  callbacks.onStart?.(Date.now());
+
+  if (completion.toolCalls.length > 0 || completion.serverResults.length > 0) {
+    callbacks.onToolResults?.(completion.serverResults, completion.toolCalls);
+  }
+
+  let accumulated = '';
+  for (let i = 0; i < completion.text.length; i += STREAM_CHUNK_SIZE) {
+    const chunk = completion.text.slice(i, i + STREAM_CHUNK_SIZE);
+    accumulated += chunk;
+    callbacks.onDelta?.(chunk, accumulated);
+    if (defaultLatencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    }
+  }
+
+  return completion;
+}
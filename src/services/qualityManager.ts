@@ -0,0 +1,202 @@
+/**
+ * Adaptive Quality Manager
+ *
+ * Steps 3D rendering quality up and down at runtime so busy scenes (5 characters
+ * on a low-end phone) stay above 30 FPS. In 'auto' mode it reads fpsMonitor
+ * metrics while a scene is on screen; users can also pin a tier in Settings.
+ *
+ * Tiers, best to cheapest:
+ * - high: everything on (desktop default)
+ * - medium: no shadow-casting spotlight/fill lights, fewer particles, lower resolution
+ * - low: no nose/cheek/forehead details, one shared canvas for all characters (web)
+ * - minimal: sub-1x resolution and very few particles
+ */
+
+import { useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+import { fpsMonitor, FPSMetrics } from './fpsMonitor';
+import { StoredPreference } from './storedPreference';
+
+export type QualityTier = 'high' | 'medium' | 'low' | 'minimal';
+export type QualityPreference = QualityTier | 'auto';
+
+export interface QualitySettings {
+  tier: QualityTier;
+  particleScale: number;   // Multiplier on effect particle counts
+  shadows: boolean;        // Shadow-casting spotlight and fill lights
+  faceDetails: boolean;    // Nose, cheek and forehead parts
+  maxPixelRatio: number;   // Upper bound for canvas DPR
+  sharedCanvas: boolean;   // Render every character in one canvas (web only)
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['high', 'medium', 'low', 'minimal'];
+
+const isWeb = Platform.OS === 'web';
+
+const TIER_SETTINGS: Record<QualityTier, QualitySettings> = {
+  high: { tier: 'high', particleScale: 1, shadows: true, faceDetails: true, maxPixelRatio: 2, sharedCanvas: false },
+  medium: { tier: 'medium', particleScale: 0.6, shadows: false, faceDetails: true, maxPixelRatio: 1.5, sharedCanvas: false },
+  low: { tier: 'low', particleScale: 0.35, shadows: false, faceDetails: false, maxPixelRatio: 1, sharedCanvas: isWeb },
+  minimal: { tier: 'minimal', particleScale: 0.15, shadows: false, faceDetails: false, maxPixelRatio: 0.75, sharedCanvas: isWeb },
+};
+
+export const QUALITY_TIER_LABELS: Record<QualityPreference, string> = {
+  auto: 'Auto',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+  minimal: 'Minimal',
+};
+
+const STORAGE_KEY = 'quality_preference';
+
+const DOWNGRADE_FPS = 32;        // Average below this steps down a tier
+const UPGRADE_FPS = 55;          // Average above this (sustained) steps back up
+const UPGRADE_REPORTS = 6;       // Consecutive good reports (~3s) before stepping up
+const SETTLE_MS = 4000;          // Ignore metrics right after a change (new canvases, shader compiles)
+const UPGRADE_COOLDOWN_MS = 20000; // Don't step back up soon after stepping down
+
+type QualityCallback = (settings: QualitySettings) => void;
+
+function parseQualityPreference(stored: string | null): QualityPreference | undefined {
+  return stored === 'auto' || QUALITY_TIERS.includes(stored as QualityTier) ? stored as QualityPreference : undefined;
+}
+
+class QualityManager {
+  private preference = new StoredPreference(STORAGE_KEY, 'auto', parseQualityPreference);
+  private autoTier: QualityTier = 'high';
+  private callbacks = new Set<QualityCallback>();
+  private activeScenes = 0;
+  private lastChangeTime = 0;
+  private lastDowngradeTime = 0;
+  private goodReports = 0;
+
+  constructor() {
+    this.preference.subscribe(() => {
+      this.resetMeasurements();
+      this.updateMonitoring();
+      this.notify();
+    });
+  }
+
+  /**
+   * Load the saved preference (call once at startup; safe to call again)
+   */
+  load(): Promise<void> {
+    return this.preference.load();
+  }
+
+  getPreference(): QualityPreference {
+    return this.preference.get();
+  }
+
+  /**
+   * Pin a tier, or 'auto' to adapt to measured FPS
+   */
+  setPreference(preference: QualityPreference): void {
+    this.preference.set(preference);
+  }
+
+  getTier(): QualityTier {
+    const preference = this.preference.get();
+    return preference === 'auto' ? this.autoTier : preference;
+  }
+
+  getSettings(): QualitySettings {
+    return TIER_SETTINGS[this.getTier()];
+  }
+
+  subscribe(callback: QualityCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  /**
+   * A 3D scene is on screen - measure FPS while any scene is active (auto mode only)
+   * Returns a function that ends the scene.
+   */
+  beginScene(): () => void {
+    this.activeScenes++;
+    this.updateMonitoring();
+    let ended = false;
+    return () => {
+      if (ended) return;
+      ended = true;
+      this.activeScenes--;
+      this.updateMonitoring();
+    };
+  }
+
+  private updateMonitoring() {
+    if (this.preference.get() === 'auto' && this.activeScenes > 0) {
+      fpsMonitor.onMetrics(this.handleMetrics);
+      fpsMonitor.enable();
+    } else {
+      fpsMonitor.disable();
+    }
+  }
+
+  private handleMetrics = (metrics: FPSMetrics) => {
+    if (this.preference.get() !== 'auto') return;
+    const now = Date.now();
+    if (now - this.lastChangeTime < SETTLE_MS) return;
+
+    const index = QUALITY_TIERS.indexOf(this.autoTier);
+
+    if (metrics.averageFPS < DOWNGRADE_FPS && index < QUALITY_TIERS.length - 1) {
+      this.lastDowngradeTime = now;
+      this.changeAutoTier(QUALITY_TIERS[index + 1], metrics);
+      return;
+    }
+
+    if (metrics.averageFPS > UPGRADE_FPS && index > 0 && now - this.lastDowngradeTime > UPGRADE_COOLDOWN_MS) {
+      this.goodReports++;
+      if (this.goodReports >= UPGRADE_REPORTS) {
+        this.changeAutoTier(QUALITY_TIERS[index - 1], metrics);
+      }
+    } else {
+      this.goodReports = 0;
+    }
+  };
+
+  private changeAutoTier(tier: QualityTier, metrics: FPSMetrics) {
+    console.log(`[Quality] ${this.autoTier} → ${tier} (avg ${metrics.averageFPS.toFixed(1)} FPS)`);
+    this.autoTier = tier;
+    this.resetMeasurements();
+    this.notify();
+  }
+
+  /**
+   * Start a fresh FPS window so frames from the previous tier don't count
+   */
+  private resetMeasurements() {
+    this.lastChangeTime = Date.now();
+    this.goodReports = 0;
+    if (this.activeScenes > 0 && this.preference.get() === 'auto') {
+      fpsMonitor.disable();
+      fpsMonitor.enable();
+    }
+  }
+
+  private notify() {
+    const settings = this.getSettings();
+    this.callbacks.forEach(callback => callback(settings));
+  }
+}
+
+// Export singleton instance
+export const qualityManager = new QualityManager();
+
+/**
+ * Current quality settings, re-rendering when the tier changes
+ */
+export function useQualitySettings(): QualitySettings {
+  const [settings, setSettings] = useState(() => qualityManager.getSettings());
+  useEffect(() => {
+    setSettings(qualityManager.getSettings());
+    return qualityManager.subscribe(setSettings);
+  }, []);
+  return settings;
+}
@@ -0,0 +1,248 @@
+/**
+ * Scene Clip Export
+ * Turn a recorded assistant turn into a shareable WebM or animated GIF (web only)
+ *
+ * Frames are rendered offscreen by SceneClipExporter, which drives the playback
+ * engine and the characters with a ManualClock. This module composes each frame
+ * (character canvases plus speech bubbles) and encodes the result.
+ */
+
+import { Platform } from 'react-native';
+import { GifEncoder } from '../utils/gifEncoder';
+import { WebMMuxer } from '../utils/webmMuxer';
+
+export type ClipFormat = 'webm' | 'gif';
+
+export const CLIP_EXPORT_SETTINGS = {
+  width: 640,
+  height: 360,
+  fps: 12,
+  // Keep the last frame up briefly so the final line can be read
+  tailMs: 800,
+  maxDurationMs: 30000,
+  background: '#171717',
+};
+
+const CLIP_MIME_TYPES: Record<ClipFormat, string> = {
+  webm: 'video/webm',
+  gif: 'image/gif',
+};
+
+export interface ClipCharacterFrame {
+  name: string;
+  color: string;
+  canvas: HTMLCanvasElement | null;
+  revealedText: string;
+}
+
+export function isClipExportSupported(format: ClipFormat): boolean {
+  if (Platform.OS !== 'web' || typeof document === 'undefined') return false;
+  if (format === 'webm') {
+    return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+  }
+  return true;
+}
+
+export function getClipFileName(name: string, format: ClipFormat): string {
+  const safeName = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60) || 'clip';
+  const date = new Date().toISOString().split('T')[0];
+  return `wakatto-${safeName}-${date}.${format}`;
+}
+
+// ============================================
+// FRAME COMPOSITION
+// ============================================
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function drawRoundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+}
+
+function drawSpeechBubble(ctx: CanvasRenderingContext2D, text: string, color: string, centerX: number, maxWidth: number): void {
+  const fontSize = 14;
+  const lineHeight = fontSize * 1.3;
+  const padding = 8;
+  const maxLines = 4;
+
+  ctx.font = `${fontSize}px sans-serif`;
+  // Show the most recent lines, like the live bubbles do while text reveals
+  const lines = wrapText(ctx, text, maxWidth - padding * 2).slice(-maxLines);
+  if (lines.length === 0) return;
+
+  const width = Math.min(maxWidth, Math.max(...lines.map(l => ctx.measureText(l).width)) + padding * 2);
+  const height = lines.length * lineHeight + padding * 2;
+  const x = centerX - width / 2;
+  const y = 10;
+
+  drawRoundedRect(ctx, x, y, width, height, 10);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = color;
+  ctx.stroke();
+
+  ctx.fillStyle = '#171717';
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  lines.forEach((line, i) => ctx.fillText(line, x + padding, y + padding + i * lineHeight));
+}
+
+/**
+ * Draw one frame: characters side by side, names underneath, bubbles on top
+ */
+export function composeClipFrame(ctx: CanvasRenderingContext2D, characters: ClipCharacterFrame[]): void {
+  const { width, height, background } = CLIP_EXPORT_SETTINGS;
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  if (characters.length === 0) return;
+
+  const slotWidth = width / characters.length;
+
+  characters.forEach((character, i) => {
+    const centerX = slotWidth * (i + 0.5);
+    // CharacterDisplay3D canvases are twice as wide as their slot, character centered
+    if (character.canvas && character.canvas.width > 0) {
+      ctx.drawImage(character.canvas, centerX - slotWidth, 0, slotWidth * 2, height);
+    }
+
+    ctx.font = 'bold 13px sans-serif';
+    ctx.fillStyle = character.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(character.name, centerX, height - 8);
+  });
+
+  // Bubbles last so they sit above neighbouring characters
+  characters.forEach((character, i) => {
+    if (character.revealedText.trim()) {
+      drawSpeechBubble(ctx, character.revealedText, character.color, slotWidth * (i + 0.5), slotWidth - 12);
+    }
+  });
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+export interface ClipEncoder {
+  addFrame(canvas: HTMLCanvasElement): Promise<void>;
+  finish(): Promise<Blob>;
+  /** Release anything held for a cancelled export */
+  dispose(): void;
+}
+
+function createGifClipEncoder(): ClipEncoder {
+  const { width, height, fps } = CLIP_EXPORT_SETTINGS;
+  const gif = new GifEncoder(width, height, 1000 / fps);
+
+  return {
+    async addFrame(canvas) {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+      gif.addFrame(ctx.getImageData(0, 0, width, height).data);
+    },
+    async finish() {
+      return new Blob([gif.finish() as BlobPart], { type: CLIP_MIME_TYPES.gif });
+    },
+    dispose() {},
+  };
+}
+
+// Frames waiting in the encoder before addFrame() waits for it to catch up
+const MAX_QUEUED_FRAMES = 8;
+// Keyframe every 2 seconds
+const KEYFRAME_INTERVAL_FRAMES = CLIP_EXPORT_SETTINGS.fps * 2;
+
+/**
+ * Frames are encoded as they are rendered (WebCodecs VP8) and stamped with their
+ * frame time, so the clip is the same however slowly it was rendered offscreen.
+ * Only the encoded frames are kept in memory.
+ */
+function createWebMClipEncoder(): ClipEncoder {
+  const { width, height, fps } = CLIP_EXPORT_SETTINGS;
+  const frameUs = 1000000 / fps;
+  const muxer = new WebMMuxer(width, height, 'V_VP8');
+  let encodeError: Error | null = null;
+  let frameCount = 0;
+
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addFrame(data, chunk.timestamp / 1000, chunk.type === 'key');
+    },
+    error: error => {
+      console.error('[ClipExport] Encoder error:', error);
+      encodeError = error;
+    },
+  });
+  encoder.configure({ codec: 'vp8', width, height, framerate: fps, bitrate: 2000000 });
+
+  const dispose = () => {
+    if (encoder.state !== 'closed') encoder.close();
+  };
+
+  return {
+    async addFrame(canvas) {
+      if (encodeError) throw encodeError;
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(frameCount * frameUs),
+        duration: Math.round(frameUs),
+      });
+      encoder.encode(frame, { keyFrame: frameCount % KEYFRAME_INTERVAL_FRAMES === 0 });
+      frame.close();
+      frameCount++;
+    },
+    async finish() {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      dispose();
+      const durationMs = (frameCount * frameUs) / 1000;
+      return new Blob([muxer.finish(durationMs) as BlobPart], { type: CLIP_MIME_TYPES.webm });
+    },
+    dispose,
+  };
+}
+
+export function createClipEncoder(format: ClipFormat): ClipEncoder {
+  return format === 'gif' ? createGifClipEncoder() : createWebMClipEncoder();
+}
+
+export function downloadClip(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
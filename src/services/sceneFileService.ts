@@ -0,0 +1,82 @@
+/**
+ * Scene File Service
+ * Save and load hand-authored OrchestrationScenes as JSON files
+ *
+ * Scenes built in the timeline editor (Animations screen) are saved in this
+ * format so they can be shipped as canned scenes for onboarding and demos.
+ */
+
+import { OrchestrationScene, normalizeOrchestrationScene } from './animationOrchestration';
+import { deliverExport, pickImportFile } from './conversationExportService';
+
+export const SCENE_FILE_VERSION = 1;
+
+export interface SceneFile {
+  version: number;
+  name: string;
+  createdAt: string;
+  scene: OrchestrationScene;
+}
+
+export function serializeScene(scene: OrchestrationScene, name: string): string {
+  const file: SceneFile = {
+    version: SCENE_FILE_VERSION,
+    name,
+    createdAt: new Date().toISOString(),
+    scene,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse a scene file (or a bare OrchestrationScene) from JSON
+ * Throws if the JSON isn't a scene.
+ */
+export function parseSceneFile(json: string): { name: string; scene: OrchestrationScene } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Scene file is not valid JSON');
+  }
+
+  if (parsed?.version && parsed.version > SCENE_FILE_VERSION) {
+    throw new Error(`Scene file version ${parsed.version} is newer than supported (${SCENE_FILE_VERSION})`);
+  }
+
+  const scene = normalizeOrchestrationScene(parsed?.scene ?? parsed);
+  if (!scene) {
+    throw new Error('File does not contain an animation scene');
+  }
+
+  return {
+    name: typeof parsed?.name === 'string' && parsed.name.trim() ? parsed.name.trim() : 'Untitled scene',
+    scene,
+  };
+}
+
+function getSceneFileName(name: string): string {
+  const safeName = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60) || 'scene';
+  return `wakatto-scene-${safeName}.json`;
+}
+
+/**
+ * Download (web) or share (native) a scene file
+ */
+export async function saveSceneFile(scene: OrchestrationScene, name: string): Promise<void> {
+  await deliverExport(serializeScene(scene, name), getSceneFileName(name), 'json');
+}
+
+/**
+ * Let the user pick a scene file (web only)
+ * Resolves null if the picker is cancelled; throws if the file isn't a scene.
+ */
+export async function pickSceneFile(): Promise<{ name: string; scene: OrchestrationScene } | null> {
+  const content = await pickImportFile();
+  if (!content) return null;
+  return parseSceneFile(content);
+}
@@ -41,8 +41,12 @@ import {
   getEffectsList
 } from './animationOrchestration';
 import { getVoiceOptionsForPrompt } from '../config/voiceConfig';
+import { getSceneEnvironmentsList } from '../config/sceneEnvironments';
+import { LanguageCode, getLanguageInstruction } from '../config/languages';
 import { getProfiler, PROFILE_OPS } from './profilingService';
-import { STATIC_ORCHESTRATION_IDENTITY_RULES } from '../config/characterIdentity';
+import { STATIC_ORCHESTRATION_IDENTITY_RULES, formatUserMemories } from '../config/characterIdentity';
+import { MemoryContext, EMPTY_MEMORY_CONTEXT, recallMemories } from './memoryService';
+import { prepareConversationContext } from './conversationSummaryService';
 
 export interface OrchestrationConfig {
   maxResponders: number; // Max characters that can respond
@@ -50,6 +54,7 @@ export interface OrchestrationConfig {
   includeInterruptions: boolean; // Allow interruptions
   verbosity: 'brief' | 'balanced' | 'detailed'; // Response length
   enableAnimatedScene: boolean; // Use new animated scene format
+  language?: LanguageCode; // Language the characters reply in (English if unset)
 }
 
 const DEFAULT_CONFIG: OrchestrationConfig = {
@@ -161,16 +166,24 @@ export async function generateSingleCallOrchestration(
   // Check if we should force a reaction this turn (every 2-3 user interactions)
   const forceReaction = shouldForceReaction();
 
+  // Recall what the wakattors know about the user
+  const memories = await recallMemories(selectedCharacters, userMessage, messageHistory.map(m => m.content));
+
+  // Fold older turns into the rolling summary when history is over budget
+  const { summary, recentHistory } = await prepareConversationContext(conversationId, messageHistory);
+
   // Build the orchestration prompt
   const orchestrationPrompt = buildOrchestrationPrompt(
     selectedCharacters,
     messageHistory,
     finalConfig,
-    forceReaction
+    forceReaction,
+    memories,
+    summary
   );
 
   // Format message history for context
-  const conversationMessages = formatConversationHistory(messageHistory);
+  const conversationMessages = formatConversationHistory(recentHistory);
 
   // Add user's current message
   conversationMessages.push({
@@ -257,13 +270,21 @@ export async function generateAnimatedSceneOrchestration(
   // Check if we should force a reaction this turn (every 2-3 user interactions)
   const forceReaction = shouldForceReaction();
 
+  // Recall what the wakattors know about the user
+  const memories = await recallMemories(selectedCharacters, userMessage, messageHistory.map(m => m.content));
+
+  // Fold older turns into the rolling summary when history is over budget
+  const { summary, recentHistory } = await prepareConversationContext(conversationId, messageHistory);
+
   // Profile prompt building
   const promptTimer = profiler.start(PROFILE_OPS.PROMPT_BUILD);
   const animatedPrompt = buildAnimatedScenePrompt(
     selectedCharacters,
     messageHistory,
     finalConfig,
-    forceReaction
+    forceReaction,
+    memories,
+    summary
   );
   promptTimer.stop({ 
     promptLength: animatedPrompt.length,
@@ -271,7 +292,7 @@ export async function generateAnimatedSceneOrchestration(
   });
 
   // Format message history for context
-  const conversationMessages = formatConversationHistory(messageHistory);
+  const conversationMessages = formatConversationHistory(recentHistory);
 
   // Add user's current message
   conversationMessages.push({
@@ -392,13 +413,21 @@ export async function generateAnimatedSceneOrchestrationStreaming(
   // Check if we should force a reaction this turn (every 2-3 user interactions)
   const forceReaction = shouldForceReaction();
 
+  // Recall what the wakattors know about the user
+  const memories = await recallMemories(selectedCharacters, userMessage, messageHistory.map(m => m.content));
+
+  // Fold older turns into the rolling summary when history is over budget
+  const { summary, recentHistory } = await prepareConversationContext(conversationId, messageHistory);
+
   // Build prompt
   const promptTimer = profiler.start(PROFILE_OPS.PROMPT_BUILD);
   const animatedPrompt = buildAnimatedScenePrompt(
     selectedCharacters,
     messageHistory,
     finalConfig,
-    forceReaction
+    forceReaction,
+    memories,
+    summary
   );
   promptTimer.stop({
     promptLength: animatedPrompt.length,
@@ -406,7 +435,7 @@ export async function generateAnimatedSceneOrchestrationStreaming(
   });
 
   // Format message history
-  const conversationMessages = formatConversationHistory(messageHistory);
+  const conversationMessages = formatConversationHistory(recentHistory);
   conversationMessages.push({
     role: 'user',
     content: userMessage
@@ -526,7 +555,9 @@ function buildAnimatedScenePrompt(
   selectedCharacters: string[],
   messageHistory: ConversationMessage[],
   config: OrchestrationConfig,
-  forceReaction: boolean = false
+  forceReaction: boolean = false,
+  memories: MemoryContext = EMPTY_MEMORY_CONTEXT,
+  summary: string | null = null
 ): string {
   // Get character profiles - enhanced with full systemPrompt + temperament modifiers
   const characterProfiles = selectedCharacters.map((charId, index) => {
@@ -544,9 +575,17 @@ function buildAnimatedScenePrompt(
       profile += `\n${styleModifier}`;
     }
 
+    // Add what this character alone remembers about the user
+    const characterMemories = memories.byCharacter[charId] || [];
+    if (characterMemories.length > 0) {
+      profile += `\n**Remembers about the user:**\n${characterMemories.map(fact => `- ${fact}`).join('\n')}\n`;
+    }
+
     return profile;
   }).join('\n\n---\n\n');
 
+  const sharedMemories = formatUserMemories(memories.general);
+
   // Build character change notification
   const characterChangeNote = buildCharacterChangeNotification(messageHistory, selectedCharacters);
 
@@ -575,6 +614,8 @@ Body (a): ${getAnimationsList()}
 Look (lk): ${getLookDirectionsList()}
 Expression (ex): ${getExpressionsList()}
 Effect (fx): ${getEffectsList()}
+Scene change (env, on "s" - optional): ${getSceneEnvironmentsList()}
+Movement (mv - optional): forward, home, approach:ID, swap:ID
 
 Use "ex" for compiled face expressions (eyes, eyebrows, mouth, etc. combined).
 Override specific parts if needed: "ex":"joyful","m":"smirk" (joyful expression but with smirk mouth)
@@ -589,7 +630,7 @@ Use emojis in text to trigger visual effects:
 ## Output Format (JSON REQUIRED - NO PLAIN TEXT!)
 ⚠️ RESPOND WITH JSON ONLY - not "[Name]: text" format!
 
-Keys: s=scene, ch=characters, c=character, t=content, ord=speakerOrder, a=animation, sp=speed, lk=look, ex=expression, fx=effect, v=voice
+Keys: s=scene, ch=characters, env=environment, c=character, t=content, ord=speakerOrder, a=animation, sp=speed, lk=look, ex=expression, fx=effect, v=voice, mv=movement
 Override keys (optional, override ex): ey=eyes, eb=eyebrow, m=mouth, fc=face, n=nose, ck=cheek, fh=forehead, j=jaw
 
 Speed (sp): "slow" | "normal" | "fast" | "explosive"
@@ -606,10 +647,20 @@ Sympathetic: {"a":"nod","sp":"slow","lk":"at_left_character","ex":"sad","m":"sli
 Playful tease: {"a":"lean_forward","sp":"fast","lk":"center","ex":"playful"}
 Nervous: {"a":"nervous","sp":"fast","lk":"down","ex":"nervous"}
 With override: {"a":"happy","ex":"joyful","m":"smirk"} (joyful but with smirk instead of big_grin)
+Confronting someone: {"a":"point","sp":"fast","lk":"at_right_character","ex":"frustrated","mv":"approach:ID"}
+
+Movement (mv) - stage the scene, use sparingly (most lines need none):
+- forward: step toward the user for an important point
+- approach:ID: walk up to another character (debates, comforting, confronting)
+- swap:ID: trade places with another character
+- home: go back to your own spot
 
 Full scene (THIS IS WHAT YOUR ENTIRE RESPONSE SHOULD LOOK LIKE):
 {"s":{"ch":[{"c":"ID","t":"TEXT","ord":1,"a":"talking","sp":"normal","lk":"center","ex":"happy"}]}}
 
+Scene change: only when the conversation moves somewhere else (e.g. "let's sit by the fire"), add "env" next to "ch":
+{"s":{"env":"campfire","ch":[...]}}
+
 ⚠️ YOUR RESPONSE = ONLY THE JSON ABOVE. NO OTHER TEXT. ⚠️
 
 ## Multi-User Handling
@@ -688,8 +739,10 @@ ${config.includeInterruptions ? '- Characters can interrupt by setting "int": tr
 ${getReactionGuidance(forceReaction)}
 ## Characters in This Scene (DYNAMIC - answer personal questions based on their history)
 ${characterProfiles}
+${sharedMemories}
+${formatConversationSummary(summary)}
 ${characterChangeNote}
-
+${getLanguageInstruction(config.language)}
 ## ⚠️ FINAL REMINDER: JSON ONLY ⚠️
 Your response MUST be EXACTLY this format (no other text):
 {"s":{"ch":[{"c":"character_id","t":"dialogue text","ord":1,"a":"animation","sp":"speed","lk":"look","ex":"expression"},...]}}
@@ -715,12 +768,14 @@ function buildOrchestrationPrompt(
   selectedCharacters: string[],
   messageHistory: ConversationMessage[],
   config: OrchestrationConfig,
-  forceReaction: boolean = false
+  forceReaction: boolean = false,
+  memories: MemoryContext = EMPTY_MEMORY_CONTEXT,
+  summary: string | null = null
 ): string {
-  // Get character profiles
+  // Get character profiles (each with what that character remembers about the user)
   const characterProfiles = selectedCharacters.map(charId => {
     const character = getCharacter(charId);
-    const basePrompt = getCharacterPrompt(character);
+    const basePrompt = getCharacterPrompt(character, memories.byCharacter[charId]);
     return `
 ### ${character.name} (ID: ${charId})
 ${character.description}
@@ -888,9 +943,11 @@ ${getReactionGuidance(forceReaction)}
 ## Characters in This Conversation (DYNAMIC - answer personal questions based on their history)
 
 ${characterProfiles}
+${formatUserMemories(memories.general)}
+${formatConversationSummary(summary)}
 
 ${characterChangeNote}
-
+${getLanguageInstruction(config.language)}
 Generate the orchestrated conversation now.`;
 }
 
@@ -930,27 +987,14 @@ function buildCharacterChangeNotification(
   return notification;
 }
 
-/**
- * Maximum number of messages to send to the LLM
- * Prevents excessive token usage and slow responses
- */
-const MAX_CONVERSATION_HISTORY = 30;
-
 /**
  * Format conversation history for LLM
- * Limits to last MAX_CONVERSATION_HISTORY messages to prevent slow/expensive calls
+ * The history is already bounded by prepareConversationContext (older turns are summarized)
  */
 function formatConversationHistory(
   messageHistory: ConversationMessage[]
 ): Array<{ role: 'user' | 'assistant' | 'system'; content: string }> {
-  // Limit to last N messages to prevent excessive token usage
-  const limitedHistory = messageHistory.slice(-MAX_CONVERSATION_HISTORY);
-  
-  if (messageHistory.length > MAX_CONVERSATION_HISTORY) {
-    console.log(`[SingleCall] Truncated conversation history from ${messageHistory.length} to ${MAX_CONVERSATION_HISTORY} messages`);
-  }
-  
-  return limitedHistory.map(m => ({
+  return messageHistory.map(m => ({
     role: m.role as 'user' | 'assistant' | 'system',
     content: m.role === 'assistant' && m.characterId
       ? `[${getCharacter(m.characterId).name}]: ${m.content}`
@@ -958,6 +1002,19 @@ function formatConversationHistory(
   }));
 }
 
+/**
+ * Format the rolling summary of turns no longer sent verbatim
+ */
+function formatConversationSummary(summary: string | null): string {
+  if (!summary) return '';
+
+  return `
+## Earlier in This Conversation
+Older messages are no longer shown. This is what happened before them:
+${summary}
+`;
+}
+
 /**
  * Clean content by removing character name prefixes
  */
@@ -18,7 +18,7 @@ export interface TranscriptionResult {
 /**
  * Transcribe audio using Web Speech API (native browser API)
  */
-export async function transcribeWithWebSpeech(audioBlob: Blob): Promise<TranscriptionResult> {
+export async function transcribeWithWebSpeech(audioBlob: Blob, lang: string = 'en-US'): Promise<TranscriptionResult> {
   return new Promise((resolve, reject) => {
     // Check if Web Speech API is supported
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
@@ -35,7 +35,7 @@ export async function transcribeWithWebSpeech(audioBlob: Blob): Promise<Transcri
       recognition.continuous = false;
       recognition.interimResults = false;
       recognition.maxAlternatives = 1;
-      recognition.lang = 'en-US'; // TODO: Make this configurable
+      recognition.lang = lang;
 
       // Convert blob to audio and play through recognition
       const audioURL = URL.createObjectURL(audioBlob);
@@ -99,14 +99,17 @@ export async function transcribeWithWebSpeech(audioBlob: Blob): Promise<Transcri
 
 /**
  * Transcribe audio (uses native Web Speech API)
+ *
+ * @param lang - BCP-47 language spoken in the recording
  */
 export async function transcribeAudio(
   audioBlob: Blob,
   method: STTMethod = 'web-speech',
-  enableFallback: boolean = true
+  enableFallback: boolean = true,
+  lang: string = 'en-US'
 ): Promise<TranscriptionResult> {
-  console.log(`[SpeechToText] Transcribing with native Web Speech API...`);
-  return await transcribeWithWebSpeech(audioBlob);
+  console.log(`[SpeechToText] Transcribing with native Web Speech API (${lang})...`);
+  return await transcribeWithWebSpeech(audioBlob, lang);
 }
 
 /**
@@ -20,7 +20,10 @@ export class LiveSpeechRecognition {
   private finalTranscript: string = '';
   private interimTranscript: string = '';
 
-  constructor() {
+  /**
+   * @param lang - BCP-47 recognition language (LanguageInfo.locale)
+   */
+  constructor(lang: string = 'en-US') {
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 
     if (SpeechRecognition) {
@@ -28,7 +31,7 @@ export class LiveSpeechRecognition {
       this.recognition.continuous = true; // Keep recognizing
       this.recognition.interimResults = true; // Get interim results
       this.recognition.maxAlternatives = 1;
-      this.recognition.lang = 'en-US'; // TODO: Make configurable
+      this.recognition.lang = lang;
 
       this.setupHandlers();
     }
@@ -97,6 +100,15 @@ export class LiveSpeechRecognition {
     return !!this.recognition;
   }
 
+  /**
+   * Change the recognition language - applies from the next start()
+   */
+  setLanguage(lang: string) {
+    if (this.recognition) {
+      this.recognition.lang = lang;
+    }
+  }
+
   setOnResult(callback: (result: LiveTranscriptionResult) => void) {
     this.onResult = callback;
   }
@@ -0,0 +1,112 @@
+/**
+ * Self-hosted Speech-to-Text
+ *
+ * Transcribes with a Whisper HTTP server the user runs themselves, so diary
+ * audio never leaves their machine or network. The request goes straight from
+ * the app to the server (no Supabase hop).
+ *
+ * Works with both common servers - the form fields of one are ignored by the other:
+ * - whisper.cpp `server`: POST /inference
+ * - faster-whisper servers (OpenAI-compatible): POST /v1/audio/transcriptions
+ */
+
+import { Platform } from 'react-native';
+import type { TranscriptionWord } from './speechToTextUnified';
+
+export interface LocalTranscription {
+  text: string;
+  confidence?: number;
+  words: TranscriptionWord[];
+}
+
+/**
+ * Normalize a Whisper verbose_json response
+ * Words come top-level (OpenAI-compatible) or per segment (whisper.cpp).
+ * Confidence is the mean word probability, else derived from the segments' avg_logprob.
+ */
+export function normalizeWhisperResponse(data: any): LocalTranscription {
+  const segments: any[] = Array.isArray(data?.segments) ? data.segments : [];
+  const rawWords: any[] = Array.isArray(data?.words)
+    ? data.words
+    : segments.flatMap(segment => (Array.isArray(segment.words) ? segment.words : []));
+
+  const words: TranscriptionWord[] = rawWords
+    .map(word => ({
+      text: String(word.word ?? word.text ?? '').trim(),
+      start: Number(word.start) || 0,
+      end: Number(word.end) || 0,
+      confidence: typeof word.probability === 'number' ? word.probability : undefined,
+    }))
+    .filter(word => word.text);
+
+  const probabilities = words
+    .map(word => word.confidence)
+    .filter((probability): probability is number => probability !== undefined);
+  const logProbs = segments
+    .map(segment => segment.avg_logprob)
+    .filter((logProb): logProb is number => typeof logProb === 'number');
+
+  let confidence: number | undefined;
+  if (probabilities.length > 0) {
+    confidence = probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length;
+  } else if (logProbs.length > 0) {
+    confidence = logProbs.reduce((sum, lp) => sum + Math.exp(lp), 0) / logProbs.length;
+  }
+
+  const text = typeof data?.text === 'string'
+    ? data.text.trim()
+    : words.map(word => word.text).join(' ');
+
+  return { text, confidence, words };
+}
+
+/**
+ * Transcribe a recording with the self-hosted Whisper server
+ *
+ * @param audioInput - Blob (web) or file URI (mobile)
+ * @param serverUrl - Full transcription endpoint URL
+ * @param lang - BCP-47 language spoken in the recording
+ */
+export async function transcribeWithLocalWhisper(
+  audioInput: Blob | string,
+  serverUrl: string,
+  lang: string
+): Promise<LocalTranscription> {
+  console.log('[LocalSTT] Transcribing via', serverUrl);
+
+  const formData = new FormData();
+  if (typeof audioInput === 'string' && Platform.OS !== 'web') {
+    // React Native uploads files by URI
+    formData.append('file', { uri: audioInput, name: 'audio.m4a', type: 'audio/m4a' } as any);
+  } else {
+    const blob = typeof audioInput === 'string'
+      ? await (await fetch(audioInput)).blob()
+      : audioInput;
+    const extension = blob.type.includes('webm') ? 'webm' : blob.type.includes('ogg') ? 'ogg' : 'wav';
+    // React Native's FormData typing has no filename argument - web needs it
+    (formData as any).append('file', blob, `audio.${extension}`);
+  }
+  formData.append('language', lang.toLowerCase().split(/[-_]/)[0]);
+  formData.append('response_format', 'verbose_json');
+  formData.append('model', 'whisper-1'); // Required by OpenAI-compatible servers; whisper.cpp ignores it
+  formData.append('timestamp_granularities[]', 'word');
+  formData.append('timestamp_granularities[]', 'segment');
+
+  let response: Response;
+  try {
+    response = await fetch(serverUrl, { method: 'POST', body: formData });
+  } catch (error: any) {
+    console.error('[LocalSTT] Server unreachable:', error);
+    throw new Error(`Could not reach the Whisper server at ${serverUrl}. Check that it is running and allows requests from this app.`);
+  }
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    console.error('[LocalSTT] Server error:', response.status, details);
+    throw new Error(`Whisper server error (${response.status})`);
+  }
+
+  const result = normalizeWhisperResponse(await response.json());
+  console.log('[LocalSTT] Transcription successful:', { chars: result.text.length, words: result.words.length });
+  return result;
+}
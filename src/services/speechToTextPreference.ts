@@ -0,0 +1,99 @@
+/**
+ * Speech-to-Text Preference
+ *
+ * Which STT provider transcribes the user's voice (Settings), and where the
+ * self-hosted Whisper server lives. 'auto' picks per platform: Web Speech in
+ * browsers that have it, backend Whisper otherwise.
+ */
+
+import { StoredPreference, usePreference } from './storedPreference';
+
+export type STTProviderPreference = 'auto' | 'web-speech' | 'backend-whisper' | 'local-whisper';
+
+export const STT_PROVIDER_PREFERENCES: STTProviderPreference[] = ['auto', 'web-speech', 'backend-whisper', 'local-whisper'];
+
+export const STT_PROVIDER_LABELS: Record<STTProviderPreference, string> = {
+  auto: 'Auto',
+  'web-speech': 'Browser',
+  'backend-whisper': 'Cloud Whisper',
+  'local-whisper': 'Self-hosted',
+};
+
+// whisper.cpp server default; faster-whisper servers use .../v1/audio/transcriptions
+export const DEFAULT_LOCAL_WHISPER_URL = 'http://localhost:8080/inference';
+
+const PROVIDER_STORAGE_KEY = 'stt_provider_preference';
+const LOCAL_URL_STORAGE_KEY = 'stt_local_whisper_url';
+
+export interface STTPreferenceState {
+  provider: STTProviderPreference;
+  localServerUrl: string;
+}
+
+type PreferenceCallback = (state: STTPreferenceState) => void;
+
+function parseProviderPreference(stored: string | null): STTProviderPreference | undefined {
+  return STT_PROVIDER_PREFERENCES.includes(stored as STTProviderPreference) ? stored as STTProviderPreference : undefined;
+}
+
+class SpeechToTextPreference {
+  private provider = new StoredPreference(PROVIDER_STORAGE_KEY, 'auto', parseProviderPreference);
+  private localServerUrl = new StoredPreference<string>(LOCAL_URL_STORAGE_KEY, DEFAULT_LOCAL_WHISPER_URL, stored => stored || undefined);
+  private state: STTPreferenceState = {
+    provider: this.provider.get(),
+    localServerUrl: this.localServerUrl.get(),
+  };
+  private callbacks = new Set<PreferenceCallback>();
+
+  constructor() {
+    this.provider.subscribe(provider => this.update({ provider }));
+    this.localServerUrl.subscribe(localServerUrl => this.update({ localServerUrl }));
+  }
+
+  /**
+   * Load the saved preference (call once at startup; safe to call again - every
+   * call resolves when the first load has finished)
+   */
+  async load(): Promise<void> {
+    await Promise.all([this.provider.load(), this.localServerUrl.load()]);
+  }
+
+  get(): STTPreferenceState {
+    return this.state;
+  }
+
+  setProvider(provider: STTProviderPreference): void {
+    if (this.provider.set(provider)) {
+      console.log('[STT] Provider preference:', provider);
+    }
+  }
+
+  setLocalServerUrl(url: string): void {
+    const localServerUrl = url.trim() || DEFAULT_LOCAL_WHISPER_URL;
+    if (this.localServerUrl.set(localServerUrl)) {
+      console.log('[STT] Self-hosted Whisper server:', localServerUrl);
+    }
+  }
+
+  subscribe(callback: PreferenceCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  private update(change: Partial<STTPreferenceState>) {
+    this.state = { ...this.state, ...change };
+    this.callbacks.forEach(callback => callback(this.state));
+  }
+}
+
+// Export singleton instance
+export const speechToTextPreference = new SpeechToTextPreference();
+
+/**
+ * The STT preference, re-rendering when it changes
+ */
+export function useSpeechToTextPreference(): STTPreferenceState {
+  return usePreference(speechToTextPreference);
+}
@@ -1,22 +1,47 @@
 /**
  * Unified Speech-to-Text Service
  *
- * Platform-agnostic wrapper that automatically uses:
- * - Web: Web Speech API (native browser API)
- * - Mobile: Backend transcription via Supabase Edge Function (Whisper API)
+ * Platform-agnostic wrapper over the STT providers:
+ * - web-speech: Web Speech API (native browser API)
+ * - backend-whisper: Supabase Edge Function (OpenAI Whisper API)
+ * - local-whisper: the user's self-hosted whisper.cpp / faster-whisper server
+ *
+ * The provider comes from the Settings preference (speechToTextPreference.ts);
+ * 'auto' uses Web Speech on web and backend Whisper on mobile. A chosen provider
+ * never falls back to another one - self-hosted means the audio stays local.
  */
 
 import { Platform } from 'react-native';
 import { supabase, supabaseUrl } from '../lib/supabase';
+import { speechToTextPreference, STTProviderPreference } from './speechToTextPreference';
+import { transcribeWithLocalWhisper } from './speechToTextLocal';
 
-export type STTMethod = 'web-speech' | 'backend-whisper';
+export type STTMethod = 'web-speech' | 'backend-whisper' | 'local-whisper';
+
+export interface TranscriptionWord {
+  text: string;
+  start: number;        // Seconds from the start of the recording
+  end: number;
+  confidence?: number;  // 0-1, when the provider scores words
+}
 
 export interface TranscriptionResult {
   text: string;
-  confidence?: number;
+  confidence?: number;         // 0-1
+  words: TranscriptionWord[];  // Empty when the provider has no timestamps (Web Speech)
   method: STTMethod;
 }
 
+export interface STTProvider {
+  method: STTMethod;
+  isAvailable(): boolean;
+  /**
+   * @param audioInput - Blob (web) or URI string (mobile)
+   * @param lang - BCP-47 language spoken in the recording
+   */
+  transcribe(audioInput: Blob | string, lang: string): Promise<TranscriptionResult>;
+}
+
 /**
  * Check if we're on a mobile platform
  */
@@ -38,7 +63,7 @@ export function isWebSpeechSupported(): boolean {
 /**
  * Transcribe audio using Web Speech API (web only)
  */
-async function transcribeWithWebSpeech(audioBlob: Blob): Promise<TranscriptionResult> {
+async function transcribeWithWebSpeech(audioBlob: Blob, lang: string): Promise<TranscriptionResult> {
   return new Promise((resolve, reject) => {
     const SpeechRecognition =
       (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
@@ -55,7 +80,7 @@ async function transcribeWithWebSpeech(audioBlob: Blob): Promise<TranscriptionRe
       recognition.continuous = false;
       recognition.interimResults = false;
       recognition.maxAlternatives = 1;
-      recognition.lang = 'en-US';
+      recognition.lang = lang;
 
       const audioURL = URL.createObjectURL(audioBlob);
       const audio = new Audio(audioURL);
@@ -71,6 +96,7 @@ async function transcribeWithWebSpeech(audioBlob: Blob): Promise<TranscriptionRe
         resolve({
           text,
           confidence,
+          words: [],
           method: 'web-speech',
         });
       };
@@ -113,11 +139,11 @@ async function transcribeWithWebSpeech(audioBlob: Blob): Promise<TranscriptionRe
 }
 
 /**
- * Transcribe audio using backend Whisper API (mobile)
+ * Transcribe audio using backend Whisper API (default on mobile)
  * Sends the audio file to Supabase Edge Function for transcription
  */
-async function transcribeWithBackend(audioUri: string): Promise<TranscriptionResult> {
-  console.log('[BackendSTT] Starting transcription via backend...');
+async function transcribeWithBackend(audioInput: Blob | string, lang: string): Promise<TranscriptionResult> {
+  console.log('[BackendSTT] Starting transcription via backend...', lang);
 
   try {
     // Get auth session
@@ -129,8 +155,9 @@ async function transcribeWithBackend(audioUri: string): Promise<TranscriptionRes
     }
 
     // Read the audio file and convert to base64
-    const response = await fetch(audioUri);
-    const blob = await response.blob();
+    const blob = typeof audioInput === 'string'
+      ? await (await fetch(audioInput)).blob()
+      : audioInput;
 
     // Convert blob to base64
     const base64 = await new Promise<string>((resolve, reject) => {
@@ -153,6 +180,7 @@ async function transcribeWithBackend(audioUri: string): Promise<TranscriptionRes
       body: JSON.stringify({
         audio: base64,
         mimeType: blob.type || 'audio/m4a',
+        language: lang,
       }),
     });
 
@@ -167,6 +195,7 @@ async function transcribeWithBackend(audioUri: string): Promise<TranscriptionRes
     return {
       text: data.text,
       confidence: data.confidence,
+      words: data.words ?? [],
       method: 'backend-whisper',
     };
   } catch (error: any) {
@@ -175,31 +204,42 @@ async function transcribeWithBackend(audioUri: string): Promise<TranscriptionRes
   }
 }
 
-/**
- * Transcribe audio using the appropriate method for the platform
- *
- * @param audioInput - Blob (web) or URI string (mobile)
- */
-export async function transcribeAudio(
-  audioInput: Blob | string
-): Promise<TranscriptionResult> {
-  if (Platform.OS === 'web') {
-    // Web: Use Web Speech API
+const webSpeechProvider: STTProvider = {
+  method: 'web-speech',
+  isAvailable: isWebSpeechSupported,
+  async transcribe(audioInput, lang) {
     if (typeof audioInput === 'string') {
       // Convert URI to Blob if needed
       const response = await fetch(audioInput);
       const blob = await response.blob();
-      return transcribeWithWebSpeech(blob);
-    }
-    return transcribeWithWebSpeech(audioInput);
-  } else {
-    // Mobile: Use backend transcription
-    if (typeof audioInput !== 'string') {
-      throw new Error('Mobile transcription requires a URI string');
+      return transcribeWithWebSpeech(blob, lang);
     }
-    return transcribeWithBackend(audioInput);
-  }
-}
+    return transcribeWithWebSpeech(audioInput, lang);
+  },
+};
+
+const backendWhisperProvider: STTProvider = {
+  method: 'backend-whisper',
+  // Always there (if authenticated)
+  isAvailable: () => true,
+  transcribe: transcribeWithBackend,
+};
+
+const localWhisperProvider: STTProvider = {
+  method: 'local-whisper',
+  isAvailable: () => !!speechToTextPreference.get().localServerUrl,
+  async transcribe(audioInput, lang) {
+    const { localServerUrl } = speechToTextPreference.get();
+    const result = await transcribeWithLocalWhisper(audioInput, localServerUrl, lang);
+    return { ...result, method: 'local-whisper' };
+  },
+};
+
+export const STT_PROVIDERS: Record<STTMethod, STTProvider> = {
+  'web-speech': webSpeechProvider,
+  'backend-whisper': backendWhisperProvider,
+  'local-whisper': localWhisperProvider,
+};
 
 /**
  * Get recommended STT method for current platform
@@ -211,13 +251,50 @@ export function getRecommendedSTTMethod(): STTMethod {
   return 'backend-whisper';
 }
 
+/**
+ * STT method in use - the Settings choice, or the platform's recommendation for 'auto'
+ */
+export function getActiveSTTMethod(
+  preference: STTProviderPreference = speechToTextPreference.get().provider
+): STTMethod {
+  return preference === 'auto' ? getRecommendedSTTMethod() : preference;
+}
+
+export function getActiveSTTProvider(): STTProvider {
+  return STT_PROVIDERS[getActiveSTTMethod()];
+}
+
+/**
+ * Whether live Web Speech recognition may run while recording
+ * Only with the Web Speech provider - it streams audio to the browser vendor.
+ */
+export function isLiveSpeechEnabled(
+  preference: STTProviderPreference = speechToTextPreference.get().provider
+): boolean {
+  return getActiveSTTMethod(preference) === 'web-speech' && isWebSpeechSupported();
+}
+
+/**
+ * Transcribe audio with the active STT provider
+ *
+ * @param audioInput - Blob (web) or URI string (mobile)
+ * @param lang - BCP-47 language spoken in the recording (LanguageInfo.locale)
+ */
+export async function transcribeAudio(
+  audioInput: Blob | string,
+  lang: string = 'en-US'
+): Promise<TranscriptionResult> {
+  await speechToTextPreference.load();
+  const provider = getActiveSTTProvider();
+  if (!provider.isAvailable()) {
+    throw new Error(`Speech-to-text provider "${provider.method}" is not available on this device.`);
+  }
+  return provider.transcribe(audioInput, lang);
+}
+
 /**
  * Check if speech-to-text is available on current platform
  */
 export function isSpeechToTextAvailable(): boolean {
-  if (Platform.OS === 'web') {
-    return isWebSpeechSupported();
-  }
-  // Mobile always has backend transcription available (if authenticated)
-  return true;
+  return getActiveSTTProvider().isAvailable();
 }
@@ -0,0 +1,267 @@
+/**
+ * SSML Builder
+ *
+ * Turns orchestrated voice parameters into SSML for cloud TTS, so a whispered,
+ * booming or excited segment actually sounds different. Each voice span of the
+ * text (usually one talking segment of a character's timeline) is merged with the
+ * character's CharacterVoiceProfile and wrapped in <prosody>, with <emphasis> for
+ * forceful or heartfelt delivery and <break> between spans and at ellipses.
+ *
+ * With marks enabled every word gets <mark name="charOffset"/> - the same naming
+ * the text-to-speech edge function uses - so word timepoints still drive lip sync.
+ */
+
+import {
+  CharacterVoiceProfile,
+  SegmentVoice,
+  VoiceMood,
+  VoiceIntent,
+  VoicePitch,
+  VoicePace,
+  VoiceVolume,
+  mergeVoiceWithDefaults,
+} from '../config/voiceConfig';
+import type { CharacterTimeline } from './animationOrchestration';
+
+/**
+ * Voice for a range of the spoken text (end exclusive)
+ */
+export interface VoiceSpan {
+  start: number;
+  end: number;
+  voice?: SegmentVoice;
+}
+
+export interface SsmlOptions {
+  voiceProfile?: CharacterVoiceProfile;
+  segmentVoice?: SegmentVoice;  // Voice for text outside any span (defaults to the profile)
+  spans?: VoiceSpan[];
+  marks?: boolean;              // Word marks for timepoints
+}
+
+// Google Cloud TTS rejects requests over 5000 bytes of input
+export const MAX_SSML_BYTES = 5000;
+
+// ============================================
+// VOICE → PROSODY MAPPING
+// ============================================
+
+const PITCH_SEMITONES: Record<VoicePitch, number> = {
+  shrill: 5,
+  high: 3,
+  medium: 0,
+  low: -3,
+  deep: -5,
+};
+
+const PACE_RATES: Record<VoicePace, number> = {
+  slow: 0.85,
+  normal: 1,
+  fast: 1.15,
+};
+
+const VOLUME_LEVELS: Record<VoiceVolume, string> = {
+  whispered: 'x-soft',
+  soft: 'soft',
+  normal: 'medium',
+  loud: 'loud',
+  booming: 'x-loud',
+};
+
+// Mood shifts on top of the base pitch and rate
+const MOOD_ADJUSTMENTS: Partial<Record<VoiceMood, { semitones: number; rate: number }>> = {
+  excited: { semitones: 2, rate: 1.1 },
+  joyful: { semitones: 1.5, rate: 1.05 },
+  amused: { semitones: 1, rate: 1.05 },
+  hopeful: { semitones: 1, rate: 1 },
+  nervous: { semitones: 1, rate: 1.1 },
+  angry: { semitones: -1, rate: 1.05 },
+  frustrated: { semitones: -0.5, rate: 1.05 },
+  confident: { semitones: -0.5, rate: 0.97 },
+  calm: { semitones: -0.5, rate: 0.92 },
+  sad: { semitones: -2, rate: 0.88 },
+  melancholic: { semitones: -1.5, rate: 0.9 },
+  sarcastic: { semitones: 0, rate: 0.95 },
+};
+
+const STRONG_INTENTS: VoiceIntent[] = ['commanding', 'warning'];
+const MODERATE_INTENTS: VoiceIntent[] = ['pleading', 'encouraging', 'sincere'];
+const STRONG_MOODS: VoiceMood[] = ['angry', 'excited'];
+
+// Pause before a span, by mood (hesitant or heavy moods leave more room)
+const SPAN_BREAK_MS = 150;
+const LONG_BREAK_MOODS: VoiceMood[] = ['sad', 'melancholic', 'nervous'];
+const LONG_SPAN_BREAK_MS = 400;
+const ELLIPSIS_BREAK_MS = 500;
+const ACTION_BREAK_MS = 300;
+
+export interface Prosody {
+  rate: string;
+  pitch: string;
+  volume: string;
+  emphasis?: 'strong' | 'moderate' | 'reduced';
+}
+
+/**
+ * SSML prosody for a merged voice
+ */
+export function voiceToProsody(voice: SegmentVoice): Prosody {
+  const mood = voice.mood ? MOOD_ADJUSTMENTS[voice.mood] : undefined;
+  let semitones = PITCH_SEMITONES[voice.pitch ?? 'medium'] + (mood?.semitones ?? 0);
+  let rate = PACE_RATES[voice.pace ?? 'normal'] * (mood?.rate ?? 1);
+
+  // Whispering is slower and a little lower; booming drops the pitch to carry
+  if (voice.volume === 'whispered') {
+    rate *= 0.92;
+    semitones -= 1;
+  } else if (voice.volume === 'booming') {
+    rate *= 0.95;
+    semitones -= 1.5;
+  }
+
+  let emphasis: Prosody['emphasis'];
+  if ((voice.intent && STRONG_INTENTS.includes(voice.intent)) || (voice.mood && STRONG_MOODS.includes(voice.mood))) {
+    emphasis = 'strong';
+  } else if (voice.intent && MODERATE_INTENTS.includes(voice.intent)) {
+    emphasis = 'moderate';
+  } else if (voice.intent === 'dismissive') {
+    emphasis = 'reduced';
+  }
+
+  // Stacked adjustments stay within a natural-sounding range
+  rate = Math.max(0.7, Math.min(1.4, rate));
+  const roundedSemitones = Math.round(Math.max(-8, Math.min(8, semitones)) * 10) / 10;
+  return {
+    rate: `${Math.round(rate * 100)}%`,
+    pitch: `${roundedSemitones >= 0 ? '+' : ''}${roundedSemitones}st`,
+    volume: VOLUME_LEVELS[voice.volume ?? 'normal'],
+    emphasis,
+  };
+}
+
+// ============================================
+// SSML ASSEMBLY
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * SSML for text[start, end): escaped words (optionally marked), *actions* left
+ * unspoken and ellipses turned into pauses
+ */
+function renderText(text: string, start: number, end: number, marks: boolean): string {
+  let ssml = '';
+  // Words, *stage actions* and ellipses, in text order - cut off at `end` so a
+  // word split between spans isn't spoken (and marked) twice
+  const tokenPattern = /\*[^*]+\*|\.{3}|…|\S+/g;
+  const bounded = text.slice(0, end);
+  tokenPattern.lastIndex = start;
+  let lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(bounded)) !== null) {
+    ssml += escapeXml(text.slice(lastIndex, match.index));
+    const token = match[0];
+    if (token.startsWith('*') && token.length > 2) {
+      ssml += `<break time="${ACTION_BREAK_MS}ms"/>`;
+    } else if (token === '...' || token === '…') {
+      ssml += `<break time="${ELLIPSIS_BREAK_MS}ms"/>`;
+    } else {
+      const word = token.endsWith('...') ? token.slice(0, -3) : token;
+      ssml += marks ? `<mark name="${match.index}"/>${escapeXml(word)}` : escapeXml(word);
+      if (word !== token) ssml += `<break time="${ELLIPSIS_BREAK_MS}ms"/>`;
+    }
+    lastIndex = match.index + token.length;
+  }
+  ssml += escapeXml(text.slice(lastIndex, end));
+  return ssml;
+}
+
+function wrapProsody(content: string, voice: SegmentVoice): string {
+  const prosody = voiceToProsody(voice);
+  const inner = prosody.emphasis ? `<emphasis level="${prosody.emphasis}">${content}</emphasis>` : content;
+  return `<prosody rate="${prosody.rate}" pitch="${prosody.pitch}" volume="${prosody.volume}">${inner}</prosody>`;
+}
+
+/**
+ * Build SSML for text, voicing each span with its merged voice
+ * Text outside the spans uses segmentVoice (or the profile's defaults).
+ */
+export function buildSsml(text: string, options: SsmlOptions = {}): string {
+  const { voiceProfile, segmentVoice, marks = false } = options;
+  const baseVoice = mergeVoiceWithDefaults(voiceProfile, segmentVoice);
+
+  // Spans in order, clipped to the text and to each other
+  const spans = (options.spans ?? [])
+    .map(span => ({ ...span, start: Math.max(0, span.start), end: Math.min(text.length, span.end) }))
+    .filter(span => span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+
+  let ssml = '';
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    const start = Math.max(span.start, cursor);
+    if (start >= span.end) return;
+    if (start > cursor && text.slice(cursor, start).trim()) {
+      ssml += wrapProsody(renderText(text, cursor, start, marks), baseVoice);
+    } else {
+      ssml += escapeXml(text.slice(cursor, start));
+    }
+
+    const voice = mergeVoiceWithDefaults(voiceProfile, { ...segmentVoice, ...span.voice });
+    if (index > 0) {
+      const pause = voice.mood && LONG_BREAK_MOODS.includes(voice.mood) ? LONG_SPAN_BREAK_MS : SPAN_BREAK_MS;
+      ssml += `<break time="${pause}ms"/>`;
+    }
+    ssml += wrapProsody(renderText(text, start, span.end, marks), voice);
+    cursor = span.end;
+  });
+
+  if (cursor < text.length && text.slice(cursor).trim()) {
+    ssml += wrapProsody(renderText(text, cursor, text.length, marks), baseVoice);
+  }
+
+  return `<speak>${ssml}</speak>`;
+}
+
+/**
+ * Voice spans for a character's timeline: the text each talking segment reveals
+ */
+export function getTimelineVoiceSpans(timeline: CharacterTimeline): VoiceSpan[] {
+  return timeline.segments
+    .filter(segment => segment.isTalking && segment.textReveal)
+    .map(segment => ({
+      start: segment.textReveal!.startIndex,
+      end: segment.textReveal!.endIndex,
+      voice: segment.voice,
+    }));
+}
+
+/**
+ * SSML for a whole timeline (timeline.content with per-segment voices)
+ */
+export function buildTimelineSsml(
+  timeline: CharacterTimeline,
+  voiceProfile?: CharacterVoiceProfile,
+  options: { marks?: boolean } = {}
+): string {
+  return buildSsml(timeline.content, {
+    voiceProfile,
+    spans: getTimelineVoiceSpans(timeline),
+    marks: options.marks,
+  });
+}
+
+/**
+ * Whether SSML fits in one cloud TTS request
+ */
+export function isSsmlWithinLimit(ssml: string): boolean {
+  // Byte length - non-ASCII characters take more than one byte
+  return encodeURIComponent(ssml).replace(/%[0-9A-F]{2}/g, 'x').length <= MAX_SSML_BYTES;
+}
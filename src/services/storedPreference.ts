@@ -0,0 +1,97 @@
+/**
+ * Stored Preference
+ *
+ * One Settings value kept in platform storage, with change subscriptions.
+ * The preference singletons (language, speech-to-text, quality) are built on it.
+ */
+
+import { useEffect, useState } from 'react';
+import { getItem, setItem } from './platformStorage';
+
+type PreferenceCallback<T> = (value: T) => void;
+
+/**
+ * What usePreference needs - a StoredPreference or a singleton built on one
+ */
+export interface Preference<T> {
+  load(): Promise<void>;
+  get(): T;
+  subscribe(callback: PreferenceCallback<T>): () => void;
+}
+
+export class StoredPreference<T extends string> implements Preference<T> {
+  private key: string;
+  private value: T;
+  private parse: (stored: string | null) => T | undefined;
+  private callbacks = new Set<PreferenceCallback<T>>();
+  private loading: Promise<void> | null = null;
+  private changed = false;
+
+  /**
+   * @param parse - Validates the stored value; undefined keeps the default
+   */
+  constructor(key: string, defaultValue: T, parse: (stored: string | null) => T | undefined) {
+    this.key = key;
+    this.value = defaultValue;
+    this.parse = parse;
+  }
+
+  /**
+   * Load the saved value (call once at startup; safe to call again - every call
+   * resolves when the first load has finished)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = getItem(this.key).then(stored => {
+        // A value set while loading is newer than the stored one
+        if (this.changed) return;
+        const value = this.parse(stored);
+        if (value !== undefined && value !== this.value) {
+          this.value = value;
+          this.notify();
+        }
+      });
+    }
+    return this.loading;
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  /**
+   * Change and save the value; returns false if it was already set
+   */
+  set(value: T): boolean {
+    if (value === this.value) return false;
+    this.changed = true;
+    this.value = value;
+    setItem(this.key, value);
+    this.notify();
+    return true;
+  }
+
+  subscribe(callback: PreferenceCallback<T>): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  private notify() {
+    this.callbacks.forEach(callback => callback(this.value));
+  }
+}
+
+/**
+ * A preference's value, loading it and re-rendering when it changes
+ */
+export function usePreference<T>(preference: Preference<T>): T {
+  const [value, setValue] = useState(() => preference.get());
+  useEffect(() => {
+    preference.load();
+    setValue(preference.get());
+    return preference.subscribe(setValue);
+  }, [preference]);
+  return value;
+}
@@ -5,6 +5,8 @@
  * then Wakattors discuss the topic until the user joins.
  */
 
+import { SceneEnvironmentId } from '../config/sceneEnvironments';
+
 export type StoryType =
   | 'scenario' | 'theme'           // Original
   | 'hypothetical' | 'memory'      // Narrative
@@ -23,6 +25,7 @@ export interface Story {
   toastText: string;        // Short text for Toast display (max ~50 chars)
   fullContext: string;      // Full context for AI prompt
   characterMatch?: string[]; // Optional: prefer certain characters (by id)
+  environment?: SceneEnvironmentId; // Optional: suggested backdrop for the conversation
 }
 
 // ============================================
@@ -44,6 +47,7 @@ const STORIES: Story[] = [
     type: 'scenario',
     toastText: 'A patient cancelled unexpectedly...',
     fullContext: 'A patient who has been coming for years suddenly cancelled all future appointments with no explanation. The characters are speculating about what might have happened.',
+    environment: 'therapist_office',
   },
   {
     id: 'scenario-strange-visitor',
@@ -56,6 +60,7 @@ const STORIES: Story[] = [
     type: 'scenario',
     toastText: 'The case notes have vanished...',
     fullContext: 'Important case notes have gone missing from the office. Someone moved them, but who? And why? The characters are trying to piece together what happened.',
+    environment: 'therapist_office',
   },
 
   // ============================================
@@ -140,6 +145,7 @@ const STORIES: Story[] = [
     type: 'memory',
     toastText: 'My very first patient...',
     fullContext: 'One of the characters is remembering their very first patient - the case that shaped everything that came after. The lessons learned still resonate.',
+    environment: 'therapist_office',
   },
   {
     id: 'memory-breakthrough',
@@ -162,6 +168,7 @@ const STORIES: Story[] = [
     type: 'dream',
     toastText: 'A recurring dream haunts me...',
     fullContext: 'One of the characters has been having the same dream repeatedly. They\'re trying to interpret its meaning with the others\' help.',
+    environment: 'campfire',
   },
   {
     id: 'dream-strange',
@@ -184,6 +191,7 @@ const STORIES: Story[] = [
     type: 'confession',
     toastText: 'I\'ve never told anyone this...',
     fullContext: 'One of the characters is about to share something they\'ve kept secret - a doubt, a fear, a hidden truth about themselves or their work.',
+    environment: 'campfire',
   },
   {
     id: 'confession-wrong',
@@ -228,6 +236,7 @@ const STORIES: Story[] = [
     type: 'debate',
     toastText: 'Free will is an illusion!',
     fullContext: 'A heated debate about determinism. Are we truly free to choose, or are all our decisions predetermined by unconscious forces, biology, and circumstance?',
+    environment: 'stage',
   },
   {
     id: 'debate-nature-nurture',
@@ -272,6 +281,7 @@ const STORIES: Story[] = [
     type: 'riddle',
     toastText: 'A patient spoke in riddles...',
     fullContext: 'A patient came in speaking only in metaphors and riddles. The characters are trying to decode what they were really saying.',
+    environment: 'therapist_office',
   },
   {
     id: 'riddle-behavior',
@@ -310,6 +320,7 @@ const STORIES: Story[] = [
     type: 'secret',
     toastText: 'I have a secret theory...',
     fullContext: 'A character has developed a theory they\'re not ready to publish. It\'s radical, possibly controversial. They\'re testing it on their colleagues first.',
+    environment: 'library',
   },
 
   // ============================================
@@ -320,6 +331,7 @@ const STORIES: Story[] = [
     type: 'recommendation',
     toastText: 'You MUST read this book!',
     fullContext: 'One character is enthusiastically recommending a book that changed their thinking. The others are skeptical but curious.',
+    environment: 'library',
   },
   {
     id: 'recommend-case',
@@ -390,6 +402,7 @@ const STORIES: Story[] = [
     type: 'joke',
     toastText: 'Have you heard the one about...?',
     fullContext: 'Psychology jokes, therapist humor, or witty observations about the profession. The characters are in a playful mood.',
+    environment: 'stage',
   },
   {
     id: 'joke-self',
@@ -406,6 +419,7 @@ const STORIES: Story[] = [
     type: 'nostalgia',
     toastText: 'Back in my day...',
     fullContext: 'Reminiscing about how things used to be. Better? Worse? Different? The characters are comparing past and present with varying degrees of wistfulness.',
+    environment: 'campfire',
   },
   {
     id: 'nostalgia-simpler',
@@ -24,7 +24,8 @@ export interface TTSState {
 export interface TTSOptions {
   voiceProfile?: CharacterVoiceProfile;
   segmentVoice?: SegmentVoice;
-  voiceName?: string; // Specific voice to use
+  voiceName?: string; // Specific voice to use (ignored if it doesn't speak lang)
+  lang?: string; // BCP-47 language of the text, default en-US
   onStart?: () => void;
   onEnd?: () => void;
   onPause?: () => void;
@@ -33,6 +34,13 @@ export interface TTSOptions {
   onBoundary?: (charIndex: number, charLength: number) => void;
 }
 
+/**
+ * Language part of a BCP-47 tag ('pt-BR' → 'pt')
+ */
+function getLanguagePrefix(lang: string): string {
+  return lang.split('-')[0];
+}
+
 /**
  * Map VoicePitch to SpeechSynthesis pitch value (0-2, default 1)
  */
@@ -215,15 +223,16 @@ export class TextToSpeech {
 
   /**
    * Find best voice for character based on voice profile
-   * Always prefers English voices
+   * Prefers voices for the text's language (English by default)
    */
   findVoiceForProfile(
-    profile?: CharacterVoiceProfile
+    profile?: CharacterVoiceProfile,
+    lang: string = 'en-US'
   ): SpeechSynthesisVoice | null {
     if (this.voices.length === 0) return null;
 
-    // Always filter by English language
-    let candidates = this.voices.filter((v) => v.lang.startsWith('en'));
+    // Filter by the language (any region)
+    let candidates = this.getVoicesByLanguage(getLanguagePrefix(lang));
     if (candidates.length === 0) {
       candidates = this.voices;
     }
@@ -333,20 +342,16 @@ export class TextToSpeech {
       // Create utterance with cleaned text
       const utterance = new SpeechSynthesisUtterance(cleanedText);
 
-      // Always use English
-      utterance.lang = 'en-US';
+      const lang = options.lang ?? 'en-US';
+      utterance.lang = lang;
 
-      // Set voice
-      if (options.voiceName) {
-        const selectedVoice = this.voices.find((v) => v.name === options.voiceName);
-        if (selectedVoice) {
-          utterance.voice = selectedVoice;
-        }
-      } else {
-        const selectedVoice = this.findVoiceForProfile(options.voiceProfile);
-        if (selectedVoice) {
-          utterance.voice = selectedVoice;
-        }
+      // Set voice - a chosen voice only if it speaks the language
+      const namedVoice = options.voiceName
+        ? this.voices.find((v) => v.name === options.voiceName && v.lang.startsWith(getLanguagePrefix(lang)))
+        : undefined;
+      const selectedVoice = namedVoice ?? this.findVoiceForProfile(options.voiceProfile, lang);
+      if (selectedVoice) {
+        utterance.voice = selectedVoice;
       }
 
       // Map voice profile to synthesis parameters
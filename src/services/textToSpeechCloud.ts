@@ -8,16 +8,21 @@
 import { Platform } from 'react-native';
 import { Audio } from 'expo-av';
 import { supabase, supabaseUrl } from '../lib/supabase';
+import type { TTSTimepoint } from './lipSync';
 
 export interface CloudTTSOptions {
   characterId?: string;
-  voice?: string;
+  voice?: string; // Google voice name (see cloudVoices.ts)
+  ssmlGender?: 'MALE' | 'FEMALE';
   languageCode?: string;
   speakingRate?: number;
   pitch?: number;
+  ssml?: string; // Expressive markup for the same text (see ssmlBuilder) - word marks must use text offsets
   onStart?: () => void;
   onEnd?: () => void;
   onError?: (error: Error) => void;
+  // Requests word timepoints; called with them before playback starts
+  onTimepoints?: (timepoints: TTSTimepoint[]) => void;
 }
 
 export interface CloudTTSState {
@@ -125,11 +130,14 @@ export class CloudTextToSpeech {
         },
         body: JSON.stringify({
           text,
+          ssml: options.ssml,
           characterId: options.characterId,
+          ssmlGender: options.ssmlGender,
           voice: options.voice,
-          languageCode: options.languageCode || 'en-US',
+          languageCode: options.languageCode, // Defaults to the voice's language
           speakingRate: options.speakingRate || 1.0,
           pitch: options.pitch || 0.0,
+          timepoints: !!options.onTimepoints,
         }),
       });
 
@@ -144,6 +152,10 @@ export class CloudTextToSpeech {
         throw new Error('No audio content returned');
       }
 
+      if (data.timepoints?.length) {
+        options.onTimepoints?.(data.timepoints);
+      }
+
       // Play the audio
       await this.playAudio(data.audioContent, options);
     } catch (error: any) {
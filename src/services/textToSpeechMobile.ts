@@ -23,7 +23,7 @@ export interface MobileTTSState {
 export interface MobileTTSOptions {
   voiceProfile?: CharacterVoiceProfile;
   segmentVoice?: SegmentVoice;
-  language?: string;
+  language?: string; // BCP-47, default en-US
   onStart?: () => void;
   onDone?: () => void;
   onStopped?: () => void;
@@ -200,9 +200,9 @@ export class MobileTextToSpeech {
       // Get merged voice settings
       const voice = mergeVoiceWithDefaults(options.voiceProfile, options.segmentVoice);
 
-      // Map voice profile to speech options - always use English
+      // Map voice profile to speech options - English unless a language is given
       const speechOptions: Speech.SpeechOptions = {
-        language: 'en-US',
+        language: options.language ?? 'en-US',
         pitch: mapPitchToValue(voice.pitch),
         rate: mapPaceToRate(voice.pace),
         volume: mapVolumeToValue(voice.volume),
@@ -5,6 +5,10 @@
  * - Cloud: Google Cloud TTS (high quality, all platforms)
  * - Web: Web Speech Synthesis API (free, browser only)
  * - Mobile: expo-speech (free, device voices)
+ *
+ * When a characterId is given, drives that character's lip sync: cloud word
+ * timepoints when available, otherwise estimated timing (re-anchored on web
+ * boundary events).
  */
 
 import { Platform } from 'react-native';
@@ -12,6 +16,11 @@ import { TextToSpeech, TTSState, TTSOptions, getTextToSpeech, isTTSSupported as
 import { MobileTextToSpeech, MobileTTSState, MobileTTSOptions, getMobileTextToSpeech } from './textToSpeechMobile';
 import { CloudTextToSpeech, CloudTTSOptions, getCloudTextToSpeech, isCloudTTSAvailable } from './textToSpeechCloud';
 import { CharacterVoiceProfile, SegmentVoice } from '../config/voiceConfig';
+import { CharacterCloudVoice, localizeCloudVoice } from '../config/cloudVoices';
+import { parseLanguageCode } from '../config/languages';
+import { TTSTimepoint, startLipSync, syncLipSync, pauseLipSync, resumeLipSync, stopLipSync } from './lipSync';
+import { paceToTTSRate } from './ttsDurationEstimator';
+import { VoiceSpan, buildSsml, isSsmlWithinLimit } from './ssmlBuilder';
 
 // TTS Engine type
 export type TTSEngine = 'cloud' | 'device';
@@ -28,15 +37,18 @@ export interface UnifiedTTSState {
 export interface UnifiedTTSOptions {
   voiceProfile?: CharacterVoiceProfile;
   segmentVoice?: SegmentVoice;
+  voiceSpans?: VoiceSpan[]; // Per-segment voices within the text (cloud SSML; e.g. getTimelineVoiceSpans)
   voiceName?: string; // Web only
-  language?: string; // Mobile preference
-  characterId?: string; // Cloud TTS character voice
+  language?: string; // BCP-47 language of the text (LanguageInfo.locale), default en-US
+  characterId?: string; // Whose mouth to lip sync
+  cloudVoice?: CharacterCloudVoice; // Cloud TTS voice (getCharacterCloudVoice / assignSceneCloudVoices)
   engine?: TTSEngine; // Force specific engine
   speakingRate?: number; // Cloud TTS speed (0.25-4.0)
   pitch?: number; // Cloud TTS pitch (-20.0 to 20.0)
   onStart?: () => void;
   onEnd?: () => void;
   onError?: (error: Error) => void;
+  onBoundary?: (charIndex: number, charLength: number) => void; // Web device TTS only
 }
 
 /**
@@ -53,6 +65,8 @@ export class UnifiedTextToSpeech {
     isPaused: false,
     currentText: '',
   };
+  // Character currently being lip synced
+  private lipSyncCharacterId: string | null = null;
 
   constructor() {
     this.isWeb = Platform.OS === 'web';
@@ -155,46 +169,103 @@ export class UnifiedTextToSpeech {
    */
   async speak(text: string, options: UnifiedTTSOptions = {}): Promise<void> {
     const engine = options.engine || preferredEngine;
+    const lipSyncId = options.characterId;
+
+    const endLipSync = () => {
+      if (lipSyncId) {
+        stopLipSync(lipSyncId);
+        if (this.lipSyncCharacterId === lipSyncId) this.lipSyncCharacterId = null;
+      }
+    };
+    const onEnd = () => {
+      endLipSync();
+      options.onEnd?.();
+    };
+    const onError = (error: Error) => {
+      endLipSync();
+      options.onError?.(error);
+    };
 
     // Try cloud TTS first if preferred
     if (engine === 'cloud' && this.cloudTTS) {
       try {
         const cloudAvailable = await this.cloudTTS.isAvailable();
         if (cloudAvailable) {
+          let timepoints: TTSTimepoint[] | undefined;
+          // Voice parameters become SSML prosody; too long for one request falls back to plain text
+          const ssml = options.voiceProfile || options.segmentVoice || options.voiceSpans?.length
+            ? buildSsml(text, {
+                voiceProfile: options.voiceProfile,
+                segmentVoice: options.segmentVoice,
+                spans: options.voiceSpans,
+                marks: !!lipSyncId,
+              })
+            : undefined;
+          // Stored voices are English - switch to the matching voice of the language
+          const languageCode = parseLanguageCode(options.language);
+          const cloudVoice = options.cloudVoice && languageCode
+            ? localizeCloudVoice(options.cloudVoice, languageCode)
+            : options.cloudVoice;
           await this.cloudTTS.speak(text, {
             characterId: options.characterId,
+            voice: cloudVoice?.name,
+            ssmlGender: cloudVoice?.gender,
+            languageCode: cloudVoice ? undefined : options.language,
+            ssml: ssml && isSsmlWithinLimit(ssml) ? ssml : undefined,
             speakingRate: options.speakingRate,
-            pitch: options.pitch,
-            onStart: options.onStart,
-            onEnd: options.onEnd,
-            onError: options.onError,
+            pitch: options.pitch ?? cloudVoice?.pitch,
+            onTimepoints: lipSyncId ? (tps) => { timepoints = tps; } : undefined,
+            onStart: () => {
+              if (lipSyncId) {
+                this.lipSyncCharacterId = lipSyncId;
+                startLipSync(lipSyncId, text, { rate: options.speakingRate, timepoints });
+              }
+              options.onStart?.();
+            },
+            onEnd,
+            onError,
           });
           return;
         }
       } catch (error) {
+        endLipSync();
         console.warn('[UnifiedTTS] Cloud TTS failed, falling back to device TTS:', error);
         // Fall through to device TTS
       }
     }
 
-    // Fallback to device TTS
+    // Device TTS has no timepoints - lip sync from the estimated duration
+    const pace = options.segmentVoice?.pace ?? options.voiceProfile?.pace ?? 'normal';
+    const onStart = () => {
+      if (lipSyncId) {
+        this.lipSyncCharacterId = lipSyncId;
+        startLipSync(lipSyncId, text, { rate: paceToTTSRate(pace) });
+      }
+      options.onStart?.();
+    };
+
     if (this.isWeb && this.webTTS) {
       await this.webTTS.speak(text, {
         voiceProfile: options.voiceProfile,
         segmentVoice: options.segmentVoice,
         voiceName: options.voiceName,
-        onStart: options.onStart,
-        onEnd: options.onEnd,
-        onError: options.onError,
+        lang: options.language,
+        onStart,
+        onEnd,
+        onError,
+        onBoundary: (charIndex, charLength) => {
+          if (lipSyncId) syncLipSync(lipSyncId, charIndex);
+          options.onBoundary?.(charIndex, charLength);
+        },
       });
     } else if (this.mobileTTS) {
       await this.mobileTTS.speak(text, {
         voiceProfile: options.voiceProfile,
         segmentVoice: options.segmentVoice,
         language: options.language,
-        onStart: options.onStart,
-        onDone: options.onEnd,
-        onError: options.onError,
+        onStart,
+        onDone: onEnd,
+        onError,
       });
     } else {
       throw new Error('No TTS engine available');
@@ -215,6 +286,10 @@ export class UnifiedTextToSpeech {
     } else if (this.mobileTTS) {
       this.mobileTTS.stop();
     }
+    if (this.lipSyncCharacterId) {
+      stopLipSync(this.lipSyncCharacterId);
+      this.lipSyncCharacterId = null;
+    }
   }
 
   /**
@@ -226,6 +301,9 @@ export class UnifiedTextToSpeech {
     } else if (this.mobileTTS) {
       this.mobileTTS.pause();
     }
+    if (this.lipSyncCharacterId) {
+      pauseLipSync(this.lipSyncCharacterId);
+    }
   }
 
   /**
@@ -237,6 +315,9 @@ export class UnifiedTextToSpeech {
     } else if (this.mobileTTS) {
       this.mobileTTS.resume();
     }
+    if (this.lipSyncCharacterId) {
+      resumeLipSync(this.lipSyncCharacterId);
+    }
   }
 
   /**
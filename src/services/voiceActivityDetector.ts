@@ -0,0 +1,111 @@
+/**
+ * Voice Activity Detector
+ *
+ * Decides when the user starts and stops talking from microphone levels
+ * (UnifiedVoiceRecorder.setOnLevel). The speech threshold follows the room's
+ * noise floor, so a fan or street noise doesn't count as talking.
+ *
+ * - speech start: level above threshold for minSpeechMs
+ * - speech end: level below threshold for endSilenceMs after speech
+ *
+ * 'barge-in' sensitivity raises the threshold while characters are speaking,
+ * so their own voices leaking into the mic (echo cancellation isn't perfect)
+ * don't interrupt them.
+ */
+
+export type VADSensitivity = 'normal' | 'barge-in';
+
+export interface VADOptions {
+  minThreshold?: number;       // Lowest speech level (RMS amplitude 0-1)
+  noiseMultiplier?: number;    // Speech must be this much louder than the noise floor
+  bargeInMultiplier?: number;  // Extra threshold factor in 'barge-in' sensitivity
+  minSpeechMs?: number;        // Sustained level before speech counts (filters clicks)
+  endSilenceMs?: number;       // Silence that ends the user's turn
+  onSpeechStart?: () => void;
+  onSpeechEnd?: (speechDurationMs: number) => void;
+}
+
+const DEFAULT_OPTIONS = {
+  minThreshold: 0.015,
+  noiseMultiplier: 3,
+  bargeInMultiplier: 2.5,
+  minSpeechMs: 250,
+  endSilenceMs: 1200,
+};
+
+// Noise floor smoothing - adapts over a few seconds of non-speech
+const NOISE_FLOOR_SMOOTHING = 0.05;
+const INITIAL_NOISE_FLOOR = 0.005;
+
+export class VoiceActivityDetector {
+  private options: VADOptions & typeof DEFAULT_OPTIONS;
+  private sensitivity: VADSensitivity = 'normal';
+  private noiseFloor = INITIAL_NOISE_FLOOR;
+  private speaking = false;
+  private aboveSince: number | null = null;
+  private belowSince: number | null = null;
+  private speechStartTime = 0;
+
+  constructor(options: VADOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setSensitivity(sensitivity: VADSensitivity): void {
+    this.sensitivity = sensitivity;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Current level needed to count as speech
+   */
+  getThreshold(): number {
+    const base = Math.max(this.options.minThreshold, this.noiseFloor * this.options.noiseMultiplier);
+    return this.sensitivity === 'barge-in' ? base * this.options.bargeInMultiplier : base;
+  }
+
+  /**
+   * Feed one level reading
+   */
+  pushLevel(level: number, now: number = Date.now()): void {
+    const threshold = this.getThreshold();
+
+    if (level >= threshold) {
+      this.belowSince = null;
+      if (this.aboveSince === null) this.aboveSince = now;
+
+      if (!this.speaking && now - this.aboveSince >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.speechStartTime = this.aboveSince;
+        this.options.onSpeechStart?.();
+      }
+      return;
+    }
+
+    this.aboveSince = null;
+    if (!this.speaking) {
+      // Only learn the noise floor from non-speech
+      this.noiseFloor += (level - this.noiseFloor) * NOISE_FLOOR_SMOOTHING;
+      return;
+    }
+
+    if (this.belowSince === null) this.belowSince = now;
+    if (now - this.belowSince >= this.options.endSilenceMs) {
+      this.speaking = false;
+      this.belowSince = null;
+      this.options.onSpeechEnd?.(now - this.speechStartTime);
+    }
+  }
+
+  /**
+   * Forget the current speech (e.g. after the recording it belongs to was discarded)
+   * The noise floor is kept.
+   */
+  reset(): void {
+    this.speaking = false;
+    this.aboveSince = null;
+    this.belowSince = null;
+  }
+}
@@ -19,7 +19,10 @@ export class VoiceRecorder {
   private stream: MediaStream | null = null;
   private startTime: number = 0;
   private durationInterval: NodeJS.Timeout | null = null;
+  private audioContext: any = null; // AudioContext
+  private levelInterval: NodeJS.Timeout | null = null;
   private onStateChange?: (state: RecordingState) => void;
+  private onLevel?: (level: number) => void;
   private currentState: RecordingState = {
     isRecording: false,
     isPaused: false,
@@ -33,6 +36,13 @@ export class VoiceRecorder {
     this.onStateChange = callback;
   }
 
+  /**
+   * Set callback for input level while recording (RMS amplitude 0-1, every 50ms)
+   */
+  setOnLevel(callback: ((level: number) => void) | undefined) {
+    this.onLevel = callback;
+  }
+
   /**
    * Get current state
    */
@@ -123,6 +133,10 @@ export class VoiceRecorder {
         this.cleanup();
       };
 
+      if (this.onLevel) {
+        this.startLevelMonitor(this.stream);
+      }
+
       // Start recording
       this.mediaRecorder.start(100); // Collect data every 100ms
       this.startTime = Date.now();
@@ -263,6 +277,29 @@ export class VoiceRecorder {
     return 'audio/webm'; // Fallback
   }
 
+  /**
+   * Measure the microphone level with an analyser on the recording stream
+   */
+  private startLevelMonitor(stream: any): void {
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    this.audioContext = new AudioContextClass();
+    const analyser = this.audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    this.audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    this.levelInterval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      this.onLevel?.(Math.sqrt(sum / samples.length));
+    }, 50);
+  }
+
   /**
    * Clean up resources
    */
@@ -272,6 +309,16 @@ export class VoiceRecorder {
       this.durationInterval = null;
     }
 
+    if (this.levelInterval) {
+      clearInterval(this.levelInterval);
+      this.levelInterval = null;
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => {});
+      this.audioContext = null;
+    }
+
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
       this.stream = null;
@@ -50,6 +50,7 @@ export class MobileVoiceRecorder {
   private durationInterval: NodeJS.Timeout | null = null;
   private startTime: number = 0;
   private onStateChange?: (state: MobileRecordingState) => void;
+  private onLevel?: (level: number) => void;
   private currentState: MobileRecordingState = {
     isRecording: false,
     isPaused: false,
@@ -63,6 +64,13 @@ export class MobileVoiceRecorder {
     this.onStateChange = callback;
   }
 
+  /**
+   * Set callback for input level while recording (amplitude 0-1 from metering, every 100ms)
+   */
+  setOnLevel(callback: ((level: number) => void) | undefined) {
+    this.onLevel = callback;
+  }
+
   /**
    * Get current state
    */
@@ -134,6 +142,14 @@ export class MobileVoiceRecorder {
       this.recording = recording;
       this.startTime = Date.now();
 
+      // Metering is in dBFS - convert to linear amplitude to match the web recorder
+      recording.setProgressUpdateInterval(100);
+      recording.setOnRecordingStatusUpdate((status) => {
+        if (status.isRecording && status.metering !== undefined) {
+          this.onLevel?.(Math.pow(10, status.metering / 20));
+        }
+      });
+
       // Start duration timer
       this.durationInterval = setInterval(() => {
         const duration = Date.now() - this.startTime;
@@ -324,6 +340,7 @@ export class MobileVoiceRecorder {
       this.durationInterval = null;
     }
 
+    this.recording?.setOnRecordingStatusUpdate(null);
     this.recording = null;
   }
 
@@ -7,11 +7,10 @@
  */
 
 import { Platform } from 'react-native';
-import { VoiceRecorder, RecordingState, getVoiceRecorder } from './voiceRecording';
+import { VoiceRecorder, RecordingState } from './voiceRecording';
 import {
   MobileVoiceRecorder,
   MobileRecordingState,
-  getMobileVoiceRecorder,
   isMobilePlatform,
 } from './voiceRecordingMobile';
 
@@ -40,11 +39,13 @@ export class UnifiedVoiceRecorder {
   constructor() {
     this.isWeb = Platform.OS === 'web';
 
+    // Own recorders, not the shared singletons - the chat mic button keeps its
+    // state listener while this recorder runs (e.g. in hands-free voice mode)
     if (this.isWeb) {
-      this.webRecorder = getVoiceRecorder();
+      this.webRecorder = new VoiceRecorder();
       this.setupWebListener();
     } else {
-      this.mobileRecorder = getMobileVoiceRecorder();
+      this.mobileRecorder = new MobileVoiceRecorder();
       this.setupMobileListener();
     }
   }
@@ -89,6 +90,15 @@ export class UnifiedVoiceRecorder {
     this.onStateChange = callback;
   }
 
+  /**
+   * Set callback for microphone level while recording (amplitude 0-1)
+   * Set before startRecording; used for voice activity detection
+   */
+  setOnLevel(callback: ((level: number) => void) | undefined): void {
+    this.webRecorder?.setOnLevel(callback);
+    this.mobileRecorder?.setOnLevel(callback);
+  }
+
   /**
    * Get current state
    */
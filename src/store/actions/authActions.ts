@@ -1,4 +1,5 @@
 import { signOut as supabaseSignOut } from '../../services/supabaseService';
+import { extractConversationMemories } from '../../services/memoryService';
 
 export const SET_SESSION = 'SET_SESSION';
 export const SIGN_OUT = 'SIGN_OUT';
@@ -18,9 +19,23 @@ export const setLoading = (loading: boolean) => ({
   payload: loading,
 });
 
+// Longest sign-out waits for the open conversation's memory extraction
+const MEMORY_EXTRACTION_LOGOUT_WAIT_MS = 3000;
+
 // Async action to handle logout
-export const logout = () => async (dispatch: any) => {
+export const logout = () => async (dispatch: any, getState: any) => {
   try {
+    // Memories need the session - summarize the open conversation before it ends,
+    // but don't hold sign-out hostage to a slow LLM call
+    const conversationId = getState().conversations?.currentConversation?.id;
+    if (conversationId) {
+      const extraction = extractConversationMemories(conversationId).catch(error => {
+        console.warn('[Memory] Failed to extract memories before sign-out:', error);
+      });
+      const timeout = new Promise<void>(resolve => setTimeout(resolve, MEMORY_EXTRACTION_LOGOUT_WAIT_MS));
+      await Promise.race([extraction, timeout]);
+    }
+
     await supabaseSignOut();
     dispatch(signOutAction());
   } catch (error) {
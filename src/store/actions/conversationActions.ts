@@ -14,6 +14,11 @@ import {
   type Participant,
   type ParticipantRole,
 } from '../../services/participantService';
+import type { ExportedConversation } from '../../services/conversationExportService';
+import type { OrchestrationScene } from '../../services/animationOrchestration';
+import type { SceneEnvironmentId } from '../../config/sceneEnvironments';
+import type { LanguageCode } from '../../config/languages';
+import { buildMessagePath } from '../../utils/messageTree';
 
 // Tutorial character ID - BOB is exclusive to tutorial conversations
 export const TUTORIAL_CHARACTER_ID = 'bob-tutorial';
@@ -29,6 +34,8 @@ export const SET_SELECTED_CHARACTERS = 'SET_SELECTED_CHARACTERS';
 export const TOGGLE_CHARACTER = 'TOGGLE_CHARACTER';
 export const SET_STORY_CONTEXT = 'SET_STORY_CONTEXT';
 export const CLEAR_STORY_CONTEXT = 'CLEAR_STORY_CONTEXT';
+export const SET_FOCUSED_MESSAGE = 'SET_FOCUSED_MESSAGE';
+export const SET_MESSAGE_BRANCHES = 'SET_MESSAGE_BRANCHES';
 
 // Multi-user action types
 export const SET_PARTICIPANTS = 'SET_PARTICIPANTS';
@@ -40,6 +47,38 @@ export const CLEAR_TYPING_USERS = 'CLEAR_TYPING_USERS';
 export const SET_SUBSCRIBED = 'SET_SUBSCRIBED';
 export const ADD_REALTIME_MESSAGE = 'ADD_REALTIME_MESSAGE';
 
+// Last message on the path being viewed, per conversation. New messages are saved as its child.
+const conversationTails: Record<string, string | null> = {};
+// Saves are chained per conversation so each message's parent is the one saved before it
+const saveQueues: Record<string, Promise<unknown>> = {};
+
+const enqueueSave = <T>(conversationId: string, task: () => Promise<T>): Promise<T> => {
+  const result = (saveQueues[conversationId] || Promise.resolve())
+    .catch(() => undefined)
+    .then(task);
+  saveQueues[conversationId] = result;
+  return result;
+};
+
+// Tail for conversations not loaded in this session: the most recent message
+const resolveTail = async (conversationId: string): Promise<string | null> => {
+  if (conversationId in conversationTails) {
+    return conversationTails[conversationId];
+  }
+
+  const { data } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('conversation_id', conversationId)
+    .is('superseded_by', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  conversationTails[conversationId] = data?.id || null;
+  return conversationTails[conversationId];
+};
+
 export const setConversations = (conversations: any[]) => ({
   type: SET_CONVERSATIONS,
   payload: conversations,
@@ -84,6 +123,17 @@ export const clearStoryContext = () => ({
   type: CLEAR_STORY_CONTEXT,
 });
 
+// Sibling IDs for messages on the current path that sit at a fork
+export const setMessageBranches = (branches: Record<string, string[]>) => ({
+  type: SET_MESSAGE_BRANCHES,
+  payload: branches,
+});
+
+export const setFocusedMessage = (messageId: string | null) => ({
+  type: SET_FOCUSED_MESSAGE,
+  payload: messageId,
+});
+
 // Async action to load conversations from Supabase
 export const loadConversations = () => async (dispatch: any, getState: any) => {
   try {
@@ -112,7 +162,8 @@ export const loadConversations = () => async (dispatch: any, getState: any) => {
         const { count: messageCount } = await supabase
           .from('messages')
           .select('*', { count: 'exact', head: true })
-          .eq('conversation_id', conv.id);
+          .eq('conversation_id', conv.id)
+          .is('superseded_by', null);
 
         return {
           ...conv,
@@ -217,9 +268,11 @@ export const createConversation = (
     }
 
     if (data) {
+      conversationTails[data.id] = null;
       dispatch(addConversation(data));
       dispatch(setCurrentConversation(data));
       dispatch(setMessages([])); // Clear messages for new conversation
+      dispatch(setMessageBranches({}));
       return data;
     }
   } catch (error) {
@@ -282,6 +335,45 @@ export const createOrNavigateToTutorial = () => async (dispatch: any, getState:
   }
 };
 
+// Async action to load one path through a conversation's message tree
+// targetId picks the branch: the path runs through it and continues down its newest replies.
+// Without it, the path ends at the most recent message.
+export const loadMessagePath = (conversationId: string, targetId?: string | null) => async (dispatch: any) => {
+  const { data: messages, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const { path, siblings } = buildMessagePath(messages || [], targetId);
+
+  // Map character_id to characterId for TypeScript
+  const mappedMessages = path.map((msg: any) => ({
+    ...msg,
+    characterId: msg.character_id,
+  }));
+
+  conversationTails[conversationId] = path.length > 0 ? path[path.length - 1].id : null;
+  dispatch(setMessages(mappedMessages));
+  dispatch(setMessageBranches(siblings));
+  return mappedMessages;
+};
+
+// Async action to show a different sibling branch at a fork
+export const switchBranch = (messageId: string) => async (dispatch: any, getState: any) => {
+  const { conversations } = getState();
+  if (!conversations.currentConversation) return;
+
+  try {
+    await dispatch(loadMessagePath(conversations.currentConversation.id, messageId));
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    throw error;
+  }
+};
+
 // Async action to select a conversation and load its messages
 export const selectConversation = (conversation: any) => async (dispatch: any, getState: any) => {
   try {
@@ -298,21 +390,7 @@ export const selectConversation = (conversation: any) => async (dispatch: any, g
     dispatch(setCurrentConversation(conversation));
 
     // Load messages for this conversation
-    const { data: messages, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('conversation_id', conversation.id)
-      .order('created_at', { ascending: true });
-
-    if (error) throw error;
-
-    // Map character_id to characterId for TypeScript
-    const mappedMessages = (messages || []).map((msg: any) => ({
-      ...msg,
-      characterId: msg.character_id,
-    }));
-
-    dispatch(setMessages(mappedMessages));
+    await dispatch(loadMessagePath(conversation.id));
 
     // Subscribe to real-time updates for shared conversations
     if (conversation.visibility === 'shared') {
@@ -324,8 +402,44 @@ export const selectConversation = (conversation: any) => async (dispatch: any, g
   }
 };
 
+// Async action to open a conversation and scroll to one of its messages (e.g. from search)
+export const jumpToMessage = (conversationId: string, messageId: string) => async (dispatch: any, getState: any) => {
+  try {
+    const { conversations: convState } = getState();
+    let conversation = convState.conversations.find((c: any) => c.id === conversationId);
+
+    // Shared or not-yet-loaded conversations may be missing from the list
+    if (!conversation) {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('id', conversationId)
+        .single();
+
+      if (error) throw error;
+      conversation = data;
+    }
+
+    if (convState.currentConversation?.id !== conversationId) {
+      await dispatch(selectConversation(conversation));
+    }
+
+    // The message may live on a branch that isn't shown
+    if (!getState().conversations.messages.some((m: any) => m.id === messageId)) {
+      await dispatch(loadMessagePath(conversationId, messageId));
+    }
+
+    dispatch(setFocusedMessage(messageId));
+  } catch (error) {
+    console.error('[jumpToMessage] Error:', error);
+    throw error;
+  }
+};
+
 // Async action to save a message to the database
-export const saveMessage = (conversationId: string, role: 'user' | 'assistant', content: string, characterId?: string, metadata?: Record<string, any>) => async (dispatch: any, getState: any) => {
+// createdAt overrides the timestamp (keeps regenerated replies in order); defaults to now
+// parentMessageId places the message in the tree; defaults to the end of the current path
+export const saveMessage = (conversationId: string, role: 'user' | 'assistant', content: string, characterId?: string, metadata?: Record<string, any>, createdAt?: string, parentMessageId?: string | null) => async (dispatch: any, getState: any) => {
   try {
     const { auth } = getState();
     
@@ -339,21 +453,33 @@ export const saveMessage = (conversationId: string, role: 'user' | 'assistant',
       sender_email: auth.user.email,
     } : metadata;
 
-    const { data, error } = await supabase
-      .from('messages')
-      .insert([
-        {
-          conversation_id: conversationId,
-          role,
-          content,
-          character_id: characterId || null,
-          sender_id: senderId,
-          created_at: new Date().toISOString(),
-          metadata: enrichedMetadata || null,
-        }
-      ])
-      .select()
-      .single();
+    const { data, error } = await enqueueSave(conversationId, async () => {
+      const tail = await resolveTail(conversationId);
+      const parentId = parentMessageId !== undefined ? parentMessageId : tail;
+
+      const result = await supabase
+        .from('messages')
+        .insert([
+          {
+            conversation_id: conversationId,
+            role,
+            content,
+            character_id: characterId || null,
+            sender_id: senderId,
+            created_at: createdAt || new Date().toISOString(),
+            metadata: enrichedMetadata || null,
+            parent_message_id: parentId,
+          }
+        ])
+        .select()
+        .single();
+
+      // Appending to the path moves its end; saves elsewhere in the tree don't
+      if (result.data && parentId === tail) {
+        conversationTails[conversationId] = result.data.id;
+      }
+      return result;
+    });
 
     if (error) throw error;
 
@@ -388,6 +514,91 @@ export const saveMessage = (conversationId: string, role: 'user' | 'assistant',
   }
 };
 
+// Insert one exported conversation and its message tree straight into the database
+// Rows are restored as exported (original sender metadata, no entity extraction) and
+// nothing is dispatched, so the open conversation and its message list stay as they are.
+// Messages arrive parents first (parseConversationImport), so every branch is rebuilt.
+async function insertImportedConversation(
+  userId: string,
+  conv: ExportedConversation,
+  characters: string[]
+): Promise<boolean> {
+  const { data: created, error } = await supabase
+    .from('conversations')
+    .insert([
+      {
+        user_id: userId,
+        title: conv.title,
+        selected_characters: characters,
+        is_tutorial: false,
+        created_at: conv.createdAt || new Date().toISOString(),
+        updated_at: conv.updatedAt || new Date().toISOString(),
+      }
+    ])
+    .select()
+    .single();
+
+  if (error || !created) {
+    console.error('[importConversations] Error creating conversation:', error);
+    return false;
+  }
+
+  // Exported message ID -> ID of the imported copy
+  const importedIds = new Map<string, string>();
+  for (const message of conv.messages) {
+    const { data: saved, error: messageError } = await supabase
+      .from('messages')
+      .insert([
+        {
+          conversation_id: created.id,
+          role: message.role,
+          content: message.content,
+          character_id: message.characterId || null,
+          sender_id: message.role === 'user' ? userId : null,
+          created_at: message.createdAt || new Date().toISOString(),
+          metadata: message.metadata || null,
+          parent_message_id: message.parentId ? importedIds.get(message.parentId) ?? null : null,
+        }
+      ])
+      .select('id')
+      .single();
+
+    if (messageError || !saved) {
+      console.error('[importConversations] Error importing message:', messageError);
+      continue;
+    }
+    importedIds.set(message.id, saved.id);
+  }
+
+  return true;
+}
+
+// Async action to import conversations from a JSON export
+// The user stays in the conversation they had open; the list is reloaded to show the imports
+export const importConversations = (conversations: ExportedConversation[]) => async (dispatch: any, getState: any) => {
+  const { auth } = getState();
+  if (!auth.user) {
+    throw new Error('User not authenticated');
+  }
+
+  let imported = 0;
+  let skipped = 0;
+
+  for (const conv of conversations) {
+    // The tutorial is per-account and recreated automatically
+    const characters = conv.selectedCharacters.filter(id => id !== TUTORIAL_CHARACTER_ID);
+    if (characters.length === 0 || !(await insertImportedConversation(auth.user.id, conv, characters))) {
+      skipped++;
+      continue;
+    }
+    imported++;
+  }
+
+  console.log(`[importConversations] Imported ${imported}, skipped ${skipped}`);
+  await dispatch(loadConversations());
+  return { imported, skipped };
+};
+
 // Async action to delete a conversation
 export const deleteConversation = (conversationId: string) => async (dispatch: any, getState: any) => {
   try {
@@ -495,17 +706,153 @@ export const updateMessage = (messageId: string, newContent: string) => async (d
     // Reload messages for current conversation
     const { conversations } = getState();
     if (conversations.currentConversation) {
-      const { data: messages, error: fetchError } = await supabase
+      const currentPath: any[] = conversations.messages;
+      await dispatch(loadMessagePath(
+        conversations.currentConversation.id,
+        currentPath[currentPath.length - 1]?.id
+      ));
+    }
+  } catch (error) {
+    console.error('Error updating message:', error);
+    throw error;
+  }
+};
+
+// Async action to edit a past user message
+// The edited text is saved as a sibling of the original, starting a new branch;
+// the original and everything after it stay reachable through the branch switcher.
+// Returns the new message and the history that precedes it, for regeneration.
+export const editMessage = (messageId: string, newContent: string) => async (dispatch: any, getState: any) => {
+  try {
+    const { conversations } = getState();
+    const conversation = conversations.currentConversation;
+    const messages: any[] = conversations.messages;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (!conversation || index === -1) {
+      throw new Error('Message not found in the current conversation');
+    }
+
+    const original = messages[index];
+    if (original.role !== 'user') {
+      throw new Error('Only your own messages can be edited');
+    }
+
+    const edited = await dispatch(saveMessage(
+      conversation.id,
+      'user',
+      newContent,
+      undefined,
+      { edited_from: original.id, previous_content: original.content },
+      undefined,
+      original.parent_message_id || null
+    ));
+
+    const path: any[] = await dispatch(loadMessagePath(conversation.id, edited.id));
+
+    return { message: edited, history: path.slice(0, -1) };
+  } catch (error) {
+    console.error('Error editing message:', error);
+    throw error;
+  }
+};
+
+// Async action to replace an assistant turn with regenerated responses
+// Each existing message keeps its row and records what it said before in metadata.previous_versions.
+// Surplus old messages are superseded; extra new responses are inserted right after the turn.
+// The regenerated scene replaces the stored one on the turn's first message (replay follows the latest version).
+export const replaceAssistantTurn = (
+  turnMessages: any[],
+  responses: { characterId: string; content: string }[],
+  scene?: OrchestrationScene
+) => async (dispatch: any, getState: any) => {
+  try {
+    const { conversations } = getState();
+    const conversation = conversations.currentConversation;
+    if (!conversation || turnMessages.length === 0) {
+      return;
+    }
+
+    const replacedAt = new Date().toISOString();
+
+    for (let i = 0; i < Math.min(turnMessages.length, responses.length); i++) {
+      const old = turnMessages[i];
+      const previousVersions = old.metadata?.previous_versions || [];
+      const { scene: _staleScene, ...oldMetadata } = old.metadata || {};
+      const { error } = await supabase
         .from('messages')
-        .select('*')
-        .eq('conversation_id', conversations.currentConversation.id)
-        .order('created_at', { ascending: true });
+        .update({
+          content: responses[i].content,
+          character_id: responses[i].characterId,
+          metadata: {
+            ...oldMetadata,
+            ...(i === 0 && scene ? { scene } : {}),
+            previous_versions: [
+              ...previousVersions,
+              { content: old.content, character_id: old.character_id || old.characterId, replaced_at: replacedAt },
+            ],
+          },
+        })
+        .eq('id', old.id);
+
+      if (error) throw error;
+    }
+
+    const surplus = turnMessages.slice(responses.length);
+    if (surplus.length > 0) {
+      const { error } = await supabase
+        .from('messages')
+        .update({ superseded_by: turnMessages[0].id })
+        .in('id', surplus.map(m => m.id));
+
+      if (error) throw error;
+    }
+
+    // Chain extra responses right after the turn's last message, then hang
+    // whatever followed the turn off the last extra so the branch stays intact
+    const lastTurnMessage = turnMessages[turnMessages.length - 1];
+    const lastCreatedAt = new Date(lastTurnMessage.created_at).getTime();
+    const extras = responses.slice(turnMessages.length);
+    let lastExtraId: string | null = null;
+    if (extras.length > 0) {
+      const { data: followers } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('parent_message_id', lastTurnMessage.id);
+
+      let parentId = lastTurnMessage.id;
+      for (let i = 0; i < extras.length; i++) {
+        const saved = await dispatch(saveMessage(
+          conversation.id,
+          'assistant',
+          extras[i].content,
+          extras[i].characterId,
+          { regenerated_at: replacedAt },
+          new Date(lastCreatedAt + i + 1).toISOString(),
+          parentId
+        ));
+        parentId = saved.id;
+      }
+      lastExtraId = parentId;
+
+      if (followers && followers.length > 0) {
+        const { error } = await supabase
+          .from('messages')
+          .update({ parent_message_id: parentId })
+          .in('id', followers.map((m: any) => m.id));
 
-      if (fetchError) throw fetchError;
-      dispatch(setMessages(messages || []));
+        if (error) throw error;
+      }
     }
+
+    const currentPath: any[] = conversations.messages;
+    const lastOnPath = currentPath[currentPath.length - 1]?.id;
+    // If the turn ended the path, the newest extra is the new end
+    await dispatch(loadMessagePath(
+      conversation.id,
+      lastOnPath === lastTurnMessage.id && lastExtraId ? lastExtraId : lastOnPath
+    ));
   } catch (error) {
-    console.error('Error updating message:', error);
+    console.error('Error replacing assistant turn:', error);
     throw error;
   }
 };
@@ -513,6 +860,20 @@ export const updateMessage = (messageId: string, newContent: string) => async (d
 // Async action to delete a message
 export const deleteMessage = (messageId: string) => async (dispatch: any, getState: any) => {
   try {
+    // Keep replies attached to the tree by moving them up to the deleted message's parent
+    const { data: deleted } = await supabase
+      .from('messages')
+      .select('parent_message_id')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    const { error: reparentError } = await supabase
+      .from('messages')
+      .update({ parent_message_id: deleted?.parent_message_id || null })
+      .eq('parent_message_id', messageId);
+
+    if (reparentError) throw reparentError;
+
     const { error } = await supabase
       .from('messages')
       .delete()
@@ -520,17 +881,14 @@ export const deleteMessage = (messageId: string) => async (dispatch: any, getSta
 
     if (error) throw error;
 
-    // Reload messages for current conversation
+    // Reload messages for current conversation, staying on the same branch
     const { conversations } = getState();
     if (conversations.currentConversation) {
-      const { data: messages, error: fetchError } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversations.currentConversation.id)
-        .order('created_at', { ascending: true });
-
-      if (fetchError) throw fetchError;
-      dispatch(setMessages(messages || []));
+      const remaining = (conversations.messages as any[]).filter(m => m.id !== messageId);
+      await dispatch(loadMessagePath(
+        conversations.currentConversation.id,
+        remaining[remaining.length - 1]?.id
+      ));
     }
   } catch (error) {
     console.error('Error deleting message:', error);
@@ -572,6 +930,70 @@ export const saveSelectedCharacters = (conversationId: string, characterIds: str
   }
 };
 
+// Async action to save the scene environment (backdrop) for a conversation
+export const saveConversationEnvironment = (conversationId: string, environment: SceneEnvironmentId) => async (dispatch: any, getState: any) => {
+  try {
+    console.log('[saveConversationEnvironment] Saving environment for conversation:', conversationId, environment);
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({
+        environment: environment === 'none' ? null : environment,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', conversationId);
+
+    if (error) {
+      console.error('[saveConversationEnvironment] Error:', error);
+      throw error;
+    }
+
+    // Update the current conversation in state if it matches
+    const { conversations } = getState();
+    if (conversations.currentConversation?.id === conversationId) {
+      dispatch(setCurrentConversation({
+        ...conversations.currentConversation,
+        environment: environment === 'none' ? null : environment,
+      }));
+    }
+  } catch (error) {
+    console.error('Error saving conversation environment:', error);
+    // Don't throw - this is a non-critical operation
+  }
+};
+
+// Async action to save the language of a conversation (null follows the user's default)
+export const saveConversationLanguage = (conversationId: string, language: LanguageCode | null) => async (dispatch: any, getState: any) => {
+  try {
+    console.log('[saveConversationLanguage] Saving language for conversation:', conversationId, language);
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({
+        language,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', conversationId);
+
+    if (error) {
+      console.error('[saveConversationLanguage] Error:', error);
+      throw error;
+    }
+
+    // Update the current conversation in state if it matches
+    const { conversations } = getState();
+    if (conversations.currentConversation?.id === conversationId) {
+      dispatch(setCurrentConversation({
+        ...conversations.currentConversation,
+        language,
+      }));
+    }
+  } catch (error) {
+    console.error('Error saving conversation language:', error);
+    // Don't throw - this is a non-critical operation
+  }
+};
+
 // Async action to load selected characters for a conversation
 export const loadSelectedCharacters = (conversationId: string) => async (dispatch: any): Promise<string[] | null> => {
   try {
@@ -681,6 +1103,7 @@ export const subscribeToConversation = (conversationId: string) => async (dispat
     realtimeService.subscribeToConversation(conversationId, {
       onMessage: (message) => {
         console.log('[Realtime] New message received:', message.id);
+        conversationTails[conversationId] = message.id;
         dispatch(addRealtimeMessage({
           ...message,
           characterId: message.character_id,
@@ -1,5 +1,5 @@
-import { createStore, applyMiddleware, combineReducers } from 'redux';
-import { thunk } from 'redux-thunk';
+import { createStore, applyMiddleware, combineReducers, UnknownAction } from 'redux';
+import { thunk, ThunkDispatch } from 'redux-thunk';
 import { authReducer } from './reducers/authReducer';
 import { conversationReducer } from './reducers/conversationReducer';
 import { uiReducer } from './reducers/uiReducer';
@@ -14,4 +14,5 @@ const rootReducer = combineReducers({
 
 export const store = createStore(rootReducer, applyMiddleware(thunk));
 
-export type RootState = ReturnType<typeof rootReducer>;
\ No newline at end of file
+export type RootState = ReturnType<typeof rootReducer>;
+export type AppDispatch = ThunkDispatch<RootState, undefined, UnknownAction>;
\ No newline at end of file
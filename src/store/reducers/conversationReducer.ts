@@ -16,6 +16,8 @@ interface ConversationState {
   messages: any[];
   selectedCharacters: string[]; // Currently selected wakattors for the conversation
   storyContext: string | null; // Story context from conversation starter, for later reference
+  focusedMessageId: string | null; // Message to scroll to in the chat history (e.g. from search)
+  messageBranches: { [messageId: string]: string[] }; // Sibling IDs for path messages at a fork
   // Multi-user state
   participants: { [conversationId: string]: Participant[] };
   typingUsers: { [conversationId: string]: string[] }; // User IDs currently typing
@@ -29,6 +31,8 @@ const initialState: ConversationState = {
   messages: [],
   selectedCharacters: [],
   storyContext: null,
+  focusedMessageId: null,
+  messageBranches: {},
   // Multi-user initial state
   participants: {},
   typingUsers: {},
@@ -66,6 +70,10 @@ export const conversationReducer = (state = initialState, action: any): Conversa
       return { ...state, storyContext: action.payload };
     case 'CLEAR_STORY_CONTEXT':
       return { ...state, storyContext: null };
+    case 'SET_FOCUSED_MESSAGE':
+      return { ...state, focusedMessageId: action.payload };
+    case 'SET_MESSAGE_BRANCHES':
+      return { ...state, messageBranches: action.payload };
 
     // ============================
     // MULTI-USER ACTIONS
@@ -0,0 +1,141 @@
+/**
+ * Force-directed graph layout (Fruchterman-Reingold)
+ *
+ * Deterministic: nodes start evenly spaced on a circle, so the same graph
+ * always produces the same layout. Runs synchronously - keep node counts small.
+ */
+
+export interface LayoutNode {
+  id: string;
+  radius: number;
+}
+
+export interface LayoutEdge {
+  from: string;
+  to: string;
+  strength: number;
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+interface ForceLayoutOptions {
+  iterations?: number;
+  padding?: number;
+}
+
+/**
+ * Compute node positions inside a width x height box
+ */
+export function computeForceLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  width: number,
+  height: number,
+  { iterations = 250, padding = 40 }: ForceLayoutOptions = {}
+): Record<string, NodePosition> {
+  const positions: Record<string, NodePosition> = {};
+  if (nodes.length === 0 || width <= 0 || height <= 0) {
+    return positions;
+  }
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  if (nodes.length === 1) {
+    positions[nodes[0].id] = { x: centerX, y: centerY };
+    return positions;
+  }
+
+  // Ideal edge length for the available area
+  const area = (width - padding * 2) * (height - padding * 2);
+  const k = Math.sqrt(Math.max(area, 1) / nodes.length);
+
+  const startRadius = Math.min(width, height) / 2 - padding;
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    positions[node.id] = {
+      x: centerX + startRadius * Math.cos(angle),
+      y: centerY + startRadius * Math.sin(angle),
+    };
+  });
+
+  const maxStrength = edges.reduce((max, e) => Math.max(max, e.strength), 1);
+  let temperature = Math.min(width, height) / 8;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const displacement: Record<string, NodePosition> = {};
+    nodes.forEach(n => {
+      displacement[n.id] = { x: 0, y: 0 };
+    });
+
+    // Repulsion between every pair
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions[nodes[i].id];
+        const b = positions[nodes[j].id];
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < 0.01) {
+          // Nudge overlapping nodes apart deterministically
+          dx = 0.01 * (i - j);
+          dy = 0.01;
+          distance = 0.01;
+        }
+        const minDistance = nodes[i].radius + nodes[j].radius;
+        const force = (k * k) / distance + (distance < minDistance ? k : 0);
+        const fx = (dx / distance) * force;
+        const fy = (dy / distance) * force;
+        displacement[nodes[i].id].x += fx;
+        displacement[nodes[i].id].y += fy;
+        displacement[nodes[j].id].x -= fx;
+        displacement[nodes[j].id].y -= fy;
+      }
+    }
+
+    // Attraction along edges, stronger edges pull harder
+    edges.forEach(edge => {
+      const a = positions[edge.from];
+      const b = positions[edge.to];
+      if (!a || !b) return;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const weight = 0.5 + edge.strength / maxStrength;
+      const force = ((distance * distance) / k) * weight;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      displacement[edge.from].x -= fx;
+      displacement[edge.from].y -= fy;
+      displacement[edge.to].x += fx;
+      displacement[edge.to].y += fy;
+    });
+
+    // Gentle gravity keeps disconnected nodes on screen
+    nodes.forEach(node => {
+      const p = positions[node.id];
+      displacement[node.id].x += (centerX - p.x) * 0.05;
+      displacement[node.id].y += (centerY - p.y) * 0.05;
+    });
+
+    // Apply displacement limited by temperature, clamp to bounds
+    nodes.forEach(node => {
+      const d = displacement[node.id];
+      const length = Math.sqrt(d.x * d.x + d.y * d.y) || 1;
+      const step = Math.min(length, temperature);
+      const p = positions[node.id];
+      const minX = padding + node.radius;
+      const minY = padding + node.radius;
+      p.x = Math.max(minX, Math.min(width - minX, p.x + (d.x / length) * step));
+      p.y = Math.max(minY, Math.min(height - minY, p.y + (d.y / length) * step));
+    });
+
+    temperature -= cooling;
+  }
+
+  return positions;
+}
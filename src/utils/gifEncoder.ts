@@ -0,0 +1,229 @@
+/**
+ * Animated GIF encoder
+ *
+ * Encodes RGBA frames into a looping GIF89a. Colors are mapped onto a fixed
+ * 6x7x6 RGB cube (252 colors) with ordered dithering - no per-frame palette
+ * analysis, so frames can be added one at a time as they are rendered.
+ */
+
+const LEVELS_R = 6;
+const LEVELS_G = 7;
+const LEVELS_B = 6;
+const MIN_CODE_SIZE = 8; // 256-entry color table
+const MAX_CODE = 4096;
+
+// 4x4 Bayer matrix, centered around 0 (-0.5..0.5)
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => (v + 0.5) / 16 - 0.5);
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  text(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < LEVELS_R; r++) {
+    for (let g = 0; g < LEVELS_G; g++) {
+      for (let b = 0; b < LEVELS_B; b++) {
+        palette[i++] = Math.round((r * 255) / (LEVELS_R - 1));
+        palette[i++] = Math.round((g * 255) / (LEVELS_G - 1));
+        palette[i++] = Math.round((b * 255) / (LEVELS_B - 1));
+      }
+    }
+  }
+  return palette; // Remaining entries stay black
+}
+
+function quantizeLevel(value: number, levels: number, dither: number): number {
+  const scaled = (value / 255) * (levels - 1) + dither;
+  return Math.max(0, Math.min(levels - 1, Math.round(scaled)));
+}
+
+/**
+ * Map RGBA pixels to palette indices (alpha is ignored - frames are opaque)
+ */
+function indexPixels(rgba: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const dither = BAYER_4X4[(y & 3) * 4 + (x & 3)];
+      const r = quantizeLevel(rgba[p * 4], LEVELS_R, dither);
+      const g = quantizeLevel(rgba[p * 4 + 1], LEVELS_G, dither);
+      const b = quantizeLevel(rgba[p * 4 + 2], LEVELS_B, dither);
+      indices[p] = (r * LEVELS_G + g) * LEVELS_B + b;
+    }
+  }
+  return indices;
+}
+
+/**
+ * Variable-length LZW as used by GIF, written as 255-byte sub-blocks
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array): void {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const eoiCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      if (block.length === 255) flushBlock();
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full - start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) flushBlock();
+  out.byte(0); // Block terminator
+}
+
+export class GifEncoder {
+  private out = new ByteWriter();
+  private width: number;
+  private height: number;
+  private delayCs: number;
+  private finished = false;
+
+  /**
+   * @param frameDelayMs - Time each frame is shown (GIF stores hundredths of a second)
+   */
+  constructor(width: number, height: number, frameDelayMs: number) {
+    this.width = width;
+    this.height = height;
+    this.delayCs = Math.max(2, Math.round(frameDelayMs / 10));
+
+    const out = this.out;
+    out.text('GIF89a');
+    out.word(width);
+    out.word(height);
+    out.byte(0xf7); // Global color table, 8 bits per channel, 256 entries
+    out.byte(0); // Background color index
+    out.byte(0); // Pixel aspect ratio
+    out.bytes(buildPalette());
+
+    // Loop forever
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(0);
+    out.byte(0);
+  }
+
+  addFrame(rgba: Uint8ClampedArray): void {
+    if (this.finished) {
+      throw new Error('GIF already finished');
+    }
+    if (rgba.length !== this.width * this.height * 4) {
+      throw new Error(`Frame is ${rgba.length} bytes, expected ${this.width * this.height * 4}`);
+    }
+
+    const out = this.out;
+    // Graphic control extension - frame delay
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0); // No transparency, no disposal
+    out.word(this.delayCs);
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor - full frame, uses the global color table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(this.width);
+    out.word(this.height);
+    out.byte(0);
+
+    writeLzw(out, indexPixels(rgba, this.width, this.height));
+  }
+
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.out.byte(0x3b); // Trailer
+      this.finished = true;
+    }
+    return this.out.toUint8Array();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Conversation message trees
+ *
+ * Messages link to the previous message on their branch via parent_message_id.
+ * A conversation is displayed as a single path from a root down to a leaf.
+ */
+
+export interface TreeMessage {
+  id: string;
+  parent_message_id?: string | null;
+  superseded_by?: string | null;
+  created_at: string;
+}
+
+export interface MessagePath<T extends TreeMessage> {
+  // Messages from the root to the leaf, oldest first (superseded rows removed)
+  path: T[];
+  // For path messages that sit at a fork: all sibling IDs, oldest first (includes the message itself)
+  siblings: Record<string, string[]>;
+}
+
+const byCreatedAt = (a: TreeMessage, b: TreeMessage) =>
+  a.created_at === b.created_at ? a.id.localeCompare(b.id) : a.created_at.localeCompare(b.created_at);
+
+/**
+ * Resolve the path to show for a conversation
+ * With a target ID the path runs through that message and continues down its most recent
+ * descendants; without one it ends at the most recently created message.
+ */
+export function buildMessagePath<T extends TreeMessage>(messages: T[], targetId?: string | null): MessagePath<T> {
+  if (messages.length === 0) {
+    return { path: [], siblings: {} };
+  }
+
+  const byId = new Map<string, T>();
+  const children = new Map<string | null, T[]>();
+  messages.forEach(message => {
+    byId.set(message.id, message);
+  });
+  messages.forEach(message => {
+    // Parents outside the loaded set (e.g. deleted) are treated as roots
+    const parentId = message.parent_message_id && byId.has(message.parent_message_id)
+      ? message.parent_message_id
+      : null;
+    const list = children.get(parentId) || [];
+    list.push(message);
+    children.set(parentId, list);
+  });
+  children.forEach(list => list.sort(byCreatedAt));
+
+  const getParentId = (message: T) =>
+    message.parent_message_id && byId.has(message.parent_message_id) ? message.parent_message_id : null;
+
+  let leaf: T | undefined = targetId ? byId.get(targetId) : undefined;
+  if (leaf) {
+    // Follow the newest child until the end of the branch
+    let next = children.get(leaf.id);
+    while (next && next.length > 0) {
+      leaf = next[next.length - 1];
+      next = children.get(leaf.id);
+    }
+  } else {
+    leaf = [...messages].sort(byCreatedAt)[messages.length - 1];
+  }
+
+  const path: T[] = [];
+  const visited = new Set<string>();
+  let current: T | undefined = leaf;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    const parentId = getParentId(current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+
+  const siblings: Record<string, string[]> = {};
+  const visiblePath = path.filter(message => !message.superseded_by);
+  visiblePath.forEach(message => {
+    const group = (children.get(getParentId(message)) || []).filter(m => !m.superseded_by);
+    if (group.length > 1) {
+      siblings[message.id] = group.map(m => m.id);
+    }
+  });
+
+  return { path: visiblePath, siblings };
+}
@@ -0,0 +1,178 @@
+/**
+ * WebM muxer
+ *
+ * Packs encoded video frames (e.g. WebCodecs VP8 chunks) into a single-track
+ * WebM file. Each frame carries its own timestamp, so the file plays at the
+ * intended rate however long the frames took to produce. No cues are written -
+ * clips are short and players read them front to back.
+ */
+
+// Element IDs (Matroska spec) - the leading bits are part of the ID
+const EBML_HEADER = [0x1a, 0x45, 0xdf, 0xa3];
+const EBML_VERSION = [0x42, 0x86];
+const EBML_READ_VERSION = [0x42, 0xf7];
+const EBML_MAX_ID_LENGTH = [0x42, 0xf2];
+const EBML_MAX_SIZE_LENGTH = [0x42, 0xf3];
+const DOC_TYPE = [0x42, 0x82];
+const DOC_TYPE_VERSION = [0x42, 0x87];
+const DOC_TYPE_READ_VERSION = [0x42, 0x85];
+const SEGMENT = [0x18, 0x53, 0x80, 0x67];
+const INFO = [0x15, 0x49, 0xa9, 0x66];
+const TIMECODE_SCALE = [0x2a, 0xd7, 0xb1];
+const MUXING_APP = [0x4d, 0x80];
+const WRITING_APP = [0x57, 0x41];
+const DURATION = [0x44, 0x89];
+const TRACKS = [0x16, 0x54, 0xae, 0x6b];
+const TRACK_ENTRY = [0xae];
+const TRACK_NUMBER = [0xd7];
+const TRACK_UID = [0x73, 0xc5];
+const FLAG_LACING = [0x9c];
+const CODEC_ID = [0x86];
+const TRACK_TYPE = [0x83];
+const VIDEO = [0xe0];
+const PIXEL_WIDTH = [0xb0];
+const PIXEL_HEIGHT = [0xba];
+const CLUSTER = [0x1f, 0x43, 0xb6, 0x75];
+const CLUSTER_TIMECODE = [0xe7];
+const SIMPLE_BLOCK = [0xa3];
+
+const TRACK_TYPE_VIDEO = 1;
+// Block timecodes are signed 16-bit offsets from their cluster's timecode
+const MAX_BLOCK_OFFSET_MS = 32767;
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+// Sizes always use the 8-byte form - valid for any element, and no size classes to pick
+function sizeBytes(size: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  let value = size;
+  for (let i = 7; i >= 1; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+function element(id: number[], ...children: Uint8Array[]): Uint8Array {
+  const body = concat(children);
+  return concat([new Uint8Array(id), sizeBytes(body.length), body]);
+}
+
+function uintElement(id: number[], value: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return element(id, new Uint8Array(bytes));
+}
+
+function floatElement(id: number[], value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function textElement(id: number[], value: string): Uint8Array {
+  return element(id, new Uint8Array(value.split('').map(char => char.charCodeAt(0) & 0x7f)));
+}
+
+export class WebMMuxer {
+  private width: number;
+  private height: number;
+  private codecId: string;
+  private clusters: Uint8Array[] = [];
+  private blocks: Uint8Array[] = [];
+  private clusterStartMs = -1;
+  private finished = false;
+
+  /**
+   * @param codecId - Matroska codec ID, e.g. 'V_VP8' (WebCodecs 'vp8')
+   */
+  constructor(width: number, height: number, codecId = 'V_VP8') {
+    this.width = width;
+    this.height = height;
+    this.codecId = codecId;
+  }
+
+  /**
+   * Add an encoded frame; timestamps must not go backwards
+   */
+  addFrame(data: Uint8Array, timestampMs: number, keyFrame: boolean): void {
+    if (this.finished) {
+      throw new Error('WebM already finished');
+    }
+
+    const time = Math.round(timestampMs);
+    // Start a cluster on each keyframe so players can begin decoding at any cluster
+    if (this.clusterStartMs < 0 || keyFrame || time - this.clusterStartMs > MAX_BLOCK_OFFSET_MS) {
+      this.flushCluster();
+      this.clusterStartMs = time;
+    }
+
+    const offset = time - this.clusterStartMs;
+    const header = new Uint8Array([
+      0x81, // Track 1
+      (offset >> 8) & 0xff,
+      offset & 0xff,
+      keyFrame ? 0x80 : 0,
+    ]);
+    this.blocks.push(element(SIMPLE_BLOCK, header, data));
+  }
+
+  finish(durationMs: number): Uint8Array {
+    this.flushCluster();
+    this.finished = true;
+
+    const header = element(
+      EBML_HEADER,
+      uintElement(EBML_VERSION, 1),
+      uintElement(EBML_READ_VERSION, 1),
+      uintElement(EBML_MAX_ID_LENGTH, 4),
+      uintElement(EBML_MAX_SIZE_LENGTH, 8),
+      textElement(DOC_TYPE, 'webm'),
+      uintElement(DOC_TYPE_VERSION, 2),
+      uintElement(DOC_TYPE_READ_VERSION, 2)
+    );
+
+    const info = element(
+      INFO,
+      uintElement(TIMECODE_SCALE, 1000000), // Timecodes in milliseconds
+      textElement(MUXING_APP, 'Wakatto'),
+      textElement(WRITING_APP, 'Wakatto'),
+      floatElement(DURATION, durationMs)
+    );
+
+    const tracks = element(
+      TRACKS,
+      element(
+        TRACK_ENTRY,
+        uintElement(TRACK_NUMBER, 1),
+        uintElement(TRACK_UID, 1),
+        uintElement(FLAG_LACING, 0),
+        textElement(CODEC_ID, this.codecId),
+        uintElement(TRACK_TYPE, TRACK_TYPE_VIDEO),
+        element(VIDEO, uintElement(PIXEL_WIDTH, this.width), uintElement(PIXEL_HEIGHT, this.height))
+      )
+    );
+
+    return concat([header, element(SEGMENT, info, tracks, ...this.clusters)]);
+  }
+
+  private flushCluster(): void {
+    if (this.blocks.length === 0) return;
+    this.clusters.push(element(CLUSTER, uintElement(CLUSTER_TIMECODE, this.clusterStartMs), ...this.blocks));
+    this.blocks = [];
+  }
+}
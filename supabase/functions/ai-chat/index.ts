@@ -604,6 +604,162 @@ function getCorsHeaders(req: Request): Record<string, string> {
   }
 }
 
+// ============================================
+// LLM Gateway: ordered providers with retry and failover
+// ============================================
+
+type GatewayProvider = 'anthropic' | 'openai' | 'gemini'
+type RequestType = 'orchestration' | 'title' | 'entity_extraction' | 'default'
+
+interface RouteTarget {
+  provider: GatewayProvider
+  model: string
+}
+
+// Which provider actually served a request (returned to the client for llm_call_logs)
+interface ServedBy {
+  provider: GatewayProvider
+  model: string
+  attempts: number      // Total attempts across all providers, including the successful one
+  failedOver: boolean   // True if a provider other than the first choice served the request
+}
+
+const PROVIDER_API_KEY_NAMES: Record<GatewayProvider, string> = {
+  anthropic: 'CLAUDE_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+}
+
+// Ordered provider/model lists per request type. The first configured provider is tried first.
+const PROVIDER_ROUTES: Record<RequestType, RouteTarget[]> = {
+  orchestration: [
+    { provider: 'anthropic', model: 'claude-3-haiku-20240307' },
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'gemini', model: 'gemini-1.5-flash' },
+  ],
+  title: [
+    { provider: 'anthropic', model: 'claude-3-haiku-20240307' },
+    { provider: 'gemini', model: 'gemini-1.5-flash' },
+    { provider: 'openai', model: 'gpt-4o-mini' },
+  ],
+  entity_extraction: [
+    { provider: 'anthropic', model: 'claude-3-haiku-20240307' },
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'gemini', model: 'gemini-1.5-flash' },
+  ],
+  default: [
+    { provider: 'anthropic', model: 'claude-3-haiku-20240307' },
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'gemini', model: 'gemini-1.5-flash' },
+  ],
+}
+
+const MAX_ATTEMPTS_PER_PROVIDER = 2
+const RETRY_BASE_DELAY_MS = 400
+const PROVIDER_TIMEOUT_MS = 45000
+
+// Provider call failure; retryable errors (5xx, 429, timeouts, network) trigger retry and failover
+class ProviderError extends Error {
+  status: number | null
+  retryable: boolean
+
+  constructor(message: string, status: number | null, retryable: boolean) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = status
+    this.retryable = retryable
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number = PROVIDER_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    const err = error as Error
+    const message = err.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : `Network error: ${err.message}`
+    throw new ProviderError(message, null, true)
+  } finally {
+    // Only bounds the wait for response headers - streamed bodies are not cut off
+    clearTimeout(timer)
+  }
+}
+
+async function throwProviderError(providerName: string, response: Response): Promise<never> {
+  const error = await response.text()
+  throw new ProviderError(`${providerName} API error: ${error}`, response.status, isRetryableStatus(response.status))
+}
+
+/**
+ * Build the ordered list of providers to try
+ * An explicitly requested provider/model goes first, followed by the route for the request type.
+ * Providers without an API key configured are skipped.
+ */
+function resolveRoute(requestType: string, provider?: string, model?: string): RouteTarget[] {
+  const route = PROVIDER_ROUTES[requestType as RequestType] || PROVIDER_ROUTES.default
+  const targets: RouteTarget[] = []
+
+  const requested = provider === 'anthropic_fast' ? 'anthropic' : provider
+  if (requested && requested in PROVIDER_API_KEY_NAMES) {
+    const fallbackModel = route.find(t => t.provider === requested)?.model || PROVIDER_ROUTES.default.find(t => t.provider === requested)!.model
+    targets.push({ provider: requested as GatewayProvider, model: model || fallbackModel })
+  }
+
+  for (const target of route) {
+    if (!targets.some(t => t.provider === target.provider && t.model === target.model)) {
+      targets.push(target)
+    }
+  }
+
+  return targets.filter(target => !!Deno.env.get(PROVIDER_API_KEY_NAMES[target.provider]))
+}
+
+/**
+ * Run a provider call down the route, retrying with exponential backoff and failing over
+ * to the next provider on retryable errors. Non-retryable errors are thrown immediately.
+ */
+async function runWithFailover<T>(
+  targets: RouteTarget[],
+  call: (target: RouteTarget, apiKey: string, servedBy: ServedBy) => Promise<T>
+): Promise<{ result: T; servedBy: ServedBy }> {
+  let attempts = 0
+  let lastError: Error | null = null
+
+  for (let index = 0; index < targets.length; index++) {
+    const target = targets[index]
+    const apiKey = Deno.env.get(PROVIDER_API_KEY_NAMES[target.provider])!
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_PROVIDER; attempt++) {
+      attempts++
+      const servedBy: ServedBy = { ...target, attempts, failedOver: index > 0 }
+      try {
+        const result = await call(target, apiKey, servedBy)
+        if (attempts > 1) {
+          console.log(`[AI-Chat] Served by ${target.provider}/${target.model} after ${attempts} attempts`)
+        }
+        return { result, servedBy }
+      } catch (error) {
+        lastError = error as Error
+        if (!(error instanceof ProviderError) || !error.retryable) {
+          throw error
+        }
+        console.warn(`[AI-Chat] ${target.provider}/${target.model} attempt ${attempt} failed (${error.status ?? 'no status'}): ${error.message}`)
+        if (attempt < MAX_ATTEMPTS_PER_PROVIDER) {
+          const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 100
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+    }
+  }
+
+  throw lastError || new Error('No LLM provider available')
+}
+
 serve(async (req) => {
   const corsHeaders = getCorsHeaders(req)
 
@@ -629,12 +785,6 @@ serve(async (req) => {
   }
 
   try {
-    // Get the API key from environment variables (stored in Supabase)
-    const CLAUDE_API_KEY = Deno.env.get('CLAUDE_API_KEY')
-    if (!CLAUDE_API_KEY) {
-      throw new Error('CLAUDE_API_KEY not configured in Supabase secrets')
-    }
-
     // Verify user authentication
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -675,6 +825,7 @@ serve(async (req) => {
       stream = false, 
       enablePromptCache = true, 
       conversationId,
+      requestType = 'default',  // Selects the provider route (orchestration, title, entity_extraction)
       enableTools = false,      // Enable Bob's AI tools
       enableAnimationTools = false,  // Enable animation expression tools
       toolResults = [],         // Results from client-side tools (for follow-up)
@@ -763,75 +914,59 @@ serve(async (req) => {
       )
     }
 
-    // Log only non-sensitive metadata
-    console.log(`[AI-Chat] Provider: ${provider}, Stream: ${stream}, Messages: ${messages.length}`)
-
-    // Handle streaming vs non-streaming
-    // Support both 'anthropic' and 'anthropic_fast' providers
-    const isAnthropic = provider === 'anthropic' || provider === 'anthropic_fast'
-
-    if (stream && isAnthropic) {
-      return await streamAnthropic(
-        messages,
-        model || 'claude-3-haiku-20240307',
-        CLAUDE_API_KEY,
-        parameters,
-        corsHeaders,
-        enablePromptCache,
-        user.id,
-        supabaseAdmin,
-        usageCheck,
-        activeTools.length > 0 ? activeTools : undefined
+    // Resolve the ordered providers for this request (skipping providers without an API key)
+    const targets = resolveRoute(requestType, provider, model)
+    if (targets.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No LLM provider configured in Supabase secrets' }),
+        {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
       )
     }
 
-    // Non-streaming response
-    let response: { content: string; promptTokens: number; completionTokens: number; toolCalls?: ToolCall[]; toolResults?: ToolResult[] }
-    if (isAnthropic) {
-      response = await callAnthropic(
-        messages, 
-        model || 'claude-3-haiku-20240307', 
-        CLAUDE_API_KEY, 
-        parameters, 
-        enablePromptCache,
-        activeTools.length > 0 ? activeTools : undefined,
-        user.id,
-        supabaseAdmin,
-        usageCheck
-      )
-    } else if (provider === 'openai') {
-      const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-      if (!OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY not configured')
+    // Log only non-sensitive metadata
+    console.log(`[AI-Chat] Route: ${targets.map(t => t.provider).join(' > ')}, Type: ${requestType}, Stream: ${stream}, Messages: ${messages.length}`)
+
+    const tools = activeTools.length > 0 ? activeTools : undefined
+
+    // Only Anthropic streams - other providers answer with JSON, which the client also accepts
+    type ProviderOutcome =
+      | { streamed: Response }
+      | { content: string; promptTokens: number; completionTokens: number; toolResults?: ToolResult[]; clientToolCalls?: ToolCall[] }
+
+    const { result, servedBy } = await runWithFailover<ProviderOutcome>(targets, async (target, apiKey, attemptServedBy) => {
+      if (target.provider === 'anthropic' && stream) {
+        return {
+          streamed: await streamAnthropic(
+            messages,
+            target.model,
+            apiKey,
+            parameters,
+            corsHeaders,
+            enablePromptCache,
+            user.id,
+            supabaseAdmin,
+            usageCheck,
+            tools,
+            attemptServedBy
+          ),
+        }
       }
-      response = await callOpenAI(
-        messages,
-        model || 'gpt-4',
-        OPENAI_API_KEY,
-        parameters,
-        activeTools.length > 0 ? activeTools : undefined,
-        user.id,
-        supabaseAdmin,
-        usageCheck
-      )
-    } else if (provider === 'gemini') {
-      const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-      if (!GEMINI_API_KEY) {
-        throw new Error('GEMINI_API_KEY not configured')
+      if (target.provider === 'anthropic') {
+        return callAnthropic(messages, target.model, apiKey, parameters, enablePromptCache, tools, user.id, supabaseAdmin, usageCheck)
       }
-      response = await callGemini(
-        messages,
-        model || 'gemini-1.5-flash',
-        GEMINI_API_KEY,
-        parameters,
-        activeTools.length > 0 ? activeTools : undefined,
-        user.id,
-        supabaseAdmin,
-        usageCheck
-      )
-    } else {
-      throw new Error(`Unsupported provider: ${provider}`)
+      if (target.provider === 'openai') {
+        return callOpenAI(messages, target.model, apiKey, parameters, tools, user.id, supabaseAdmin, usageCheck)
+      }
+      return callGemini(messages, target.model, apiKey, parameters, tools, user.id, supabaseAdmin, usageCheck)
+    })
+
+    if ('streamed' in result) {
+      return result.streamed
     }
+    const response = result
 
     // Record token usage (skip for admin)
     let updatedUsage = usageCheck
@@ -879,6 +1014,7 @@ serve(async (req) => {
         // Include tool execution results
         toolResults: response.toolResults,
         clientToolCalls: response.clientToolCalls,
+        servedBy,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -890,7 +1026,8 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ error: error.message }),
       {
-        status: 500,
+        // Upstream provider failures (after retries and failover) are a bad gateway, not our bug
+        status: error instanceof ProviderError ? 502 : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
@@ -911,7 +1048,8 @@ async function streamAnthropic(
   userId?: string,
   supabaseAdmin?: any,
   usageCheck?: UsageCheck | null,
-  tools?: UnifiedTool[]
+  tools?: UnifiedTool[],
+  servedBy?: ServedBy
 ): Promise<Response> {
   const systemMessage = messages.find(m => m.role === 'system')
   const conversationMessages = messages.filter(m => m.role !== 'system')
@@ -962,15 +1100,14 @@ async function streamAnthropic(
     headers['anthropic-beta'] = 'prompt-caching-2024-07-31'
   }
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+  const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers,
     body: JSON.stringify(requestBody),
   })
 
   if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Anthropic API error: ${error}`)
+    await throwProviderError('Anthropic', response)
   }
 
   // Create a TransformStream to process SSE events
@@ -1120,7 +1257,7 @@ async function streamAnthropic(
                 }
                 // Send timing info
                 const startTime = Date.now()
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ type: 'start', timestamp: startTime })}\n\n`))
+                await writer.write(encoder.encode(`data: ${JSON.stringify({ type: 'start', timestamp: startTime, servedBy })}\n\n`))
               } else if (parsed.type === 'message_delta') {
                 // Capture final usage from message_delta
                 if (parsed.usage) {
@@ -1214,15 +1351,14 @@ async function callAnthropic(
     headers['anthropic-beta'] = 'prompt-caching-2024-07-31'
   }
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+  const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers,
     body: JSON.stringify(requestBody),
   })
 
   if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Anthropic API error: ${error}`)
+    await throwProviderError('Anthropic', response)
   }
 
   const data = await response.json()
@@ -1294,7 +1430,7 @@ async function callOpenAI(
   if (parameters.frequencyPenalty !== undefined) requestBody.frequency_penalty = parameters.frequencyPenalty
   if (parameters.presencePenalty !== undefined) requestBody.presence_penalty = parameters.presencePenalty
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+  const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -1304,8 +1440,7 @@ async function callOpenAI(
   })
 
   if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`OpenAI API error: ${error}`)
+    await throwProviderError('OpenAI', response)
   }
 
   const data = await response.json()
@@ -1380,7 +1515,7 @@ async function callGemini(
     requestBody.tools = toGeminiTools(tools)
   }
 
-  const response = await fetch(
+  const response = await fetchWithTimeout(
     `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
     {
       method: 'POST',
@@ -1390,8 +1525,7 @@ async function callGemini(
   )
 
   if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Gemini API error: ${error}`)
+    await throwProviderError('Gemini', response)
   }
 
   const data = await response.json()
@@ -3,6 +3,12 @@
  *
  * Converts text to speech using Google Cloud Text-to-Speech API
  * Returns base64-encoded audio that can be played on any platform
+ * With `timepoints: true` also returns the start time of every word (for lip sync)
+ * Accepts client-built `ssml` (per-segment prosody); `text` is still required
+ * and is what the client's word marks refer to
+ * The voice is chosen per character on the client (src/config/cloudVoices.ts)
+ * and sent as `voice` + `ssmlGender`. Callers that only send `characterId` get
+ * that character's stored voice; otherwise a default for the gender is used
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -15,22 +21,66 @@ const corsHeaders = {
 
 // Google Cloud TTS API endpoint
 const GOOGLE_TTS_URL = "https://texttospeech.googleapis.com/v1/text:synthesize";
+// Timepointing (SSML marks) is only available on v1beta1
+const GOOGLE_TTS_BETA_URL = "https://texttospeech.googleapis.com/v1beta1/text:synthesize";
 
-// Default voice settings
-const DEFAULT_VOICE = {
-  languageCode: "en-US",
-  name: "en-US-Neural2-D",
-  ssmlGender: "MALE",
+// Google rejects input over 5000 bytes
+const MAX_SSML_BYTES = 5000;
+
+// Default voices when the client doesn't pick one
+const DEFAULT_VOICES: Record<string, { name: string; ssmlGender: string }> = {
+  MALE: { name: "en-US-Neural2-D", ssmlGender: "MALE" },       // Deep, calm
+  FEMALE: { name: "en-US-Neural2-F", ssmlGender: "FEMALE" },   // Warm female
 };
 
-// Character voice mappings
+// Built-in characters' voices (cloudVoice in src/config/characters.ts)
 const CHARACTER_VOICES: Record<string, { name: string; ssmlGender: string }> = {
-  freud: { name: "en-US-Neural2-D", ssmlGender: "MALE" },      // Deep, calm
-  jung: { name: "en-US-Neural2-J", ssmlGender: "MALE" },       // Warm, friendly
-  adler: { name: "en-US-Neural2-A", ssmlGender: "MALE" },      // Clear, professional
-  default: { name: "en-US-Neural2-F", ssmlGender: "FEMALE" },  // Warm female
+  freud: { name: "en-US-Neural2-D", ssmlGender: "MALE" },
+  jung: { name: "en-US-Neural2-J", ssmlGender: "MALE" },
+  adler: { name: "en-US-Neural2-A", ssmlGender: "MALE" },
+  seligman: { name: "en-US-Wavenet-D", ssmlGender: "MALE" },
+  frankl: { name: "en-US-Wavenet-J", ssmlGender: "MALE" },
+  epictetus: { name: "en-US-Wavenet-B", ssmlGender: "MALE" },
+  nietzsche: { name: "en-GB-Neural2-D", ssmlGender: "MALE" },
+  csikszentmihalyi: { name: "en-AU-Neural2-B", ssmlGender: "MALE" },
+  "bob-tutorial": { name: "en-US-Neural2-I", ssmlGender: "MALE" },
+  blackbeard: { name: "en-GB-Neural2-B", ssmlGender: "MALE" },
 };
 
+// Google voice names: <language>-<REGION>-<type>-<variant>, e.g. en-GB-Neural2-B
+const VOICE_NAME_PATTERN = /^[a-z]{2,3}-[A-Z]{2}-[A-Za-z0-9]+-[A-Z0-9]+$/;
+
+function getVoiceLanguage(voiceName: string): string {
+  return voiceName.split("-").slice(0, 2).join("-");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Wrap text in SSML with a mark before every word, named by the word's
+ * character offset so the client can match timepoints back to the text
+ */
+function buildMarkedSsml(text: string): string {
+  let ssml = "";
+  let lastIndex = 0;
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    ssml += escapeXml(text.slice(lastIndex, match.index));
+    ssml += `<mark name="${match.index}"/>${escapeXml(match[0])}`;
+    lastIndex = match.index + match[0].length;
+  }
+  ssml += escapeXml(text.slice(lastIndex));
+  return `<speak>${ssml}</speak>`;
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -63,7 +113,7 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { text, characterId, voice, languageCode, speakingRate, pitch } = await req.json();
+    const { text, ssml, characterId, voice, ssmlGender, languageCode, speakingRate, pitch, timepoints } = await req.json();
 
     if (!text || text.trim().length === 0) {
       return new Response(
@@ -72,6 +122,16 @@ serve(async (req) => {
       );
     }
 
+    if (ssml !== undefined) {
+      const isValidSsml = typeof ssml === "string" && ssml.startsWith("<speak>") && ssml.endsWith("</speak>");
+      if (!isValidSsml || new TextEncoder().encode(ssml).length > MAX_SSML_BYTES) {
+        return new Response(
+          JSON.stringify({ error: "Invalid SSML" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // Get Google Cloud API key from environment
     const googleApiKey = Deno.env.get("GOOGLE_CLOUD_API_KEY");
     if (!googleApiKey) {
@@ -82,24 +142,41 @@ serve(async (req) => {
       );
     }
 
-    // Determine voice settings
-    let voiceConfig = { ...DEFAULT_VOICE };
-
-    if (characterId && CHARACTER_VOICES[characterId.toLowerCase()]) {
-      const charVoice = CHARACTER_VOICES[characterId.toLowerCase()];
-      voiceConfig.name = charVoice.name;
-      voiceConfig.ssmlGender = charVoice.ssmlGender;
-    } else if (voice) {
-      voiceConfig.name = voice;
+    // No voice from the client: the character's own (built-in, then custom character's stored voice)
+    let characterVoice: { name: string; ssmlGender: string } | undefined;
+    if (typeof voice !== "string" && typeof characterId === "string") {
+      characterVoice = CHARACTER_VOICES[characterId.toLowerCase()];
+      if (!characterVoice) {
+        const { data: wakattor } = await supabaseClient
+          .from("custom_wakattors")
+          .select("cloud_voice")
+          .eq("character_id", characterId)
+          .maybeSingle();
+        const stored = wakattor?.cloud_voice;
+        if (stored && typeof stored.name === "string" && VOICE_NAME_PATTERN.test(stored.name)) {
+          characterVoice = { name: stored.name, ssmlGender: stored.gender === "FEMALE" ? "FEMALE" : "MALE" };
+        }
+      }
     }
 
-    if (languageCode) {
-      voiceConfig.languageCode = languageCode;
-    }
+    // Determine voice settings - the voice name carries its language ("en-GB-...")
+    const requestedGender = ssmlGender ?? characterVoice?.ssmlGender;
+    const defaultVoice = DEFAULT_VOICES[requestedGender === "FEMALE" ? "FEMALE" : "MALE"];
+    const requestedVoice = typeof voice === "string" && VOICE_NAME_PATTERN.test(voice) ? voice : undefined;
+    const fallbackVoice = characterVoice?.name ?? defaultVoice.name;
+    const voiceLanguage = languageCode || getVoiceLanguage(requestedVoice ?? fallbackVoice);
+    // Fallback voices are tied to their language - for other languages Google picks one by gender
+    const voiceName = requestedVoice ?? (voiceLanguage === getVoiceLanguage(fallbackVoice) ? fallbackVoice : undefined);
+    const voiceConfig = {
+      languageCode: voiceLanguage,
+      ...(voiceName ? { name: voiceName } : {}),
+      ssmlGender: requestedGender === "MALE" || requestedGender === "FEMALE" ? requestedGender : defaultVoice.ssmlGender,
+    };
 
     // Prepare Google Cloud TTS request
-    const ttsRequest = {
-      input: { text },
+    const ttsRequest: Record<string, unknown> = {
+      // Client SSML carries its own word marks; plain text gets them added here
+      input: ssml ? { ssml } : timepoints ? { ssml: buildMarkedSsml(text) } : { text },
       voice: voiceConfig,
       audioConfig: {
         audioEncoding: "MP3",
@@ -109,10 +186,15 @@ serve(async (req) => {
       },
     };
 
-    console.log(`[TTS] Synthesizing ${text.length} chars with voice ${voiceConfig.name}`);
+    if (timepoints) {
+      ttsRequest.enableTimePointing = ["SSML_MARK"];
+    }
+
+    console.log(`[TTS] Synthesizing ${text.length} chars${ssml ? " (SSML)" : ""} for ${characterId || "unknown"} with voice ${voiceName ?? voiceLanguage}`);
 
     // Call Google Cloud TTS API
-    const ttsResponse = await fetch(`${GOOGLE_TTS_URL}?key=${googleApiKey}`, {
+    const ttsUrl = timepoints ? GOOGLE_TTS_BETA_URL : GOOGLE_TTS_URL;
+    const ttsResponse = await fetch(`${ttsUrl}?key=${googleApiKey}`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -138,6 +220,13 @@ serve(async (req) => {
         audioContent: ttsData.audioContent,
         audioEncoding: "MP3",
         characterCount: text.length,
+        // Word start times: mark name is the word's character offset
+        timepoints: timepoints
+          ? (ttsData.timepoints || []).map((tp: { markName: string; timeSeconds: number }) => ({
+              charIndex: parseInt(tp.markName, 10),
+              time: Math.round(tp.timeSeconds * 1000),
+            }))
+          : undefined,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
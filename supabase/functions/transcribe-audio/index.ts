@@ -3,6 +3,9 @@
  *
  * Transcribes audio using OpenAI's Whisper API
  * Used for mobile app speech-to-text (Web Speech API not available on mobile)
+ *
+ * Returns the same shape as the app's other STT providers (TranscriptionResult):
+ * text, confidence (0-1) and word timestamps in seconds.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -45,7 +48,7 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { audio, mimeType } = await req.json();
+    const { audio, mimeType, language } = await req.json();
 
     if (!audio) {
       return new Response(
@@ -74,7 +77,10 @@ serve(async (req) => {
     const formData = new FormData();
     formData.append("file", new Blob([binaryAudio], { type: mimeType }), `audio.${extension}`);
     formData.append("model", "whisper-1");
-    formData.append("language", "en"); // TODO: Make configurable
+    formData.append("language", getWhisperLanguage(language));
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "word");
+    formData.append("timestamp_granularities[]", "segment");
 
     console.log(`[Transcribe] Sending ${binaryAudio.length} bytes to Whisper API`);
 
@@ -102,7 +108,12 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         text: result.text,
-        confidence: 0.95, // Whisper doesn't return confidence, use default
+        confidence: getSegmentConfidence(result.segments),
+        words: (result.words ?? []).map((word: { word: string; start: number; end: number }) => ({
+          text: word.word.trim(),
+          start: word.start,
+          end: word.end,
+        })),
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -115,6 +126,26 @@ serve(async (req) => {
   }
 });
 
+/**
+ * Whisper takes ISO 639-1 codes - accept locales too ("es-ES" -> "es")
+ */
+function getWhisperLanguage(language: unknown): string {
+  if (typeof language !== "string") return "en";
+  const code = language.toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2}$/.test(code) ? code : "en";
+}
+
+/**
+ * Whisper doesn't score transcripts - derive 0-1 confidence from the segments' avg_logprob
+ */
+function getSegmentConfidence(segments: { avg_logprob?: number }[] | undefined): number {
+  const logProbs = (segments ?? [])
+    .map((segment) => segment.avg_logprob)
+    .filter((logProb): logProb is number => typeof logProb === "number");
+  if (logProbs.length === 0) return 0.95; // No segments - keep the old default
+  return logProbs.reduce((sum, logProb) => sum + Math.exp(logProb), 0) / logProbs.length;
+}
+
 /**
  * Get file extension from MIME type
  */
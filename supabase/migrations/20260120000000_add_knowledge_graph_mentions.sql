@@ -0,0 +1,55 @@
+-- Migration: Knowledge graph mentions and entity statistics
+-- Created: 2026-01-20
+-- Description: Adds mention tracking to entities and an entity_mentions table
+-- linking entities to the messages they appear in. Entity-to-entity edges are
+-- stored in the existing relationships table.
+
+-- ============================================
+-- 1. ENTITY MENTION STATISTICS
+-- ============================================
+ALTER TABLE entities
+ADD COLUMN IF NOT EXISTS mention_count INTEGER DEFAULT 0;
+
+ALTER TABLE entities
+ADD COLUMN IF NOT EXISTS first_mentioned TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE entities
+ADD COLUMN IF NOT EXISTS last_mentioned TIMESTAMPTZ DEFAULT NOW();
+
+-- Entity lookups during extraction match on user + name + type
+CREATE INDEX IF NOT EXISTS idx_entities_user_name_type
+ON entities(user_id, name, type);
+
+COMMENT ON COLUMN entities.type IS 'Entity type: person, place, organization, event, topic or emotion';
+COMMENT ON COLUMN entities.mention_count IS 'Number of messages this entity has been mentioned in';
+
+-- ============================================
+-- 2. ENTITY MENTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS entity_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_mentions_entity ON entity_mentions(entity_id);
+CREATE INDEX IF NOT EXISTS idx_entity_mentions_message ON entity_mentions(message_id);
+CREATE INDEX IF NOT EXISTS idx_entity_mentions_user ON entity_mentions(user_id);
+
+ALTER TABLE entity_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own entity_mentions"
+  ON entity_mentions FOR ALL
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE entity_mentions IS 'Links knowledge graph entities to the messages and conversations that mention them';
+
+-- ============================================
+-- 3. RELATIONSHIP LOOKUPS
+-- ============================================
+-- Extraction strengthens an existing edge instead of inserting a duplicate
+CREATE INDEX IF NOT EXISTS idx_relationships_edge
+ON relationships(user_id, entity_from, entity_to, relationship_type);
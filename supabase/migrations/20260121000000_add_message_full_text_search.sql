@@ -0,0 +1,72 @@
+-- Migration: Full-text search over message contents
+-- Created: 2026-01-21
+-- Description: Adds a generated tsvector column on messages with a GIN index,
+-- and a search_messages() RPC returning ranked results with highlighted snippets.
+
+-- ============================================
+-- 1. SEARCH VECTOR + INDEX
+-- ============================================
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+GENERATED ALWAYS AS (to_tsvector('english', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_tsv
+ON messages USING GIN(content_tsv);
+
+COMMENT ON COLUMN messages.content_tsv IS 'Full-text search vector for content (english config), maintained by Postgres';
+
+-- ============================================
+-- 2. SEARCH FUNCTION
+-- ============================================
+-- SECURITY INVOKER so the existing messages/conversations RLS policies decide
+-- which rows a user can find (own conversations and shared ones they joined).
+-- Highlighted terms in the snippet are wrapped in [[ and ]].
+CREATE OR REPLACE FUNCTION search_messages(
+  p_query TEXT,
+  p_character_id TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  character_id TEXT,
+  created_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  v_query TSQUERY := websearch_to_tsquery('english', p_query);
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    m.character_id,
+    m.created_at,
+    ts_headline(
+      'english',
+      m.content,
+      v_query,
+      'StartSel=[[, StopSel=]], MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    ts_rank(m.content_tsv, v_query)
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  WHERE m.content_tsv @@ v_query
+    AND (p_character_id IS NULL OR m.character_id = p_character_id)
+    AND (p_role IS NULL OR m.role = p_role)
+    AND (p_from IS NULL OR m.created_at >= p_from)
+    AND (p_to IS NULL OR m.created_at <= p_to)
+  ORDER BY ts_rank(m.content_tsv, v_query) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+COMMENT ON FUNCTION search_messages IS 'Ranked full-text search over messages visible to the caller, with [[highlighted]] snippets';
@@ -0,0 +1,20 @@
+-- Migration: Keep old branches when a message is edited
+-- Created: 2026-01-22
+-- Description: Editing a past user message replaces it and everything after it.
+-- Instead of deleting the old branch, those rows point at the message that replaced them.
+
+-- ============================================
+-- 1. SUPERSEDED_BY COLUMN
+-- ============================================
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN messages.superseded_by IS 'Message that replaced this one (edit or regenerate). NULL = part of the visible conversation';
+
+-- ============================================
+-- 2. INDEX
+-- ============================================
+-- Conversation loads only fetch the visible path
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_visible
+ON messages(conversation_id, created_at)
+WHERE superseded_by IS NULL;
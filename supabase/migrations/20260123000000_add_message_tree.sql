@@ -0,0 +1,68 @@
+-- Migration: Branching conversation trees
+-- Created: 2026-01-23
+-- Description: Messages form a tree through parent_message_id. A conversation shows
+-- one path from a root to a leaf; editing a message starts a sibling branch.
+-- Existing conversations are backfilled as a single chain in created_at order.
+
+-- ============================================
+-- 1. PARENT COLUMN + INDEX
+-- ============================================
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS parent_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent
+ON messages(parent_message_id);
+
+COMMENT ON COLUMN messages.parent_message_id IS 'Previous message on this branch. NULL = root of the conversation tree';
+
+-- ============================================
+-- 2. BACKFILL: LINEAR CHAINS
+-- ============================================
+-- Every message hangs off the one created just before it in the same conversation
+WITH ordered AS (
+  SELECT
+    id,
+    LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM messages
+)
+UPDATE messages m
+SET parent_message_id = ordered.previous_id
+FROM ordered
+WHERE m.id = ordered.id
+  AND m.parent_message_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+-- ============================================
+-- 3. BACKFILL: EDITED MESSAGES BECOME SIBLINGS
+-- ============================================
+-- An edit (metadata.edited_from) shares the parent of the original message it replaced.
+-- Edits of edits are followed back to the first original.
+WITH RECURSIVE edit_chain AS (
+  SELECT id AS edit_id, (metadata->>'edited_from')::UUID AS original_id
+  FROM messages
+  WHERE metadata ? 'edited_from'
+  UNION ALL
+  SELECT ec.edit_id, (o.metadata->>'edited_from')::UUID
+  FROM edit_chain ec
+  JOIN messages o ON o.id = ec.original_id
+  WHERE o.metadata ? 'edited_from'
+),
+roots AS (
+  SELECT DISTINCT ON (ec.edit_id) ec.edit_id, o.parent_message_id
+  FROM edit_chain ec
+  JOIN messages o ON o.id = ec.original_id
+  WHERE NOT (o.metadata ? 'edited_from')
+)
+UPDATE messages m
+SET parent_message_id = roots.parent_message_id
+FROM roots
+WHERE m.id = roots.edit_id;
+
+-- The old branch is now reachable as a sibling, so it no longer needs hiding
+UPDATE messages m
+SET superseded_by = NULL
+FROM messages replacement
+WHERE replacement.id = m.superseded_by
+  AND replacement.metadata ? 'edited_from';
+
+COMMENT ON COLUMN messages.superseded_by IS 'Message that replaced this one when its turn was regenerated. Hidden from the conversation path';
@@ -0,0 +1,63 @@
+-- Migration: Long-term user memories
+-- Created: 2026-01-24
+-- Description: Durable facts about the user, distilled from finished conversations.
+-- A fact can belong to one wakattor (character_id) or be shared by all (NULL).
+-- Relevant facts are retrieved per turn and injected into the orchestration prompt.
+
+-- ============================================
+-- 1. USER_MEMORIES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_memories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  character_id TEXT,
+  fact TEXT NOT NULL CHECK (char_length(fact) BETWEEN 1 AND 500),
+  importance SMALLINT NOT NULL DEFAULT 3 CHECK (importance BETWEEN 1 AND 5),
+  source_conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  last_recalled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_character
+ON user_memories(user_id, character_id);
+
+DROP TRIGGER IF EXISTS update_user_memories_updated_at ON user_memories;
+CREATE TRIGGER update_user_memories_updated_at
+  BEFORE UPDATE ON user_memories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE user_memories IS 'Long-term facts about a user that wakattors recall across conversations';
+COMMENT ON COLUMN user_memories.character_id IS 'Wakattor the fact was shared with. NULL = known to every wakattor';
+COMMENT ON COLUMN user_memories.importance IS '1 (trivia) to 5 (core to who the user is); used to rank recall';
+
+-- ============================================
+-- 2. TRACK SUMMARIZED CONVERSATIONS
+-- ============================================
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS memories_extracted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN conversations.memories_extracted_at IS 'When the conversation was last summarized into user_memories';
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "user_memories_select" ON user_memories;
+DROP POLICY IF EXISTS "user_memories_insert" ON user_memories;
+DROP POLICY IF EXISTS "user_memories_update" ON user_memories;
+DROP POLICY IF EXISTS "user_memories_delete" ON user_memories;
+
+CREATE POLICY "user_memories_select" ON user_memories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "user_memories_insert" ON user_memories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "user_memories_update" ON user_memories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "user_memories_delete" ON user_memories
+  FOR DELETE USING (auth.uid() = user_id);
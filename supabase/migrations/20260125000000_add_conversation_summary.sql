@@ -0,0 +1,23 @@
+-- Migration: Rolling conversation summaries
+-- Created: 2026-01-25
+-- Description: Long conversations keep a rolling summary of their older turns.
+-- The orchestration prompt sends the summary plus the most recent messages
+-- instead of the full history, bounding prompt size.
+
+-- ============================================
+-- 1. SUMMARY COLUMNS
+-- ============================================
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS summary TEXT;
+
+-- Last message covered by the summary. Cleared if that message is deleted,
+-- which makes the client rebuild the summary on the next turn.
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS summary_through_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS summary_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN conversations.summary IS 'Rolling summary of older turns, sent in place of the full history';
+COMMENT ON COLUMN conversations.summary_through_message_id IS 'Last message included in the summary (on the branch it was built from)';
+COMMENT ON COLUMN conversations.summary_updated_at IS 'When the summary was last rolled forward';
@@ -0,0 +1,27 @@
+-- Migration: LLM gateway routing metadata
+-- Created: 2026-01-26
+-- Description: The ai-chat gateway can retry and fail over between providers.
+-- provider/model now record what actually served the call; these columns record
+-- what was asked for and how many attempts it took.
+
+-- ============================================
+-- 1. ROUTING COLUMNS
+-- ============================================
+ALTER TABLE llm_call_logs
+ADD COLUMN IF NOT EXISTS requested_provider TEXT;
+
+ALTER TABLE llm_call_logs
+ADD COLUMN IF NOT EXISTS attempts SMALLINT;
+
+ALTER TABLE llm_call_logs
+ADD COLUMN IF NOT EXISTS failed_over BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN llm_call_logs.provider IS 'Provider that actually served the call';
+COMMENT ON COLUMN llm_call_logs.requested_provider IS 'Provider the client asked for (first choice)';
+COMMENT ON COLUMN llm_call_logs.attempts IS 'Provider attempts made by the gateway, including retries';
+COMMENT ON COLUMN llm_call_logs.failed_over IS 'True if a fallback provider served the call';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_llm_call_logs_failed_over ON llm_call_logs(failed_over) WHERE failed_over = true;
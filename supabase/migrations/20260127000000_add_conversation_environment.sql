@@ -0,0 +1,13 @@
+-- Migration: Scene environments per conversation
+-- Created: 2026-01-27
+-- Description: Each conversation can have a themed 3D backdrop (therapist's office,
+-- campfire, library, stage) drawn behind the characters. Set by the user, suggested
+-- by conversation-starter stories, or changed by the LLM ("env" in a scene).
+
+-- ============================================
+-- 1. ENVIRONMENT COLUMN
+-- ============================================
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS environment TEXT;
+
+COMMENT ON COLUMN conversations.environment IS 'Scene environment id (see src/config/sceneEnvironments.ts); NULL means no backdrop';
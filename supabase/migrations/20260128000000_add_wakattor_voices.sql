@@ -0,0 +1,15 @@
+-- Migration: Per-character voices for custom Wakattors
+-- Created: 2026-01-28
+-- Description: Custom Wakattors store their voice profile (pitch, tone, pace...)
+-- and the Google Cloud TTS voice picked for them (see src/config/cloudVoices.ts).
+-- Rows without a cloud voice get one derived from voice_profile and gender on the client.
+
+-- ============================================
+-- 1. VOICE COLUMNS
+-- ============================================
+ALTER TABLE custom_wakattors
+ADD COLUMN IF NOT EXISTS voice_profile JSONB,
+ADD COLUMN IF NOT EXISTS cloud_voice JSONB;
+
+COMMENT ON COLUMN custom_wakattors.voice_profile IS 'CharacterVoiceProfile (src/config/voiceConfig.ts); NULL uses default voice parameters';
+COMMENT ON COLUMN custom_wakattors.cloud_voice IS 'Cloud TTS voice: {"name": "en-US-Neural2-F", "gender": "FEMALE", "pitch"?: semitone offset}';
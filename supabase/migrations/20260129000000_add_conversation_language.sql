@@ -0,0 +1,13 @@
+-- Migration: Conversation language
+-- Created: 2026-01-29
+-- Description: A conversation can be held in another language than the user's
+-- default (set in Settings). It drives speech recognition, TTS voices, greetings
+-- and the language the characters reply in.
+
+-- ============================================
+-- 1. LANGUAGE COLUMN
+-- ============================================
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS language TEXT;
+
+COMMENT ON COLUMN conversations.language IS 'ISO 639-1 language code (see src/config/languages.ts); NULL means the user''s default language';
@@ -0,0 +1,13 @@
+-- Migration: User language
+-- Created: 2026-01-30
+-- Description: The user's default conversation language (Settings) is kept on
+-- their profile so it follows them between devices. Conversations can still
+-- override it (conversations.language).
+
+-- ============================================
+-- 1. LANGUAGE COLUMN
+-- ============================================
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS language TEXT;
+
+COMMENT ON COLUMN user_profiles.language IS 'ISO 639-1 language code (see src/config/languages.ts); NULL means the app default (English)';
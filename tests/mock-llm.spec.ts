@@ -0,0 +1,83 @@
+import { test, expect, Page } from '@playwright/test';
+
+/**
+ * Chat turns against the mock LLM provider (src/services/mockLLMProvider.ts)
+ *
+ * window.__WAKATTO_MOCK_LLM__ is injected before the app loads, which switches the
+ * AI service to the mock: no network, no API key, deterministic responses.
+ */
+
+// First line of the mock provider's built-in scene
+const MOCK_SCENE_LINE = 'Okay, that actually got my attention. Tell me more.';
+const FALLBACK_MESSAGE = "I'm having trouble connecting right now";
+
+async function sendMessage(page: Page, text: string) {
+  const input = page.getByPlaceholder('Type in here..');
+  await expect(input).toBeVisible({ timeout: 30000 });
+  await input.fill(text);
+  await input.press('Enter');
+}
+
+test.describe('Mock LLM Provider', () => {
+  let logs: string[];
+
+  test.beforeEach(async ({ page }) => {
+    logs = [];
+    page.on('console', msg => {
+      logs.push(msg.text());
+    });
+
+    await page.addInitScript(() => {
+      (window as any).__WAKATTO_MOCK_LLM__ = {
+        latencyMs: 0,
+        fixtures: [
+          // No response: the built-in scene for the prompt's characters, streamed slowly
+          { name: 'slow-scene', match: '/^stream this turn/i', latencyMs: 300 },
+        ],
+      };
+    });
+
+    await page.goto('http://localhost:19006');
+    await page.waitForLoadState('networkidle');
+
+    // Quick login (assuming dev login is available)
+    const loginButton = page.getByText('Quick Dev Login');
+    if (await loginButton.isVisible()) {
+      await loginButton.click();
+      await page.waitForTimeout(2000); // Wait for login to complete
+    }
+  });
+
+  test('streams an orchestration turn into the chat', async ({ page }) => {
+    await sendMessage(page, 'Stream this turn please');
+
+    await expect(page.getByText(MOCK_SCENE_LINE).first()).toBeVisible({ timeout: 30000 });
+
+    expect(logs.some(log => log.includes('[MockLLM] Loaded 1 injected fixtures'))).toBe(true);
+    expect(logs.some(log => log.includes('[AnimatedOrch-Stream] Failed to parse'))).toBe(false);
+    console.log('✅ Streamed mock scene rendered');
+  });
+
+  test('shows the fallback message when the token limit is exceeded', async ({ page }) => {
+    await sendMessage(page, 'Hello there [mock:limit]');
+
+    await expect(page.getByText(FALLBACK_MESSAGE).first()).toBeVisible({ timeout: 30000 });
+
+    expect(logs.some(log => log.includes('[MockLLM] Simulating limit_exceeded'))).toBe(true);
+    await expect(page.getByText(MOCK_SCENE_LINE)).toHaveCount(0);
+    console.log('✅ Limit exceeded handled');
+  });
+
+  test('falls back when the model returns malformed JSON', async ({ page }) => {
+    await sendMessage(page, 'Hello there [mock:malformed]');
+
+    await expect
+      .poll(() => logs.some(log => log.includes('[AnimatedOrch-Stream] Failed to parse, falling back')), { timeout: 30000 })
+      .toBe(true);
+
+    // Truncated JSON fails the simple format too, so the turn ends with the saved fallback
+    await expect(page.getByText(FALLBACK_MESSAGE).first()).toBeVisible({ timeout: 30000 });
+    expect(logs.some(log => log.includes('[SingleCall] Failed to parse response'))).toBe(true);
+    console.log('✅ Malformed JSON handled');
+  });
+});